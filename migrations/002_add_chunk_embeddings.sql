@@ -0,0 +1,36 @@
+-- Migration: Add embeddings to transcript chunks
+-- Run BEFORE deploying code that writes transcript_chunk.embedding
+--
+-- Uses text-embedding-3-small (1536 dims) by default; EMBEDDING_PROVIDER=local
+-- writes deterministic stub vectors tagged "local/hashing-v1" in embedding_model.
+-- Existing chunks are filled in by the "Backfill Embeddings" admin job.
+
+-- ============================================
+-- STEP 1: Enable pgvector
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- ============================================
+-- STEP 2: Add embedding columns
+-- ============================================
+
+ALTER TABLE transcript_chunk ADD COLUMN IF NOT EXISTS embedding vector(1536);
+ALTER TABLE transcript_chunk ADD COLUMN IF NOT EXISTS embedding_model text;
+
+-- ============================================
+-- STEP 3: HNSW index for cosine similarity
+-- ============================================
+
+-- CONCURRENTLY avoids locking writes; run outside a transaction
+CREATE INDEX CONCURRENTLY IF NOT EXISTS transcript_chunk_embedding_idx
+  ON transcript_chunk USING hnsw (embedding vector_cosine_ops);
+
+-- ============================================
+-- STEP 4: Verify
+-- ============================================
+
+SELECT
+  count(*) AS total_chunks,
+  count(embedding) AS embedded_chunks
+FROM transcript_chunk;
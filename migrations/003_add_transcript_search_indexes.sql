@@ -0,0 +1,30 @@
+-- Migration: Full-text search indexes for transcript search
+-- Backs episodes.searchTranscripts, which ranks transcript chunks and
+-- summaries with ts_rank_cd. The expressions must match the queries exactly
+-- (to_tsvector('english', ...)) for Postgres to use the indexes.
+
+-- ============================================
+-- STEP 1: Transcript chunk content
+-- ============================================
+
+-- CONCURRENTLY avoids locking writes; run outside a transaction
+CREATE INDEX CONCURRENTLY IF NOT EXISTS transcript_chunk_content_search_idx
+  ON transcript_chunk USING gin (to_tsvector('english', content));
+
+-- ============================================
+-- STEP 2: Episode summary markdown
+-- ============================================
+
+CREATE INDEX CONCURRENTLY IF NOT EXISTS episode_summary_content_search_idx
+  ON episode_summary USING gin (to_tsvector('english', markdown_content));
+
+-- ============================================
+-- STEP 3: Verify
+-- ============================================
+
+SELECT indexname, indexdef
+FROM pg_indexes
+WHERE indexname IN (
+  'transcript_chunk_content_search_idx',
+  'episode_summary_content_search_idx'
+);
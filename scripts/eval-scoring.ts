@@ -0,0 +1,133 @@
+/**
+ * Offline scoring evaluation against hand-labeled saves and skips.
+ *
+ * Usage:
+ *   pnpm tsx scripts/eval-scoring.ts [--dataset usman-analysis.json]
+ *     [--scorer heuristics|quality|judge|judge-stub] [--threshold 60]
+ *     [--model x-ai/grok-4-fast] [--weights weights.json] [--limit 25]
+ *     [--baseline eval/heuristics.json] [--out eval]
+ */
+
+import "dotenv/config";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { openrouter } from "@/ai/models";
+import type { QualityWeights } from "@/server/lib/quality-preferences";
+import {
+  compareToBaseline,
+  createHeuristicsScorer,
+  createJudgeScorer,
+  createQualityScorer,
+  type EvalReport,
+  type EvalScorer,
+  evaluateScorer,
+  formatReportMarkdown,
+  isRegression,
+  learnWeightsFromDataset,
+  limitDataset,
+  loadLabeledDataset,
+  stubJudge,
+} from "@/server/lib/scoring-eval";
+
+const SCORERS = ["heuristics", "quality", "judge", "judge-stub"] as const;
+type ScorerName = (typeof SCORERS)[number];
+
+const { values } = parseArgs({
+  options: {
+    dataset: { type: "string", default: "usman-analysis.json" },
+    scorer: { type: "string", default: "heuristics" },
+    threshold: { type: "string" },
+    model: { type: "string" },
+    weights: { type: "string" },
+    limit: { type: "string" },
+    baseline: { type: "string" },
+    out: { type: "string" },
+  },
+});
+
+async function buildScorer(
+  name: ScorerName,
+  dataset: Awaited<ReturnType<typeof loadLabeledDataset>>,
+): Promise<EvalScorer> {
+  switch (name) {
+    case "heuristics":
+      return createHeuristicsScorer();
+    case "quality": {
+      if (values.weights) {
+        const weights = JSON.parse(
+          await readFile(values.weights, "utf8"),
+        ) as QualityWeights;
+        return createQualityScorer(weights);
+      }
+      console.warn("⚠️  No --weights given, learning them in-sample\n");
+      return createQualityScorer(
+        learnWeightsFromDataset(dataset),
+        "quality (in-sample)",
+      );
+    }
+    case "judge":
+      return createJudgeScorer({
+        name: values.model ? `judge (${values.model})` : "judge",
+        model: values.model ? openrouter(values.model) : undefined,
+      });
+    case "judge-stub":
+      return createJudgeScorer({ name: "judge-stub", judge: stubJudge });
+  }
+}
+
+async function main() {
+  const scorerName = values.scorer as ScorerName;
+  if (!SCORERS.includes(scorerName)) {
+    console.error(
+      `Unknown scorer "${values.scorer}". Use one of: ${SCORERS.join(", ")}`,
+    );
+    process.exit(1);
+  }
+
+  let dataset = await loadLabeledDataset(values.dataset);
+  if (values.limit) {
+    dataset = limitDataset(dataset, Number(values.limit));
+  }
+  if (dataset.length === 0) {
+    console.error(`No labeled chunks found in ${values.dataset}`);
+    process.exit(1);
+  }
+
+  console.log(
+    `🧪 Evaluating ${scorerName} on ${dataset.length} chunks from ${values.dataset}\n`,
+  );
+
+  const scorer = await buildScorer(scorerName, dataset);
+  const report = await evaluateScorer({
+    scorer,
+    dataset,
+    source: values.dataset,
+    threshold: values.threshold ? Number(values.threshold) : undefined,
+  });
+
+  const baseline = values.baseline
+    ? (JSON.parse(await readFile(values.baseline, "utf8")) as EvalReport)
+    : null;
+  const deltas = baseline ? compareToBaseline(report, baseline) : undefined;
+  const markdown = formatReportMarkdown(report, deltas);
+
+  if (values.out) {
+    await mkdir(values.out, { recursive: true });
+    const file = join(values.out, scorerName);
+    await writeFile(`${file}.json`, `${JSON.stringify(report, null, 2)}\n`);
+    await writeFile(`${file}.md`, markdown);
+    console.log(`📝 Wrote ${file}.json and ${file}.md\n`);
+  }
+
+  console.log(markdown);
+
+  if (deltas && isRegression(deltas)) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,128 @@
+import type { JSONSchema7, LanguageModel } from "ai";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type JSONSchema7Definition = JSONSchema7 | boolean;
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0];
+
+// Same rough estimate the summarizer uses
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * The smallest value that satisfies a JSON schema: first enum value, minimum
+ * numbers, "fake" strings and arrays at their minimum length
+ */
+function fakeValue(schema: JSONSchema7Definition): unknown {
+  if (typeof schema === "boolean") return null;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  const variant = schema.anyOf?.[0] ?? schema.oneOf?.[0] ?? schema.allOf?.[0];
+  if (variant !== undefined) return fakeValue(variant);
+
+  const type = Array.isArray(schema.type)
+    ? (schema.type.find((candidate: string) => candidate !== "null") ?? "null")
+    : schema.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          fakeValue(property),
+        ]),
+      );
+    case "array": {
+      const items = Array.isArray(schema.items)
+        ? schema.items[0]
+        : schema.items;
+      return Array.from({ length: schema.minItems ?? 0 }, () =>
+        items === undefined ? null : fakeValue(items),
+      );
+    }
+    case "string":
+      return "fake".padEnd(schema.minLength ?? 0, ".");
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+function lastUserText(options: CallOptions): string {
+  const message = options.prompt.findLast((entry) => entry.role === "user");
+  if (!message || message.role !== "user") return "";
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
+
+function fakeResponse(options: CallOptions): string {
+  if (options.responseFormat?.type === "json") {
+    const schema: JSONSchema7 = options.responseFormat.schema ?? {};
+    return JSON.stringify(fakeValue(schema));
+  }
+  return lastUserText(options);
+}
+
+function fakeUsage(options: CallOptions, text: string) {
+  const promptChars = options.prompt.reduce(
+    (total, message) =>
+      total +
+      (typeof message.content === "string"
+        ? message.content.length
+        : JSON.stringify(message.content).length),
+    0,
+  );
+  const inputTokens = Math.ceil(promptChars / CHARS_PER_TOKEN);
+  const outputTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * A model that never calls out. Structured calls get the smallest object that
+ * matches the schema; text calls echo the last user message. Same input,
+ * same output, so pipelines can run in tests and offline.
+ */
+export function createFakeModel(modelId = "fake"): LanguageModelV2 {
+  return {
+    specificationVersion: "v2",
+    provider: "fake",
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const text = fakeResponse(options);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage: fakeUsage(options, text),
+        warnings: [],
+        response: { modelId },
+      };
+    },
+
+    async doStream(options) {
+      const text = fakeResponse(options);
+      const usage = fakeUsage(options, text);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({
+              type: "response-metadata",
+              modelId,
+            });
+            controller.enqueue({ type: "text-start", id: "0" });
+            controller.enqueue({ type: "text-delta", id: "0", delta: text });
+            controller.enqueue({ type: "text-end", id: "0" });
+            controller.enqueue({ type: "finish", finishReason: "stop", usage });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
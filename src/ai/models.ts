@@ -1,3 +1,5 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 
 export const openrouter = createOpenRouter({
@@ -6,3 +8,17 @@ export const openrouter = createOpenRouter({
     "X-Title": "cwp",
   },
 });
+
+export const openai = createOpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+// Any OpenAI-compatible server: Ollama (http://localhost:11434/v1),
+// llama.cpp's llama-server (http://localhost:8080/v1), vLLM, LM Studio
+export const local = createOpenAICompatible({
+  name: "local",
+  baseURL: process.env.LOCAL_LLM_BASE_URL ?? "http://localhost:11434/v1",
+  apiKey: process.env.LOCAL_LLM_API_KEY,
+  supportsStructuredOutputs: true,
+  includeUsage: true,
+});
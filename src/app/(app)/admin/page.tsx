@@ -1,6 +1,7 @@
 "use client";
 
 import { InngestTriggers } from "@/components/admin/inngest-triggers";
+import { UsageDashboard } from "@/components/admin/usage-dashboard";
 import { UsersTable } from "@/components/admin/users-table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useSession } from "@/lib/auth-client";
@@ -28,13 +29,14 @@ export default function AdminPage() {
       <div>
         <h1 className="text-3xl font-bold">Admin Panel</h1>
         <p className="text-muted-foreground">
-          Manage users and trigger system functions
+          Manage users, track costs and trigger system functions
         </p>
       </div>
 
       <Tabs defaultValue="users" className="w-full">
         <TabsList>
           <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="costs">Costs</TabsTrigger>
           <TabsTrigger value="functions">Background Functions</TabsTrigger>
         </TabsList>
 
@@ -42,6 +44,10 @@ export default function AdminPage() {
           <UsersTable />
         </TabsContent>
 
+        <TabsContent value="costs" className="mt-6">
+          <UsageDashboard />
+        </TabsContent>
+
         <TabsContent value="functions" className="mt-6">
           <InngestTriggers />
         </TabsContent>
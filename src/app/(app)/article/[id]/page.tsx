@@ -17,6 +17,7 @@ import {
 import Link from "next/link";
 import { use } from "react";
 import { toast } from "sonner";
+import { SummaryTemplateSelect } from "@/components/blocks/summaries/summary-template-select";
 import { Button } from "@/components/ui/button";
 import { useTRPC } from "@/server/trpc/client";
 
@@ -53,6 +54,19 @@ export default function ArticleDetailPage(props: {
     },
   });
 
+  const updateSummaryTemplate = useMutation({
+    ...trpc.articles.updateFeedSummaryTemplate.mutationOptions(),
+    onError: (error) => {
+      toast.error(error.message);
+    },
+    onSuccess: () => {
+      toast.success("Summary template updated");
+      queryClient.invalidateQueries({
+        queryKey: trpc.articles.getFeed.queryKey({ feedId: params.id }),
+      });
+    },
+  });
+
   const articlesQuery = useInfiniteQuery({
     ...trpc.articles.articlesInfinite.infiniteQueryOptions({
       feedId: params.id,
@@ -199,6 +213,19 @@ export default function ArticleDetailPage(props: {
               </a>
             </Button>
           )}
+          {feedData && (
+            <SummaryTemplateSelect
+              value={feedData.summaryTemplateId ?? null}
+              onChange={(templateId) =>
+                updateSummaryTemplate.mutate({
+                  feedId: params.id,
+                  templateId,
+                })
+              }
+              disabled={updateSummaryTemplate.isPending}
+              className="shrink-0"
+            />
+          )}
         </div>
       </div>
 
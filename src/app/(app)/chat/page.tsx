@@ -0,0 +1,233 @@
+"use client";
+
+import { useChat } from "@ai-sdk/react";
+import { MessageMultiple01Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useQuery } from "@tanstack/react-query";
+import { DefaultChatTransport, type InferUITools, type UIMessage } from "ai";
+import { useQueryState } from "nuqs";
+import { useMemo, useState } from "react";
+import {
+  Conversation,
+  ConversationContent,
+  ConversationEmptyState,
+  ConversationScrollButton,
+} from "@/components/ai-elements/conversation";
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationCardTrigger,
+  InlineCitationCarousel,
+  InlineCitationCarouselContent,
+  InlineCitationCarouselHeader,
+  InlineCitationCarouselIndex,
+  InlineCitationCarouselItem,
+  InlineCitationCarouselNext,
+  InlineCitationCarouselPrev,
+  InlineCitationQuote,
+  InlineCitationSource,
+} from "@/components/ai-elements/inline-citation";
+import { Loader } from "@/components/ai-elements/loader";
+import { Message, MessageContent } from "@/components/ai-elements/message";
+import {
+  PromptInput,
+  PromptInputBody,
+  PromptInputSubmit,
+  PromptInputTextarea,
+  PromptInputToolbar,
+} from "@/components/ai-elements/prompt-input";
+import { Response } from "@/components/ai-elements/response";
+import { Suggestion, Suggestions } from "@/components/ai-elements/suggestion";
+import type { ChatTools, ChunkSearchResult } from "@/server/lib/chat";
+import { useTRPC } from "@/server/trpc/client";
+
+type ChatMessage = UIMessage<unknown, never, InferUITools<ChatTools>>;
+
+const SUGGESTIONS = [
+  "What advice was given about hiring?",
+  "Summarize what guests said about pricing",
+  "Find quotes about product-market fit",
+];
+
+function citationHref(result: ChunkSearchResult) {
+  const path = result.episodeId
+    ? `/episode/${result.episodeId}`
+    : `/post/${result.articleId}`;
+  return `${window.location.origin}${path}`;
+}
+
+function collectCitations(message: ChatMessage): ChunkSearchResult[] {
+  const seen = new Set<string>();
+  const citations: ChunkSearchResult[] = [];
+
+  for (const part of message.parts) {
+    if (
+      part.type === "tool-search_similarity" &&
+      part.state === "output-available"
+    ) {
+      for (const result of part.output.results) {
+        if (seen.has(result.chunkId)) continue;
+        seen.add(result.chunkId);
+        citations.push(result);
+      }
+    }
+  }
+
+  return citations;
+}
+
+function MessageCitations({ citations }: { citations: ChunkSearchResult[] }) {
+  if (citations.length === 0) return null;
+
+  return (
+    <InlineCitation>
+      <InlineCitationCard>
+        <InlineCitationCardTrigger sources={citations.map(citationHref)} />
+        <InlineCitationCardBody>
+          <InlineCitationCarousel>
+            <InlineCitationCarouselHeader>
+              <InlineCitationCarouselPrev />
+              <InlineCitationCarouselNext />
+              <InlineCitationCarouselIndex />
+            </InlineCitationCarouselHeader>
+            <InlineCitationCarouselContent>
+              {citations.map((citation) => (
+                <InlineCitationCarouselItem key={citation.chunkId}>
+                  <InlineCitationSource
+                    title={citation.title}
+                    url={citationHref(citation)}
+                    description={[
+                      citation.podcastTitle,
+                      citation.timestamp,
+                      citation.speaker ? `Speaker ${citation.speaker}` : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  />
+                  <InlineCitationQuote className="line-clamp-6">
+                    {citation.text}
+                  </InlineCitationQuote>
+                </InlineCitationCarouselItem>
+              ))}
+            </InlineCitationCarouselContent>
+          </InlineCitationCarousel>
+        </InlineCitationCardBody>
+      </InlineCitationCard>
+    </InlineCitation>
+  );
+}
+
+export default function ChatPage() {
+  const trpc = useTRPC();
+  const [episodeId] = useQueryState("episode");
+  const [input, setInput] = useState("");
+
+  const episode = useQuery({
+    ...trpc.episodes.get.queryOptions({ episodeId: episodeId ?? "" }),
+    enabled: Boolean(episodeId),
+  });
+
+  const transport = useMemo(
+    () =>
+      new DefaultChatTransport<ChatMessage>({
+        api: "/api/chat",
+        body: episodeId ? { episodeId } : undefined,
+      }),
+    [episodeId],
+  );
+
+  const { messages, sendMessage, status, stop } = useChat<ChatMessage>({
+    transport,
+  });
+
+  const isBusy = status === "submitted" || status === "streaming";
+
+  const handleSubmit = (text: string) => {
+    if (isBusy) {
+      stop();
+      return;
+    }
+    if (!text.trim()) return;
+    sendMessage({ text });
+    setInput("");
+  };
+
+  return (
+    <main className="mx-auto flex h-[calc(100svh-4rem)] w-full max-w-4xl flex-col px-4 py-6 sm:px-6 md:h-svh">
+      <div className="mb-4 space-y-1">
+        <h1 className="text-xl sm:text-2xl font-bold">Chat</h1>
+        <p className="text-sm text-muted-foreground">
+          {episode.data
+            ? `Asking about "${episode.data.title}"`
+            : "Ask questions across your podcasts and articles"}
+        </p>
+      </div>
+
+      <Conversation className="min-h-0">
+        <ConversationContent>
+          {messages.length === 0 ? (
+            <ConversationEmptyState
+              icon={<HugeiconsIcon icon={MessageMultiple01Icon} size={24} />}
+              title="Start a conversation"
+              description="Answers are grounded in your transcripts with timestamped citations."
+            />
+          ) : (
+            messages.map((message) => (
+              <Message from={message.role} key={message.id}>
+                <MessageContent variant="flat">
+                  {message.parts.map((part, index) => {
+                    if (part.type === "text") {
+                      return (
+                        <Response key={`${message.id}-${index}`}>
+                          {part.text}
+                        </Response>
+                      );
+                    }
+                    return null;
+                  })}
+                  {message.role === "assistant" && (
+                    <div>
+                      <MessageCitations citations={collectCitations(message)} />
+                    </div>
+                  )}
+                </MessageContent>
+              </Message>
+            ))
+          )}
+          {status === "submitted" && <Loader />}
+        </ConversationContent>
+        <ConversationScrollButton />
+      </Conversation>
+
+      <div className="space-y-3 pt-4">
+        {messages.length === 0 && (
+          <Suggestions>
+            {SUGGESTIONS.map((suggestion) => (
+              <Suggestion
+                key={suggestion}
+                suggestion={suggestion}
+                onClick={handleSubmit}
+              />
+            ))}
+          </Suggestions>
+        )}
+        <PromptInput onSubmit={(message) => handleSubmit(message.text ?? "")}>
+          <PromptInputBody>
+            <PromptInputTextarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Ask about your podcasts..."
+            />
+          </PromptInputBody>
+          <PromptInputToolbar className="justify-end">
+            <PromptInputSubmit
+              status={status}
+              disabled={!isBusy && !input.trim()}
+            />
+          </PromptInputToolbar>
+        </PromptInput>
+      </div>
+    </main>
+  );
+}
@@ -14,6 +14,7 @@ import Link from "next/link";
 import { useQueryState } from "nuqs";
 import { useMemo } from "react";
 import { toast } from "sonner";
+import { PlaybackStatus } from "@/components/blocks/playback/playback-status";
 import { AddPodcastDialog } from "@/components/blocks/podcasts/add-podcast-dialog";
 import { SignalBadge } from "@/components/signal-badge";
 import { Button } from "@/components/ui/button";
@@ -109,6 +110,11 @@ function EpisodeCard({
           <p className="text-muted-foreground text-xs sm:text-sm">
             {episode.podcast?.title}
           </p>
+          <PlaybackStatus
+            progress={episode.playbackProgress}
+            durationSec={episode.durationSec}
+            className="mt-1.5"
+          />
         </div>
       </Link>
 
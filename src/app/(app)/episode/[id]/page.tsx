@@ -10,7 +10,10 @@ import {
   FingerPrintIcon,
   InformationCircleIcon,
   Loading03Icon,
+  PlayIcon,
+  Share08Icon,
   SparklesIcon,
+  WorkHistoryIcon,
   YoutubeIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
@@ -18,12 +21,30 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { ChevronDown } from "lucide-react";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
+import { parseAsInteger, parseAsStringEnum, useQueryState } from "nuqs";
 import { use, useEffect, useState } from "react";
 import { toast } from "sonner";
 import { Streamdown } from "streamdown";
+import { useAudioPlayer } from "@/components/audio-player/audio-player-provider";
 import { SyncYouTubeVideoDialog } from "@/components/blocks/episodes/sync-youtube-video-dialog";
+import {
+  MarkPlayedButton,
+  PlaybackStatus,
+} from "@/components/blocks/playback/playback-status";
+import { ShareDialog } from "@/components/blocks/shares/share-dialog";
+import { CreateSnipDialog } from "@/components/blocks/snips/create-snip-dialog";
+import { PinSummaryVersionButton } from "@/components/blocks/summaries/pin-summary-version-button";
+import { SummaryHistoryDialog } from "@/components/blocks/summaries/summary-history-dialog";
+import { SummaryTemplateSelect } from "@/components/blocks/summaries/summary-template-select";
+import { SummaryVersionSelect } from "@/components/blocks/summaries/summary-version-select";
+import { ChaptersPanel } from "@/components/chapters-panel";
 import { FavoriteButton } from "@/components/favorite-button";
-import { TranscriptDisplay } from "@/components/transcript-display";
+import { SignalsPanel } from "@/components/signals-panel";
+import { StructuredSummaryView } from "@/components/structured-summary";
+import {
+  TranscriptDisplay,
+  type TranscriptSelection,
+} from "@/components/transcript-display";
 import { Button } from "@/components/ui/button";
 import { ButtonGroup } from "@/components/ui/button-group";
 import {
@@ -56,11 +77,14 @@ import {
   EmptyTitle,
 } from "@/components/ui/empty";
 import { Item, ItemFooter } from "@/components/ui/item";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { getPlaybackState, getResumePosition } from "@/lib/playback";
+import { formatTimecode } from "@/lib/time";
 import { useTRPC } from "@/server/trpc/client";
 import type { TranscriptData } from "@/types/transcript";
 
@@ -72,8 +96,26 @@ export default function EpisodeDetailPage(props: {
   const router = useRouter();
   const params = use(props.params);
   const [transcript, setTranscript] = useState<TranscriptData | null>(null);
+  const [snipSelection, setSnipSelection] =
+    useState<TranscriptSelection | null>(null);
   const [showProcessDialog, setShowProcessDialog] = useState(false);
   const [isPollingForTranscript, setIsPollingForTranscript] = useState(false);
+  // Undefined regenerates with the podcast's default template
+  const [summaryTemplateId, setSummaryTemplateId] = useState<string | null>();
+  // Null shows the current summary
+  const [viewingVersionId, setViewingVersionId] = useState<string | null>(null);
+  // Deep links from transcript search open the episode at ?t=<seconds>
+  const [startAt] = useQueryState("t", parseAsInteger);
+  const [activeTab, setActiveTab] = useQueryState(
+    "tab",
+    parseAsStringEnum<"summary" | "chapters" | "transcript" | "signals">([
+      "summary",
+      "chapters",
+      "transcript",
+      "signals",
+    ]).withDefault("summary"),
+  );
+  const { play, seek, currentTrack, currentTime } = useAudioPlayer();
 
   const episode = useQuery({
     ...trpc.episodes.get.queryOptions({
@@ -99,6 +141,12 @@ export default function EpisodeDetailPage(props: {
         queryClient.invalidateQueries({
           queryKey: trpc.episodes.getSummary.queryKey({ episodeId: params.id }),
         });
+        queryClient.invalidateQueries({
+          queryKey: trpc.summaries.listVersions.queryKey({
+            episodeId: params.id,
+          }),
+        });
+        setViewingVersionId(null);
       },
       onError: (error) => {
         toast.error(`Failed to generate summary: ${error.message}`);
@@ -110,6 +158,29 @@ export default function EpisodeDetailPage(props: {
     ...trpc.episodes.getSummary.queryOptions({ episodeId: params.id }),
   });
 
+  const summaryVersions = useQuery(
+    trpc.summaries.listVersions.queryOptions({ episodeId: params.id }),
+  );
+  const shownSummary =
+    summaryVersions.data?.find((version) => version.id === viewingVersionId) ??
+    summary.data;
+
+  const chapters = useQuery(
+    trpc.episodes.getChapters.queryOptions({ episodeId: params.id }),
+  );
+
+  const progress = useQuery(
+    trpc.playback.getProgress.queryOptions({ episodeId: params.id }),
+  );
+
+  const transcriptUrl = episode.data?.transcriptUrl;
+  const inlineTranscript = useQuery({
+    queryKey: ["transcript", transcriptUrl],
+    queryFn: () => loadTranscript(transcriptUrl as string),
+    enabled: activeTab === "transcript" && Boolean(transcriptUrl),
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
   const processEpisode = useMutation(
     trpc.episodes.processEpisode.mutationOptions({
       onSuccess: () => {
@@ -148,12 +219,7 @@ export default function EpisodeDetailPage(props: {
 
   const loadTranscriptForDialog = async (url: string) => {
     try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error("Failed to fetch transcript");
-      }
-      const jsonData = await response.json();
-      setTranscript(jsonData);
+      setTranscript(await loadTranscript(url));
       document.getElementById("transcript-dialog-trigger")?.click();
     } catch (_error) {
       toast.error("Failed to load transcript");
@@ -203,6 +269,10 @@ export default function EpisodeDetailPage(props: {
   const currentErrorMessage = episodeData?.errorMessage;
   const isProcessing = processEpisode.isPending;
   const hasSummary = Boolean(episodeData?.summary?.markdownContent);
+  const speakerMappings: Record<string, string> | null = episodeData
+    ?.speakerMapping?.speakerMappings
+    ? JSON.parse(episodeData.speakerMapping.speakerMappings)
+    : null;
   const lastProcessedAt = episodeData?.lastProcessedAt
     ? new Date(episodeData.lastProcessedAt)
     : null;
@@ -292,6 +362,35 @@ export default function EpisodeDetailPage(props: {
     return "Process Episode";
   })();
 
+  const startAtLabel = startAt !== null ? formatTimecode(startAt) : null;
+  // A ?t= deep link wins over the saved position
+  const resumeAt = startAt === null ? getResumePosition(progress.data) : null;
+  const resumeLabel = resumeAt !== null ? formatTimecode(resumeAt) : null;
+
+  const handlePlay = (startTimeSec = startAt ?? resumeAt ?? 0) => {
+    if (!episodeData?.audioUrl) return;
+    void play({
+      id: episodeData.id,
+      title: episodeData.title,
+      subtitle: episodeData.podcast?.title,
+      audioUrl: episodeData.audioUrl,
+      startTimeSec,
+      durationSec: episodeData.durationSec,
+      chapters: chapters.data,
+      recordProgress: true,
+    });
+  };
+
+  const isPlayingThisEpisode = currentTrack?.id === episodeData?.id;
+
+  const handleSeek = (startTimeSec: number) => {
+    if (isPlayingThisEpisode) {
+      seek(startTimeSec);
+    } else {
+      handlePlay(startTimeSec);
+    }
+  };
+
   const handleCopyEpisodeId = () => {
     navigator.clipboard.writeText(params.id);
     toast.success("Episode ID copied to clipboard");
@@ -376,6 +475,10 @@ export default function EpisodeDetailPage(props: {
                       <dd>{Math.floor(episodeData.durationSec / 60)} min</dd>
                     </div>
                   )}
+                  <PlaybackStatus
+                    progress={progress.data}
+                    durationSec={episodeData?.durationSec}
+                  />
                   {statusTooltipItems.length > 0 && (
                     <Tooltip>
                       <TooltipTrigger>
@@ -421,6 +524,27 @@ export default function EpisodeDetailPage(props: {
             </div>
 
             <div className="flex gap-2 flex-wrap">
+              {episodeData?.audioUrl && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handlePlay()}
+                >
+                  <HugeiconsIcon icon={PlayIcon} size={16} />
+                  {startAtLabel
+                    ? `Play from ${startAtLabel}`
+                    : resumeLabel
+                      ? `Resume from ${resumeLabel}`
+                      : "Play"}
+                </Button>
+              )}
+              {episodeData?.audioUrl && (
+                <MarkPlayedButton
+                  episodeId={params.id}
+                  played={getPlaybackState(progress.data) === "played"}
+                />
+              )}
+
               {!hasSummary && (
                 <Dialog
                   open={showProcessDialog}
@@ -496,23 +620,26 @@ export default function EpisodeDetailPage(props: {
                 <ButtonGroup>
                   <CopyTranscriptButton
                     transcriptUrl={episodeData.transcriptUrl}
-                    speakerMappings={
-                      episodeData?.speakerMapping?.speakerMappings
-                        ? JSON.parse(episodeData.speakerMapping.speakerMappings)
-                        : null
-                    }
+                    speakerMappings={speakerMappings}
                   />
                   <Button size="sm" variant="outline" asChild>
-                    <a
-                      href={episodeData.transcriptUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                    >
+                    <a href={`${episodeData.transcriptUrl}?download=1`}>
                       <HugeiconsIcon icon={Download01Icon} size={16} />
                       Download
                     </a>
                   </Button>
                   <FavoriteButton episodeId={params.id} />
+                  {episodeData.summary ? (
+                    <ShareDialog episodeId={params.id}>
+                      <Button
+                        size="icon-sm"
+                        variant="outline"
+                        aria-label="Share"
+                      >
+                        <HugeiconsIcon icon={Share08Icon} size={16} />
+                      </Button>
+                    </ShareDialog>
+                  ) : null}
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                       <Button size="sm" variant="outline">
@@ -612,18 +739,24 @@ export default function EpisodeDetailPage(props: {
                     {transcript && episodeData && (
                       <TranscriptDisplay
                         transcript={transcript}
-                        speakerMappings={
-                          episodeData?.speakerMapping?.speakerMappings
-                            ? JSON.parse(
-                                episodeData.speakerMapping.speakerMappings,
-                              )
-                            : null
+                        speakerMappings={speakerMappings}
+                        onSnip={setSnipSelection}
+                        currentTimeSec={
+                          isPlayingThisEpisode ? currentTime : null
                         }
+                        onSeek={episodeData?.audioUrl ? handleSeek : undefined}
                       />
                     )}
                   </CredenzaBody>
                 </CredenzaContent>
               </Credenza>
+              <CreateSnipDialog
+                episodeId={params.id}
+                selection={snipSelection}
+                onOpenChange={(open) => {
+                  if (!open) setSnipSelection(null);
+                }}
+              />
             </div>
           </div>
         </div>
@@ -650,100 +783,212 @@ export default function EpisodeDetailPage(props: {
         </div>
       )}
 
+      <Tabs
+        value={activeTab}
+        onValueChange={(v) => setActiveTab(v as typeof activeTab)}
+        className="pt-6"
+      >
+        <TabsList className="w-full">
+          <TabsTrigger value="summary" className="flex-1">
+            Summary
+          </TabsTrigger>
+          <TabsTrigger value="chapters" className="flex-1">
+            Chapters
+          </TabsTrigger>
+          <TabsTrigger
+            value="transcript"
+            className="flex-1"
+            disabled={!episodeData?.transcriptUrl}
+          >
+            Transcript
+          </TabsTrigger>
+          <TabsTrigger value="signals" className="flex-1">
+            Signals
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {activeTab === "chapters" && (
+        <section className="space-y-4">
+          <ChaptersPanel
+            episodeId={params.id}
+            currentTimeSec={isPlayingThisEpisode ? currentTime : null}
+            onSeek={episodeData?.audioUrl ? handleSeek : undefined}
+          />
+        </section>
+      )}
+
+      {activeTab === "transcript" && (
+        <section className="space-y-4">
+          {inlineTranscript.isPending ? (
+            <LoadingState />
+          ) : inlineTranscript.data ? (
+            <TranscriptDisplay
+              transcript={inlineTranscript.data}
+              speakerMappings={speakerMappings}
+              onSnip={setSnipSelection}
+              currentTimeSec={isPlayingThisEpisode ? currentTime : null}
+              onSeek={episodeData?.audioUrl ? handleSeek : undefined}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {episodeData?.transcriptUrl
+                ? "Failed to load transcript"
+                : "This episode doesn't have a transcript yet"}
+            </p>
+          )}
+        </section>
+      )}
+
+      {activeTab === "signals" && (
+        <section className="space-y-4">
+          <SignalsPanel
+            episodeId={params.id}
+            onPlayFrom={episodeData?.audioUrl ? handlePlay : undefined}
+          />
+        </section>
+      )}
+
       {/* Summary Section */}
-      <section className="space-y-4 pt-6">
-        <h2 className="text-lg font-semibold">Summary</h2>
-        {summary.isPending ? (
-          <LoadingState />
-        ) : summary.data ? (
-          <Item className="space-y-6" variant="muted">
-            <div className="relative">
-              <Button
-                variant="ghost"
-                size="sm"
-                className="absolute top-2 right-2 z-10"
-                onClick={() => {
-                  if (summary.data?.markdownContent) {
-                    navigator.clipboard.writeText(summary.data.markdownContent);
-                    toast.success("Summary copied to clipboard");
-                  }
-                }}
-              >
-                <HugeiconsIcon icon={Copy01Icon} size={16} />
-              </Button>
-              <Streamdown className="text-base">
-                {summary.data.markdownContent}
-              </Streamdown>
-            </div>
-            <ItemFooter className="pt-6 border-t flex gap-3 justify-start">
-              <Button
-                variant="outline"
-                onClick={() => generateSummary.mutate({ episodeId: params.id })}
-                disabled={generateSummary.isPending || isProcessing}
-              >
-                {generateSummary.isPending || isProcessing ? (
-                  <HugeiconsIcon
-                    icon={Loading03Icon}
-                    size={16}
-                    className="animate-spin"
+      {activeTab === "summary" && (
+        <section className="space-y-4">
+          {summary.isPending ? (
+            <LoadingState />
+          ) : shownSummary ? (
+            <Item className="space-y-6" variant="muted">
+              <div className="relative">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="absolute top-2 right-2 z-10"
+                  onClick={() => {
+                    if (shownSummary.markdownContent) {
+                      navigator.clipboard.writeText(
+                        shownSummary.markdownContent,
+                      );
+                      toast.success("Summary copied to clipboard");
+                    }
+                  }}
+                >
+                  <HugeiconsIcon icon={Copy01Icon} size={16} />
+                </Button>
+                {shownSummary.structuredContent ? (
+                  <StructuredSummaryView
+                    summary={shownSummary.structuredContent}
+                    onSeek={episodeData?.audioUrl ? handleSeek : undefined}
                   />
                 ) : (
-                  <HugeiconsIcon icon={SparklesIcon} size={16} />
+                  <Streamdown className="text-base">
+                    {shownSummary.markdownContent}
+                  </Streamdown>
                 )}
-                {generateSummary.isPending || isProcessing
-                  ? "Working..."
-                  : "Regenerate"}
-              </Button>
-            </ItemFooter>
-          </Item>
-        ) : (
-          <Empty>
-            <EmptyHeader>
-              <EmptyMedia variant="icon">
-                <HugeiconsIcon icon={SparklesIcon} size={20} />
-              </EmptyMedia>
-              <EmptyTitle>Quick Overview Summary</EmptyTitle>
-              <EmptyDescription>
-                Summarize this episode to get key takeaways, examples, lessons,
-                and quotes.
-              </EmptyDescription>
-            </EmptyHeader>
-
-            <EmptyContent>
-              <Button
-                size="lg"
-                onClick={() => processEpisode.mutate({ episodeId: params.id })}
-                disabled={generateSummary.isPending || isProcessing}
-              >
-                {generateSummary.isPending || isProcessing ? (
-                  <>
+              </div>
+              <ItemFooter className="pt-6 border-t flex flex-wrap gap-3 justify-start">
+                <SummaryTemplateSelect
+                  value={
+                    summaryTemplateId !== undefined
+                      ? summaryTemplateId
+                      : (episodeData?.podcast?.summaryTemplateId ?? null)
+                  }
+                  onChange={setSummaryTemplateId}
+                  disabled={generateSummary.isPending || isProcessing}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    generateSummary.mutate({
+                      episodeId: params.id,
+                      templateId: summaryTemplateId,
+                    })
+                  }
+                  disabled={generateSummary.isPending || isProcessing}
+                >
+                  {generateSummary.isPending || isProcessing ? (
                     <HugeiconsIcon
                       icon={Loading03Icon}
                       size={16}
                       className="animate-spin"
                     />
-                    Summarizing...
-                  </>
-                ) : (
-                  <>
+                  ) : (
                     <HugeiconsIcon icon={SparklesIcon} size={16} />
-                    Summarize Episode
-                  </>
-                )}
-              </Button>
+                  )}
+                  {generateSummary.isPending || isProcessing
+                    ? "Working..."
+                    : "Regenerate"}
+                </Button>
+                <div className="ml-auto flex flex-wrap gap-3">
+                  <SummaryVersionSelect
+                    versions={summaryVersions.data ?? []}
+                    value={viewingVersionId}
+                    onChange={setViewingVersionId}
+                  />
+                  {viewingVersionId && (
+                    <PinSummaryVersionButton
+                      source={{ episodeId: params.id }}
+                      versionId={viewingVersionId}
+                      onPinned={() => setViewingVersionId(null)}
+                    />
+                  )}
+                  <SummaryHistoryDialog source={{ episodeId: params.id }}>
+                    <Button variant="outline">
+                      <HugeiconsIcon icon={WorkHistoryIcon} size={16} />
+                      History
+                    </Button>
+                  </SummaryHistoryDialog>
+                </div>
+              </ItemFooter>
+            </Item>
+          ) : (
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <HugeiconsIcon icon={SparklesIcon} size={20} />
+                </EmptyMedia>
+                <EmptyTitle>Quick Overview Summary</EmptyTitle>
+                <EmptyDescription>
+                  Summarize this episode to get key takeaways, examples,
+                  lessons, and quotes.
+                </EmptyDescription>
+              </EmptyHeader>
 
-              {(generateSummary.isPending || isProcessing) && (
-                <p className="text-sm text-muted-foreground">
-                  This usually takes{" "}
-                  {!episodeData?.transcriptUrl
-                    ? "2.5-5.5 minutes"
-                    : "10-30 seconds"}
-                </p>
-              )}
-            </EmptyContent>
-          </Empty>
-        )}
-      </section>
+              <EmptyContent>
+                <Button
+                  size="lg"
+                  onClick={() =>
+                    processEpisode.mutate({ episodeId: params.id })
+                  }
+                  disabled={generateSummary.isPending || isProcessing}
+                >
+                  {generateSummary.isPending || isProcessing ? (
+                    <>
+                      <HugeiconsIcon
+                        icon={Loading03Icon}
+                        size={16}
+                        className="animate-spin"
+                      />
+                      Summarizing...
+                    </>
+                  ) : (
+                    <>
+                      <HugeiconsIcon icon={SparklesIcon} size={16} />
+                      Summarize Episode
+                    </>
+                  )}
+                </Button>
+
+                {(generateSummary.isPending || isProcessing) && (
+                  <p className="text-sm text-muted-foreground">
+                    This usually takes{" "}
+                    {!episodeData?.transcriptUrl
+                      ? "2.5-5.5 minutes"
+                      : "10-30 seconds"}
+                  </p>
+                )}
+              </EmptyContent>
+            </Empty>
+          )}
+        </section>
+      )}
     </main>
   );
 }
@@ -770,6 +1015,12 @@ function formatTimestamp(seconds: number): string {
   return `${minutes}:${secs.toString().padStart(2, "0")}`;
 }
 
+async function loadTranscript(url: string): Promise<TranscriptData> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error("Failed to fetch transcript");
+  return response.json();
+}
+
 function CopyTranscriptButton({
   transcriptUrl,
   speakerMappings,
@@ -779,12 +1030,9 @@ function CopyTranscriptButton({
 }) {
   const transcript = useQuery({
     queryKey: ["transcript", transcriptUrl],
-    queryFn: async () => {
+    queryFn: () => {
       if (!transcriptUrl) throw new Error("No transcript URL");
-      const response = await fetch(transcriptUrl);
-      if (!response.ok) throw new Error("Failed to fetch transcript");
-      const jsonData: TranscriptData = await response.json();
-      return jsonData;
+      return loadTranscript(transcriptUrl);
     },
     enabled: false,
     staleTime: Number.POSITIVE_INFINITY,
@@ -1,6 +1,11 @@
 "use client";
 
-import { File02Icon, PodcastIcon, StarIcon } from "@hugeicons/core-free-icons";
+import {
+  Download01Icon,
+  File02Icon,
+  PodcastIcon,
+  StarIcon,
+} from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { IconArrowRight } from "@tabler/icons-react";
 import { useQuery } from "@tanstack/react-query";
@@ -14,6 +19,12 @@ import {
   CardDescription,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useTRPC } from "@/server/trpc/client";
 
 function getDateGroup(date: Date | string | null): string {
@@ -38,6 +49,34 @@ function getDateGroup(date: Date | string | null): string {
   }
 }
 
+const EXPORT_OPTIONS = [
+  { mode: "full", label: "Full export" },
+  { mode: "exocortex", label: "With embeddings (Exocortex)" },
+  { mode: "incremental", label: "New since last export" },
+] as const;
+
+function ExportMenu() {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <HugeiconsIcon icon={Download01Icon} size={16} />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_OPTIONS.map((option) => (
+          <DropdownMenuItem key={option.mode} asChild>
+            <a href={`/api/export?mode=${option.mode}`} download>
+              {option.label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 export default function FavoritesPage() {
   const trpc = useTRPC();
   const { data: favorites, isLoading } = useQuery(
@@ -85,7 +124,10 @@ export default function FavoritesPage() {
 
   return (
     <main className="mx-auto w-full container space-y-6 px-4 py-6 sm:px-6 sm:py-8">
-      <h1 className="text-xl sm:text-2xl font-bold">Your Favorites</h1>
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-xl sm:text-2xl font-bold">Your Favorites</h1>
+        <ExportMenu />
+      </div>
 
       {totalFavorites > 0 ? (
         <div className="space-y-6 sm:space-y-8">
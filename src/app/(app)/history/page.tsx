@@ -0,0 +1,212 @@
+"use client";
+
+import {
+  Delete02Icon,
+  HeadphonesIcon,
+  PlayCircleIcon,
+  PodcastIcon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Image from "next/image";
+import Link from "next/link";
+import { parseAsStringEnum, useQueryState } from "nuqs";
+import { toast } from "sonner";
+import { useAudioPlayer } from "@/components/audio-player/audio-player-provider";
+import {
+  MarkPlayedButton,
+  PlaybackStatus,
+} from "@/components/blocks/playback/playback-status";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getPlaybackState, getResumePosition } from "@/lib/playback";
+import { type RouterOutput, useTRPC } from "@/server/trpc/client";
+
+type HistoryEntry = RouterOutput["playback"]["history"][number];
+
+function formatLastPlayed(value: Date | string) {
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function HistoryItem({ entry }: { entry: HistoryEntry }) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { play } = useAudioPlayer();
+  const { episode } = entry;
+
+  const removeEntry = useMutation(
+    trpc.playback.remove.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: trpc.playback.history.queryKey(),
+        });
+        queryClient.invalidateQueries({
+          queryKey: trpc.playback.getProgress.queryKey({
+            episodeId: episode.id,
+          }),
+        });
+        toast.success("Removed from history");
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const handlePlay = () => {
+    if (!episode.audioUrl) return;
+    void play({
+      id: episode.id,
+      title: episode.title,
+      subtitle: episode.podcast?.title,
+      audioUrl: episode.audioUrl,
+      startTimeSec: getResumePosition(entry) ?? 0,
+      durationSec: episode.durationSec,
+      recordProgress: true,
+    });
+  };
+
+  const imageUrl = episode.thumbnailUrl ?? episode.podcast?.imageUrl;
+
+  return (
+    <div className="flex gap-3 sm:gap-4 p-3 sm:p-4 border rounded-lg hover:bg-muted/50 transition-colors">
+      <Link
+        href={`/episode/${episode.id}`}
+        className="flex gap-3 sm:gap-4 flex-1 min-w-0"
+      >
+        <div className="relative h-12 w-12 sm:h-16 sm:w-16 rounded-lg bg-muted flex-shrink-0 overflow-hidden">
+          {imageUrl ? (
+            <Image
+              src={imageUrl}
+              alt={episode.podcast?.title ?? episode.title}
+              fill
+              className="w-full h-full object-cover rounded-lg"
+            />
+          ) : (
+            <div className="w-full h-full bg-muted flex items-center justify-center">
+              <HugeiconsIcon
+                icon={PodcastIcon}
+                size={24}
+                className="text-muted-foreground"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-1">
+          <h3 className="text-sm sm:text-base font-semibold leading-tight line-clamp-2">
+            {episode.title}
+          </h3>
+          <p className="text-muted-foreground text-xs sm:text-sm">
+            {episode.podcast?.title} · Last played{" "}
+            {formatLastPlayed(entry.lastPlayedAt)}
+          </p>
+          <PlaybackStatus progress={entry} durationSec={episode.durationSec} />
+        </div>
+      </Link>
+
+      <div className="flex items-center gap-2">
+        {episode.audioUrl ? (
+          <Button size="sm" variant="outline" onClick={handlePlay}>
+            <HugeiconsIcon icon={PlayCircleIcon} size={16} />
+            {getResumePosition(entry) !== null ? "Resume" : "Play"}
+          </Button>
+        ) : null}
+        <MarkPlayedButton
+          episodeId={episode.id}
+          played={getPlaybackState(entry) === "played"}
+        />
+        <Button
+          size="icon-sm"
+          variant="ghost"
+          className="text-destructive"
+          onClick={() => removeEntry.mutate({ episodeId: episode.id })}
+          disabled={removeEntry.isPending}
+          aria-label="Remove from history"
+        >
+          <HugeiconsIcon icon={Delete02Icon} size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  const trpc = useTRPC();
+  const [state, setState] = useQueryState(
+    "state",
+    parseAsStringEnum(["all", "in_progress", "played"]).withDefault("all"),
+  );
+
+  const { data: history, isLoading } = useQuery(
+    trpc.playback.history.queryOptions(state === "all" ? undefined : { state }),
+  );
+
+  return (
+    <main className="mx-auto w-full container space-y-6 px-4 py-6 sm:px-6 sm:py-8">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold">Listening History</h1>
+        <p className="text-muted-foreground mt-1">
+          Episodes you've played, most recent first
+        </p>
+      </div>
+
+      <Tabs
+        value={state}
+        onValueChange={(value) => void setState(value as typeof state)}
+      >
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="in_progress">In progress</TabsTrigger>
+          <TabsTrigger value="played">Played</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="flex gap-4 p-3">
+              <div className="h-16 w-16 bg-muted rounded-lg" />
+              <div className="flex-1 space-y-2">
+                <div className="h-5 bg-muted rounded w-3/4" />
+                <div className="h-4 bg-muted rounded w-1/2" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : history && history.length > 0 ? (
+        <div className="space-y-3 sm:space-y-4">
+          {history.map((entry) => (
+            <HistoryItem key={entry.id} entry={entry} />
+          ))}
+        </div>
+      ) : (
+        <Card className="w-full">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <HugeiconsIcon
+              icon={HeadphonesIcon}
+              size={64}
+              className="text-muted-foreground mb-6"
+            />
+            <CardTitle className="mb-2">Nothing Here Yet</CardTitle>
+            <CardDescription className="text-center mb-6 max-w-md">
+              Episodes show up here once you start listening. Your place is
+              saved as you go, so you can pick up where you left off on any
+              device.
+            </CardDescription>
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  );
+}
@@ -7,6 +7,7 @@ import {
   Link01Icon,
   RssIcon,
   Search01Icon,
+  SubtitleIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import {
@@ -17,18 +18,38 @@ import {
 } from "@tanstack/react-query";
 import { YoutubeIcon } from "lucide-react";
 import Link from "next/link";
-import { useQueryState } from "nuqs";
+import { parseAsStringEnum, useQueryState } from "nuqs";
 import { use } from "react";
 import { toast } from "sonner";
+import { PlaybackStatus } from "@/components/blocks/playback/playback-status";
 import { AddYouTubePlaylistDialog } from "@/components/blocks/podcasts/add-youtube-playlist-dialog";
+import { TranscriptSettingsDialog } from "@/components/blocks/podcasts/transcript-settings-dialog";
+import { SummaryTemplateSelect } from "@/components/blocks/summaries/summary-template-select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useDebounce } from "@/hooks/use-debounce";
+import { PLAYBACK_STATES, type PlaybackState } from "@/lib/playback";
 import { getPodcastSourceType } from "@/server/lib/podcast-utils";
 import { useTRPC } from "@/server/trpc/client";
 
 const EPISODE_PAGE_SIZE = 20;
 
+// Radix Select can't use an empty value, so "no filter" is stored under this key
+const ALL = "all";
+
+const PLAYBACK_STATE_LABELS: Record<PlaybackState, string> = {
+  unplayed: "Unplayed",
+  in_progress: "In progress",
+  played: "Played",
+};
+
 export default function PodcastDetailPage(props: {
   params: Promise<{ id: string }>;
 }) {
@@ -39,6 +60,11 @@ export default function PodcastDetailPage(props: {
     defaultValue: "",
   });
 
+  const [playbackState, setPlaybackState] = useQueryState(
+    "playback",
+    parseAsStringEnum([...PLAYBACK_STATES]),
+  );
+
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
 
   const podcast = useQuery(
@@ -65,6 +91,19 @@ export default function PodcastDetailPage(props: {
     },
   });
 
+  const updateSummaryTemplate = useMutation({
+    ...trpc.podcasts.updateSummaryTemplate.mutationOptions(),
+    onError: (error) => {
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({
+        queryKey: trpc.podcasts.get.queryKey({ podcastId: params.id }),
+      });
+    },
+  });
+
   const syncYouTubeChannelMutation = useMutation({
     ...trpc.podcasts.syncYouTubeChannel.mutationOptions(),
     onError: (error) => {
@@ -87,6 +126,7 @@ export default function PodcastDetailPage(props: {
     ...trpc.podcasts.episodesInfinite.infiniteQueryOptions({
       podcastId: params.id,
       query: debouncedSearchQuery.trim() || undefined,
+      playback: playbackState ? { state: playbackState } : undefined,
       limit: EPISODE_PAGE_SIZE,
     }),
     getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
@@ -279,6 +319,29 @@ export default function PodcastDetailPage(props: {
               </AddYouTubePlaylistDialog>
             </>
           )}
+
+          <TranscriptSettingsDialog
+            podcastId={params.id}
+            currentProviders={podcastData.transcriptProviders ?? null}
+            currentPodscanPodcastId={podcastData.podscanPodcastId ?? null}
+          >
+            <Button variant="outline" size="sm" className="shrink-0">
+              <HugeiconsIcon icon={SubtitleIcon} size={16} />
+              Transcripts
+            </Button>
+          </TranscriptSettingsDialog>
+
+          <SummaryTemplateSelect
+            value={podcastData.summaryTemplateId ?? null}
+            onChange={(templateId) =>
+              updateSummaryTemplate.mutate({
+                podcastId: params.id,
+                templateId,
+              })
+            }
+            disabled={updateSummaryTemplate.isPending}
+            className="shrink-0"
+          />
         </div>
       </div>
 
@@ -331,6 +394,26 @@ export default function PodcastDetailPage(props: {
                 className="pl-10 h-9"
               />
             </div>
+            <Select
+              value={playbackState ?? ALL}
+              onValueChange={(value) =>
+                void setPlaybackState(
+                  value === ALL ? null : (value as PlaybackState),
+                )
+              }
+            >
+              <SelectTrigger size="sm" className="w-full sm:w-36">
+                <SelectValue placeholder="All episodes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All episodes</SelectItem>
+                {PLAYBACK_STATES.map((state) => (
+                  <SelectItem key={state} value={state}>
+                    {PLAYBACK_STATE_LABELS[state]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </div>
 
@@ -390,6 +473,10 @@ export default function PodcastDetailPage(props: {
                         <span>{Math.floor(episode.durationSec / 60)} min</span>
                       </div>
                     )}
+                    <PlaybackStatus
+                      progress={episode.playbackProgress}
+                      durationSec={episode.durationSec}
+                    />
                   </div>
                 </Link>
               ))}
@@ -415,8 +502,8 @@ export default function PodcastDetailPage(props: {
               No episodes found
             </div>
             <p className="text-base text-muted-foreground">
-              {debouncedSearchQuery
-                ? "Try adjusting your search query."
+              {debouncedSearchQuery || playbackState
+                ? "Try adjusting your search or filter."
                 : "Episodes will appear here once they're ingested."}
             </p>
           </div>
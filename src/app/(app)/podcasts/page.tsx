@@ -32,6 +32,7 @@ import {
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useDebounce } from "@/hooks/use-debounce";
+import { formatTimecode } from "@/lib/time";
 import { useTRPC } from "@/server/trpc/client";
 
 export default function Podcasts() {
@@ -74,6 +75,19 @@ export default function Podcasts() {
       searchMode === "episodes" && debouncedSearchQuery.trim().length > 0,
   });
 
+  const {
+    data: transcriptsData,
+    isLoading: transcriptsLoading,
+    error: transcriptsError,
+  } = useQuery({
+    ...trpc.episodes.searchTranscripts.queryOptions({
+      query: debouncedSearchQuery.trim(),
+      limit: 30,
+    }),
+    enabled:
+      searchMode === "transcripts" && debouncedSearchQuery.trim().length > 0,
+  });
+
   // Mutations
   const removePodcast = useMutation(trpc.podcasts.remove.mutationOptions());
   const parseFeed = useMutation(trpc.podcasts.parseFeed.mutationOptions());
@@ -141,7 +155,9 @@ export default function Podcasts() {
             placeholder={
               searchMode === "podcasts"
                 ? "Search podcasts..."
-                : "Search episodes..."
+                : searchMode === "transcripts"
+                  ? "Search what was said..."
+                  : "Search episodes..."
             }
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
@@ -158,6 +174,7 @@ export default function Podcasts() {
               <SelectContent>
                 <SelectItem value="podcasts">Podcasts</SelectItem>
                 <SelectItem value="episodes">Episodes</SelectItem>
+                <SelectItem value="transcripts">Transcripts</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -175,7 +192,102 @@ export default function Podcasts() {
       </div>
 
       {/* Results List */}
-      {searchMode === "episodes" && debouncedSearchQuery ? (
+      {searchMode === "transcripts" && debouncedSearchQuery ? (
+        // Transcript Search Results
+        transcriptsLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 5 }).map((_, index) => (
+              <div
+                key={index}
+                className="space-y-2 rounded-lg border bg-background p-4"
+              >
+                <Skeleton className="h-4 w-1/2" />
+                <Skeleton className="h-3 w-full" />
+                <Skeleton className="h-3 w-2/3" />
+              </div>
+            ))}
+          </div>
+        ) : transcriptsError ? (
+          <div className="text-center py-12">
+            <div className="flex items-center justify-center mb-4">
+              <HugeiconsIcon
+                icon={Alert01Icon}
+                size={32}
+                className="text-destructive"
+              />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">
+              Failed to search transcripts
+            </h3>
+            <p className="text-base text-muted-foreground">
+              {transcriptsError.message || "An error occurred while searching."}
+            </p>
+          </div>
+        ) : transcriptsData && transcriptsData.length > 0 ? (
+          <div className="space-y-3">
+            {transcriptsData.map((result) => (
+              <Link
+                key={result.id}
+                href={result.href}
+                className="flex gap-4 rounded-lg border bg-background p-4 hover:bg-muted/50 transition-colors"
+              >
+                <div className="h-12 w-12 rounded-lg bg-muted flex-shrink-0">
+                  {result.thumbnailUrl ? (
+                    <img
+                      src={result.thumbnailUrl}
+                      alt={result.episodeTitle}
+                      className="h-full w-full rounded-lg object-cover"
+                    />
+                  ) : (
+                    <div className="h-full w-full rounded-lg bg-gradient-to-br from-blue-500 to-purple-600" />
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-1">
+                  <h3 className="font-semibold text-base line-clamp-1">
+                    {result.episodeTitle}
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {result.podcastTitle}
+                    {result.source === "summary" ? (
+                      " • Summary"
+                    ) : (
+                      <>
+                        {result.startTimeSec !== null &&
+                          ` • ${formatTimecode(result.startTimeSec)}`}
+                        {result.speaker && ` • ${result.speaker}`}
+                      </>
+                    )}
+                  </p>
+                  <p className="text-sm line-clamp-3">
+                    {result.snippet.map((segment, index) =>
+                      segment.highlighted ? (
+                        <mark
+                          key={index}
+                          className="rounded bg-yellow-200 px-1"
+                        >
+                          {segment.text}
+                        </mark>
+                      ) : (
+                        <span key={index}>{segment.text}</span>
+                      ),
+                    )}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <div className="text-base text-muted-foreground mb-4">
+              No transcript matches for "{debouncedSearchQuery}"
+            </div>
+            <p className="text-base text-muted-foreground">
+              Only processed episodes with transcripts are searchable.
+            </p>
+          </div>
+        )
+      ) : searchMode === "episodes" && debouncedSearchQuery ? (
         // Episodes Search Results
         episodesLoading ? (
           <div className="space-y-3">
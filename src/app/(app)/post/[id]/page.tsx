@@ -7,7 +7,9 @@ import {
   InformationCircleIcon,
   Link01Icon,
   Loading03Icon,
+  Share08Icon,
   SparklesIcon,
+  WorkHistoryIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
@@ -15,11 +17,18 @@ import { ChevronDown } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { parseAsStringEnum, useQueryState } from "nuqs";
-import { use } from "react";
+import { use, useState } from "react";
 import { toast } from "sonner";
 
 import { Streamdown } from "streamdown";
+import { ShareDialog } from "@/components/blocks/shares/share-dialog";
+import { PinSummaryVersionButton } from "@/components/blocks/summaries/pin-summary-version-button";
+import { SummaryHistoryDialog } from "@/components/blocks/summaries/summary-history-dialog";
+import { SummaryTemplateSelect } from "@/components/blocks/summaries/summary-template-select";
+import { SummaryVersionSelect } from "@/components/blocks/summaries/summary-version-select";
 import { FavoriteButton } from "@/components/favorite-button";
+import { SignalsPanel } from "@/components/signals-panel";
+import { StructuredSummaryView } from "@/components/structured-summary";
 import { Button } from "@/components/ui/button";
 import { ButtonGroup } from "@/components/ui/button-group";
 import {
@@ -54,12 +63,18 @@ export default function PostDetailPage(props: {
   const params = use(props.params);
   const [activeTab, setActiveTab] = useQueryState(
     "tab",
-    parseAsStringEnum<"summary" | "article">([
+    parseAsStringEnum<"summary" | "signals" | "article">([
       "summary",
+      "signals",
       "article",
     ]).withDefault("summary"),
   );
 
+  // Undefined regenerates with the feed's default template
+  const [summaryTemplateId, setSummaryTemplateId] = useState<string | null>();
+  // Null shows the current summary
+  const [viewingVersionId, setViewingVersionId] = useState<string | null>(null);
+
   const article = useQuery({
     ...trpc.articles.getById.queryOptions({
       id: params.id,
@@ -75,6 +90,12 @@ export default function PostDetailPage(props: {
         queryClient.invalidateQueries({
           queryKey: trpc.articles.getSummary.queryKey({ articleId: params.id }),
         });
+        queryClient.invalidateQueries({
+          queryKey: trpc.summaries.listVersions.queryKey({
+            articleId: params.id,
+          }),
+        });
+        setViewingVersionId(null);
       },
       onError: (error) => {
         toast.error(`Failed to generate summary: ${error.message}`);
@@ -87,6 +108,14 @@ export default function PostDetailPage(props: {
     enabled: activeTab === "summary",
   });
 
+  const summaryVersions = useQuery({
+    ...trpc.summaries.listVersions.queryOptions({ articleId: params.id }),
+    enabled: activeTab === "summary",
+  });
+  const shownSummary =
+    summaryVersions.data?.find((version) => version.id === viewingVersionId) ??
+    summary.data;
+
   const rawContent = useQuery({
     ...trpc.articles.getRawContent.queryOptions({ articleId: params.id }),
     enabled: activeTab === "article",
@@ -270,6 +299,13 @@ export default function PostDetailPage(props: {
             <ButtonGroup>
               <CopyArticleContentButton articleId={params.id} />
               <FavoriteButton articleId={params.id} />
+              {hasSummary ? (
+                <ShareDialog articleId={params.id}>
+                  <Button size="icon-sm" variant="outline" aria-label="Share">
+                    <HugeiconsIcon icon={Share08Icon} size={16} />
+                  </Button>
+                </ShareDialog>
+              ) : null}
               {articleData?.url && (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -347,6 +383,9 @@ export default function PostDetailPage(props: {
           <TabsTrigger value="summary" className="flex-1">
             Summary
           </TabsTrigger>
+          <TabsTrigger value="signals" className="flex-1">
+            Signals
+          </TabsTrigger>
           <TabsTrigger value="article" className="flex-1">
             Full Article
           </TabsTrigger>
@@ -357,7 +396,7 @@ export default function PostDetailPage(props: {
         <section className="space-y-4">
           {summary.isPending ? (
             <LoadingState />
-          ) : summary.data ? (
+          ) : shownSummary ? (
             <Item className="space-y-6" variant="muted">
               <div className="relative">
                 <Button
@@ -365,9 +404,9 @@ export default function PostDetailPage(props: {
                   size="sm"
                   className="absolute top-2 right-2 z-10"
                   onClick={() => {
-                    if (summary.data?.markdownContent) {
+                    if (shownSummary.markdownContent) {
                       navigator.clipboard.writeText(
-                        summary.data.markdownContent,
+                        shownSummary.markdownContent,
                       );
                       toast.success("Summary copied to clipboard");
                     }
@@ -375,15 +414,34 @@ export default function PostDetailPage(props: {
                 >
                   <HugeiconsIcon icon={Copy01Icon} size={16} />
                 </Button>
-                <Streamdown className="text-base">
-                  {summary.data.markdownContent}
-                </Streamdown>
+                {shownSummary.structuredContent ? (
+                  <StructuredSummaryView
+                    summary={shownSummary.structuredContent}
+                    chunks={articleData?.transcriptChunks}
+                  />
+                ) : (
+                  <Streamdown className="text-base">
+                    {shownSummary.markdownContent}
+                  </Streamdown>
+                )}
               </div>
-              <ItemFooter className="pt-6 border-t flex gap-3 justify-start">
+              <ItemFooter className="pt-6 border-t flex flex-wrap gap-3 justify-start">
+                <SummaryTemplateSelect
+                  value={
+                    summaryTemplateId !== undefined
+                      ? summaryTemplateId
+                      : (articleData?.feed?.summaryTemplateId ?? null)
+                  }
+                  onChange={setSummaryTemplateId}
+                  disabled={generateSummary.isPending}
+                />
                 <Button
                   variant="outline"
                   onClick={() =>
-                    generateSummary.mutate({ articleId: params.id })
+                    generateSummary.mutate({
+                      articleId: params.id,
+                      templateId: summaryTemplateId,
+                    })
                   }
                   disabled={generateSummary.isPending}
                 >
@@ -398,6 +456,26 @@ export default function PostDetailPage(props: {
                   )}
                   Regenerate
                 </Button>
+                <div className="ml-auto flex flex-wrap gap-3">
+                  <SummaryVersionSelect
+                    versions={summaryVersions.data ?? []}
+                    value={viewingVersionId}
+                    onChange={setViewingVersionId}
+                  />
+                  {viewingVersionId && (
+                    <PinSummaryVersionButton
+                      source={{ articleId: params.id }}
+                      versionId={viewingVersionId}
+                      onPinned={() => setViewingVersionId(null)}
+                    />
+                  )}
+                  <SummaryHistoryDialog source={{ articleId: params.id }}>
+                    <Button variant="outline">
+                      <HugeiconsIcon icon={WorkHistoryIcon} size={16} />
+                      History
+                    </Button>
+                  </SummaryHistoryDialog>
+                </div>
               </ItemFooter>
             </Item>
           ) : (
@@ -443,6 +521,12 @@ export default function PostDetailPage(props: {
         </section>
       )}
 
+      {activeTab === "signals" && (
+        <section className="space-y-4">
+          <SignalsPanel articleId={params.id} />
+        </section>
+      )}
+
       {activeTab === "article" && (
         <section className="space-y-4">
           {rawContent.isPending ? (
@@ -1,9 +1,20 @@
+import { ModelPreferences } from "@/components/blocks/preferences/model-preferences";
+import { SignalPreferences } from "@/components/blocks/preferences/signal-preferences";
+import { SummaryTemplatePreferences } from "@/components/blocks/preferences/summary-template-preferences";
+import { TranscriptPreferences } from "@/components/blocks/preferences/transcript-preferences";
+
 export default function Preferences() {
   return (
     <div className="flex h-full w-full flex-col">
       <div className="p-6">
         <h1 className="text-3xl font-bold">Preferences</h1>
       </div>
+      <div className="max-w-3xl space-y-6 px-6 pb-6">
+        <SignalPreferences />
+        <SummaryTemplatePreferences />
+        <TranscriptPreferences />
+        <ModelPreferences />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,345 @@
+"use client";
+
+import {
+  Add01Icon,
+  Copy01Icon,
+  Key01Icon,
+  Loading03Icon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useTRPC } from "@/server/trpc/client";
+
+type Scope = "read" | "write" | "export";
+
+const SCOPE_OPTIONS: Array<{ value: Scope; label: string; help: string }> = [
+  {
+    value: "read",
+    label: "Read",
+    help: "Query podcasts, episodes, summaries and search",
+  },
+  {
+    value: "write",
+    label: "Write",
+    help: "Add podcasts, process episodes and change favorites",
+  },
+  {
+    value: "export",
+    label: "Export",
+    help: "Download data from /api/export",
+  },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiration" },
+];
+
+function formatDate(value: Date | string | null) {
+  if (!value) return "Never";
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export default function ApiTokensPage() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>(["read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const tokens = useQuery(trpc.apiTokens.list.queryOptions());
+
+  const createMutation = useMutation(
+    trpc.apiTokens.create.mutationOptions({
+      onSuccess: (result) => {
+        setCreatedToken(result.token);
+        setName("");
+        setScopes(["read"]);
+        queryClient.invalidateQueries({
+          queryKey: trpc.apiTokens.list.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to create token: ${error.message}`);
+      },
+    }),
+  );
+
+  const revokeMutation = useMutation(
+    trpc.apiTokens.revoke.mutationOptions({
+      onSuccess: () => {
+        toast.success("Token revoked");
+        queryClient.invalidateQueries({
+          queryKey: trpc.apiTokens.list.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to revoke token: ${error.message}`);
+      },
+    }),
+  );
+
+  const toggleScope = (scope: Scope, enabled: boolean) => {
+    setScopes((current) =>
+      enabled
+        ? [...new Set([...current, scope])]
+        : current.filter((s) => s !== scope),
+    );
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) {
+      toast.error("Please give the token a name");
+      return;
+    }
+    createMutation.mutate({
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiry === "never" ? null : Number(expiry),
+    });
+  };
+
+  const handleRevoke = (tokenId: string, tokenName: string) => {
+    if (
+      confirm(
+        `Revoke "${tokenName}"? Anything using this token will stop working immediately.`,
+      )
+    ) {
+      revokeMutation.mutate({ tokenId });
+    }
+  };
+
+  const handleCloseDialog = (open: boolean) => {
+    setShowCreateDialog(open);
+    if (!open) {
+      setCreatedToken(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">API Tokens</h1>
+          <p className="text-muted-foreground mt-1">
+            Personal tokens for scripts, the browser extension and exports. Send
+            them as <code>Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <HugeiconsIcon icon={Add01Icon} size={16} />
+          New Token
+        </Button>
+      </div>
+
+      {tokens.isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 2 }).map((_, index) => (
+            <div
+              key={index}
+              className="h-16 animate-pulse rounded-lg border bg-muted"
+            />
+          ))}
+        </div>
+      ) : tokens.data && tokens.data.length > 0 ? (
+        <div className="space-y-3">
+          {tokens.data.map((token) => (
+            <div
+              key={token.id}
+              className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{token.name}</span>
+                  <code className="text-xs text-muted-foreground">
+                    {token.tokenPrefix}…
+                  </code>
+                  {token.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Created {formatDate(token.createdAt)} • Last used{" "}
+                  {formatDate(token.lastUsedAt)} •{" "}
+                  {token.expiresAt
+                    ? `Expires ${formatDate(token.expiresAt)}`
+                    : "No expiration"}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRevoke(token.id, token.name)}
+                disabled={revokeMutation.isPending}
+                className="text-destructive"
+              >
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <HugeiconsIcon
+            icon={Key01Icon}
+            size={24}
+            className="mx-auto mb-3 text-muted-foreground"
+          />
+          <h3 className="font-medium mb-2">No API tokens yet</h3>
+          <p className="text-sm text-muted-foreground">
+            Create a token to use the API from scripts or curl.
+          </p>
+        </div>
+      )}
+
+      <Dialog open={showCreateDialog} onOpenChange={handleCloseDialog}>
+        <DialogContent>
+          {createdToken ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Copy your new token</DialogTitle>
+                <DialogDescription>
+                  This is the only time the token is shown. Store it somewhere
+                  safe.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex gap-2">
+                <Input readOnly value={createdToken} className="font-mono" />
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(createdToken);
+                    toast.success("Token copied to clipboard");
+                  }}
+                >
+                  <HugeiconsIcon icon={Copy01Icon} size={16} />
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => handleCloseDialog(false)}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>New API token</DialogTitle>
+                <DialogDescription>
+                  Give the token a name and only the scopes it needs
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="token-name">Name</Label>
+                  <Input
+                    id="token-name"
+                    placeholder="e.g. Exocortex sync"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Scopes</Label>
+                  {SCOPE_OPTIONS.map((option) => (
+                    <div
+                      key={option.value}
+                      className="flex items-center justify-between gap-4"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">{option.label}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {option.help}
+                        </p>
+                      </div>
+                      <Switch
+                        checked={scopes.includes(option.value)}
+                        onCheckedChange={(checked) =>
+                          toggleScope(option.value, checked)
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Expiration</Label>
+                  <Select value={expiry} onValueChange={setExpiry}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => handleCloseDialog(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={
+                    createMutation.isPending ||
+                    !name.trim() ||
+                    scopes.length === 0
+                  }
+                >
+                  {createMutation.isPending ? (
+                    <HugeiconsIcon
+                      icon={Loading03Icon}
+                      size={16}
+                      className="animate-spin"
+                    />
+                  ) : null}
+                  {createMutation.isPending ? "Creating..." : "Create Token"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
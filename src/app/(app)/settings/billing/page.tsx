@@ -1,146 +1,202 @@
 "use client";
 
+import { CreditCardIcon, Loading03Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { PlanCard } from "@/components/blocks/billing/plan-card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useTRPC } from "@/server/trpc/client";
+
+function formatDate(value: number | null) {
+  if (!value) return null;
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
 export default function BillingPage() {
-  return null;
-  // const { customer, openBillingPortal } = useCustomer();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const overview = useQuery(trpc.billing.overview.queryOptions());
+  const returnUrl =
+    typeof window === "undefined"
+      ? ""
+      : `${window.location.origin}/settings/billing`;
+
+  const changePlan = useMutation(
+    trpc.billing.changePlan.mutationOptions({
+      onSuccess: ({ checkoutUrl }) => {
+        if (checkoutUrl) {
+          window.location.href = checkoutUrl;
+          return;
+        }
+        toast.success("Plan updated");
+        queryClient.invalidateQueries({
+          queryKey: trpc.billing.overview.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const portal = useMutation(
+    trpc.billing.portal.mutationOptions({
+      onSuccess: ({ url }) => {
+        window.location.href = url;
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  if (overview.isPending) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 w-48 animate-pulse rounded bg-muted" />
+        <div className="h-64 animate-pulse rounded-lg border bg-muted" />
+      </div>
+    );
+  }
 
-  // return (
-  //   <div className="container mx-auto py-8 space-y-6">
-  //     <div>
-  //       <h1 className="text-2xl font-bold">Billing Settings</h1>
-  //       <p className="text-muted-foreground">
-  //         Manage your subscription and payment methods
-  //       </p>
-  //     </div>
+  if (!overview.data) {
+    return null;
+  }
 
-  //     {/* Current Subscription */}
-  //     <Card>
-  //       <CardHeader>
-  //         <CardTitle>Current Subscription</CardTitle>
-  //         <CardDescription>
-  //           {customer?.products?.[0]?.status === "active"
-  //             ? "You have an active subscription"
-  //             : "No active subscription"}
-  //         </CardDescription>
-  //       </CardHeader>
-  //       <CardContent>
-  //         <div className="flex items-center justify-between">
-  //           <div>
-  //             <p className="font-medium">
-  //               {customer?.products?.[0]?.name || "Free Plan"}
-  //             </p>
-  //             <p className="text-sm text-muted-foreground">
-  //               {customer?.products?.[0]?.status === "active"
-  //                 ? `Renews on ${customer.products[0].current_period_end ?? ""}`
-  //                 : "Upgrade to access premium features"}
-  //             </p>
-  //           </div>
-  //           <Button
-  //             onClick={() =>
-  //               openBillingPortal({
-  //                 returnUrl: `${process.env.NEXT_PUBLIC_APP_URL}/settings/billing`,
-  //               })
-  //             }
-  //             variant="outline"
-  //           >
-  //             Adjust
-  //           </Button>
-  //         </div>
-  //       </CardContent>
-  //     </Card>
+  const { plan, features, plans, enabled, mock } = overview.data;
 
-  //     {/* Payment Method */}
-  //     <Card>
-  //       <CardHeader>
-  //         <CardTitle>Payment Method</CardTitle>
-  //         <CardDescription>Manage your payment information</CardDescription>
-  //       </CardHeader>
-  //       <CardContent>
-  //         <div className="flex items-center justify-between">
-  //           <div>
-  //             <p className="font-medium">
-  //               {JSON.stringify(customer)}
-  //               {customer?.payment_method}
-  //               {customer?.payment_method
-  //                 ? `•••• ${customer.payment_method}`
-  //                 : "No payment method on file"}
-  //             </p>
-  //             <p className="text-sm text-muted-foreground">
-  //               {customer?.payment_method
-  //                 ? `Expires ${customer.payment_method.expMonth}/${customer.payment_method.expYear}`
-  //                 : "Add a payment method to upgrade your subscription"}
-  //             </p>
-  //           </div>
-  //           <Button
-  //             onClick={() =>
-  //               openBillingPortal({
-  //                 returnUrl: `${process.env.NEXT_PUBLIC_APP_URL}/settings/billing`,
-  //               })
-  //             }
-  //             variant="outline"
-  //           >
-  //             Update
-  //           </Button>
-  //         </div>
-  //       </CardContent>
-  //     </Card>
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Billing</h1>
+          <p className="text-muted-foreground mt-1">
+            Your plan, what you've used this month and your options to upgrade
+          </p>
+        </div>
+        {enabled && !mock ? (
+          <Button
+            variant="outline"
+            onClick={() => portal.mutate({ returnUrl })}
+            disabled={portal.isPending}
+          >
+            <HugeiconsIcon icon={CreditCardIcon} size={16} />
+            Payment & invoices
+          </Button>
+        ) : null}
+      </div>
 
-  //     {/* Invoices */}
-  //     <Card>
-  //       <CardHeader>
-  //         <CardTitle>Invoices</CardTitle>
-  //         <CardDescription>
-  //           View your billing history and download invoices
-  //         </CardDescription>
-  //       </CardHeader>
-  //       <CardContent>
-  //         {customer?.invoices && customer.invoices.length > 0 ? (
-  //           <div className="space-y-2">
-  //             {customer.invoices.map((_invoice, index) => (
-  //               <div
-  //                 key={index}
-  //                 className="flex items-center justify-between py-2 border-b"
-  //               >
-  //                 <div>
-  //                   <p className="font-medium">Invoice #{index + 1}</p>
-  //                   <p className="text-sm text-muted-foreground">
-  //                     {new Date().toLocaleDateString()} • $0.00
-  //                   </p>
-  //                 </div>
-  //                 <Button variant="outline" size="sm">
-  //                   Download
-  //                 </Button>
-  //               </div>
-  //             ))}
-  //           </div>
-  //         ) : (
-  //           <p className="text-muted-foreground">No invoices available</p>
-  //         )}
-  //       </CardContent>
-  //     </Card>
+      {!enabled ? (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <h3 className="font-medium mb-2">Billing is not set up</h3>
+          <p className="text-sm text-muted-foreground">
+            Plans aren't enforced on this server. Set AUTUMN_SECRET_KEY to
+            enable them.
+          </p>
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {plan?.name}
+              {mock ? <Badge variant="secondary">Mock</Badge> : null}
+              {plan?.status === "trialing" ? (
+                <Badge variant="secondary">Trial</Badge>
+              ) : null}
+            </CardTitle>
+            <CardDescription>
+              {plan?.canceledAt
+                ? `Canceled, ends ${formatDate(plan.renewsAt) ?? "at the end of the period"}`
+                : plan?.renewsAt
+                  ? `Renews ${formatDate(plan.renewsAt)}`
+                  : "Current plan"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {features.map((feature) => (
+              <div key={feature.id} className="space-y-2">
+                <div className="flex items-baseline justify-between gap-3 text-sm">
+                  <span className="font-medium">{feature.label}</span>
+                  <span className="text-muted-foreground tabular-nums">
+                    {feature.usage.toLocaleString("en-US")}
+                    {feature.limit === null
+                      ? ` ${feature.unit} • Unlimited`
+                      : ` of ${feature.limit.toLocaleString("en-US")} ${feature.unit}`}
+                  </span>
+                </div>
+                {feature.limit !== null ? (
+                  <Progress
+                    value={
+                      feature.limit > 0
+                        ? Math.min((feature.usage / feature.limit) * 100, 100)
+                        : 100
+                    }
+                  />
+                ) : null}
+                {feature.resets && feature.resetsAt ? (
+                  <p className="text-xs text-muted-foreground">
+                    Resets {formatDate(feature.resetsAt)}
+                  </p>
+                ) : null}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
 
-  //     {/* Cancellation */}
-  //     <Card>
-  //       <CardHeader>
-  //         <CardTitle>Cancel Subscription</CardTitle>
-  //         <CardDescription>
-  //           If you cancel your subscription, you'll lose access to premium
-  //           features at the end of your current billing period.
-  //         </CardDescription>
-  //       </CardHeader>
-  //       <CardContent>
-  //         <Button
-  //           onClick={() =>
-  //             openBillingPortal({
-  //               returnUrl: `${process.env.NEXT_PUBLIC_APP_URL}/settings/billing`,
-  //             })
-  //           }
-  //           variant="destructive"
-  //         >
-  //           Cancel Subscription
-  //         </Button>
-  //       </CardContent>
-  //     </Card>
-  //   </div>
-  // );
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">Plans</h2>
+        <div className="grid gap-4 md:grid-cols-2">
+          {plans.map((option) => (
+            <PlanCard
+              key={option.id}
+              plan={option}
+              highlighted={option.id === plan?.id}
+              action={
+                option.id === plan?.id ? (
+                  <Button variant="outline" disabled>
+                    Current plan
+                  </Button>
+                ) : (
+                  <Button
+                    variant={option.id === "free" ? "outline" : "default"}
+                    onClick={() =>
+                      changePlan.mutate({ planId: option.id, returnUrl })
+                    }
+                    disabled={!enabled || changePlan.isPending}
+                  >
+                    {changePlan.isPending &&
+                    changePlan.variables?.planId === option.id ? (
+                      <HugeiconsIcon
+                        icon={Loading03Icon}
+                        size={16}
+                        className="animate-spin"
+                      />
+                    ) : null}
+                    {option.id === "free"
+                      ? "Downgrade to Free"
+                      : `Upgrade to ${option.name}`}
+                  </Button>
+                )
+              }
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
 }
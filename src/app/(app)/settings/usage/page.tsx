@@ -0,0 +1,125 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { useState } from "react";
+import {
+  formatCount,
+  formatMinutes,
+  formatUsd,
+  UsageOverview,
+  type UsagePeriod,
+  UsagePeriodSelect,
+} from "@/components/blocks/usage/usage-overview";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTRPC } from "@/server/trpc/client";
+
+function formatDateTime(value: Date | string) {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function UsagePage() {
+  const trpc = useTRPC();
+  const [period, setPeriod] = useState<UsagePeriod>("day");
+  const usage = useQuery(trpc.usage.summary.queryOptions({ period }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Usage</h1>
+          <p className="text-muted-foreground mt-1">
+            Transcription, AI, embedding and article extraction calls made for
+            your library, with their estimated cost.
+          </p>
+        </div>
+        <UsagePeriodSelect value={period} onChange={setPeriod} />
+      </div>
+
+      {usage.isPending ? (
+        <div className="h-96 animate-pulse rounded-lg border bg-muted" />
+      ) : usage.data ? (
+        <>
+          <UsageOverview rollup={usage.data} period={period} />
+
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold">Recent calls</h2>
+            {usage.data.recent.length > 0 ? (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Task</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead>For</TableHead>
+                      <TableHead className="text-right">Usage</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.data.recent.map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDateTime(event.createdAt)}
+                        </TableCell>
+                        <TableCell>{event.task}</TableCell>
+                        <TableCell className="max-w-48 truncate">
+                          {event.provider}
+                          {event.model ? `:${event.model}` : ""}
+                        </TableCell>
+                        <TableCell className="max-w-64 truncate">
+                          {event.episodeId ? (
+                            <Link
+                              href={`/episode/${event.episodeId}`}
+                              className="hover:underline"
+                            >
+                              {event.episodeTitle}
+                            </Link>
+                          ) : event.articleId ? (
+                            <Link
+                              href={`/post/${event.articleId}`}
+                              className="hover:underline"
+                            >
+                              {event.articleTitle}
+                            </Link>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums whitespace-nowrap">
+                          {event.audioSeconds > 0
+                            ? formatMinutes(event.audioSeconds)
+                            : `${formatCount(event.inputTokens + event.outputTokens)} tokens`}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatUsd(event.costUsd)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Nothing recorded yet.
+              </p>
+            )}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import { SignalsInbox } from "@/components/blocks/signals/signals-inbox";
+
+export default function EpisodeSignalsPage() {
+  return <SignalsInbox kind="episodes" />;
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { Scissor01Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useQuery } from "@tanstack/react-query";
+import { SnipCard } from "@/components/blocks/snips/snip-card";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardTitle,
+} from "@/components/ui/card";
+import { useTRPC } from "@/server/trpc/client";
+
+export default function SnipsPage() {
+  const trpc = useTRPC();
+  const { data: snips, isLoading } = useQuery(trpc.snips.list.queryOptions());
+
+  if (isLoading) {
+    return (
+      <main className="mx-auto w-full container space-y-6 px-4 py-6 sm:px-6 sm:py-8">
+        <div className="animate-pulse">
+          <div className="h-8 w-48 bg-muted rounded mb-6" />
+          <div className="space-y-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="flex gap-4 p-3">
+                <div className="h-16 w-16 bg-muted rounded-lg" />
+                <div className="flex-1 space-y-2">
+                  <div className="h-5 bg-muted rounded w-3/4" />
+                  <div className="h-4 bg-muted rounded w-1/2" />
+                  <div className="h-12 bg-muted rounded" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="mx-auto w-full container space-y-6 px-4 py-6 sm:px-6 sm:py-8">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold">Your Snips</h1>
+        <p className="text-muted-foreground mt-1">
+          Moments you've saved from transcripts and the player
+        </p>
+      </div>
+
+      {snips && snips.length > 0 ? (
+        <div className="space-y-3 sm:space-y-4">
+          {snips.map((snip) => (
+            <SnipCard key={snip.id} snip={snip} />
+          ))}
+        </div>
+      ) : (
+        <Card className="w-full">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <HugeiconsIcon
+              icon={Scissor01Icon}
+              size={64}
+              className="text-muted-foreground mb-6"
+            />
+            <CardTitle className="mb-2">No Snips Yet</CardTitle>
+            <CardDescription className="text-center mb-6 max-w-md">
+              Select paragraphs in an episode transcript, or use the scissors in
+              the player to save the last 30 seconds.
+            </CardDescription>
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  );
+}
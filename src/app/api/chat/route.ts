@@ -0,0 +1,77 @@
+import {
+  convertToModelMessages,
+  safeValidateUIMessages,
+  stepCountIs,
+  streamText,
+} from "ai";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { createPodcastSystemPrompt } from "@/lib/prompt-utils";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { db } from "@/server/db";
+import { hasApiScope, resolveRequestAuth } from "@/server/lib/api-tokens";
+import { createChatTools } from "@/server/lib/chat";
+import { getTaskModel } from "@/server/lib/model-registry";
+
+export const maxDuration = 60;
+
+// Message structure is checked by safeValidateUIMessages below
+const bodySchema = z.object({
+  messages: z.array(z.unknown()).min(1),
+  episodeId: z.string().min(1).optional(),
+});
+
+export async function POST(req: NextRequest) {
+  const requestAuth = await resolveRequestAuth(req.headers);
+  if (!requestAuth) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  if (!hasApiScope(requestAuth, "read")) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    const rateLimitResult = await checkRateLimit(
+      `chat:${requestAuth.user.id}`,
+      RATE_LIMITS.CHAT,
+    );
+    if (!rateLimitResult.success) {
+      return new Response("Rate limit exceeded", { status: 429 });
+    }
+  }
+
+  const parsed = bodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid request body", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  const { episodeId } = parsed.data;
+
+  const validated = await safeValidateUIMessages({
+    messages: parsed.data.messages,
+  });
+  if (!validated.success) {
+    return Response.json(
+      { error: "Invalid messages", message: validated.error.message },
+      { status: 400 },
+    );
+  }
+  const messages = validated.data;
+
+  const result = streamText({
+    model: await getTaskModel("chat", {
+      db,
+      userId: requestAuth.user.id,
+      episodeId,
+    }),
+    system: createPodcastSystemPrompt({ episodeId }),
+    messages: convertToModelMessages(messages),
+    tools: createChatTools({ db, userId: requestAuth.user.id, episodeId }),
+    stopWhen: stepCountIs(5),
+    temperature: 0.3,
+  });
+
+  return result.toUIMessageStreamResponse();
+}
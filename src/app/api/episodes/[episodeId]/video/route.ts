@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server";
+import { proxyEpisodeMedia } from "@/server/lib/media-proxy";
+
+// Same-origin video of the matched YouTube upload; see proxyEpisodeMedia
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ episodeId: string }> },
+) {
+  const { episodeId } = await params;
+  return proxyEpisodeMedia(req, episodeId, "video");
+}
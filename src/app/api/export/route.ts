@@ -0,0 +1,82 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { db } from "@/server/db";
+import { hasApiScope, resolveRequestAuth } from "@/server/lib/api-tokens";
+import {
+  buildExport,
+  EXPORT_MODES,
+  getLastExportedAt,
+  setLastExportedAt,
+} from "@/server/lib/export";
+
+export const maxDuration = 60;
+
+const querySchema = z.object({
+  mode: z.enum(EXPORT_MODES).default("full"),
+  since: z.coerce.date().optional(),
+});
+
+export async function GET(req: NextRequest) {
+  const requestAuth = await resolveRequestAuth(req.headers);
+  if (!requestAuth) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!hasApiScope(requestAuth, "export")) {
+    return Response.json(
+      { error: 'API token is missing the "export" scope' },
+      { status: 403 },
+    );
+  }
+  const userId = requestAuth.user.id;
+
+  const parsed = querySchema.safeParse({
+    mode: req.nextUrl.searchParams.get("mode") ?? undefined,
+    since: req.nextUrl.searchParams.get("since") ?? undefined,
+  });
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  const { mode, since } = parsed.data;
+
+  if (process.env.NODE_ENV === "production") {
+    const rateLimitResult = await checkRateLimit(
+      `export:${userId}`,
+      RATE_LIMITS.EXPORT,
+    );
+    if (!rateLimitResult.success) {
+      return Response.json({ error: "Rate limit exceeded" }, { status: 429 });
+    }
+  }
+
+  // Capture the cutoff before querying so rows written mid-export are
+  // picked up by the next incremental run instead of being skipped
+  const exportedAt = new Date();
+  const effectiveSince =
+    since ??
+    (mode === "incremental" ? await getLastExportedAt({ db, userId }) : null);
+
+  const payload = await buildExport({
+    db,
+    userId,
+    mode,
+    since: effectiveSince,
+    exportedAt,
+  });
+
+  if (mode === "incremental") {
+    await setLastExportedAt({ db, userId, exportedAt });
+  }
+
+  const filename = `export-${mode}-${exportedAt.toISOString().slice(0, 10)}.json`;
+
+  return Response.json(payload, {
+    headers: {
+      "Cache-Control": "no-store",
+      "Content-Disposition": `inline; filename="${filename}"`,
+    },
+  });
+}
@@ -1,15 +1,19 @@
 import { serve } from "inngest/next";
 import { inngest } from "@/inngest/client";
 import {
+  backfillChunkEmbeddings,
   bulkRefreshArticleFeeds,
   bulkRefreshFeeds,
   dailyIntelligenceProcessEpisode,
   dailyIntelligenceReprocessEpisode,
   fetchEpisodeTranscript,
   generateArticleSummaryFunction,
+  generateEpisodeChaptersFunction,
   generateEpisodeSummaryFunction,
+  generateSignalsFunction,
   healthCheck,
   processArticle,
+  recomputeQualityPreferencesFunction,
   refreshArticleFeed,
   refreshPodcastFeed,
   reprocessArticle,
@@ -29,9 +33,16 @@ export const { GET, POST, PUT } = serve({
     dailyIntelligenceProcessEpisode,
     dailyIntelligenceReprocessEpisode,
     fetchEpisodeTranscript,
+    // Embeddings
+    backfillChunkEmbeddings,
     // Summary generation
     generateArticleSummaryFunction,
     generateEpisodeSummaryFunction,
+    // Chapters
+    generateEpisodeChaptersFunction,
+    // Signals
+    generateSignalsFunction,
+    recomputeQualityPreferencesFunction,
     // Monitoring & Health
     healthCheck,
   ],
@@ -0,0 +1,68 @@
+import { and, eq } from "drizzle-orm";
+import type { NextRequest } from "next/server";
+import { db } from "@/server/db";
+import { episode } from "@/server/db/schema";
+import { hasApiScope, resolveRequestAuth } from "@/server/lib/api-tokens";
+import {
+  getTranscriptDownloadUrl,
+  loadTranscriptJson,
+} from "@/server/lib/transcript-storage";
+
+// Stored transcripts are never handed to clients directly. This route checks
+// ownership, then proxies the JSON or redirects to a short-lived signed URL.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ episodeId: string }> },
+) {
+  const requestAuth = await resolveRequestAuth(req.headers);
+  if (!requestAuth) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!hasApiScope(requestAuth, "read")) {
+    return Response.json(
+      { error: 'API token is missing the "read" scope' },
+      { status: 403 },
+    );
+  }
+
+  const { episodeId } = await params;
+  const [episodeRecord] = await db
+    .select({ id: episode.id, transcriptUrl: episode.transcriptUrl })
+    .from(episode)
+    .where(
+      and(eq(episode.id, episodeId), eq(episode.userId, requestAuth.user.id)),
+    )
+    .limit(1);
+
+  if (!episodeRecord?.transcriptUrl) {
+    return Response.json({ error: "Transcript not found" }, { status: 404 });
+  }
+
+  const download = req.nextUrl.searchParams.get("download") === "1";
+
+  if (download) {
+    const signedUrl = await getTranscriptDownloadUrl(episodeRecord);
+    if (signedUrl) {
+      return Response.redirect(signedUrl, 302);
+    }
+  }
+
+  try {
+    const body = await loadTranscriptJson(episodeRecord);
+    return new Response(body, {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "private, max-age=300",
+        ...(download && {
+          "Content-Disposition": `attachment; filename="transcript-${episodeId}.json"`,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error("Transcript load error:", error);
+    return Response.json(
+      { error: "Failed to load transcript" },
+      { status: 502 },
+    );
+  }
+}
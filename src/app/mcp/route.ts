@@ -0,0 +1,22 @@
+import { withMcpAuth } from "better-auth/plugins";
+import { createMcpHandler } from "mcp-handler";
+import { auth } from "@/lib/auth";
+import { registerLibraryTools } from "@/server/lib/mcp";
+import { createMcpTRPCContext } from "@/server/trpc/context";
+import { appRouter } from "@/server/trpc/root";
+
+export const maxDuration = 60;
+
+// OAuth-protected MCP endpoint (streamable HTTP) at /mcp.
+// Clients discover the auth server via /.well-known/oauth-protected-resource.
+const handler = withMcpAuth(auth, async (req, mcpSession) => {
+  const caller = appRouter.createCaller(await createMcpTRPCContext(mcpSession));
+
+  return createMcpHandler(
+    (server) => registerLibraryTools(server, caller),
+    { serverInfo: { name: "framebreak-intelligence", version: "1.0.0" } },
+    { basePath: "", maxDuration, disableSse: true },
+  )(req);
+});
+
+export { handler as DELETE, handler as GET, handler as POST };
@@ -0,0 +1,143 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { Streamdown } from "streamdown";
+import { StructuredSummaryView } from "@/components/structured-summary";
+import { auth } from "@/lib/auth";
+import { getSharedContent, recordShareView } from "@/server/lib/share-links";
+
+type SharePageProps = {
+  params: Promise<{ token: string }>;
+};
+
+// generateMetadata and the page share one lookup per request
+const loadSharedContent = cache(getSharedContent);
+
+function summaryExcerpt(
+  content: NonNullable<Awaited<ReturnType<typeof getSharedContent>>>,
+) {
+  const text =
+    content.summary?.structuredContent?.tldr.text ??
+    content.summary?.markdownContent
+      .replace(/[#>*_`[\]()-]/g, "")
+      .replace(/\s+/g, " ")
+      .trim() ??
+    "";
+  return text.length > 200 ? `${text.slice(0, 197)}...` : text;
+}
+
+export async function generateMetadata({
+  params,
+}: SharePageProps): Promise<Metadata> {
+  const { token } = await params;
+  const content = await loadSharedContent(token);
+
+  if (!content) {
+    return { title: "Link unavailable", robots: { index: false } };
+  }
+
+  const description = summaryExcerpt(content);
+  return {
+    title: content.title,
+    description,
+    // Share links are unlisted
+    robots: { index: false, follow: false },
+    openGraph: {
+      title: content.title,
+      description,
+      type: "article",
+      siteName: "Framebreak Intelligence",
+      images: content.imageUrl ? [{ url: content.imageUrl }] : undefined,
+    },
+    twitter: {
+      card: content.imageUrl ? "summary_large_image" : "summary",
+      title: content.title,
+      description,
+      images: content.imageUrl ? [content.imageUrl] : undefined,
+    },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  const content = await loadSharedContent(token);
+
+  if (!content) {
+    notFound();
+  }
+
+  // The owner checking their own link doesn't count as a view
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (session?.user.id !== content.link.userId) {
+    await recordShareView(content.link.id);
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-8 px-4 py-10">
+      <header className="flex items-start gap-4">
+        {content.imageUrl ? (
+          <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-lg bg-muted">
+            <Image
+              src={content.imageUrl}
+              alt={content.subtitle ?? content.title}
+              fill
+              className="object-cover"
+            />
+          </div>
+        ) : null}
+        <div className="min-w-0 space-y-1">
+          <p className="text-sm text-muted-foreground">
+            {content.kind === "episode" ? "Episode summary" : "Article summary"}
+            {content.subtitle ? ` · ${content.subtitle}` : ""}
+          </p>
+          <h1 className="text-2xl font-semibold tracking-tight sm:text-3xl">
+            {content.title}
+          </h1>
+          {content.publishedAt ? (
+            <p className="text-sm text-muted-foreground">
+              {content.publishedAt.toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+                year: "numeric",
+              })}
+            </p>
+          ) : null}
+          {content.sourceUrl ? (
+            <a
+              href={content.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm underline underline-offset-4"
+            >
+              Read the original
+            </a>
+          ) : null}
+        </div>
+      </header>
+
+      <main className="rounded-lg border p-6">
+        {content.summary?.structuredContent ? (
+          <StructuredSummaryView summary={content.summary.structuredContent} />
+        ) : content.summary ? (
+          <Streamdown className="text-base">
+            {content.summary.markdownContent}
+          </Streamdown>
+        ) : (
+          <p className="text-muted-foreground">
+            This summary isn't available anymore.
+          </p>
+        )}
+      </main>
+
+      <footer className="text-center text-sm text-muted-foreground">
+        Shared with{" "}
+        <Link href="/" className="underline underline-offset-4">
+          Framebreak Intelligence
+        </Link>
+      </footer>
+    </div>
+  );
+}
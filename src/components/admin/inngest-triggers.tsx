@@ -18,6 +18,7 @@ export function InngestTriggers() {
   const trpc = useTRPC();
   const [podcastId, setPodcastId] = useState("");
   const [userId, setUserId] = useState("");
+  const [embeddingUserId, setEmbeddingUserId] = useState("");
 
   // Feed Processing
   const refreshFeed = useMutation(
@@ -30,6 +31,11 @@ export function InngestTriggers() {
   // Episode Processing
   const processUser = useMutation(trpc.admin.processUser.mutationOptions());
 
+  // Embeddings
+  const backfillEmbeddings = useMutation(
+    trpc.admin.backfillEmbeddings.mutationOptions(),
+  );
+
   // Monitoring
   const episodeStatusMonitor = useMutation(
     trpc.admin.episodeStatusMonitor.mutationOptions(),
@@ -154,6 +160,53 @@ export function InngestTriggers() {
         </CardContent>
       </Card>
 
+      {/* Embeddings Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Embeddings</CardTitle>
+          <CardDescription>
+            Generate vectors for transcript chunks that don&apos;t have one yet
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4 items-end">
+            <div className="flex-1">
+              <Label htmlFor="embeddingUserId">User ID (optional)</Label>
+              <Input
+                id="embeddingUserId"
+                placeholder="Leave empty to backfill all users"
+                value={embeddingUserId}
+                onChange={(e) => setEmbeddingUserId(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => {
+                backfillEmbeddings.mutate({
+                  userId: embeddingUserId || undefined,
+                });
+              }}
+              disabled={backfillEmbeddings.isPending}
+            >
+              {backfillEmbeddings.isPending
+                ? "Triggering..."
+                : "Backfill Embeddings"}
+            </Button>
+          </div>
+
+          {backfillEmbeddings.isSuccess && (
+            <div className="text-sm text-green-600 dark:text-green-400">
+              ✓ Embedding backfill triggered successfully
+            </div>
+          )}
+
+          {backfillEmbeddings.error && (
+            <div className="text-sm text-red-600 dark:text-red-400">
+              ✗ Error: {backfillEmbeddings.error.message}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Monitoring Section */}
       <Card>
         <CardHeader>
@@ -0,0 +1,86 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import {
+  formatCount,
+  formatMinutes,
+  formatUsd,
+  UsageOverview,
+  type UsagePeriod,
+  UsagePeriodSelect,
+} from "@/components/blocks/usage/usage-overview";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTRPC } from "@/server/trpc/client";
+
+export function UsageDashboard() {
+  const trpc = useTRPC();
+  const [period, setPeriod] = useState<UsagePeriod>("day");
+  const usage = useQuery(trpc.usage.adminSummary.queryOptions({ period }));
+
+  if (usage.isPending) {
+    return <div>Loading usage...</div>;
+  }
+
+  if (!usage.data) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          All users since {new Date(usage.data.since).toLocaleDateString()}
+        </p>
+        <UsagePeriodSelect value={period} onChange={setPeriod} />
+      </div>
+
+      <UsageOverview rollup={usage.data} period={period} />
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">Top users</h2>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Audio</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {usage.data.topUsers.map((row) => (
+                <TableRow key={row.userId}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell>{row.email}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCount(row.calls)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCount(row.inputTokens + row.outputTokens)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatMinutes(row.audioSeconds)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatUsd(row.costUsd)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
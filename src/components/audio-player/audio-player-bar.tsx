@@ -4,18 +4,33 @@ import {
   ArrowReloadHorizontalIcon,
   Backward01Icon,
   Forward01Icon,
+  LeftToRightListBulletIcon,
   Loading03Icon,
   PauseIcon,
   PlayCircleIcon,
+  Scissor01Icon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
 import { memo, useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import { ChapterList, getChapterIndexAt } from "@/components/chapters-panel";
 import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { Progress } from "@/components/ui/progress";
 import { formatTimecode } from "@/lib/time";
 import { cn } from "@/lib/utils";
+import { useTRPC } from "@/server/trpc/client";
 import { useAudioPlayer } from "./audio-player-provider";
 
+// How far back the snip button reaches from the playhead
+const PLAYER_SNIP_SECONDS = 30;
+
 interface AudioPlayerBarProps {
   className?: string;
 }
@@ -33,10 +48,35 @@ const AudioPlayerBar = memo(function AudioPlayerBar({
     error,
     hasReachedEnd,
     toggle,
+    seek,
     skip,
     cycleRate,
     replay,
   } = useAudioPlayer();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+
+  const createSnip = useMutation(
+    trpc.snips.create.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: trpc.snips.list.queryKey() });
+        toast.success("Snip saved", {
+          action: { label: "View", onClick: () => router.push("/snips") },
+        });
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const chapters = currentTrack?.chapters ?? [];
+  const chapterIndex = useMemo(
+    () => getChapterIndexAt(currentTrack?.chapters ?? [], currentTime),
+    [currentTrack?.chapters, currentTime],
+  );
+  const currentChapter = chapterIndex >= 0 ? chapters[chapterIndex] : null;
 
   const progressValue = useMemo(() => {
     if (!duration || Number.isNaN(duration) || duration <= 0) {
@@ -56,6 +96,16 @@ const AudioPlayerBar = memo(function AudioPlayerBar({
   const handleSkipBack = useCallback(() => skip(-10), [skip]);
   const handleSkipForward = useCallback(() => skip(10), [skip]);
 
+  const handleSnip = useCallback(() => {
+    if (!currentTrack) return;
+    const startTimeSec = Math.max(0, currentTime - PLAYER_SNIP_SECONDS);
+    createSnip.mutate({
+      episodeId: currentTrack.id,
+      startTimeSec,
+      endTimeSec: Math.max(currentTime, startTimeSec + 1),
+    });
+  }, [createSnip, currentTime, currentTrack]);
+
   const currentLabel = useMemo(
     () => formatTimecode(currentTime) ?? "0:00",
     [currentTime],
@@ -89,13 +139,44 @@ const AudioPlayerBar = memo(function AudioPlayerBar({
             <div className="text-xs font-medium text-foreground sm:text-sm sm:truncate">
               {currentTrack.title}
             </div>
-            {currentTrack.subtitle ? (
+            {currentTrack.subtitle || currentChapter ? (
               <div className="text-[11px] text-muted-foreground sm:text-xs sm:truncate">
-                {currentTrack.subtitle}
+                {[currentTrack.subtitle, currentChapter?.title]
+                  .filter(Boolean)
+                  .join(" · ")}
               </div>
             ) : null}
           </div>
           <div className="flex items-center gap-0.5 sm:gap-2">
+            {chapters.length > 0 ? (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 sm:h-10 sm:w-10"
+                    aria-label="Chapters"
+                  >
+                    <HugeiconsIcon
+                      icon={LeftToRightListBulletIcon}
+                      size={16}
+                      className="h-3.5 w-3.5 sm:h-4 sm:w-4"
+                    />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent
+                  align="end"
+                  side="top"
+                  className="max-h-80 w-80 overflow-y-auto p-2"
+                >
+                  <ChapterList
+                    chapters={chapters}
+                    activeIndex={chapterIndex}
+                    onSelect={(chapter) => seek(chapter.startTimeSec)}
+                  />
+                </PopoverContent>
+              </Popover>
+            ) : null}
             <Button
               size="icon"
               variant="ghost"
@@ -156,6 +237,20 @@ const AudioPlayerBar = memo(function AudioPlayerBar({
                 className="h-3.5 w-3.5 sm:h-4 sm:w-4"
               />
             </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 sm:h-10 sm:w-10"
+              onClick={handleSnip}
+              disabled={createSnip.isPending}
+              aria-label={`Snip the last ${PLAYER_SNIP_SECONDS} seconds`}
+            >
+              <HugeiconsIcon
+                icon={Scissor01Icon}
+                size={16}
+                className="h-3.5 w-3.5 sm:h-4 sm:w-4"
+              />
+            </Button>
             <Button
               variant="secondary"
               size="sm"
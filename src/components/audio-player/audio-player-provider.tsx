@@ -1,5 +1,6 @@
 "use client";
 
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Howl } from "howler";
 import {
   createContext,
@@ -10,7 +11,10 @@ import {
   useRef,
   useState,
 } from "react";
+import type { Chapter } from "@/components/chapters-panel";
+import { PLAYBACK_CHECKPOINT_SEC } from "@/lib/playback";
 import { clampTime } from "@/lib/time";
+import { useTRPC } from "@/server/trpc/client";
 
 type AudioTrack = {
   id: string;
@@ -20,6 +24,9 @@ type AudioTrack = {
   startTimeSec?: number | null;
   endTimeSec?: number | null;
   durationSec?: number | null;
+  chapters?: Chapter[] | null;
+  // Full-episode playback saves its position; clips leave progress alone
+  recordProgress?: boolean;
 };
 
 type AudioPlayerState = {
@@ -73,6 +80,74 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
   const [playbackRate, setPlaybackRate] = useState(1);
   const [error, setError] = useState<string | null>(null);
   const [hasReachedEnd, setHasReachedEnd] = useState(false);
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const lastCheckpointRef = useRef<{
+    trackId: string;
+    time: number;
+    ended: boolean;
+  } | null>(null);
+
+  const { mutate: saveProgress } = useMutation(
+    trpc.playback.saveProgress.mutationOptions(),
+  );
+
+  // Checkpoint every few seconds of playback, and straight away on pause,
+  // seeks while paused and reaching the end
+  useEffect(() => {
+    if (!currentTrack?.recordProgress || isLoading) return;
+
+    const last = lastCheckpointRef.current;
+    const moved =
+      last?.trackId === currentTrack.id
+        ? Math.abs(currentTime - last.time)
+        : Number.POSITIVE_INFINITY;
+    if (isPlaying && moved < PLAYBACK_CHECKPOINT_SEC) return;
+    if (!isPlaying && moved < 1 && last?.ended === hasReachedEnd) return;
+
+    lastCheckpointRef.current = {
+      trackId: currentTrack.id,
+      time: currentTime,
+      ended: hasReachedEnd,
+    };
+    saveProgress(
+      {
+        episodeId: currentTrack.id,
+        positionSec: currentTime,
+        durationSec: duration > 0 ? duration : currentTrack.durationSec,
+        ended: hasReachedEnd,
+      },
+      {
+        onSuccess: () => {
+          if (isPlaying) return;
+          queryClient.invalidateQueries({
+            queryKey: trpc.playback.getProgress.queryKey({
+              episodeId: currentTrack.id,
+            }),
+          });
+          queryClient.invalidateQueries({
+            queryKey: trpc.playback.history.queryKey(),
+          });
+          queryClient.invalidateQueries({
+            queryKey: trpc.episodes.getEpisodes.queryKey(),
+          });
+          queryClient.invalidateQueries(
+            trpc.podcasts.episodesInfinite.infiniteQueryFilter(),
+          );
+        },
+      },
+    );
+  }, [
+    currentTrack,
+    currentTime,
+    duration,
+    hasReachedEnd,
+    isLoading,
+    isPlaying,
+    queryClient,
+    saveProgress,
+    trpc,
+  ]);
 
   const clearTicker = useCallback(() => {
     if (rafRef.current !== null) {
@@ -0,0 +1,61 @@
+import { Tick02Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import type { ReactNode } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  BILLING_FEATURES,
+  type BillingFeature,
+  billingFeatures,
+  type Plan,
+} from "@/lib/plans";
+import { cn } from "@/lib/utils";
+
+function formatPlanLimit(plan: Plan, feature: BillingFeature) {
+  const limit = plan.limits[feature];
+  const { unit, resets } = billingFeatures[feature];
+  if (limit === null) return `Unlimited ${unit}`;
+  return `${limit.toLocaleString("en-US")} ${unit}${resets ? " a month" : ""}`;
+}
+
+type PlanCardProps = {
+  plan: Plan;
+  highlighted?: boolean;
+  // The button or badge under the features
+  action: ReactNode;
+};
+
+export function PlanCard({ plan, highlighted, action }: PlanCardProps) {
+  return (
+    <Card className={cn("flex flex-col", highlighted && "border-primary")}>
+      <CardHeader>
+        <CardTitle>{plan.name}</CardTitle>
+        <CardDescription>{plan.description}</CardDescription>
+        <p className="mt-2">
+          <span className="text-3xl font-bold">{plan.price}</span>
+          <span className="text-muted-foreground">/month</span>
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-1 flex-col gap-4">
+        <ul className="flex-1 space-y-2 text-sm">
+          {BILLING_FEATURES.map((feature) => (
+            <li key={feature} className="flex items-center gap-2">
+              <HugeiconsIcon
+                icon={Tick02Icon}
+                size={16}
+                className="text-primary shrink-0"
+              />
+              {formatPlanLimit(plan, feature)}
+            </li>
+          ))}
+        </ul>
+        {action}
+      </CardContent>
+    </Card>
+  );
+}
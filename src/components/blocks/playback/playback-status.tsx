@@ -0,0 +1,126 @@
+"use client";
+
+import { CheckmarkCircle02Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  getCompletionPercent,
+  getPlaybackState,
+  type PlaybackProgressLike,
+} from "@/lib/playback";
+import { formatTimecode } from "@/lib/time";
+import { cn } from "@/lib/utils";
+import { useTRPC } from "@/server/trpc/client";
+
+/**
+ * "Played" or a small progress bar with time left, nothing when unplayed
+ */
+export function PlaybackStatus({
+  progress,
+  durationSec,
+  className,
+}: {
+  progress: PlaybackProgressLike | null | undefined;
+  durationSec?: number | null;
+  className?: string;
+}) {
+  const state = getPlaybackState(progress);
+
+  if (state === "played") {
+    return (
+      <div
+        className={cn(
+          "flex items-center gap-1 text-xs text-muted-foreground",
+          className,
+        )}
+      >
+        <HugeiconsIcon icon={CheckmarkCircle02Icon} size={14} />
+        Played
+      </div>
+    );
+  }
+
+  if (state !== "in_progress" || !progress) return null;
+
+  const percent = getCompletionPercent(progress, durationSec);
+  const totalSec = progress.durationSec ?? durationSec;
+  const remaining =
+    totalSec && totalSec > progress.positionSec
+      ? formatTimecode(totalSec - progress.positionSec)
+      : null;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 text-xs text-muted-foreground",
+        className,
+      )}
+    >
+      <Progress value={percent} className="h-1 w-16" />
+      {remaining ? `${remaining} left` : `${Math.round(percent)}%`}
+    </div>
+  );
+}
+
+export function MarkPlayedButton({
+  episodeId,
+  played,
+}: {
+  episodeId: string;
+  played: boolean;
+}) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const setPlayed = useMutation(
+    trpc.playback.setPlayed.mutationOptions({
+      onSuccess: (_data, variables) => {
+        queryClient.invalidateQueries({
+          queryKey: trpc.playback.getProgress.queryKey({ episodeId }),
+        });
+        queryClient.invalidateQueries({
+          queryKey: trpc.playback.history.queryKey(),
+        });
+        queryClient.invalidateQueries({
+          queryKey: trpc.episodes.getEpisodes.queryKey(),
+        });
+        queryClient.invalidateQueries(
+          trpc.podcasts.episodesInfinite.infiniteQueryFilter(),
+        );
+        toast.success(
+          variables.played ? "Marked as played" : "Marked as unplayed",
+        );
+      },
+      onError: (error) => {
+        toast.error(`Failed to update episode: ${error.message}`);
+      },
+    }),
+  );
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant={played ? "default" : "outline"}
+          size="icon-sm"
+          onClick={() => setPlayed.mutate({ episodeId, played: !played })}
+          disabled={setPlayed.isPending}
+          aria-label={played ? "Mark as unplayed" : "Mark as played"}
+        >
+          <HugeiconsIcon icon={CheckmarkCircle02Icon} size={16} />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{played ? "Mark as unplayed" : "Mark as played"}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { TranscriptProviderOrder } from "@/components/blocks/preferences/transcript-provider-order";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { TranscriptProviderId } from "@/server/db/schema/podcast";
+import { useTRPC } from "@/server/trpc/client";
+
+type TranscriptSettingsDialogProps = {
+  children: React.ReactNode;
+  podcastId: string;
+  currentProviders: TranscriptProviderId[] | null;
+  currentPodscanPodcastId: string | null;
+};
+
+export function TranscriptSettingsDialog({
+  children,
+  podcastId,
+  currentProviders,
+  currentPodscanPodcastId,
+}: TranscriptSettingsDialogProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [override, setOverride] = useState(false);
+  const [order, setOrder] = useState<TranscriptProviderId[]>([]);
+  const [podscanPodcastId, setPodscanPodcastId] = useState("");
+
+  const userSettings = useQuery({
+    ...trpc.users.transcriptProviders.queryOptions(),
+    enabled: isOpen,
+  });
+
+  const update = useMutation({
+    ...trpc.podcasts.updateTranscriptSettings.mutationOptions(),
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({
+        queryKey: trpc.podcasts.get.queryKey({ podcastId }),
+      });
+      setIsOpen(false);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setOverride(Boolean(currentProviders?.length));
+      setOrder(currentProviders ?? userSettings.data?.order ?? []);
+      setPodscanPodcastId(currentPodscanPodcastId ?? "");
+    }
+    setIsOpen(open);
+  };
+
+  const handleOverrideChange = (checked: boolean) => {
+    setOverride(checked);
+    if (checked && order.length === 0 && userSettings.data) {
+      setOrder(userSettings.data.order);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    update.mutate({
+      podcastId,
+      transcriptProviders: override && order.length > 0 ? order : null,
+      podscanPodcastId: podscanPodcastId.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Transcript Sources</DialogTitle>
+          <DialogDescription>
+            Choose where transcripts for this podcast's episodes come from.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="override-providers">
+              Override my default order
+            </Label>
+            <Switch
+              id="override-providers"
+              checked={override}
+              onCheckedChange={handleOverrideChange}
+              disabled={update.isPending}
+            />
+          </div>
+
+          {userSettings.data && (
+            <TranscriptProviderOrder
+              providers={userSettings.data.providers}
+              value={override ? order : userSettings.data.order}
+              onChange={setOrder}
+              disabled={!override || update.isPending}
+            />
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="podscan-podcast-id">Podscan podcast ID</Label>
+            <Input
+              id="podscan-podcast-id"
+              type="text"
+              placeholder="pd_xxxxxxxx"
+              value={podscanPodcastId}
+              onChange={(e) => setPodscanPodcastId(e.target.value)}
+              disabled={update.isPending}
+            />
+            <p className="text-xs text-muted-foreground">
+              Needed for Podscan transcripts. Episodes are matched by audio URL
+              or title.
+            </p>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsOpen(false)}
+              disabled={update.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={update.isPending}>
+              {update.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTRPC } from "@/server/trpc/client";
+
+// Radix Select can't use an empty value, so "no override" is stored under this key
+const DEFAULT_MODELS = "default";
+
+export function ModelPreferences() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const models = useQuery(trpc.users.models.queryOptions());
+
+  const update = useMutation(
+    trpc.users.updateModelOverride.mutationOptions({
+      onSuccess: () => {
+        toast.success("Model updated");
+        queryClient.invalidateQueries({
+          queryKey: trpc.users.models.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to update model: ${error.message}`);
+      },
+    }),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Models</CardTitle>
+        <CardDescription>
+          Choose the model for each job. If it fails or times out, the default
+          models are tried next.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {models.isPending ? (
+          <div className="h-40 animate-pulse rounded-md bg-muted" />
+        ) : models.data ? (
+          <ul className="divide-y rounded-md border">
+            {models.data.tasks.map((task) => (
+              <li
+                key={task.id}
+                className="flex items-center justify-between gap-3 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{task.label}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {task.defaults.join(" → ")}
+                  </p>
+                </div>
+                <Select
+                  value={task.override ?? DEFAULT_MODELS}
+                  onValueChange={(value) =>
+                    update.mutate({
+                      task: task.id,
+                      model: value === DEFAULT_MODELS ? null : value,
+                    })
+                  }
+                  disabled={update.isPending}
+                >
+                  <SelectTrigger size="sm" className="w-56 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_MODELS}>Default</SelectItem>
+                    {models.data.choices.map((model) => (
+                      <SelectItem key={model} value={model}>
+                        {model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { Loading03Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { QUALITY_FEATURE_LABELS } from "@/lib/signal-utils";
+import { useTRPC } from "@/server/trpc/client";
+
+export function SignalPreferences() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const preferences = useQuery(trpc.signals.preferences.queryOptions());
+
+  const reset = useMutation(
+    trpc.signals.resetPreferences.mutationOptions({
+      onSuccess: () => {
+        toast.success("Signal preferences reset");
+        queryClient.invalidateQueries({
+          queryKey: trpc.signals.preferences.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to reset preferences: ${error.message}`);
+      },
+    }),
+  );
+
+  const handleReset = () => {
+    if (
+      confirm(
+        "Reset signal preferences? This forgets every save and skip you've made on signals.",
+      )
+    ) {
+      reset.mutate();
+    }
+  };
+
+  const data = preferences.data;
+  const needed = data
+    ? Math.max(0, data.minFeedbackPerLabel - data.saved) +
+      Math.max(0, data.minFeedbackPerLabel - data.skipped)
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Signal preferences</CardTitle>
+        <CardDescription>
+          Saving and skipping signals teaches ranking what you value. Weights
+          are relearned nightly from your feedback.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {preferences.isPending ? (
+          <div className="h-24 animate-pulse rounded-md bg-muted" />
+        ) : data ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {data.saved} saved • {data.skipped} skipped
+              {data.computedAt &&
+                ` • Last learned ${new Date(data.computedAt).toLocaleDateString(
+                  "en-US",
+                  { month: "short", day: "numeric" },
+                )}`}
+            </p>
+
+            {data.weights.length > 0 ? (
+              <ul className="space-y-2">
+                {data.weights.slice(0, 8).map((item) => (
+                  <li
+                    key={item.feature}
+                    className="flex items-center gap-3 text-sm"
+                  >
+                    <span className="w-48 shrink-0">
+                      {QUALITY_FEATURE_LABELS[item.feature] ?? item.feature}
+                    </span>
+                    <div className="h-2 flex-1 rounded-full bg-muted">
+                      <div
+                        className={
+                          item.weight >= 0
+                            ? "h-2 rounded-full bg-primary"
+                            : "h-2 rounded-full bg-destructive"
+                        }
+                        style={{
+                          width: `${Math.min(100, Math.abs(item.weight) * 100)}%`,
+                        }}
+                      />
+                    </div>
+                    <span className="w-20 text-right text-xs text-muted-foreground">
+                      {item.weight >= 0 ? "More saves" : "More skips"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm">
+                {needed > 0
+                  ? `Save or skip ${needed} more signals to personalize ranking.`
+                  : "Your preferences will be learned in the next nightly run."}
+              </p>
+            )}
+
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              disabled={reset.isPending || data.saved + data.skipped === 0}
+            >
+              {reset.isPending && (
+                <HugeiconsIcon
+                  icon={Loading03Icon}
+                  size={16}
+                  className="animate-spin"
+                />
+              )}
+              Reset preferences
+            </Button>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { SummaryLength } from "@/server/db/schema/podcast";
+import { useTRPC } from "@/server/trpc/client";
+
+export type SummaryTemplateDraft = {
+  name: string;
+  instructions: string;
+  sections: string[];
+  length: SummaryLength;
+};
+
+export const LENGTH_LABELS: Record<SummaryLength, string> = {
+  short: "Short",
+  medium: "Medium",
+  long: "Long",
+};
+
+// Starting points offered when creating a template
+const PRESETS: SummaryTemplateDraft[] = [
+  {
+    name: "Investor memo",
+    instructions:
+      "Write it as an investment memo. Focus on the business: market size, traction, business model, competition and the numbers mentioned. Call out anything that sounds like a risk or a red flag.",
+    sections: ["Thesis", "Market", "Business model", "Risks"],
+    length: "medium",
+  },
+  {
+    name: "Founder lessons",
+    instructions:
+      "I'm a founder. Pull out the tactical lessons I can apply to my own company: how they hired, sold, raised and made decisions, with the specific examples they gave.",
+    sections: ["Lessons", "Tactics", "Mistakes to avoid"],
+    length: "medium",
+  },
+  {
+    name: "5 bullets",
+    instructions: "Give me the five most important points and nothing else.",
+    sections: ["Top 5"],
+    length: "short",
+  },
+];
+
+const EMPTY_DRAFT: SummaryTemplateDraft = {
+  name: "",
+  instructions: "",
+  sections: [],
+  length: "medium",
+};
+
+type SummaryTemplateDialogProps = {
+  children: React.ReactNode;
+  // Edit this template; omit to create one
+  template?: SummaryTemplateDraft & { id: string };
+};
+
+export function SummaryTemplateDialog({
+  children,
+  template,
+}: SummaryTemplateDialogProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<SummaryTemplateDraft>(EMPTY_DRAFT);
+  const [sectionsText, setSectionsText] = useState("");
+
+  const onSuccess = () => {
+    toast.success(template ? "Template updated" : "Template created");
+    queryClient.invalidateQueries({
+      queryKey: trpc.summaries.listTemplates.queryKey(),
+    });
+    setIsOpen(false);
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(error.message);
+  };
+
+  const create = useMutation(
+    trpc.summaries.createTemplate.mutationOptions({ onSuccess, onError }),
+  );
+  const update = useMutation(
+    trpc.summaries.updateTemplate.mutationOptions({ onSuccess, onError }),
+  );
+  const isPending = create.isPending || update.isPending;
+
+  const applyDraft = (next: SummaryTemplateDraft) => {
+    setDraft(next);
+    setSectionsText(next.sections.join("\n"));
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      applyDraft(template ?? EMPTY_DRAFT);
+    }
+    setIsOpen(open);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const values = {
+      ...draft,
+      sections: sectionsText
+        .split("\n")
+        .map((section) => section.trim())
+        .filter(Boolean),
+    };
+    if (template) {
+      update.mutate({ id: template.id, ...values });
+    } else {
+      create.mutate(values);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {template ? "Edit Template" : "New Summary Template"}
+          </DialogTitle>
+          <DialogDescription>
+            Tell the summarizer what you want out of an episode or article.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!template && (
+          <div className="flex flex-wrap gap-2">
+            {PRESETS.map((preset) => (
+              <Button
+                key={preset.name}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => applyDraft(preset)}
+                disabled={isPending}
+              >
+                {preset.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Investor memo"
+              maxLength={60}
+              required
+              disabled={isPending}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-instructions">Instructions</Label>
+            <Textarea
+              id="template-instructions"
+              value={draft.instructions}
+              onChange={(e) =>
+                setDraft({ ...draft, instructions: e.target.value })
+              }
+              placeholder="What should the summary focus on, and who is it for?"
+              maxLength={2000}
+              rows={4}
+              required
+              disabled={isPending}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-sections">Sections</Label>
+            <Textarea
+              id="template-sections"
+              value={sectionsText}
+              onChange={(e) => setSectionsText(e.target.value)}
+              placeholder={"Thesis\nRisks"}
+              rows={3}
+              disabled={isPending}
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line, in order. Leave empty for key takeaways and
+              examples. Every summary also gets a TL;DR and quotes.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-length">Length</Label>
+            <Select
+              value={draft.length}
+              onValueChange={(value) =>
+                setDraft({ ...draft, length: value as SummaryLength })
+              }
+              disabled={isPending}
+            >
+              <SelectTrigger id="template-length" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LENGTH_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsOpen(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
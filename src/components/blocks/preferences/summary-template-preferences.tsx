@@ -0,0 +1,124 @@
+"use client";
+
+import {
+  Delete02Icon,
+  Edit02Icon,
+  PlusSignIcon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useTRPC } from "@/server/trpc/client";
+import {
+  LENGTH_LABELS,
+  SummaryTemplateDialog,
+} from "./summary-template-dialog";
+
+export function SummaryTemplatePreferences() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const templates = useQuery(trpc.summaries.listTemplates.queryOptions());
+
+  const remove = useMutation(
+    trpc.summaries.deleteTemplate.mutationOptions({
+      onSuccess: () => {
+        toast.success("Template deleted");
+        queryClient.invalidateQueries({
+          queryKey: trpc.summaries.listTemplates.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to delete template: ${error.message}`);
+      },
+    }),
+  );
+
+  const handleDelete = (id: string, name: string) => {
+    if (
+      confirm(
+        `Delete "${name}"? Podcasts and feeds using it go back to the built-in summary. Existing summaries are kept.`,
+      )
+    ) {
+      remove.mutate({ id });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Summary templates</CardTitle>
+        <CardDescription>
+          Shape summaries around what you care about. Pick a template per
+          podcast or feed, or regenerate any summary with one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {templates.isPending ? (
+          <div className="h-24 animate-pulse rounded-md bg-muted" />
+        ) : templates.data && templates.data.length > 0 ? (
+          <ul className="divide-y rounded-md border">
+            {templates.data.map((template) => (
+              <li
+                key={template.id}
+                className="flex items-start justify-between gap-3 p-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{template.name}</span>
+                    <Badge variant="secondary">
+                      {LENGTH_LABELS[template.length]}
+                    </Badge>
+                  </div>
+                  <p className="line-clamp-2 text-sm text-muted-foreground">
+                    {template.instructions}
+                  </p>
+                  {template.sections.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {template.sections.join(" • ")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <SummaryTemplateDialog template={template}>
+                    <Button variant="ghost" size="sm" aria-label="Edit">
+                      <HugeiconsIcon icon={Edit02Icon} size={16} />
+                    </Button>
+                  </SummaryTemplateDialog>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Delete"
+                    onClick={() => handleDelete(template.id, template.name)}
+                    disabled={remove.isPending}
+                  >
+                    <HugeiconsIcon icon={Delete02Icon} size={16} />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No templates yet. Summaries use the built-in overview.
+          </p>
+        )}
+
+        <SummaryTemplateDialog>
+          <Button variant="outline">
+            <HugeiconsIcon icon={PlusSignIcon} size={16} />
+            New template
+          </Button>
+        </SummaryTemplateDialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { Loading03Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { TranscriptProviderId } from "@/server/db/schema/podcast";
+import { useTRPC } from "@/server/trpc/client";
+import { TranscriptProviderOrder } from "./transcript-provider-order";
+
+export function TranscriptPreferences() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const settings = useQuery(trpc.users.transcriptProviders.queryOptions());
+  const [order, setOrder] = useState<TranscriptProviderId[]>([]);
+
+  useEffect(() => {
+    if (settings.data) {
+      setOrder(settings.data.order);
+    }
+  }, [settings.data]);
+
+  const update = useMutation(
+    trpc.users.updateTranscriptProviders.mutationOptions({
+      onSuccess: () => {
+        toast.success("Transcript sources updated");
+        queryClient.invalidateQueries({
+          queryKey: trpc.users.transcriptProviders.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to update transcript sources: ${error.message}`);
+      },
+    }),
+  );
+
+  const isDirty =
+    settings.data !== undefined &&
+    order.join(",") !== settings.data.order.join(",");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transcript sources</CardTitle>
+        <CardDescription>
+          New episodes are transcribed by the first source that has a
+          transcript. Podcasts can override this order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings.isPending ? (
+          <div className="h-40 animate-pulse rounded-md bg-muted" />
+        ) : settings.data ? (
+          <>
+            <TranscriptProviderOrder
+              providers={settings.data.providers}
+              value={order}
+              onChange={setOrder}
+              disabled={update.isPending}
+            />
+            <div className="flex gap-2">
+              <Button
+                onClick={() => update.mutate({ providers: order })}
+                disabled={!isDirty || update.isPending}
+              >
+                {update.isPending && (
+                  <HugeiconsIcon
+                    icon={Loading03Icon}
+                    size={16}
+                    className="animate-spin"
+                  />
+                )}
+                Save
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => update.mutate({ providers: null })}
+                disabled={settings.data.isDefault || update.isPending}
+              >
+                Use defaults
+              </Button>
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
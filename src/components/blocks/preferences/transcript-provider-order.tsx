@@ -0,0 +1,98 @@
+"use client";
+
+import { ArrowDown01Icon, ArrowUp01Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import type { TranscriptProviderId } from "@/server/db/schema/podcast";
+
+type TranscriptProviderOrderProps = {
+  providers: { id: TranscriptProviderId; label: string }[];
+  value: TranscriptProviderId[];
+  onChange: (value: TranscriptProviderId[]) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Enabled providers in priority order, followed by the disabled ones
+ */
+export function TranscriptProviderOrder({
+  providers,
+  value,
+  onChange,
+  disabled,
+}: TranscriptProviderOrderProps) {
+  const labels = new Map(providers.map((provider) => [provider.id, provider]));
+  const rows = [
+    ...value.filter((id) => labels.has(id)),
+    ...providers
+      .map((provider) => provider.id)
+      .filter((id) => !value.includes(id)),
+  ];
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    onChange(next);
+  };
+
+  const toggle = (id: TranscriptProviderId, enabled: boolean) => {
+    // At least one provider has to stay enabled
+    if (!enabled && value.length === 1) return;
+    onChange(enabled ? [...value, id] : value.filter((item) => item !== id));
+  };
+
+  return (
+    <ol className="space-y-2">
+      {rows.map((id) => {
+        const index = value.indexOf(id);
+        const enabled = index !== -1;
+
+        return (
+          <li
+            key={id}
+            className="flex items-center gap-3 rounded-md border px-3 py-2 text-sm"
+          >
+            <span className="w-4 text-muted-foreground">
+              {enabled ? index + 1 : "–"}
+            </span>
+            <span
+              className={enabled ? "flex-1" : "flex-1 text-muted-foreground"}
+            >
+              {labels.get(id)?.label ?? id}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label="Move up"
+              disabled={disabled || !enabled || index === 0}
+              onClick={() => move(index, -1)}
+            >
+              <HugeiconsIcon icon={ArrowUp01Icon} size={14} />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label="Move down"
+              disabled={disabled || !enabled || index === value.length - 1}
+              onClick={() => move(index, 1)}
+            >
+              <HugeiconsIcon icon={ArrowDown01Icon} size={14} />
+            </Button>
+            <Switch
+              checked={enabled}
+              disabled={disabled || (enabled && value.length === 1)}
+              onCheckedChange={(checked) => toggle(id, checked)}
+              aria-label={`Use ${labels.get(id)?.label ?? id}`}
+            />
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import {
+  Copy01Icon,
+  Delete02Icon,
+  Link01Icon,
+  Loading03Icon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTRPC } from "@/server/trpc/client";
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "Expires in 1 day", days: 1 },
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+] as const;
+
+type ShareDialogProps = {
+  children: React.ReactNode;
+} & (
+  | { episodeId: string; articleId?: never }
+  | { articleId: string; episodeId?: never }
+);
+
+function formatDate(value: Date | string) {
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function absoluteUrl(path: string) {
+  return `${window.location.origin}${path}`;
+}
+
+/**
+ * Create, copy and revoke public read-only links to a summary
+ */
+export function ShareDialog({
+  children,
+  episodeId,
+  articleId,
+}: ShareDialogProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [expiry, setExpiry] =
+    useState<(typeof EXPIRY_OPTIONS)[number]["value"]>("never");
+  const source = episodeId ? { episodeId } : { articleId };
+
+  const links = useQuery({
+    ...trpc.shareLinks.list.queryOptions(source),
+    enabled: isOpen,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: trpc.shareLinks.list.queryKey(source),
+    });
+
+  const copyLink = (path: string) => {
+    navigator.clipboard.writeText(absoluteUrl(path));
+    toast.success("Link copied to clipboard");
+  };
+
+  const createLink = useMutation(
+    trpc.shareLinks.create.mutationOptions({
+      onSuccess: ({ path }) => {
+        copyLink(path);
+        invalidate();
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const revokeLink = useMutation(
+    trpc.shareLinks.revoke.mutationOptions({
+      onSuccess: () => {
+        toast.success("Link revoked");
+        invalidate();
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share summary</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read this summary, but not the transcript or
+            the rest of your library. Revoke a link to turn it off.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select
+            value={expiry}
+            onValueChange={(value) => setExpiry(value as typeof expiry)}
+          >
+            <SelectTrigger size="sm" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={() =>
+              createLink.mutate({
+                ...source,
+                expiresInDays:
+                  EXPIRY_OPTIONS.find((option) => option.value === expiry)
+                    ?.days ?? null,
+              })
+            }
+            disabled={createLink.isPending}
+          >
+            <HugeiconsIcon
+              icon={createLink.isPending ? Loading03Icon : Link01Icon}
+              size={16}
+              className={createLink.isPending ? "animate-spin" : undefined}
+            />
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {links.isPending ? (
+            <div className="h-16 animate-pulse rounded-lg bg-muted" />
+          ) : links.data && links.data.length > 0 ? (
+            links.data.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-center gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="truncate font-mono text-xs">{link.path}</p>
+                  <p className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                    <span>
+                      {link.viewCount} view{link.viewCount === 1 ? "" : "s"}
+                    </span>
+                    <span>Created {formatDate(link.createdAt)}</span>
+                    {link.expiresAt ? (
+                      link.active ? (
+                        <span>Expires {formatDate(link.expiresAt)}</span>
+                      ) : (
+                        <Badge variant="outline">Expired</Badge>
+                      )
+                    ) : null}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  onClick={() => copyLink(link.path)}
+                  disabled={!link.active}
+                  aria-label="Copy link"
+                >
+                  <HugeiconsIcon icon={Copy01Icon} size={16} />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 text-destructive"
+                  onClick={() => revokeLink.mutate({ shareLinkId: link.id })}
+                  disabled={revokeLink.isPending}
+                  aria-label="Revoke link"
+                >
+                  <HugeiconsIcon icon={Delete02Icon} size={16} />
+                </Button>
+              </div>
+            ))
+          ) : (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No share links yet
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
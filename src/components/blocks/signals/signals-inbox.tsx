@@ -0,0 +1,533 @@
+"use client";
+
+import {
+  BookmarkAdd01Icon,
+  Cancel01Icon,
+  Clock01Icon,
+  FlashIcon,
+  PlayIcon,
+  PodcastIcon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { parseAsString, parseAsStringEnum, useQueryState } from "nuqs";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useAudioPlayer } from "@/components/audio-player/audio-player-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Item } from "@/components/ui/item";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  SIGNAL_INBOX_STATUSES,
+  SIGNAL_SCORE_BANDS,
+  type SignalScoreBand,
+} from "@/lib/signal-utils";
+import { formatTimecode } from "@/lib/time";
+import { cn } from "@/lib/utils";
+import { type RouterOutput, useTRPC } from "@/server/trpc/client";
+
+type SignalInboxKind = "episodes" | "articles";
+type InboxGroup = RouterOutput["signals"]["inbox"][number];
+type InboxSignal = InboxGroup["signals"][number];
+
+// Radix Select can't use an empty value, so "no filter" is stored under this key
+const ALL = "all";
+
+const STATUS_LABELS = {
+  inbox: "Inbox",
+  snoozed: "Snoozed",
+  saved: "Saved",
+  skipped: "Skipped",
+} as const;
+
+const SNOOZE_OPTIONS = [
+  { days: 1, label: "Tomorrow" },
+  { days: 3, label: "In 3 days" },
+  { days: 7, label: "Next week" },
+] as const;
+
+const KIND_COPY = {
+  episodes: {
+    title: "Episode Signals",
+    description: "The best passages from your podcasts, ready to triage",
+    source: "podcast",
+    empty: "Process an episode and generate signals to fill your inbox.",
+  },
+  articles: {
+    title: "Article Signals",
+    description: "The best passages from your articles, ready to triage",
+    source: "feed",
+    empty: "Process an article and generate signals to fill your inbox.",
+  },
+} as const;
+
+const SHORTCUTS = [
+  ["j / k", "Next / previous"],
+  ["s", "Save"],
+  ["x", "Skip"],
+  ["z", "Snooze a day"],
+  ["p", "Play"],
+  ["o", "Open source"],
+] as const;
+
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+export function SignalsInbox({ kind }: { kind: SignalInboxKind }) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const { play } = useAudioPlayer();
+  const copy = KIND_COPY[kind];
+
+  const [status, setStatus] = useQueryState(
+    "status",
+    parseAsStringEnum([...SIGNAL_INBOX_STATUSES]).withDefault("inbox"),
+  );
+  const [sourceId, setSourceId] = useQueryState("source", parseAsString);
+  const [band, setBand] = useQueryState(
+    "band",
+    parseAsStringEnum<SignalScoreBand>(["high", "medium", "low"]),
+  );
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const inbox = useQuery(
+    trpc.signals.inbox.queryOptions({
+      kind,
+      status,
+      sourceId: sourceId ?? undefined,
+      band: band ?? undefined,
+    }),
+  );
+  const sources = useQuery(trpc.signals.inboxSources.queryOptions({ kind }));
+
+  const flatSignals = useMemo(
+    () =>
+      (inbox.data ?? []).flatMap((group) =>
+        group.signals.map((item) => ({ group, item })),
+      ),
+    [inbox.data],
+  );
+  const focused = flatSignals[Math.min(focusedIndex, flatSignals.length - 1)];
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: trpc.signals.inbox.queryKey() });
+    queryClient.invalidateQueries({
+      queryKey: trpc.signals.inboxSources.queryKey(),
+    });
+    queryClient.invalidateQueries({
+      queryKey: trpc.signals.inboxCounts.queryKey(),
+    });
+  }, [queryClient, trpc]);
+
+  const feedback = useMutation(
+    trpc.signals.feedback.mutationOptions({
+      onSuccess: invalidate,
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const snooze = useMutation(
+    trpc.signals.snooze.mutationOptions({
+      onSuccess: invalidate,
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const toggleFeedback = useCallback(
+    (item: InboxSignal, action: "saved" | "skipped") => {
+      feedback.mutate({
+        chunkId: item.chunkId,
+        action: item.feedback === action ? null : action,
+      });
+    },
+    [feedback],
+  );
+
+  const handlePlay = useCallback(
+    (group: InboxGroup, item: InboxSignal) => {
+      if (!group.source.audioUrl || item.startTimeSec === null) return;
+      void play({
+        id: group.source.id,
+        title: group.source.title,
+        subtitle: group.source.subtitle,
+        audioUrl: group.source.audioUrl,
+        startTimeSec: item.startTimeSec,
+        endTimeSec: item.endTimeSec,
+        durationSec: group.source.durationSec,
+      });
+    },
+    [play],
+  );
+
+  // Filters change the list, so start triage from the top again
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset on filter change only
+  useEffect(() => {
+    setFocusedIndex(0);
+  }, [status, sourceId, band]);
+
+  useEffect(() => {
+    if (!focused) return;
+    itemRefs.current
+      .get(focused.item.id)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [focused]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.metaKey ||
+        event.ctrlKey ||
+        event.altKey ||
+        isTypingTarget(event.target) ||
+        flatSignals.length === 0
+      ) {
+        return;
+      }
+
+      const current =
+        flatSignals[Math.min(focusedIndex, flatSignals.length - 1)];
+      switch (event.key) {
+        case "j":
+          setFocusedIndex((index) =>
+            Math.min(index + 1, flatSignals.length - 1),
+          );
+          break;
+        case "k":
+          setFocusedIndex((index) => Math.max(index - 1, 0));
+          break;
+        case "s":
+          toggleFeedback(current.item, "saved");
+          break;
+        case "x":
+          toggleFeedback(current.item, "skipped");
+          break;
+        case "z":
+          snooze.mutate({
+            signalId: current.item.id,
+            days: current.item.snoozedUntil ? null : 1,
+          });
+          break;
+        case "p":
+          handlePlay(current.group, current.item);
+          break;
+        case "o":
+          router.push(current.group.source.href);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [flatSignals, focusedIndex, handlePlay, router, snooze, toggleFeedback]);
+
+  const totalPending = sources.data?.reduce((sum, row) => sum + row.total, 0);
+
+  return (
+    <main className="mx-auto w-full container space-y-6 px-4 py-6 sm:px-6 sm:py-8">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">{copy.title}</h1>
+          <p className="text-muted-foreground mt-1">{copy.description}</p>
+        </div>
+        <div className="hidden md:flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+          {SHORTCUTS.map(([keys, label]) => (
+            <span key={keys}>
+              <kbd className="rounded border bg-muted px-1 font-mono">
+                {keys}
+              </kbd>{" "}
+              {label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <Tabs
+          value={status}
+          onValueChange={(value) =>
+            void setStatus(value as (typeof SIGNAL_INBOX_STATUSES)[number])
+          }
+        >
+          <TabsList>
+            {SIGNAL_INBOX_STATUSES.map((value) => (
+              <TabsTrigger key={value} value={value}>
+                {STATUS_LABELS[value]}
+                {value === "inbox" && totalPending ? ` (${totalPending})` : ""}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center gap-2">
+          <Select
+            value={sourceId ?? ALL}
+            onValueChange={(value) =>
+              void setSourceId(value === ALL ? null : value)
+            }
+          >
+            <SelectTrigger size="sm" className="w-48">
+              <SelectValue placeholder={`All ${copy.source}s`} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All {copy.source}s</SelectItem>
+              {sources.data?.map((source) => (
+                <SelectItem key={source.id} value={source.id}>
+                  {source.title} ({source.total})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={band ?? ALL}
+            onValueChange={(value) =>
+              void setBand(value === ALL ? null : (value as SignalScoreBand))
+            }
+          >
+            <SelectTrigger size="sm" className="w-40">
+              <SelectValue placeholder="Any score" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any score</SelectItem>
+              {Object.entries(SIGNAL_SCORE_BANDS).map(([value, option]) => (
+                <SelectItem key={value} value={value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {inbox.isPending ? (
+        <div className="space-y-4 animate-pulse">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-40 rounded-lg bg-muted" />
+          ))}
+        </div>
+      ) : inbox.error ? (
+        <p className="text-sm text-destructive">
+          Failed to load signals: {inbox.error.message}
+        </p>
+      ) : inbox.data.length === 0 ? (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <HugeiconsIcon icon={FlashIcon} size={20} />
+            </EmptyMedia>
+            <EmptyTitle>
+              {status === "inbox" ? "Inbox zero" : "Nothing here"}
+            </EmptyTitle>
+            <EmptyDescription>
+              {status === "inbox" && !sourceId && !band
+                ? copy.empty
+                : "No signals match these filters."}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="space-y-6">
+          {inbox.data.map((group) => (
+            <section key={group.source.id} className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="relative h-10 w-10 rounded-md bg-muted flex-shrink-0 overflow-hidden flex items-center justify-center">
+                  {group.source.imageUrl ? (
+                    <Image
+                      src={group.source.imageUrl}
+                      alt={group.source.subtitle ?? group.source.title}
+                      fill
+                      className="object-cover"
+                    />
+                  ) : (
+                    <HugeiconsIcon
+                      icon={kind === "episodes" ? PodcastIcon : FlashIcon}
+                      size={18}
+                      className="text-muted-foreground"
+                    />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <Link
+                    href={group.source.href}
+                    className="font-semibold leading-tight line-clamp-1 hover:underline"
+                  >
+                    {group.source.title}
+                  </Link>
+                  {group.source.subtitle && (
+                    <p className="text-sm text-muted-foreground line-clamp-1">
+                      {group.source.subtitle}
+                    </p>
+                  )}
+                </div>
+                <Badge variant="secondary" className="ml-auto">
+                  {group.signals.length}
+                </Badge>
+              </div>
+
+              {group.signals.map((item) => {
+                const isFocused = focused?.item.id === item.id;
+                return (
+                  <Item
+                    key={item.id}
+                    ref={(node: HTMLDivElement | null) => {
+                      if (node) itemRefs.current.set(item.id, node);
+                      else itemRefs.current.delete(item.id);
+                    }}
+                    variant="muted"
+                    className={cn(
+                      "block space-y-3",
+                      isFocused && "ring-2 ring-primary/50",
+                    )}
+                    onClick={() =>
+                      setFocusedIndex(
+                        flatSignals.findIndex(
+                          (entry) => entry.item.id === item.id,
+                        ),
+                      )
+                    }
+                  >
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold">
+                        {Math.round(item.score * 100)}%
+                      </span>
+                      {item.saveWorthy && <Badge>Worth saving</Badge>}
+                      {item.speaker && (
+                        <span className="text-muted-foreground">
+                          {item.speaker}
+                        </span>
+                      )}
+                      {item.snoozedUntil && status === "snoozed" && (
+                        <span className="text-muted-foreground">
+                          Back{" "}
+                          {new Date(item.snoozedUntil).toLocaleDateString(
+                            "en-US",
+                            { month: "short", day: "numeric" },
+                          )}
+                        </span>
+                      )}
+                      {item.startTimeSec !== null && group.source.audioUrl && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-auto"
+                          onClick={() => handlePlay(group, item)}
+                        >
+                          <HugeiconsIcon icon={PlayIcon} size={14} />
+                          {formatTimecode(item.startTimeSec)}
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-base leading-relaxed">{item.content}</p>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant={
+                          item.feedback === "saved" ? "default" : "outline"
+                        }
+                        disabled={feedback.isPending}
+                        onClick={() => toggleFeedback(item, "saved")}
+                      >
+                        <HugeiconsIcon icon={BookmarkAdd01Icon} size={14} />
+                        {item.feedback === "saved" ? "Saved" : "Save"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={
+                          item.feedback === "skipped" ? "secondary" : "ghost"
+                        }
+                        disabled={feedback.isPending}
+                        onClick={() => toggleFeedback(item, "skipped")}
+                      >
+                        <HugeiconsIcon icon={Cancel01Icon} size={14} />
+                        {item.feedback === "skipped" ? "Skipped" : "Skip"}
+                      </Button>
+                      {!item.feedback &&
+                        (status === "snoozed" ? (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={snooze.isPending}
+                            onClick={() =>
+                              snooze.mutate({ signalId: item.id, days: null })
+                            }
+                          >
+                            <HugeiconsIcon icon={Clock01Icon} size={14} />
+                            Unsnooze
+                          </Button>
+                        ) : (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={snooze.isPending}
+                              >
+                                <HugeiconsIcon icon={Clock01Icon} size={14} />
+                                Snooze
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start">
+                              {SNOOZE_OPTIONS.map((option) => (
+                                <DropdownMenuItem
+                                  key={option.days}
+                                  onSelect={() =>
+                                    snooze.mutate({
+                                      signalId: item.id,
+                                      days: option.days,
+                                    })
+                                  }
+                                >
+                                  {option.label}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        ))}
+                    </div>
+                  </Item>
+                );
+              })}
+            </section>
+          ))}
+        </div>
+      )}
+    </main>
+  );
+}
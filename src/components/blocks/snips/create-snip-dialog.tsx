@@ -0,0 +1,112 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { TranscriptSelection } from "@/components/transcript-display";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { formatTimecode } from "@/lib/time";
+import { useTRPC } from "@/server/trpc/client";
+
+type CreateSnipDialogProps = {
+  episodeId: string;
+  // The range to save; the dialog is open while this is set
+  selection: TranscriptSelection | null;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+};
+
+export function CreateSnipDialog({
+  episodeId,
+  selection,
+  onOpenChange,
+  onCreated,
+}: CreateSnipDialogProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (selection) setNote("");
+  }, [selection]);
+
+  const createSnip = useMutation(
+    trpc.snips.create.mutationOptions({
+      onSuccess: () => {
+        toast.success("Snip saved");
+        queryClient.invalidateQueries({ queryKey: trpc.snips.list.queryKey() });
+        onOpenChange(false);
+        onCreated?.();
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  return (
+    <Dialog open={selection !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New snip</DialogTitle>
+          <DialogDescription>
+            {selection
+              ? `${formatTimecode(selection.startTimeSec) ?? "0:00"} – ${formatTimecode(selection.endTimeSec) ?? "0:00"}`
+              : null}
+            {selection?.speaker ? ` · ${selection.speaker}` : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {selection ? (
+          <div className="space-y-4">
+            <blockquote className="max-h-48 overflow-y-auto border-l-2 pl-3 text-sm text-muted-foreground">
+              {selection.text}
+            </blockquote>
+            <div className="space-y-2">
+              <Label htmlFor="snip-note">Note</Label>
+              <Textarea
+                id="snip-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Why this moment matters (optional)"
+                maxLength={2000}
+              />
+            </div>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              if (!selection) return;
+              createSnip.mutate({
+                episodeId,
+                startTimeSec: selection.startTimeSec,
+                endTimeSec: selection.endTimeSec,
+                text: selection.text,
+                speaker: selection.speaker,
+                note: note || null,
+              });
+            }}
+            disabled={createSnip.isPending}
+          >
+            {createSnip.isPending ? "Saving..." : "Save snip"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
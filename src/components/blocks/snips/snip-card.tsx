@@ -0,0 +1,278 @@
+"use client";
+
+import {
+  Delete02Icon,
+  Download01Icon,
+  Edit02Icon,
+  Loading03Icon,
+  MoreHorizontalIcon,
+  PlayCircleIcon,
+  PodcastIcon,
+  Video01Icon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import Image from "next/image";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useAudioPlayer } from "@/components/audio-player/audio-player-provider";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Textarea } from "@/components/ui/textarea";
+import { formatTimecode } from "@/lib/time";
+import { type RouterOutput, useTRPC } from "@/server/trpc/client";
+
+type Snip = RouterOutput["snips"]["list"][number];
+
+type ExportKind = "audio" | "video";
+
+function clipFileName(snip: Snip, extension: string) {
+  const slug = snip.episode.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  return `${slug || "snip"}-${Math.floor(snip.startTimeSec)}s.${extension}`;
+}
+
+function downloadBuffer(buffer: ArrayBuffer, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([buffer], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function SnipCard({ snip }: { snip: Snip }) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { play } = useAudioPlayer();
+  const [isEditing, setIsEditing] = useState(false);
+  const [note, setNote] = useState(snip.note ?? "");
+  const [exporting, setExporting] = useState<ExportKind | null>(null);
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: trpc.snips.list.queryKey() });
+
+  const updateSnip = useMutation(
+    trpc.snips.update.mutationOptions({
+      onSuccess: () => {
+        setIsEditing(false);
+        invalidate();
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const deleteSnip = useMutation(
+    trpc.snips.delete.mutationOptions({
+      onSuccess: () => {
+        toast.success("Snip deleted");
+        invalidate();
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const handlePlay = () => {
+    if (!snip.episode.audioUrl) return;
+    void play({
+      id: snip.episode.id,
+      title: snip.episode.title,
+      subtitle: snip.episode.podcast?.title,
+      audioUrl: snip.episode.audioUrl,
+      startTimeSec: snip.startTimeSec,
+      endTimeSec: snip.endTimeSec,
+      durationSec: snip.episode.durationSec,
+    });
+  };
+
+  const handleExport = async (kind: ExportKind) => {
+    setExporting(kind);
+    try {
+      // mediabunny is browser-only and heavy, so load it on demand
+      const { extractAudioClip, extractVideoClip } = await import(
+        "@/lib/video/clip-extractor"
+      );
+      // Through the app: podcast hosts and YouTube don't allow cross-origin reads
+      const source = `/api/episodes/${snip.episode.id}/${kind}`;
+      if (kind === "video") {
+        const clip = await extractVideoClip(
+          source,
+          snip.startTimeSec,
+          snip.endTimeSec,
+        );
+        downloadBuffer(clip, "video/mp4", clipFileName(snip, "mp4"));
+      } else {
+        const clip = await extractAudioClip(
+          source,
+          snip.startTimeSec,
+          snip.endTimeSec,
+        );
+        downloadBuffer(clip, "audio/mp4", clipFileName(snip, "m4a"));
+      }
+    } catch (error) {
+      console.error("Failed to export snip:", error);
+      toast.error("Couldn't export this clip", {
+        description:
+          kind === "video"
+            ? "YouTube may be blocking the download or the video may be unavailable. Try exporting the audio instead."
+            : "The podcast host may be blocking downloads or be unavailable. Try again later, or download the episode from the podcast's website.",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const rangeLabel = `${formatTimecode(snip.startTimeSec) ?? "0:00"} – ${formatTimecode(snip.endTimeSec) ?? "0:00"}`;
+
+  return (
+    <div className="flex gap-3 sm:gap-4 p-3 sm:p-4 border rounded-lg">
+      <div className="relative h-12 w-12 sm:h-16 sm:w-16 rounded-lg bg-muted flex-shrink-0 overflow-hidden">
+        {snip.episode.podcast?.imageUrl ? (
+          <Image
+            src={snip.episode.podcast.imageUrl}
+            alt={snip.episode.podcast.title}
+            fill
+            className="w-full h-full object-cover rounded-lg"
+          />
+        ) : (
+          <div className="w-full h-full bg-muted flex items-center justify-center">
+            <HugeiconsIcon
+              icon={PodcastIcon}
+              size={24}
+              className="text-muted-foreground"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <Link
+              href={`/episode/${snip.episode.id}?t=${Math.floor(snip.startTimeSec)}`}
+              className="text-sm sm:text-base font-semibold leading-tight line-clamp-1 hover:underline"
+            >
+              {snip.episode.title}
+            </Link>
+            <p className="text-muted-foreground text-xs sm:text-sm">
+              {[snip.episode.podcast?.title, rangeLabel, snip.speaker]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handlePlay}
+              disabled={!snip.episode.audioUrl}
+            >
+              <HugeiconsIcon icon={PlayCircleIcon} size={16} />
+              Play
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  aria-label="Snip actions"
+                  disabled={exporting !== null}
+                >
+                  <HugeiconsIcon
+                    icon={exporting ? Loading03Icon : MoreHorizontalIcon}
+                    size={16}
+                    className={exporting ? "animate-spin" : undefined}
+                  />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => setIsEditing(true)}>
+                  <HugeiconsIcon icon={Edit02Icon} size={16} />
+                  {snip.note ? "Edit note" : "Add note"}
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => void handleExport("audio")}
+                  disabled={!snip.episode.audioUrl}
+                >
+                  <HugeiconsIcon icon={Download01Icon} size={16} />
+                  Export audio
+                </DropdownMenuItem>
+                {snip.episode.youtubeVideoId ? (
+                  <DropdownMenuItem onSelect={() => void handleExport("video")}>
+                    <HugeiconsIcon icon={Video01Icon} size={16} />
+                    Export video
+                  </DropdownMenuItem>
+                ) : null}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  variant="destructive"
+                  onSelect={() => deleteSnip.mutate({ snipId: snip.id })}
+                >
+                  <HugeiconsIcon icon={Delete02Icon} size={16} />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        {snip.text ? (
+          <blockquote className="border-l-2 pl-3 text-sm leading-relaxed line-clamp-4 whitespace-pre-line">
+            {snip.text}
+          </blockquote>
+        ) : null}
+
+        {isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note"
+              maxLength={2000}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setNote(snip.note ?? "");
+                  setIsEditing(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() =>
+                  updateSnip.mutate({ snipId: snip.id, note: note || null })
+                }
+                disabled={updateSnip.isPending}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : snip.note ? (
+          <p className="text-sm text-muted-foreground">{snip.note}</p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { PinIcon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useTRPC } from "@/server/trpc/client";
+
+export type SummarySource = { episodeId: string } | { articleId: string };
+
+type PinSummaryVersionButtonProps = {
+  source: SummarySource;
+  versionId: string;
+  onPinned?: () => void;
+  size?: "sm" | "default";
+};
+
+/**
+ * Make an earlier summary version the current one
+ */
+export function PinSummaryVersionButton({
+  source,
+  versionId,
+  onPinned,
+  size = "default",
+}: PinSummaryVersionButtonProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const pinVersion = useMutation(
+    trpc.summaries.pinVersion.mutationOptions({
+      onSuccess: () => {
+        toast.success("Summary version is now current");
+        queryClient.invalidateQueries({
+          queryKey:
+            "episodeId" in source
+              ? trpc.episodes.getSummary.queryKey(source)
+              : trpc.articles.getSummary.queryKey(source),
+        });
+        queryClient.invalidateQueries({
+          queryKey: trpc.summaries.listVersions.queryKey(source),
+        });
+        onPinned?.();
+      },
+      onError: (error) => {
+        toast.error(`Failed to pin summary: ${error.message}`);
+      },
+    }),
+  );
+
+  return (
+    <Button
+      variant="outline"
+      size={size}
+      onClick={() => pinVersion.mutate({ versionId })}
+      disabled={pinVersion.isPending}
+    >
+      <HugeiconsIcon icon={PinIcon} size={16} />
+      {pinVersion.isPending ? "Pinning..." : "Make current"}
+    </Button>
+  );
+}
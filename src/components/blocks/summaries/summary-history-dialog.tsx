@@ -0,0 +1,221 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+import { formatUsd } from "@/components/blocks/usage/usage-overview";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { diffLines } from "@/lib/line-diff";
+import { cn } from "@/lib/utils";
+import { type RouterOutput, useTRPC } from "@/server/trpc/client";
+import {
+  PinSummaryVersionButton,
+  type SummarySource,
+} from "./pin-summary-version-button";
+import { formatSummaryVersionLabel } from "./summary-version-select";
+
+type SummaryVersion = RouterOutput["summaries"]["listVersions"][number];
+
+type SummaryHistoryDialogProps = {
+  children: React.ReactNode;
+  source: SummarySource;
+};
+
+/**
+ * Every summary generated for an episode or article: how each was made,
+ * a diff between any two, and which one is current
+ */
+export function SummaryHistoryDialog({
+  children,
+  source,
+}: SummaryHistoryDialogProps) {
+  const trpc = useTRPC();
+  const [isOpen, setIsOpen] = useState(false);
+  // Null compares the two newest versions
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  const versions = useQuery({
+    ...trpc.summaries.listVersions.queryOptions(source),
+    enabled: isOpen,
+  });
+
+  const list = versions.data ?? [];
+  const from = list.find((version) => version.id === fromId) ?? list[1];
+  const to = list.find((version) => version.id === toId) ?? list[0];
+
+  const diff = useMemo(
+    () =>
+      from && to ? diffLines(from.markdownContent, to.markdownContent) : [],
+    [from, to],
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Summary History</DialogTitle>
+          <DialogDescription>
+            Every generated summary is kept. Compare two of them and choose
+            which one is current.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.isPending ? (
+          <div className="h-48 animate-pulse rounded-md bg-muted" />
+        ) : list.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved versions yet. Regenerate the summary to start its history.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <ScrollArea className="max-h-56">
+              <ul className="divide-y rounded-md border">
+                {list.map((version) => (
+                  <VersionRow
+                    key={version.id}
+                    version={version}
+                    source={source}
+                  />
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {from && to && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Compare</span>
+                  <VersionPicker
+                    versions={list}
+                    value={from.id}
+                    onChange={setFromId}
+                  />
+                  <span className="text-muted-foreground">with</span>
+                  <VersionPicker
+                    versions={list}
+                    value={to.id}
+                    onChange={setToId}
+                  />
+                </div>
+                <ScrollArea className="h-72 rounded-md border bg-muted/30">
+                  <pre className="p-3 text-xs leading-relaxed whitespace-pre-wrap">
+                    {diff.map((line, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          "px-2",
+                          line.type === "added" &&
+                            "bg-green-500/15 text-green-700 dark:text-green-400",
+                          line.type === "removed" &&
+                            "bg-red-500/15 text-red-700 line-through dark:text-red-400",
+                        )}
+                      >
+                        {line.type === "added"
+                          ? "+ "
+                          : line.type === "removed"
+                            ? "- "
+                            : "  "}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VersionRow({
+  version,
+  source,
+}: {
+  version: SummaryVersion;
+  source: SummarySource;
+}) {
+  const details = [
+    version.model,
+    version.strategy,
+    version.totalTokens > 0
+      ? `${version.totalTokens.toLocaleString()} tokens (${version.inputTokens.toLocaleString()} in, ${version.outputTokens.toLocaleString()} out)`
+      : null,
+    version.costUsd !== null ? `~${formatUsd(version.costUsd)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <li className="flex items-start justify-between gap-3 p-3">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">
+            {formatSummaryVersionLabel(version)}
+          </span>
+          {version.isCurrent && <Badge variant="secondary">Current</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {details.length > 0
+            ? details.join(" • ")
+            : "Generated before version history"}
+        </p>
+        {version.prompt && (
+          <p
+            className="line-clamp-2 text-xs text-muted-foreground"
+            title={version.prompt}
+          >
+            {version.prompt}
+          </p>
+        )}
+      </div>
+      {!version.isCurrent && (
+        <PinSummaryVersionButton
+          source={source}
+          versionId={version.id}
+          size="sm"
+        />
+      )}
+    </li>
+  );
+}
+
+function VersionPicker({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: SummaryVersion[];
+  value: string;
+  onChange: (versionId: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger size="sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            {formatSummaryVersionLabel(version)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTRPC } from "@/server/trpc/client";
+
+// Radix Select can't use an empty value, so null is stored under this key
+const BUILT_IN = "built-in";
+
+type SummaryTemplateSelectProps = {
+  value: string | null;
+  onChange: (templateId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+/**
+ * Pick one of the user's summary templates, or the built-in summary
+ */
+export function SummaryTemplateSelect({
+  value,
+  onChange,
+  disabled,
+  className,
+}: SummaryTemplateSelectProps) {
+  const trpc = useTRPC();
+  const templates = useQuery(trpc.summaries.listTemplates.queryOptions());
+
+  return (
+    <Select
+      value={value ?? BUILT_IN}
+      onValueChange={(next) => onChange(next === BUILT_IN ? null : next)}
+      disabled={disabled || templates.isPending}
+    >
+      <SelectTrigger size="sm" className={className}>
+        <SelectValue placeholder="Summary template" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BUILT_IN}>Built-in summary</SelectItem>
+        {templates.data?.map((template) => (
+          <SelectItem key={template.id} value={template.id}>
+            {template.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type SummaryVersionOption = {
+  id: string;
+  templateName: string | null;
+  createdAt: Date | string;
+  isCurrent: boolean;
+};
+
+export function formatSummaryVersionLabel(version: SummaryVersionOption) {
+  const date = new Date(version.createdAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${version.templateName ?? "Built-in summary"} • ${date}`;
+}
+
+type SummaryVersionSelectProps = {
+  versions: SummaryVersionOption[];
+  // The version being viewed; null shows the current summary
+  value: string | null;
+  onChange: (versionId: string | null) => void;
+  className?: string;
+};
+
+/**
+ * Switch between earlier summaries of an episode or article. Hidden until
+ * there is more than one.
+ */
+export function SummaryVersionSelect({
+  versions,
+  value,
+  onChange,
+  className,
+}: SummaryVersionSelectProps) {
+  if (versions.length < 2) return null;
+
+  const current = versions.find((version) => version.isCurrent);
+
+  return (
+    <Select
+      value={value ?? current?.id ?? versions[0].id}
+      onValueChange={(next) => onChange(next === current?.id ? null : next)}
+    >
+      <SelectTrigger size="sm" className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            {formatSummaryVersionLabel(version)}
+            {version.isCurrent && " (current)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
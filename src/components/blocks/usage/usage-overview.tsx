@@ -0,0 +1,232 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { RouterOutput } from "@/server/trpc/client";
+
+export type UsagePeriod = "day" | "week" | "month";
+type UsageRollup = RouterOutput["usage"]["summary"];
+type UsageTotals = UsageRollup["totals"];
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+export function formatUsd(value: number | null) {
+  if (value === null) return "—";
+  // Most calls cost a fraction of a cent
+  return `$${value.toFixed(value >= 1 || value === 0 ? 2 : 4)}`;
+}
+
+export function formatCount(value: number) {
+  return value.toLocaleString("en-US", {
+    notation: value >= 100_000 ? "compact" : "standard",
+  });
+}
+
+export function formatMinutes(seconds: number) {
+  return `${formatCount(Math.round(seconds / 60))} min`;
+}
+
+function formatBucket(bucket: string, period: UsagePeriod) {
+  const date = new Date(`${bucket}T00:00:00Z`);
+  return date.toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    ...(period === "month" ? { year: "2-digit" } : { day: "numeric" }),
+  });
+}
+
+export function UsagePeriodSelect({
+  value,
+  onChange,
+}: {
+  value: UsagePeriod;
+  onChange: (period: UsagePeriod) => void;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(period) => onChange(period as UsagePeriod)}
+    >
+      <SelectTrigger size="sm" className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(PERIOD_LABELS).map(([period, label]) => (
+          <SelectItem key={period} value={period}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border p-4">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="mt-1 text-2xl font-semibold tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+function UsageStats({ totals }: { totals: UsageTotals }) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+      <Stat label="Estimated cost" value={formatUsd(totals.costUsd)} />
+      <Stat label="Calls" value={formatCount(totals.calls)} />
+      <Stat
+        label="Tokens"
+        value={formatCount(totals.inputTokens + totals.outputTokens)}
+      />
+      <Stat label="Audio" value={formatMinutes(totals.audioSeconds)} />
+    </div>
+  );
+}
+
+/**
+ * Cost per bucket as bars, tallest bar = most expensive bucket
+ */
+function UsageChart({
+  buckets,
+  period,
+}: {
+  buckets: UsageRollup["buckets"];
+  period: UsagePeriod;
+}) {
+  if (buckets.length === 0) {
+    return (
+      <p className="py-10 text-center text-sm text-muted-foreground">
+        No usage in this period
+      </p>
+    );
+  }
+
+  const max = Math.max(...buckets.map((bucket) => bucket.costUsd), 0);
+
+  return (
+    <div className="flex h-48 items-end gap-1">
+      {buckets.map((bucket) => (
+        <div
+          key={bucket.bucket}
+          className="group flex h-full min-w-0 flex-1 flex-col items-center justify-end gap-1"
+          title={`${formatBucket(bucket.bucket, period)}: ${formatUsd(bucket.costUsd)} • ${formatCount(bucket.calls)} calls`}
+        >
+          <div
+            className="w-full rounded-t bg-primary/70 group-hover:bg-primary"
+            style={{
+              height: `${max > 0 ? Math.max((bucket.costUsd / max) * 100, 2) : 2}%`,
+            }}
+          />
+          <span className="truncate text-[10px] text-muted-foreground">
+            {formatBucket(bucket.bucket, period)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function UsageBreakdown({
+  breakdown,
+}: {
+  breakdown: UsageRollup["breakdown"];
+}) {
+  if (breakdown.length === 0) return null;
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Provider</TableHead>
+            <TableHead>Task</TableHead>
+            <TableHead className="text-right">Calls</TableHead>
+            <TableHead className="text-right">Tokens</TableHead>
+            <TableHead className="text-right">Audio</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {breakdown.map((row) => (
+            <TableRow key={`${row.provider}:${row.task}`}>
+              <TableCell className="font-medium">{row.provider}</TableCell>
+              <TableCell>{row.task}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatCount(row.calls)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatCount(row.inputTokens + row.outputTokens)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {row.audioSeconds > 0 ? formatMinutes(row.audioSeconds) : "—"}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatUsd(row.costUsd)}
+                {row.unpricedCalls > 0 ? "*" : ""}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+type UsageOverviewProps = {
+  rollup: Pick<UsageRollup, "totals" | "buckets" | "breakdown">;
+  period: UsagePeriod;
+};
+
+/**
+ * Totals, cost over time and the split by provider and task for a usage
+ * rollup. Shared by /settings/usage and the admin cost dashboard.
+ */
+export function UsageOverview({ rollup, period }: UsageOverviewProps) {
+  return (
+    <div className="space-y-6">
+      <UsageStats totals={rollup.totals} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{PERIOD_LABELS[period]} cost</CardTitle>
+          <CardDescription>
+            Estimated from list prices
+            {rollup.totals.unpricedCalls > 0
+              ? `. ${formatCount(rollup.totals.unpricedCalls)} calls used models without a known price and count as free.`
+              : ""}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <UsageChart buckets={rollup.buckets} period={period} />
+        </CardContent>
+      </Card>
+
+      <UsageBreakdown breakdown={rollup.breakdown} />
+    </div>
+  );
+}
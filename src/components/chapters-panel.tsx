@@ -0,0 +1,203 @@
+"use client";
+
+import {
+  LeftToRightListBulletIcon,
+  Loading03Icon,
+  RefreshIcon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { formatTimecode } from "@/lib/time";
+import { cn } from "@/lib/utils";
+import { useTRPC } from "@/server/trpc/client";
+
+export type Chapter = {
+  title: string;
+  startTimeSec: number;
+  endTimeSec: number | null;
+};
+
+const SOURCE_LABELS = {
+  rss: "From the feed",
+  "show-notes": "From the show notes",
+  youtube: "From YouTube",
+  llm: "Generated from the transcript",
+} as const;
+
+/**
+ * Index of the chapter playing at `time`, or -1 before the first one
+ */
+export function getChapterIndexAt(chapters: Chapter[], time: number) {
+  for (let index = chapters.length - 1; index >= 0; index--) {
+    if (time >= chapters[index].startTimeSec) return index;
+  }
+  return -1;
+}
+
+type ChapterListProps = {
+  chapters: Chapter[];
+  activeIndex?: number;
+  onSelect?: (chapter: Chapter) => void;
+  className?: string;
+};
+
+export function ChapterList({
+  chapters,
+  activeIndex = -1,
+  onSelect,
+  className,
+}: ChapterListProps) {
+  return (
+    <ol className={cn("space-y-1", className)}>
+      {chapters.map((chapter, index) => (
+        <li key={`${chapter.startTimeSec}-${chapter.title}`}>
+          <button
+            type="button"
+            onClick={() => onSelect?.(chapter)}
+            disabled={!onSelect}
+            aria-current={index === activeIndex ? "true" : undefined}
+            className={cn(
+              "flex w-full items-baseline gap-3 rounded-md px-2 py-1.5 text-left text-sm",
+              "enabled:hover:bg-muted",
+              index === activeIndex && "bg-muted font-medium",
+            )}
+          >
+            <span className="w-14 shrink-0 font-mono text-xs text-muted-foreground">
+              {formatTimecode(chapter.startTimeSec)}
+            </span>
+            <span className="flex-1">{chapter.title}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+type ChaptersPanelProps = {
+  episodeId: string;
+  currentTimeSec?: number | null;
+  onSeek?: (startTimeSec: number) => void;
+};
+
+export function ChaptersPanel({
+  episodeId,
+  currentTimeSec,
+  onSeek,
+}: ChaptersPanelProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const chapters = useQuery(
+    trpc.episodes.getChapters.queryOptions({ episodeId }),
+  );
+
+  const regenerate = useMutation(
+    trpc.episodes.generateChapters.mutationOptions({
+      onSuccess: () => {
+        toast.success("Chapter generation started. Check back in a minute.");
+        queryClient.invalidateQueries({
+          queryKey: trpc.episodes.getChapters.queryKey({ episodeId }),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to generate chapters: ${error.message}`);
+      },
+    }),
+  );
+
+  if (chapters.isPending) {
+    return (
+      <div className="animate-pulse space-y-2">
+        {Array.from({ length: 5 }).map((_, index) => (
+          <div key={index} className="h-8 rounded-md bg-muted" />
+        ))}
+      </div>
+    );
+  }
+
+  if (chapters.error) {
+    return (
+      <p className="text-sm text-destructive">
+        Failed to load chapters: {chapters.error.message}
+      </p>
+    );
+  }
+
+  if (chapters.data.length === 0) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <HugeiconsIcon icon={LeftToRightListBulletIcon} size={20} />
+          </EmptyMedia>
+          <EmptyTitle>No chapters yet</EmptyTitle>
+          <EmptyDescription>
+            Chapters come from the feed or show notes when the publisher
+            provides them, and are generated from the transcript otherwise.
+          </EmptyDescription>
+        </EmptyHeader>
+        <EmptyContent>
+          <Button
+            size="lg"
+            onClick={() => regenerate.mutate({ episodeId })}
+            disabled={regenerate.isPending}
+          >
+            <HugeiconsIcon
+              icon={
+                regenerate.isPending ? Loading03Icon : LeftToRightListBulletIcon
+              }
+              size={16}
+              className={regenerate.isPending ? "animate-spin" : undefined}
+            />
+            Generate Chapters
+          </Button>
+        </EmptyContent>
+      </Empty>
+    );
+  }
+
+  const activeIndex =
+    typeof currentTimeSec === "number"
+      ? getChapterIndexAt(chapters.data, currentTimeSec)
+      : -1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {chapters.data.length} chapters •{" "}
+          {SOURCE_LABELS[chapters.data[0].source]}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => regenerate.mutate({ episodeId })}
+          disabled={regenerate.isPending}
+        >
+          <HugeiconsIcon
+            icon={regenerate.isPending ? Loading03Icon : RefreshIcon}
+            size={16}
+            className={regenerate.isPending ? "animate-spin" : undefined}
+          />
+          Regenerate
+        </Button>
+      </div>
+      <ChapterList
+        chapters={chapters.data}
+        activeIndex={activeIndex}
+        onSelect={
+          onSeek ? (chapter) => onSeek(chapter.startTimeSec) : undefined
+        }
+      />
+    </div>
+  );
+}
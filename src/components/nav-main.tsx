@@ -7,6 +7,7 @@ import {
   DatabaseSync01Icon,
   FavouriteIcon,
   FileAttachmentIcon,
+  HeadphonesIcon,
   HierarchySquare01Icon,
   Idea01Icon,
   LibraryIcon,
@@ -14,6 +15,7 @@ import {
   Scissor01Icon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
+import { useQuery } from "@tanstack/react-query";
 import { ChevronRight } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -35,6 +37,7 @@ import {
   SidebarMenuSubItem,
 } from "@/components/ui/sidebar";
 import { useSession } from "@/lib/auth-client";
+import { useTRPC } from "@/server/trpc/client";
 
 type NavItem = {
   title: string;
@@ -100,6 +103,11 @@ const NAV_GROUPS: NavGroup[] = [
         icon: Scissor01Icon,
         url: "/snips",
       },
+      {
+        title: "History",
+        icon: HeadphonesIcon,
+        url: "/history",
+      },
     ],
   },
   {
@@ -183,6 +191,29 @@ export function NavMain() {
   const pathname = usePathname();
   const { data: session } = useSession();
   const isAdmin = session?.user?.role === "admin";
+  const trpc = useTRPC();
+  const signalCounts = useQuery({
+    ...trpc.signals.inboxCounts.queryOptions(),
+    enabled: Boolean(session?.user),
+  });
+
+  // Untriaged signals show as badges on the inbox links
+  const badges: Record<string, number | undefined> = {
+    "/signals/episodes": signalCounts.data?.episodes,
+    "/signals/articles": signalCounts.data?.articles,
+  };
+  const withBadges = (group: NavGroup): NavGroup => ({
+    ...group,
+    items: group.items.map((item) => ({
+      ...item,
+      items: item.items?.map((subItem) => {
+        const total = badges[subItem.url];
+        return total
+          ? { ...subItem, badge: total > 99 ? "99+" : String(total) }
+          : subItem;
+      }),
+    })),
+  });
 
   const adminGroup: NavGroup = {
     title: "Admin",
@@ -201,7 +232,7 @@ export function NavMain() {
   };
 
   const navGroups: NavGroup[] = [
-    ...NAV_GROUPS,
+    ...NAV_GROUPS.map(withBadges),
     ...(isAdmin ? [adminGroup] : []),
   ];
 
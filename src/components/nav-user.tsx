@@ -1,6 +1,9 @@
 "use client";
 import {
+  Analytics01Icon,
   Copy01Icon,
+  CreditCardIcon,
+  Key01Icon,
   Logout01Icon,
   MoreHorizontalCircle01Icon,
   Settings01Icon,
@@ -116,13 +119,29 @@ export function NavUser() {
                 <HugeiconsIcon icon={UserCircleIcon} size={20} />
                 Account
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => router.push("/settings/api-tokens")}
+              >
+                <HugeiconsIcon icon={Key01Icon} size={16} />
+                API Tokens
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => router.push("/settings/usage")}>
+                <HugeiconsIcon icon={Analytics01Icon} size={16} />
+                Usage
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => router.push("/settings/billing")}
+              >
+                <HugeiconsIcon icon={CreditCardIcon} size={16} />
+                Billing
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleCopyUserId}>
                 <HugeiconsIcon icon={Copy01Icon} size={16} />
                 Copy User ID
               </DropdownMenuItem>
-              <DropdownMenuItem disabled>
+              <DropdownMenuItem onClick={() => router.push("/preferences")}>
                 <HugeiconsIcon icon={Settings01Icon} size={16} />
-                Settings
+                Preferences
               </DropdownMenuItem>
             </DropdownMenuGroup>
             <DropdownMenuSeparator />
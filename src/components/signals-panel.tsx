@@ -0,0 +1,358 @@
+"use client";
+
+import {
+  BookmarkAdd01Icon,
+  Cancel01Icon,
+  FlashIcon,
+  HelpCircleIcon,
+  Loading03Icon,
+  PlayIcon,
+  RefreshIcon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Item } from "@/components/ui/item";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { QUALITY_FEATURE_LABELS } from "@/lib/signal-utils";
+import { formatTimecode } from "@/lib/time";
+import { useTRPC } from "@/server/trpc/client";
+
+const METHOD_LABELS = {
+  length: "Length",
+  heuristics: "Heuristics",
+  llm: "LLM judge",
+} as const;
+
+type SignalsPanelProps =
+  | {
+      episodeId: string;
+      articleId?: never;
+      onPlayFrom?: (startTimeSec: number) => void;
+    }
+  | { articleId: string; episodeId?: never; onPlayFrom?: never };
+
+export function SignalsPanel({
+  episodeId,
+  articleId,
+  onPlayFrom,
+}: SignalsPanelProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const episodeSignals = useQuery({
+    ...trpc.signals.forEpisode.queryOptions({ episodeId: episodeId ?? "" }),
+    enabled: Boolean(episodeId),
+  });
+  const articleSignals = useQuery({
+    ...trpc.signals.forArticle.queryOptions({ articleId: articleId ?? "" }),
+    enabled: Boolean(articleId),
+  });
+  const signals = episodeId ? episodeSignals : articleSignals;
+
+  const regenerate = useMutation(
+    trpc.signals.regenerate.mutationOptions({
+      onSuccess: () => {
+        toast.success(
+          "Signal generation started. This usually takes about a minute.",
+        );
+        queryClient.invalidateQueries({
+          queryKey: episodeId
+            ? trpc.signals.forEpisode.queryKey({ episodeId })
+            : trpc.signals.forArticle.queryKey({ articleId }),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to generate signals: ${error.message}`);
+      },
+    }),
+  );
+
+  const feedback = useMutation(
+    trpc.signals.feedback.mutationOptions({
+      onSuccess: (result) => {
+        if (result.action === "skipped") {
+          toast.success("Skipped. It won't show up after the next regenerate.");
+        }
+        queryClient.invalidateQueries({
+          queryKey: episodeId
+            ? trpc.signals.forEpisode.queryKey({ episodeId })
+            : trpc.signals.forArticle.queryKey({ articleId }),
+        });
+        queryClient.invalidateQueries({
+          queryKey: trpc.signals.inboxCounts.queryKey(),
+        });
+      },
+      onError: (error) => {
+        toast.error(`Failed to save feedback: ${error.message}`);
+      },
+    }),
+  );
+
+  const handleRegenerate = () => {
+    regenerate.mutate(episodeId ? { episodeId } : { articleId });
+  };
+
+  if (signals.isPending) {
+    return (
+      <div className="animate-pulse space-y-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div key={index} className="h-24 rounded-lg bg-muted" />
+        ))}
+      </div>
+    );
+  }
+
+  if (signals.error) {
+    return (
+      <p className="text-sm text-destructive">
+        Failed to load signals: {signals.error.message}
+      </p>
+    );
+  }
+
+  if (signals.data.signals.length === 0) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <HugeiconsIcon icon={FlashIcon} size={20} />
+          </EmptyMedia>
+          <EmptyTitle>
+            {signals.data.generatedAt ? "No signals found" : "No signals yet"}
+          </EmptyTitle>
+          <EmptyDescription>
+            Signals are the passages most worth your time, scored for
+            frameworks, novel insights and specific tactics.
+          </EmptyDescription>
+        </EmptyHeader>
+        <EmptyContent>
+          <Button
+            size="lg"
+            onClick={handleRegenerate}
+            disabled={regenerate.isPending}
+          >
+            <HugeiconsIcon
+              icon={regenerate.isPending ? Loading03Icon : FlashIcon}
+              size={16}
+              className={regenerate.isPending ? "animate-spin" : undefined}
+            />
+            Generate Signals
+          </Button>
+        </EmptyContent>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          Top {signals.data.signals.length} passages
+          {signals.data.generatedAt &&
+            ` • Scored ${new Date(signals.data.generatedAt).toLocaleDateString(
+              "en-US",
+              { month: "short", day: "numeric" },
+            )}`}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRegenerate}
+          disabled={regenerate.isPending}
+        >
+          <HugeiconsIcon
+            icon={regenerate.isPending ? Loading03Icon : RefreshIcon}
+            size={16}
+            className={regenerate.isPending ? "animate-spin" : undefined}
+          />
+          Regenerate
+        </Button>
+      </div>
+
+      {signals.data.signals.map((item) => (
+        <Item key={item.id} variant="muted" className="block space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-semibold">
+              {Math.round(item.score * 100)}%
+            </span>
+            {item.saveWorthy && <Badge>Worth saving</Badge>}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="secondary">{METHOD_LABELS[item.method]}</Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                {item.diagnostics?.judge?.reasoning ??
+                  item.diagnostics?.heuristic?.reasons.join(", ") ??
+                  "No diagnostics"}
+              </TooltipContent>
+            </Tooltip>
+            {item.diagnostics?.novelty &&
+              item.diagnostics.novelty.adjustment < 0 && (
+                <Badge variant="outline">
+                  Similar to past saves ({item.diagnostics.novelty.adjustment})
+                </Badge>
+              )}
+            {item.speaker && (
+              <span className="text-muted-foreground">{item.speaker}</span>
+            )}
+            {item.startTimeSec !== null && onPlayFrom && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() => onPlayFrom(item.startTimeSec ?? 0)}
+              >
+                <HugeiconsIcon icon={PlayIcon} size={14} />
+                {formatTimecode(item.startTimeSec)}
+              </Button>
+            )}
+          </div>
+          <p className="text-base leading-relaxed">{item.content}</p>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant={item.feedback === "saved" ? "default" : "outline"}
+              disabled={feedback.isPending}
+              onClick={() =>
+                feedback.mutate({
+                  chunkId: item.chunkId,
+                  action: item.feedback === "saved" ? null : "saved",
+                })
+              }
+            >
+              <HugeiconsIcon icon={BookmarkAdd01Icon} size={14} />
+              {item.feedback === "saved" ? "Saved" : "Save"}
+            </Button>
+            <Button
+              size="sm"
+              variant={item.feedback === "skipped" ? "secondary" : "ghost"}
+              disabled={feedback.isPending}
+              onClick={() =>
+                feedback.mutate({
+                  chunkId: item.chunkId,
+                  action: item.feedback === "skipped" ? null : "skipped",
+                })
+              }
+            >
+              <HugeiconsIcon icon={Cancel01Icon} size={14} />
+              {item.feedback === "skipped" ? "Skipped" : "Skip"}
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button size="sm" variant="ghost" className="ml-auto">
+                  <HugeiconsIcon icon={HelpCircleIcon} size={14} />
+                  Why?
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80">
+                <SignalExplanation signalId={item.id} />
+              </PopoverContent>
+            </Popover>
+          </div>
+        </Item>
+      ))}
+    </div>
+  );
+}
+
+function SignalExplanation({ signalId }: { signalId: string }) {
+  const trpc = useTRPC();
+  const explanation = useQuery(trpc.signals.explain.queryOptions({ signalId }));
+
+  if (explanation.isPending) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <HugeiconsIcon
+          icon={Loading03Icon}
+          size={14}
+          className="animate-spin"
+        />
+        Loading…
+      </div>
+    );
+  }
+
+  if (explanation.error) {
+    return (
+      <p className="text-sm text-destructive">{explanation.error.message}</p>
+    );
+  }
+
+  const { diagnostics, preferences } = explanation.data;
+  const judge = diagnostics?.judge;
+  const novelty = diagnostics?.novelty;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="font-medium">
+        {Math.round(explanation.data.score * 100)}% via{" "}
+        {METHOD_LABELS[explanation.data.method]}
+      </p>
+
+      {judge && (
+        <div className="space-y-1">
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Framework clarity</dt>
+            <dd>{judge.frameworkClarity}</dd>
+            <dt className="text-muted-foreground">Insight novelty</dt>
+            <dd>{judge.insightNovelty}</dd>
+            <dt className="text-muted-foreground">Tactical specificity</dt>
+            <dd>{judge.tacticalSpecificity}</dd>
+            <dt className="text-muted-foreground">Reasoning depth</dt>
+            <dd>{judge.reasoningDepth}</dd>
+          </dl>
+          <p className="text-xs text-muted-foreground">{judge.reasoning}</p>
+        </div>
+      )}
+
+      {novelty && (
+        <p className="text-xs text-muted-foreground">
+          {Math.round(novelty.avgSimilarity * 100)}% similar to your past saves
+          {novelty.adjustment < 0 ? ` (${novelty.adjustment} points)` : ""}
+        </p>
+      )}
+
+      {preferences ? (
+        <div className="space-y-1">
+          <p className="text-xs font-medium">
+            Matches your saves on
+            {diagnostics?.preference
+              ? ` (${Math.round(diagnostics.preference.score)}%)`
+              : ""}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {preferences.topFeatures.map((item) => (
+              <Badge key={item.feature} variant="outline">
+                {QUALITY_FEATURE_LABELS[item.feature] ?? item.feature}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Save or skip a few more signals to personalize ranking.
+        </p>
+      )}
+    </div>
+  );
+}
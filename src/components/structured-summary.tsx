@@ -0,0 +1,201 @@
+"use client";
+
+import { Alert02Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { formatTimecode } from "@/lib/time";
+import type {
+  StructuredSummary,
+  SummaryCitation,
+  SummaryItem,
+} from "@/server/db/schema/podcast";
+
+// Article chunks that citations can point at, in article order
+type CitationChunk = { id: string; content: string };
+
+type CitationLinksProps = {
+  citations: SummaryCitation[];
+  onSeek?: (startTimeSec: number) => void;
+  chunks?: CitationChunk[];
+};
+
+const EXCERPT_CHARS = 280;
+
+const excerpt = (content: string) =>
+  content.length > EXCERPT_CHARS
+    ? `${content.slice(0, EXCERPT_CHARS).trimEnd()}…`
+    : content;
+
+/**
+ * Timestamps an item is based on; they seek the player when it can play.
+ * Citations without a time (articles) show the cited paragraph on hover.
+ */
+function CitationLinks({ citations, onSeek, chunks }: CitationLinksProps) {
+  const times = [
+    ...new Set(
+      citations.flatMap((citation) =>
+        typeof citation.startTimeSec === "number"
+          ? [citation.startTimeSec]
+          : [],
+      ),
+    ),
+  ];
+  const cited = new Set(
+    citations.flatMap((citation) =>
+      typeof citation.startTimeSec !== "number" && citation.chunkId
+        ? [citation.chunkId]
+        : [],
+    ),
+  );
+  const paragraphs = (chunks ?? []).flatMap((chunk, index) =>
+    cited.has(chunk.id) ? [{ ...chunk, number: index + 1 }] : [],
+  );
+  if (times.length === 0 && paragraphs.length === 0) return null;
+
+  return (
+    <span className="ml-1 inline-flex flex-wrap gap-1 align-baseline">
+      {times.map((time) => (
+        <button
+          key={time}
+          type="button"
+          onClick={() => onSeek?.(time)}
+          disabled={!onSeek}
+          className="rounded font-mono text-xs text-muted-foreground enabled:hover:text-foreground enabled:hover:underline"
+        >
+          [{formatTimecode(time)}]
+        </button>
+      ))}
+      {paragraphs.map((paragraph) => (
+        <Tooltip key={paragraph.id}>
+          <TooltipTrigger asChild>
+            <button
+              type="button"
+              aria-label={`Source paragraph ${paragraph.number}`}
+              className="rounded font-mono text-xs text-muted-foreground hover:text-foreground hover:underline"
+            >
+              [¶{paragraph.number}]
+            </button>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-sm whitespace-pre-line">
+            {excerpt(paragraph.content)}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </span>
+  );
+}
+
+function ItemList({
+  heading,
+  items,
+  onSeek,
+  chunks,
+}: {
+  heading: string;
+  items: SummaryItem[];
+  onSeek?: (startTimeSec: number) => void;
+  chunks?: CitationChunk[];
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold">{heading}</h3>
+      <ul className="list-disc space-y-1.5 pl-5">
+        {items.map((item) => (
+          <li key={item.text}>
+            {item.text}
+            <CitationLinks
+              citations={item.citations}
+              onSeek={onSeek}
+              chunks={chunks}
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+type StructuredSummaryViewProps = {
+  summary: StructuredSummary;
+  onSeek?: (startTimeSec: number) => void;
+  chunks?: CitationChunk[];
+};
+
+export function StructuredSummaryView({
+  summary,
+  onSeek,
+  chunks,
+}: StructuredSummaryViewProps) {
+  return (
+    <div className="space-y-6 text-base">
+      <div className="space-y-2">
+        <h3 className="font-semibold">TL;DR</h3>
+        <p>
+          {summary.tldr.text}
+          <CitationLinks
+            citations={summary.tldr.citations}
+            onSeek={onSeek}
+            chunks={chunks}
+          />
+        </p>
+      </div>
+
+      <ItemList
+        heading="Key Takeaways"
+        items={summary.takeaways}
+        onSeek={onSeek}
+        chunks={chunks}
+      />
+      <ItemList
+        heading="Examples"
+        items={summary.examples}
+        onSeek={onSeek}
+        chunks={chunks}
+      />
+
+      {summary.quotes.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="font-semibold">Quotes</h3>
+          {summary.quotes.map((quote) => (
+            <blockquote
+              key={quote.text}
+              className="space-y-1 border-l-2 pl-4 italic"
+            >
+              <p>“{quote.text}”</p>
+              <footer className="flex flex-wrap items-center gap-2 text-sm not-italic text-muted-foreground">
+                {quote.speaker && <span>{quote.speaker}</span>}
+                <CitationLinks
+                  citations={[quote]}
+                  onSeek={onSeek}
+                  chunks={chunks}
+                />
+                {!quote.verified && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Badge variant="outline" className="gap-1">
+                        <HugeiconsIcon icon={Alert02Icon} size={12} />
+                        Unverified
+                      </Badge>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      This quote couldn't be matched to the source (
+                      {Math.round(quote.matchScore * 100)}% match), so it may be
+                      paraphrased.
+                    </TooltipContent>
+                  </Tooltip>
+                )}
+              </footer>
+            </blockquote>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,20 +4,37 @@ import {
   ArrowDown01Icon,
   ArrowUp01Icon,
   Cancel01Icon,
+  Location01Icon,
+  Scissor01Icon,
   Search01Icon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { memo, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 
 import type { TranscriptData } from "@/types/transcript";
 
+export interface TranscriptSelection {
+  startTimeSec: number;
+  endTimeSec: number;
+  text: string;
+  speaker: string | null;
+}
+
 interface TranscriptDisplayProps {
   transcript: TranscriptData;
   speakerMappings?: Record<string, string> | null;
+  // Shows paragraph selection for snips when set
+  onSnip?: (selection: TranscriptSelection) => void;
+  // Playback position of this episode, null when it isn't playing
+  currentTimeSec?: number | null;
+  onSeek?: (startTimeSec: number) => void;
 }
 
+// Manual scrolling pauses follow-along for this long
+const FOLLOW_PAUSE_MS = 5000;
+
 interface HighlightedTextProps {
   text: string;
   searchTerm: string;
@@ -72,13 +89,67 @@ function formatTimestamp(seconds: number): string {
   return `${minutes}:${secs.toString().padStart(2, "0")}`;
 }
 
+interface TranscriptParagraphWord {
+  start: number;
+  end: number;
+  text: string;
+}
+
 interface TranscriptParagraph {
   startTime: number;
   endTime: number;
   text: string;
   speaker?: number;
+  words: TranscriptParagraphWord[];
+}
+
+// Index of the last item starting at or before the given time, or -1
+function findIndexAt(items: { start: number }[], timeSec: number): number {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (items[mid].start <= timeSec) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
 }
 
+const ParagraphWords = memo(function ParagraphWords({
+  words,
+  activeWordIndex,
+  seekable,
+}: {
+  words: TranscriptParagraphWord[];
+  activeWordIndex: number;
+  seekable: boolean;
+}) {
+  return (
+    <>
+      {words.map((word, index) => (
+        <span key={index}>
+          {index > 0 ? " " : null}
+          <span
+            data-word-start={word.start}
+            className={`rounded-sm transition-colors ${
+              index === activeWordIndex
+                ? "bg-primary text-primary-foreground"
+                : ""
+            } ${seekable ? "hover:underline" : ""}`}
+          >
+            {word.text}
+          </span>
+        </span>
+      ))}
+    </>
+  );
+});
+
 function groupSegmentsIntoParagraphs(
   segments: Array<{
     start: number;
@@ -88,6 +159,7 @@ function groupSegmentsIntoParagraphs(
     startSecond?: number;
     endSecond?: number;
     speaker?: number;
+    words?: TranscriptParagraphWord[];
   }>,
 ): TranscriptParagraph[] {
   if (!segments || segments.length === 0) return [];
@@ -98,6 +170,7 @@ function groupSegmentsIntoParagraphs(
     endTime: 0,
     text: "",
     speaker: undefined,
+    words: [],
   };
 
   for (let i = 0; i < segments.length; i++) {
@@ -111,6 +184,7 @@ function groupSegmentsIntoParagraphs(
       currentParagraph.text = text;
       currentParagraph.endTime = endTime;
       currentParagraph.speaker = segment.speaker;
+      currentParagraph.words = [...(segment.words ?? [])];
     } else {
       const shouldStartNewParagraph =
         startTime - currentParagraph.endTime > 3 ||
@@ -127,10 +201,12 @@ function groupSegmentsIntoParagraphs(
           endTime: endTime,
           text: text,
           speaker: segment.speaker,
+          words: [...(segment.words ?? [])],
         };
       } else {
         currentParagraph.text += ` ${text}`;
         currentParagraph.endTime = endTime;
+        currentParagraph.words.push(...(segment.words ?? []));
       }
     }
   }
@@ -145,11 +221,19 @@ function groupSegmentsIntoParagraphs(
 export function TranscriptDisplay({
   transcript,
   speakerMappings,
+  onSnip,
+  currentTimeSec,
+  onSeek,
 }: TranscriptDisplayProps) {
   const [searchTerm, setSearchTerm] = useState("");
+  const [snipRange, setSelectedRange] = useState<{
+    from: number;
+    to: number;
+  } | null>(null);
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
   const [totalMatches, setTotalMatches] = useState(0);
   const containerRef = useRef<HTMLDivElement>(null);
+  const lastManualScrollRef = useRef(0);
 
   const handleSearch = (term: string) => {
     setSearchTerm(term);
@@ -164,6 +248,11 @@ export function TranscriptDisplay({
         transcript: utterance.transcript,
         text: utterance.transcript,
         speaker: utterance.speaker,
+        words: (utterance.words ?? []).map((word) => ({
+          start: word.start,
+          end: word.end,
+          text: word.punctuated_word ?? word.word,
+        })),
       }));
     }
 
@@ -175,6 +264,26 @@ export function TranscriptDisplay({
     [segments],
   );
 
+  const paragraphStarts = useMemo(
+    () => paragraphs.map((paragraph) => ({ start: paragraph.startTime })),
+    [paragraphs],
+  );
+
+  const activeParagraphIndex =
+    currentTimeSec === null || currentTimeSec === undefined
+      ? -1
+      : findIndexAt(paragraphStarts, currentTimeSec);
+  const activeParagraph =
+    activeParagraphIndex >= 0 ? paragraphs[activeParagraphIndex] : null;
+  const activeWordIndex =
+    activeParagraph && currentTimeSec !== null && currentTimeSec !== undefined
+      ? findIndexAt(activeParagraph.words, currentTimeSec)
+      : -1;
+
+  // Ignore a selection left over from a transcript that has since changed
+  const selectedRange =
+    snipRange && snipRange.to < paragraphs.length ? snipRange : null;
+
   const getSpeakerName = (speakerIndex: number | undefined): string => {
     if (speakerIndex === undefined) return "";
     const speakerKey = speakerIndex.toString();
@@ -221,6 +330,48 @@ export function TranscriptDisplay({
     }
   }, [currentMatchIndex, totalMatches]);
 
+  const scrollToParagraph = (index: number) => {
+    const container = containerRef.current;
+    const element = container?.querySelector<HTMLElement>(
+      `[data-paragraph-index="${index}"]`,
+    );
+    if (!container || !element) return;
+    container.scrollTo({
+      top:
+        element.offsetTop -
+        container.clientHeight / 2 +
+        element.clientHeight / 2,
+      behavior: "smooth",
+    });
+  };
+
+  // Keep the spoken paragraph in view unless the user is reading elsewhere
+  // biome-ignore lint/correctness/useExhaustiveDependencies: scrollToParagraph only reads refs
+  useEffect(() => {
+    if (activeParagraphIndex < 0 || searchTerm.trim()) return;
+    if (Date.now() - lastManualScrollRef.current < FOLLOW_PAUSE_MS) return;
+    scrollToParagraph(activeParagraphIndex);
+  }, [activeParagraphIndex, searchTerm]);
+
+  const handleManualScroll = () => {
+    lastManualScrollRef.current = Date.now();
+  };
+
+  // Seeks to the clicked word when word timings exist, else the paragraph
+  const handleParagraphClick = (
+    paragraph: TranscriptParagraph,
+    target: EventTarget,
+  ) => {
+    // Selecting text to copy shouldn't move playback
+    if (!onSeek || window.getSelection()?.toString()) return;
+    const wordStart =
+      target instanceof HTMLElement
+        ? target.closest<HTMLElement>("[data-word-start]")?.dataset.wordStart
+        : undefined;
+    lastManualScrollRef.current = 0;
+    onSeek(wordStart ? Number(wordStart) : paragraph.startTime);
+  };
+
   const handleNext = () => {
     if (totalMatches === 0) return;
     setCurrentMatchIndex((prev) => (prev + 1) % totalMatches);
@@ -231,6 +382,38 @@ export function TranscriptDisplay({
     setCurrentMatchIndex((prev) => (prev - 1 + totalMatches) % totalMatches);
   };
 
+  // First click picks a paragraph, later clicks extend the range to them
+  const toggleParagraph = (index: number) => {
+    setSelectedRange((range) => {
+      if (!range) return { from: index, to: index };
+      if (range.from === index && range.to === index) return null;
+      return {
+        from: Math.min(range.from, index),
+        to: Math.max(range.to, index),
+      };
+    });
+  };
+
+  const handleSnip = () => {
+    if (!selectedRange || !onSnip) return;
+    const selected = paragraphs.slice(selectedRange.from, selectedRange.to + 1);
+    const speakers = new Set(selected.map((paragraph) => paragraph.speaker));
+    const [speaker] = speakers;
+    onSnip({
+      startTimeSec: selected[0].startTime,
+      endTimeSec: Math.max(
+        selected[selected.length - 1].endTime,
+        selected[0].startTime + 1,
+      ),
+      text: selected.map((paragraph) => paragraph.text).join("\n\n"),
+      speaker:
+        speakers.size === 1 && speaker !== undefined
+          ? getSpeakerName(speaker)
+          : null,
+    });
+    setSelectedRange(null);
+  };
+
   let globalMatchIndex = 0;
 
   return (
@@ -285,12 +468,51 @@ export function TranscriptDisplay({
               {currentMatchIndex + 1} / {totalMatches}
             </span>
           )}
+          {activeParagraphIndex >= 0 ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                lastManualScrollRef.current = 0;
+                scrollToParagraph(activeParagraphIndex);
+              }}
+            >
+              <HugeiconsIcon icon={Location01Icon} size={16} />
+              Now playing
+            </Button>
+          ) : null}
         </div>
       </div>
 
+      {onSnip && selectedRange ? (
+        <div className="flex items-center justify-between gap-2 mb-4 rounded-lg border bg-muted/30 px-3 py-2 text-sm">
+          <span className="text-muted-foreground">
+            {selectedRange.to - selectedRange.from + 1} paragraph
+            {selectedRange.to === selectedRange.from ? "" : "s"} selected ·{" "}
+            {formatTimestamp(paragraphs[selectedRange.from].startTime)} –{" "}
+            {formatTimestamp(paragraphs[selectedRange.to].endTime)}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelectedRange(null)}
+            >
+              Clear
+            </Button>
+            <Button size="sm" onClick={handleSnip}>
+              <HugeiconsIcon icon={Scissor01Icon} size={16} />
+              Snip
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
       <div
         ref={containerRef}
-        className="bg-muted/50 rounded-lg p-6 max-h-[60svh] sm:max-h-[70svh] overflow-y-auto"
+        className="relative bg-muted/50 rounded-lg p-6 max-h-[60svh] sm:max-h-[70svh] overflow-y-auto"
+        onWheel={handleManualScroll}
+        onTouchMove={handleManualScroll}
       >
         <div className="space-y-4">
           {paragraphs.length > 0
@@ -305,26 +527,76 @@ export function TranscriptDisplay({
                   globalMatchIndex += matches.length;
                 }
 
+                const isSelected =
+                  selectedRange !== null &&
+                  index >= selectedRange.from &&
+                  index <= selectedRange.to;
+                const isActive = index === activeParagraphIndex;
+                // Word-level rendering is dropped while searching so
+                // highlights can span words
+                const showWords =
+                  paragraph.words.length > 0 &&
+                  !searchTerm.trim() &&
+                  (isActive || onSeek !== undefined);
+
                 return (
-                  <div key={index} className="flex gap-3">
-                    <span className="text-sm sm:text-base text-muted-foreground font-mono min-w-[4rem] mt-0.5">
+                  <div
+                    key={index}
+                    data-paragraph-index={index}
+                    className={`group flex gap-3 rounded-md transition-colors ${isSelected ? "bg-primary/10 ring-1 ring-primary/30" : isActive ? "bg-primary/5" : ""}`}
+                  >
+                    <button
+                      type="button"
+                      onClick={(e) => handleParagraphClick(paragraph, e.target)}
+                      disabled={!onSeek}
+                      aria-label={`Play from ${formatTimestamp(paragraph.startTime)}`}
+                      className="self-start rounded text-sm sm:text-base text-muted-foreground font-mono min-w-[4rem] mt-0.5 text-left enabled:hover:text-foreground enabled:hover:underline"
+                    >
                       {formatTimestamp(paragraph.startTime)}
-                    </span>
-                    <div className="flex-1">
+                    </button>
+                    {/* biome-ignore lint/a11y/useKeyWithClickEvents: clicking a word seeks to it; keyboard users seek with the timestamp button */}
+                    {/* biome-ignore lint/a11y/noStaticElementInteractions: word clicks are a mouse shortcut for the timestamp button */}
+                    <div
+                      className={`flex-1 ${onSeek ? "cursor-pointer" : ""}`}
+                      onClick={(e) => handleParagraphClick(paragraph, e.target)}
+                    >
                       {paragraph.speaker !== undefined && (
                         <div className="text-sm sm:text-base font-medium text-muted-foreground mb-1">
                           {getSpeakerName(paragraph.speaker)}:
                         </div>
                       )}
-                      <span className="text-sm sm:text-base leading-relaxed">
-                        <HighlightedText
-                          text={paragraph.text}
-                          searchTerm={searchTerm}
-                          currentMatchIndex={currentMatchIndex}
-                          matchIndexInText={matchIndexInText}
-                        />
+                      <span
+                        className={`text-sm sm:text-base leading-relaxed ${activeParagraphIndex >= 0 && !isActive ? "text-muted-foreground" : ""}`}
+                      >
+                        {showWords ? (
+                          <ParagraphWords
+                            words={paragraph.words}
+                            activeWordIndex={isActive ? activeWordIndex : -1}
+                            seekable={onSeek !== undefined}
+                          />
+                        ) : (
+                          <HighlightedText
+                            text={paragraph.text}
+                            searchTerm={searchTerm}
+                            currentMatchIndex={currentMatchIndex}
+                            matchIndexInText={matchIndexInText}
+                          />
+                        )}
                       </span>
                     </div>
+                    {onSnip ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={`h-7 w-7 p-0 shrink-0 ${isSelected ? "" : "opacity-0 group-hover:opacity-100 focus-visible:opacity-100"}`}
+                        onClick={() => toggleParagraph(index)}
+                        aria-label={
+                          isSelected ? "Deselect paragraph" : "Select for snip"
+                        }
+                      >
+                        <HugeiconsIcon icon={Scissor01Icon} size={14} />
+                      </Button>
+                    ) : null}
                   </div>
                 );
               })
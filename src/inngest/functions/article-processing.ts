@@ -1,4 +1,3 @@
-import { randomUUID } from "node:crypto";
 import { eq } from "drizzle-orm";
 import { NonRetriableError } from "inngest";
 import { db } from "@/server/db";
@@ -13,7 +12,16 @@ import {
   extractArticleBody,
   extractArticleContent,
 } from "@/server/lib/article-processing";
-import { generateArticleSummary } from "@/server/lib/episode-summary";
+import { trackFeatureUsage } from "@/server/lib/billing";
+import { embedTranscriptChunks } from "@/server/lib/embeddings";
+import {
+  generateArticleSummary,
+  loadSummaryChunks,
+  saveSummaryVersion,
+} from "@/server/lib/episode-summary";
+import { getTaskModel } from "@/server/lib/model-registry";
+import { generateSignals, isSignalPipelineEnabled } from "@/server/lib/signals";
+import { resolveSummaryTemplate } from "@/server/lib/summary-templates";
 import { inngest } from "../client";
 
 /**
@@ -70,7 +78,11 @@ export const processArticle = inngest.createFunction(
             `Article source is '${existingArticle.source}' but rawContent is missing. Email and Readwise articles must have content pre-populated.`,
           );
         } else {
-          const extracted = await extractArticleContent(url);
+          const extracted = await extractArticleContent(url, {
+            db,
+            userId: existingArticle.userId,
+            articleId,
+          });
 
           if (!extracted.content || extracted.content.trim().length < 100) {
             throw new NonRetriableError("Article content too short or empty");
@@ -112,28 +124,7 @@ export const processArticle = inngest.createFunction(
       }
     });
 
-    // Step 3: Generate article summary
-    await step.run("generate-summary", async () => {
-      try {
-        const markdownContent = await generateArticleSummary(
-          extractedContent.content,
-          extractedContent.title,
-        );
-
-        await db.insert(episodeSummary).values({
-          id: randomUUID(),
-          articleId,
-          markdownContent,
-        });
-
-        return { summaryGenerated: true };
-      } catch (error) {
-        console.error("Failed to generate article summary:", error);
-        return { summaryGenerated: false };
-      }
-    });
-
-    // Step 4: Chunk content (without embeddings)
+    // Step 3: Chunk content
     const chunkResult = await step.run("chunk-content", async () => {
       try {
         const result = await chunkArticleContent({
@@ -161,7 +152,94 @@ export const processArticle = inngest.createFunction(
       }
     });
 
-    // Step 5: Mark as processed
+    // Step 4: Generate article summary; after chunking so it can cite the chunks
+    const summaryResult = await step.run("generate-summary", async () => {
+      try {
+        const articleRecord = await db.query.article.findFirst({
+          where: eq(articleSchema.id, articleId),
+          columns: { userId: true },
+          with: { feed: { columns: { summaryTemplateId: true } } },
+        });
+        const template = articleRecord
+          ? await resolveSummaryTemplate({
+              db,
+              userId: articleRecord.userId,
+              templateId: articleRecord.feed?.summaryTemplateId,
+            })
+          : null;
+
+        const result = await generateArticleSummary(
+          extractedContent.content,
+          extractedContent.title,
+          await loadSummaryChunks({ db, articleId }),
+          template,
+          articleRecord
+            ? await getTaskModel("summary", {
+                db,
+                userId: articleRecord.userId,
+                articleId,
+              })
+            : undefined,
+        );
+
+        await saveSummaryVersion({ db, articleId, result, template });
+
+        return {
+          summaryGenerated: true,
+          userId: articleRecord?.userId ?? null,
+          strategy: result.strategy,
+          usage: result.usage,
+        };
+      } catch (error) {
+        console.error("Failed to generate article summary:", error);
+        return { summaryGenerated: false, userId: null };
+      }
+    });
+
+    const summaryOwnerId = summaryResult.userId;
+    if (summaryResult.summaryGenerated && summaryOwnerId) {
+      await step.run("track-summary-usage", () =>
+        trackFeatureUsage(summaryOwnerId, "summaries"),
+      );
+    }
+
+    // Step 5: Embed chunks (best-effort, the backfill job retries failures)
+    await step.run("embed-chunks", async () => {
+      try {
+        const { embedded, model } = await embedTranscriptChunks({
+          db,
+          articleId,
+        });
+        return { embedded, model };
+      } catch (error) {
+        console.error("Failed to embed article chunks:", error);
+        return { embedded: 0 };
+      }
+    });
+
+    // Step 6: Generate signals (optional via SIGNALS_ENABLED, best-effort)
+    await step.run("generate-signals", async () => {
+      if (!isSignalPipelineEnabled()) {
+        return { skipped: true };
+      }
+      try {
+        const owner = await db.query.article.findFirst({
+          where: eq(articleSchema.id, articleId),
+          columns: { userId: true },
+        });
+        if (!owner) return { saved: 0 };
+        return await generateSignals({
+          db,
+          userId: owner.userId,
+          articleId,
+        });
+      } catch (error) {
+        console.error("Failed to generate article signals:", error);
+        return { saved: 0 };
+      }
+    });
+
+    // Step 7: Mark as processed
     await step.run("mark-processed", async () => {
       await db
         .update(articleSchema)
@@ -0,0 +1,57 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/server/db";
+import { episode } from "@/server/db/schema";
+import { generateEpisodeChapters } from "@/server/lib/episode-chapters";
+import { inngest } from "../client";
+
+const GENERATE_EPISODE_CHAPTERS_EVENT =
+  "app/chapters.episode.generate" as const;
+
+type GenerateEpisodeChaptersEvent = {
+  pipelineRunId: string;
+  userId: string;
+  episodeId: string;
+  force?: boolean;
+};
+
+export const generateEpisodeChaptersFunction = inngest.createFunction(
+  { id: "chapters-generate-episode", retries: 2 },
+  { event: GENERATE_EPISODE_CHAPTERS_EVENT },
+  async ({ event, step, logger }) => {
+    const {
+      pipelineRunId,
+      userId,
+      episodeId,
+      force = false,
+    } = event.data as GenerateEpisodeChaptersEvent;
+
+    logger.info(
+      `Pipeline run ${pipelineRunId}: Generating chapters for episode ${episodeId}`,
+    );
+
+    const owned = await step.run("load-episode", async () => {
+      const result = await db.query.episode.findFirst({
+        where: and(eq(episode.id, episodeId), eq(episode.userId, userId)),
+        columns: { id: true },
+      });
+      return Boolean(result);
+    });
+
+    if (!owned) {
+      logger.error(
+        `Pipeline run ${pipelineRunId}: episode ${episodeId} not found`,
+      );
+      return { status: "missing" } as const;
+    }
+
+    const result = await step.run("generate-chapters", () =>
+      generateEpisodeChapters({ db, episodeId, force }),
+    );
+
+    logger.info(
+      `Pipeline run ${pipelineRunId}: episode ${episodeId} has ${result.count} chapters (${result.source ?? "none"})`,
+    );
+
+    return { status: result.generated ? "generated" : "unchanged", ...result };
+  },
+);
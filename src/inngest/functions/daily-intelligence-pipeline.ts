@@ -1,18 +1,30 @@
-import { randomUUID } from "node:crypto";
 import { eq } from "drizzle-orm";
 import { db } from "@/server/db";
 import {
   episode,
+  episodeChapter,
   episodeSpeakerMapping,
   episodeSummary,
   transcriptChunk,
 } from "@/server/db/schema";
-import { generateEpisodeSummary } from "@/server/lib/episode-summary";
+import { trackFeatureUsage } from "@/server/lib/billing";
+import { embedTranscriptChunks } from "@/server/lib/embeddings";
+import { generateEpisodeChapters } from "@/server/lib/episode-chapters";
+import {
+  generateEpisodeSummary,
+  loadSummaryChunks,
+  saveSummaryVersion,
+} from "@/server/lib/episode-summary";
+import { getTaskModel } from "@/server/lib/model-registry";
+import { generateSignals, isSignalPipelineEnabled } from "@/server/lib/signals";
 import { identifyEpisodeSpeakers } from "@/server/lib/speaker-identification";
+import { resolveSummaryTemplate } from "@/server/lib/summary-templates";
 import {
   chunkEpisodeTranscript,
   ensureEpisodeTranscript,
+  meterTranscription,
 } from "@/server/lib/transcript-processing";
+import { loadTranscript } from "@/server/lib/transcript-storage";
 import type { TranscriptData } from "@/types/transcript";
 import { inngest } from "../client";
 
@@ -83,6 +95,9 @@ export const dailyIntelligenceProcessEpisode = inngest.createFunction(
           ? new Date(episodeData.processingStartedAt)
           : null,
         hiddenAt: episodeData.hiddenAt ? new Date(episodeData.hiddenAt) : null,
+        signalsGeneratedAt: episodeData.signalsGeneratedAt
+          ? new Date(episodeData.signalsGeneratedAt)
+          : null,
       };
 
       const transcriptResult = await step.run("ensure-transcript", async () => {
@@ -93,10 +108,29 @@ export const dailyIntelligenceProcessEpisode = inngest.createFunction(
         });
       });
 
+      await step.run("meter-transcription", () =>
+        meterTranscription({
+          db,
+          episode: normalisedEpisode,
+          result: transcriptResult,
+        }),
+      );
+
       normalisedEpisode.transcriptUrl = transcriptResult.transcriptUrl;
 
-      // Generate episode summary
-      await step.run("generate-summary", async () => {
+      await step.run("chunk-transcript", async () => {
+        const { chunkCount } = await chunkEpisodeTranscript({
+          db,
+          episode: normalisedEpisode,
+          minTokens: CHUNK_SETTINGS.minWords,
+          maxTokens: CHUNK_SETTINGS.maxWords,
+          skipEmbeddings: true,
+        });
+        return { chunkCount };
+      });
+
+      // Generate episode summary; after chunking so it can cite the chunks
+      const summaryResult = await step.run("generate-summary", async () => {
         const existingSummary = await db.query.episodeSummary.findFirst({
           where: eq(episodeSummary.episodeId, episodeId),
         });
@@ -115,41 +149,76 @@ export const dailyIntelligenceProcessEpisode = inngest.createFunction(
           return { summaryGenerated: false };
         }
 
-        const transcriptResponse = await fetch(normalisedEpisode.transcriptUrl);
-        if (!transcriptResponse.ok) {
+        let transcript: TranscriptData;
+        try {
+          transcript = await loadTranscript(normalisedEpisode);
+        } catch (error) {
           logger.warn(
-            `Pipeline run ${pipelineRunId}: failed to fetch transcript for summary generation`,
+            `Pipeline run ${pipelineRunId}: failed to load transcript for summary generation`,
+            error,
           );
           return { summaryGenerated: false };
         }
-
-        const transcript: TranscriptData = await transcriptResponse.json();
-        const markdownContent = await generateEpisodeSummary(
+        const template = await resolveSummaryTemplate({
+          db,
+          userId: episodeData.userId,
+          templateId: episodeData.podcast?.summaryTemplateId,
+        });
+        const result = await generateEpisodeSummary(
           transcript,
           episodeData.title,
+          await loadSummaryChunks({ db, episodeId }),
+          template,
+          await getTaskModel("summary", {
+            db,
+            userId: episodeData.userId,
+            episodeId,
+          }),
         );
+        const { strategy, usage } = result;
 
-        await db.insert(episodeSummary).values({
-          id: randomUUID(),
-          episodeId,
-          markdownContent,
-        });
+        await saveSummaryVersion({ db, episodeId, result, template });
 
         logger.info(
-          `Pipeline run ${pipelineRunId}: episode ${episodeId} summary generated`,
+          `Pipeline run ${pipelineRunId}: episode ${episodeId} summary generated (${strategy}, ${usage.totalTokens} tokens)`,
         );
-        return { summaryGenerated: true };
+        return { summaryGenerated: true, strategy, usage };
       });
 
-      await step.run("chunk-transcript", async () => {
-        const { chunkCount } = await chunkEpisodeTranscript({
-          db,
-          episode: normalisedEpisode,
-          minTokens: CHUNK_SETTINGS.minWords,
-          maxTokens: CHUNK_SETTINGS.maxWords,
-          skipEmbeddings: true,
-        });
-        return { chunkCount };
+      if (summaryResult.summaryGenerated) {
+        await step.run("track-summary-usage", () =>
+          trackFeatureUsage(episodeData.userId, "summaries"),
+        );
+      }
+
+      // Embeddings are best-effort: failures are logged and picked up by the backfill job
+      await step.run("embed-chunks", async () => {
+        try {
+          const { embedded, model } = await embedTranscriptChunks({
+            db,
+            episodeId,
+          });
+          return { embedded, model };
+        } catch (error) {
+          logger.warn(
+            `Pipeline run ${pipelineRunId}: embedding failed for episode ${episodeId}`,
+            { error: error instanceof Error ? error.message : String(error) },
+          );
+          return { embedded: 0 };
+        }
+      });
+
+      // Chapters are best-effort; the LLM fallback needs the chunks above
+      await step.run("generate-chapters", async () => {
+        try {
+          return await generateEpisodeChapters({ db, episodeId });
+        } catch (error) {
+          logger.warn(
+            `Pipeline run ${pipelineRunId}: chapter generation failed for episode ${episodeId}`,
+            { error: error instanceof Error ? error.message : String(error) },
+          );
+          return { generated: false };
+        }
       });
 
       // Identify speakers using AI
@@ -169,8 +238,14 @@ export const dailyIntelligenceProcessEpisode = inngest.createFunction(
           itunesSummary: episodeData.itunesSummary,
           contentEncoded: episodeData.contentEncoded,
           creator: episodeData.creator,
+          persons: episodeData.persons,
           podcastTitle: episodeData.podcast.title,
           podcastDescription: episodeData.podcast.description,
+          model: await getTaskModel("speaker-id", {
+            db,
+            userId: episodeData.userId,
+            episodeId: episodeData.id,
+          }),
         });
 
         return {
@@ -179,6 +254,22 @@ export const dailyIntelligenceProcessEpisode = inngest.createFunction(
         };
       });
 
+      // Signals are optional (SIGNALS_ENABLED) and best-effort like embeddings
+      await step.run("generate-signals", async () => {
+        if (!isSignalPipelineEnabled()) {
+          return { skipped: true };
+        }
+        try {
+          return await generateSignals({ db, userId, episodeId });
+        } catch (error) {
+          logger.warn(
+            `Pipeline run ${pipelineRunId}: signal generation failed for episode ${episodeId}`,
+            { error: error instanceof Error ? error.message : String(error) },
+          );
+          return { saved: 0 };
+        }
+      });
+
       await step.run("mark-processed", async () => {
         await db
           .update(episode)
@@ -262,8 +353,12 @@ export const dailyIntelligenceReprocessEpisode = inngest.createFunction(
           .delete(episodeSummary)
           .where(eq(episodeSummary.episodeId, episodeId));
 
+        await db
+          .delete(episodeChapter)
+          .where(eq(episodeChapter.episodeId, episodeId));
+
         logger.info(
-          `Deleted all chunks, speaker mappings, and summary for episode ${episodeId}`,
+          `Deleted all chunks, speaker mappings, summary and chapters for episode ${episodeId}`,
         );
       });
 
@@ -291,6 +386,9 @@ export const dailyIntelligenceReprocessEpisode = inngest.createFunction(
           ? new Date(episodeData.processingStartedAt)
           : null,
         hiddenAt: episodeData.hiddenAt ? new Date(episodeData.hiddenAt) : null,
+        signalsGeneratedAt: episodeData.signalsGeneratedAt
+          ? new Date(episodeData.signalsGeneratedAt)
+          : null,
       };
 
       // Re-fetch transcript
@@ -305,10 +403,30 @@ export const dailyIntelligenceReprocessEpisode = inngest.createFunction(
         },
       );
 
+      await step.run("meter-transcription", () =>
+        meterTranscription({
+          db,
+          episode: normalisedEpisode,
+          result: transcriptResult,
+        }),
+      );
+
       normalisedEpisode.transcriptUrl = transcriptResult.transcriptUrl;
 
+      // Re-chunk transcript
+      await step.run("rechunk-transcript", async () => {
+        const { chunkCount } = await chunkEpisodeTranscript({
+          db,
+          episode: normalisedEpisode,
+          minTokens: CHUNK_SETTINGS.minWords,
+          maxTokens: CHUNK_SETTINGS.maxWords,
+          skipEmbeddings: true,
+        });
+        return { chunkCount };
+      });
+
       // Regenerate summary
-      await step.run("regenerate-summary", async () => {
+      const summaryResult = await step.run("regenerate-summary", async () => {
         if (!normalisedEpisode.transcriptUrl) {
           logger.warn(
             `Pipeline run ${pipelineRunId}: episode ${episodeId} has no transcript URL, skipping summary generation`,
@@ -316,42 +434,76 @@ export const dailyIntelligenceReprocessEpisode = inngest.createFunction(
           return { summaryGenerated: false };
         }
 
-        const transcriptResponse = await fetch(normalisedEpisode.transcriptUrl);
-        if (!transcriptResponse.ok) {
+        let transcript: TranscriptData;
+        try {
+          transcript = await loadTranscript(normalisedEpisode);
+        } catch (error) {
           logger.warn(
-            `Pipeline run ${pipelineRunId}: failed to fetch transcript for summary generation`,
+            `Pipeline run ${pipelineRunId}: failed to load transcript for summary generation`,
+            error,
           );
           return { summaryGenerated: false };
         }
-
-        const transcript: TranscriptData = await transcriptResponse.json();
-        const markdownContent = await generateEpisodeSummary(
+        const template = await resolveSummaryTemplate({
+          db,
+          userId: episodeData.userId,
+          templateId: episodeData.podcast?.summaryTemplateId,
+        });
+        const result = await generateEpisodeSummary(
           transcript,
           episodeData.title,
+          await loadSummaryChunks({ db, episodeId }),
+          template,
+          await getTaskModel("summary", {
+            db,
+            userId: episodeData.userId,
+            episodeId,
+          }),
         );
+        const { strategy, usage } = result;
 
-        await db.insert(episodeSummary).values({
-          id: randomUUID(),
-          episodeId,
-          markdownContent,
-        });
+        await saveSummaryVersion({ db, episodeId, result, template });
 
         logger.info(
-          `Pipeline run ${pipelineRunId}: episode ${episodeId} summary regenerated`,
+          `Pipeline run ${pipelineRunId}: episode ${episodeId} summary regenerated (${strategy}, ${usage.totalTokens} tokens)`,
         );
-        return { summaryGenerated: true };
+        return { summaryGenerated: true, strategy, usage };
       });
 
-      // Re-chunk transcript
-      await step.run("rechunk-transcript", async () => {
-        const { chunkCount } = await chunkEpisodeTranscript({
-          db,
-          episode: normalisedEpisode,
-          minTokens: CHUNK_SETTINGS.minWords,
-          maxTokens: CHUNK_SETTINGS.maxWords,
-          skipEmbeddings: true,
-        });
-        return { chunkCount };
+      if (summaryResult.summaryGenerated) {
+        await step.run("track-summary-usage", () =>
+          trackFeatureUsage(episodeData.userId, "summaries"),
+        );
+      }
+
+      // Re-embed chunks
+      await step.run("reembed-chunks", async () => {
+        try {
+          const { embedded, model } = await embedTranscriptChunks({
+            db,
+            episodeId,
+          });
+          return { embedded, model };
+        } catch (error) {
+          logger.warn(
+            `Pipeline run ${pipelineRunId}: embedding failed for episode ${episodeId}`,
+            { error: error instanceof Error ? error.message : String(error) },
+          );
+          return { embedded: 0 };
+        }
+      });
+
+      // Regenerate chapters
+      await step.run("regenerate-chapters", async () => {
+        try {
+          return await generateEpisodeChapters({ db, episodeId, force: true });
+        } catch (error) {
+          logger.warn(
+            `Pipeline run ${pipelineRunId}: chapter generation failed for episode ${episodeId}`,
+            { error: error instanceof Error ? error.message : String(error) },
+          );
+          return { generated: false };
+        }
       });
 
       // Re-identify speakers
@@ -371,8 +523,14 @@ export const dailyIntelligenceReprocessEpisode = inngest.createFunction(
           itunesSummary: episodeData.itunesSummary,
           contentEncoded: episodeData.contentEncoded,
           creator: episodeData.creator,
+          persons: episodeData.persons,
           podcastTitle: episodeData.podcast.title,
           podcastDescription: episodeData.podcast.description,
+          model: await getTaskModel("speaker-id", {
+            db,
+            userId: episodeData.userId,
+            episodeId: episodeData.id,
+          }),
         });
 
         return {
@@ -381,6 +539,22 @@ export const dailyIntelligenceReprocessEpisode = inngest.createFunction(
         };
       });
 
+      // Signals are optional (SIGNALS_ENABLED) and best-effort like embeddings
+      await step.run("regenerate-signals", async () => {
+        if (!isSignalPipelineEnabled()) {
+          return { skipped: true };
+        }
+        try {
+          return await generateSignals({ db, userId, episodeId });
+        } catch (error) {
+          logger.warn(
+            `Pipeline run ${pipelineRunId}: signal generation failed for episode ${episodeId}`,
+            { error: error instanceof Error ? error.message : String(error) },
+          );
+          return { saved: 0 };
+        }
+      });
+
       await step.run("mark-processed", async () => {
         await db
           .update(episode)
@@ -0,0 +1,65 @@
+import { db } from "@/server/db";
+import { embedTranscriptChunks } from "@/server/lib/embeddings";
+import { inngest } from "../client";
+
+const EMBEDDING_BACKFILL_EVENT = "app/embeddings.backfill" as const;
+
+const BACKFILL_SETTINGS = {
+  batchSize: 64,
+  chunksPerStep: 512,
+  maxSteps: 200,
+} as const;
+
+type EmbeddingBackfillEvent = {
+  pipelineRunId: string;
+  userId?: string;
+};
+
+/**
+ * Backfill embeddings for transcript chunks created before embeddings existed
+ * (or whose pipeline embedding step failed), and re-embed chunks from another
+ * embedding model. Each step embeds a bounded slice so a long backfill
+ * checkpoints its progress.
+ */
+export const backfillChunkEmbeddings = inngest.createFunction(
+  {
+    id: "embeddings-backfill",
+    name: "Backfill Chunk Embeddings",
+    concurrency: { limit: 1 },
+  },
+  { event: EMBEDDING_BACKFILL_EVENT },
+  async ({ event, step, logger }) => {
+    const { pipelineRunId, userId } = event.data as EmbeddingBackfillEvent;
+
+    logger.info(
+      `Pipeline run ${pipelineRunId}: backfilling embeddings${userId ? ` for user ${userId}` : ""}`,
+    );
+
+    let totalEmbedded = 0;
+    let model: string | undefined;
+
+    for (let index = 0; index < BACKFILL_SETTINGS.maxSteps; index++) {
+      const result = await step.run(`embed-batch-${index}`, async () => {
+        return await embedTranscriptChunks({
+          db,
+          userId,
+          batchSize: BACKFILL_SETTINGS.batchSize,
+          limit: BACKFILL_SETTINGS.chunksPerStep,
+        });
+      });
+
+      totalEmbedded += result.embedded;
+      model = result.model;
+
+      if (!result.remaining) {
+        break;
+      }
+    }
+
+    logger.info(
+      `Pipeline run ${pipelineRunId}: embedded ${totalEmbedded} chunks with ${model}`,
+    );
+
+    return { status: "completed", embedded: totalEmbedded, model } as const;
+  },
+);
@@ -4,6 +4,10 @@ import { nanoid } from "nanoid";
 import Parser from "rss-parser";
 import { db } from "@/server/db";
 import { article, articleFeed, episode, podcast } from "@/server/db/schema";
+import {
+  extractPodcastNamespaceFields,
+  PODCAST_NAMESPACE_CUSTOM_FIELDS,
+} from "@/server/lib/podcasting20";
 import { inngest } from "../client";
 
 // Circuit breaker settings
@@ -294,6 +298,7 @@ async function parseFeedAndUpsertEpisodes(podcastRecord: {
   // Parse RSS feed with exponential backoff retry
   const parser = new Parser({
     timeout: 10000, // 10 second timeout
+    customFields: PODCAST_NAMESPACE_CUSTOM_FIELDS,
   });
   // biome-ignore lint/suspicious/noExplicitAny: Using same pattern as existing code
   let feedData: any;
@@ -392,6 +397,8 @@ async function parseFeedAndUpsertEpisodes(podcastRecord: {
             : item.category || null,
           // Dublin Core namespace
           dcCreator: item["dc:creator"] || null,
+          // Podcasting 2.0 namespace
+          ...extractPodcastNamespaceFields(item, feedData),
           status: "pending" as const, // Mark as pending for daily pipeline processing
         },
       ];
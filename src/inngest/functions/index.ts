@@ -4,10 +4,12 @@ export {
   processArticle,
   reprocessArticle,
 } from "./article-processing";
+export { generateEpisodeChaptersFunction } from "./chapter-generation";
 export {
   dailyIntelligenceProcessEpisode,
   dailyIntelligenceReprocessEpisode,
 } from "./daily-intelligence-pipeline";
+export { backfillChunkEmbeddings } from "./embedding-backfill";
 export {
   bulkRefreshArticleFeeds,
   bulkRefreshFeeds,
@@ -16,6 +18,8 @@ export {
 } from "./feed-parser";
 export { healthCheck } from "./health-monitoring";
 export { helloWorld } from "./hello";
+export { recomputeQualityPreferencesFunction } from "./quality-preferences";
+export { generateSignalsFunction } from "./signal-generation";
 export {
   generateArticleSummaryFunction,
   generateEpisodeSummaryFunction,
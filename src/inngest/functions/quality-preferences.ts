@@ -0,0 +1,52 @@
+import { randomUUID } from "node:crypto";
+import { db } from "@/server/db";
+import {
+  listUsersNeedingRecompute,
+  recomputeQualityPreferences,
+} from "@/server/lib/quality-preferences";
+import { inngest } from "../client";
+
+const RECOMPUTE_QUALITY_PREFERENCES_EVENT =
+  "app/quality-preferences.recompute" as const;
+
+type RecomputeQualityPreferencesEvent = {
+  userId?: string;
+};
+
+/**
+ * Relearn per-user quality weights from save/skip feedback
+ * Triggered by: daily cron at 3 AM UTC (after feed refresh), or manually via event
+ */
+export const recomputeQualityPreferencesFunction = inngest.createFunction(
+  {
+    id: "recompute-quality-preferences",
+    name: "Recompute Quality Preferences",
+  },
+  [
+    { cron: "0 3 * * *" }, // Run daily at 3 AM UTC
+    { event: RECOMPUTE_QUALITY_PREFERENCES_EVENT },
+  ],
+  async ({ event, step, logger }) => {
+    const { userId } = (event.data || {}) as RecomputeQualityPreferencesEvent;
+    const pipelineRunId = randomUUID();
+
+    const userIds = await step.run("find-users", async () => {
+      if (userId) return [userId];
+      return await listUsersNeedingRecompute(db);
+    });
+
+    logger.info(
+      `Pipeline run ${pipelineRunId}: recomputing quality preferences for ${userIds.length} users`,
+    );
+
+    let computed = 0;
+    for (const id of userIds) {
+      const result = await step.run(`recompute-${id}`, () =>
+        recomputeQualityPreferences({ db, userId: id }),
+      );
+      if (result.status === "computed") computed++;
+    }
+
+    return { pipelineRunId, users: userIds.length, computed };
+  },
+);
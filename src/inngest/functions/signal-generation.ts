@@ -0,0 +1,68 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/server/db";
+import { article, episode } from "@/server/db/schema";
+import { generateSignals } from "@/server/lib/signals";
+import { inngest } from "../client";
+
+const GENERATE_SIGNALS_EVENT = "app/signals.generate" as const;
+
+type GenerateSignalsEvent = {
+  pipelineRunId: string;
+  userId: string;
+  episodeId?: string;
+  articleId?: string;
+  topN?: number;
+};
+
+export const generateSignalsFunction = inngest.createFunction(
+  {
+    id: "signals-generate",
+    name: "Generate Signals",
+    retries: 2,
+    // One run per user at a time keeps LLM judge calls bounded
+    concurrency: { key: "event.data.userId", limit: 1 },
+  },
+  { event: GENERATE_SIGNALS_EVENT },
+  async ({ event, step, logger }) => {
+    const { pipelineRunId, userId, episodeId, articleId, topN } =
+      event.data as GenerateSignalsEvent;
+    const target = episodeId ? `episode ${episodeId}` : `article ${articleId}`;
+
+    logger.info(
+      `Pipeline run ${pipelineRunId}: generating signals for ${target}`,
+    );
+
+    const owned = await step.run("load-source", async () => {
+      if (episodeId) {
+        const result = await db.query.episode.findFirst({
+          where: and(eq(episode.id, episodeId), eq(episode.userId, userId)),
+          columns: { id: true },
+        });
+        return Boolean(result);
+      }
+      if (articleId) {
+        const result = await db.query.article.findFirst({
+          where: and(eq(article.id, articleId), eq(article.userId, userId)),
+          columns: { id: true },
+        });
+        return Boolean(result);
+      }
+      return false;
+    });
+
+    if (!owned) {
+      logger.error(`Pipeline run ${pipelineRunId}: ${target} not found`);
+      return { status: "missing" } as const;
+    }
+
+    const result = await step.run("score-chunks", () =>
+      generateSignals({ db, userId, episodeId, articleId, topN }),
+    );
+
+    logger.info(
+      `Pipeline run ${pipelineRunId}: ${target} scored ${result.scored} chunks, saved ${result.saved} signals`,
+    );
+
+    return { status: "generated", ...result } as const;
+  },
+);
@@ -1,12 +1,16 @@
-import { randomUUID } from "node:crypto";
 import { and, eq } from "drizzle-orm";
 import { db } from "@/server/db";
-import { article, episode, episodeSummary } from "@/server/db/schema";
+import { article, episode } from "@/server/db/schema";
+import { trackFeatureUsage } from "@/server/lib/billing";
 import {
   generateArticleSummary,
   generateEpisodeSummary,
+  loadSummaryChunks,
+  saveSummaryVersion,
 } from "@/server/lib/episode-summary";
-import type { TranscriptData } from "@/types/transcript";
+import { getTaskModel } from "@/server/lib/model-registry";
+import { resolveSummaryTemplate } from "@/server/lib/summary-templates";
+import { loadTranscript } from "@/server/lib/transcript-storage";
 import { inngest } from "../client";
 
 const GENERATE_EPISODE_SUMMARY_EVENT = "app/summary.episode.generate" as const;
@@ -17,6 +21,8 @@ type GenerateEpisodeSummaryEvent = {
   userId: string;
   episodeId: string;
   force?: boolean;
+  // Omitted: the podcast's default template. Null: the built-in summary.
+  templateId?: string | null;
 };
 
 type GenerateArticleSummaryEvent = {
@@ -24,6 +30,8 @@ type GenerateArticleSummaryEvent = {
   userId: string;
   articleId: string;
   force?: boolean;
+  // Omitted: the feed's default template. Null: the built-in summary.
+  templateId?: string | null;
 };
 
 export const generateEpisodeSummaryFunction = inngest.createFunction(
@@ -35,6 +43,7 @@ export const generateEpisodeSummaryFunction = inngest.createFunction(
       userId,
       episodeId,
       force = false,
+      templateId,
     } = event.data as GenerateEpisodeSummaryEvent;
 
     logger.info(
@@ -44,7 +53,7 @@ export const generateEpisodeSummaryFunction = inngest.createFunction(
     const episodeRecord = await step.run("load-episode", async () => {
       const result = await db.query.episode.findFirst({
         where: and(eq(episode.id, episodeId), eq(episode.userId, userId)),
-        with: { summary: true },
+        with: { summary: true, podcast: true },
       });
       return result ?? null;
     });
@@ -71,36 +80,39 @@ export const generateEpisodeSummaryFunction = inngest.createFunction(
     }
 
     const summaryRecord = await step.run("generate-summary", async () => {
-      const transcriptResponse = await fetch(episodeRecord.transcriptUrl!);
-      if (!transcriptResponse.ok) {
-        throw new Error("Failed to fetch transcript");
-      }
-
-      const transcript: TranscriptData = await transcriptResponse.json();
-      const markdownContent = await generateEpisodeSummary(
+      const transcript = await loadTranscript(episodeRecord);
+      const template = await resolveSummaryTemplate({
+        db,
+        userId,
+        templateId:
+          templateId !== undefined
+            ? templateId
+            : episodeRecord.podcast?.summaryTemplateId,
+      });
+      const result = await generateEpisodeSummary(
         transcript,
         episodeRecord.title,
+        await loadSummaryChunks({ db, episodeId }),
+        template,
+        await getTaskModel("summary", { db, userId, episodeId }),
+      );
+      logger.info(
+        `Episode ${episodeId} summary: ${result.strategy}, ${result.usage.calls} calls, ${result.usage.totalTokens} tokens`,
       );
 
-      if (episodeRecord.summary && force) {
-        await db
-          .delete(episodeSummary)
-          .where(eq(episodeSummary.id, episodeRecord.summary.id));
-      }
-
-      const summaryId = randomUUID();
-      const [record] = await db
-        .insert(episodeSummary)
-        .values({
-          id: summaryId,
-          episodeId,
-          markdownContent,
-        })
-        .returning();
-
-      return record;
+      const { summary } = await saveSummaryVersion({
+        db,
+        episodeId,
+        result,
+        template,
+      });
+      return summary;
     });
 
+    await step.run("track-summary-usage", () =>
+      trackFeatureUsage(userId, "summaries"),
+    );
+
     logger.info(
       `Pipeline run ${pipelineRunId}: episode ${episodeId} summary generated`,
     );
@@ -118,6 +130,7 @@ export const generateArticleSummaryFunction = inngest.createFunction(
       userId,
       articleId,
       force = false,
+      templateId,
     } = event.data as GenerateArticleSummaryEvent;
 
     logger.info(
@@ -127,7 +140,7 @@ export const generateArticleSummaryFunction = inngest.createFunction(
     const articleRecord = await step.run("load-article", async () => {
       const result = await db.query.article.findFirst({
         where: and(eq(article.id, articleId), eq(article.userId, userId)),
-        with: { summary: true, transcriptChunks: true },
+        with: { summary: true, transcriptChunks: true, feed: true },
       });
       return result ?? null;
     });
@@ -161,30 +174,38 @@ export const generateArticleSummaryFunction = inngest.createFunction(
         .transcriptChunks!.map((chunk) => chunk.content)
         .join("\n\n");
 
-      const markdownContent = await generateArticleSummary(
+      const template = await resolveSummaryTemplate({
+        db,
+        userId,
+        templateId:
+          templateId !== undefined
+            ? templateId
+            : articleRecord.feed?.summaryTemplateId,
+      });
+      const result = await generateArticleSummary(
         content,
         articleRecord.title,
+        articleRecord.transcriptChunks!,
+        template,
+        await getTaskModel("summary", { db, userId, articleId }),
+      );
+      logger.info(
+        `Article ${articleId} summary: ${result.strategy}, ${result.usage.calls} calls, ${result.usage.totalTokens} tokens`,
       );
 
-      if (articleRecord.summary && force) {
-        await db
-          .delete(episodeSummary)
-          .where(eq(episodeSummary.id, articleRecord.summary.id));
-      }
-
-      const summaryId = randomUUID();
-      const [record] = await db
-        .insert(episodeSummary)
-        .values({
-          id: summaryId,
-          articleId,
-          markdownContent,
-        })
-        .returning();
-
-      return record;
+      const { summary } = await saveSummaryVersion({
+        db,
+        articleId,
+        result,
+        template,
+      });
+      return summary;
     });
 
+    await step.run("track-summary-usage", () =>
+      trackFeatureUsage(userId, "summaries"),
+    );
+
     logger.info(
       `Pipeline run ${pipelineRunId}: article ${articleId} summary generated`,
     );
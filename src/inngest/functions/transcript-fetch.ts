@@ -1,7 +1,10 @@
 import { eq } from "drizzle-orm";
 import { db } from "@/server/db";
 import { episode } from "@/server/db/schema";
-import { ensureEpisodeTranscript } from "@/server/lib/transcript-processing";
+import {
+  ensureEpisodeTranscript,
+  meterTranscription,
+} from "@/server/lib/transcript-processing";
 import { inngest } from "../client";
 
 const TRANSCRIPT_FETCH_EVENT = "app/transcript.episode.fetch" as const;
@@ -69,6 +72,9 @@ export const fetchEpisodeTranscript = inngest.createFunction(
           ? new Date(episodeData.processingStartedAt)
           : null,
         hiddenAt: episodeData.hiddenAt ? new Date(episodeData.hiddenAt) : null,
+        signalsGeneratedAt: episodeData.signalsGeneratedAt
+          ? new Date(episodeData.signalsGeneratedAt)
+          : null,
       };
 
       const transcriptResult = await step.run("fetch-transcript", async () => {
@@ -79,6 +85,14 @@ export const fetchEpisodeTranscript = inngest.createFunction(
         });
       });
 
+      await step.run("meter-transcription", () =>
+        meterTranscription({
+          db,
+          episode: normalisedEpisode,
+          result: transcriptResult,
+        }),
+      );
+
       // Mark episode status back to pending (we only fetched transcript, not processed)
       // This allows full processing later if needed
       await step.run("update-status", async () => {
@@ -0,0 +1,75 @@
+/**
+ * Plans and metered features. The limits enforced in production live in
+ * Autumn; these mirror them for the pricing page and the local mock client.
+ */
+
+export const BILLING_FEATURES = [
+  "transcription_minutes",
+  "summaries",
+  "feeds",
+] as const;
+export type BillingFeature = (typeof BILLING_FEATURES)[number];
+
+export const billingFeatures: Record<
+  BillingFeature,
+  {
+    label: string;
+    unit: string;
+    // Monthly features reset each billing period; the rest count what you have
+    resets: boolean;
+  }
+> = {
+  transcription_minutes: {
+    label: "Transcription",
+    unit: "minutes",
+    resets: true,
+  },
+  summaries: {
+    label: "Summaries",
+    unit: "summaries",
+    resets: true,
+  },
+  feeds: {
+    label: "Feeds",
+    unit: "podcasts and article feeds",
+    resets: false,
+  },
+};
+
+export type PlanId = "free" | "pro";
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  price: string;
+  description: string;
+  // null = unlimited
+  limits: Record<BillingFeature, number | null>;
+}
+
+export const PLANS: Plan[] = [
+  {
+    id: "free",
+    name: "Free",
+    price: "$0",
+    description: "For trying it out with a few shows",
+    limits: {
+      transcription_minutes: 120,
+      summaries: 30,
+      feeds: 10,
+    },
+  },
+  {
+    id: "pro",
+    name: "Pro",
+    price: "$19",
+    description: "For following everything you listen to and read",
+    limits: {
+      transcription_minutes: 1500,
+      summaries: 500,
+      feeds: null,
+    },
+  },
+];
+
+export const DEFAULT_PLAN_ID: PlanId = "free";
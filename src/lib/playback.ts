@@ -0,0 +1,48 @@
+// How often the player saves its position while playing
+export const PLAYBACK_CHECKPOINT_SEC = 15;
+
+// Past this share of the episode it counts as played
+export const PLAYBACK_COMPLETE_RATIO = 0.95;
+
+// Resuming this close to the start isn't worth offering
+export const PLAYBACK_RESUME_MIN_SEC = 10;
+
+export const PLAYBACK_STATES = ["unplayed", "in_progress", "played"] as const;
+export type PlaybackState = (typeof PLAYBACK_STATES)[number];
+
+export interface PlaybackProgressLike {
+  positionSec: number;
+  durationSec: number | null;
+  completedAt: Date | string | null;
+}
+
+export function getCompletionPercent(
+  progress: PlaybackProgressLike | null | undefined,
+  fallbackDurationSec?: number | null,
+): number {
+  if (!progress) return 0;
+  if (progress.completedAt) return 100;
+  const duration = progress.durationSec ?? fallbackDurationSec;
+  if (!duration || duration <= 0) return 0;
+  return Math.min(100, Math.max(0, (progress.positionSec / duration) * 100));
+}
+
+export function getPlaybackState(
+  progress: PlaybackProgressLike | null | undefined,
+): PlaybackState {
+  if (!progress) return "unplayed";
+  if (progress.completedAt) return "played";
+  return progress.positionSec >= PLAYBACK_RESUME_MIN_SEC
+    ? "in_progress"
+    : "unplayed";
+}
+
+// Where "Play" should start: the saved position, unless finished or barely
+// started
+export function getResumePosition(
+  progress: PlaybackProgressLike | null | undefined,
+): number | null {
+  return getPlaybackState(progress) === "in_progress" && progress
+    ? progress.positionSec
+    : null;
+}
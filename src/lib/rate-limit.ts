@@ -60,4 +60,12 @@ export const RATE_LIMITS = {
     limit: 10,
     windowMs: 60 * 60 * 1000,
   },
+  CHAT: {
+    limit: 60,
+    windowMs: 60 * 60 * 1000,
+  },
+  EXPORT: {
+    limit: 30,
+    windowMs: 60 * 60 * 1000,
+  },
 } as const;
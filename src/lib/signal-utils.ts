@@ -19,3 +19,41 @@ export function formatTimestamp(seconds: number): string {
   }
   return `${minutes}:${secs.toString().padStart(2, "0")}`;
 }
+
+// Human-readable names for the learned quality features
+export const QUALITY_FEATURE_LABELS: Record<string, string> = {
+  wordCount: "Length",
+  charCount: "Character count",
+  avgWordLength: "Word length",
+  hasQuotes: "Quotes",
+  hasNumbers: "Numbers",
+  hasEmphasis: "Emphasis",
+  sentenceCount: "Sentence count",
+  avgSentenceLength: "Sentence length",
+  hasFirstPerson: "First person",
+  hasSecondPerson: "Addresses the listener",
+  hasImperative: "Direct advice",
+  uniqueWordRatio: "Vocabulary variety",
+  punctuationDensity: "Punctuation",
+  hasPrinciple: "Principles (always/never)",
+  hasContrast: "Contrast (but/however)",
+  hasMetaphor: "Metaphors",
+};
+
+// Score bands for filtering the signals inbox; "medium" starts at the LLM save threshold
+export const SIGNAL_SCORE_BANDS = {
+  high: { label: "High (80%+)", min: 0.8, max: null },
+  medium: { label: "Medium (60–80%)", min: 0.6, max: 0.8 },
+  low: { label: "Low (under 60%)", min: 0, max: 0.6 },
+} as const;
+
+export type SignalScoreBand = keyof typeof SIGNAL_SCORE_BANDS;
+
+export const SIGNAL_INBOX_STATUSES = [
+  "inbox",
+  "snoozed",
+  "saved",
+  "skipped",
+] as const;
+
+export type SignalInboxStatus = (typeof SIGNAL_INBOX_STATUSES)[number];
@@ -8,6 +8,7 @@ import {
   QUALITY_MEDIUM,
   StreamTarget,
   type StreamTargetChunk,
+  UrlSource,
 } from "mediabunny";
 
 const CLIP_VIDEO_CODEC = "avc" as const;
@@ -17,7 +18,8 @@ const CLIP_BITRATE = QUALITY_MEDIUM;
 
 /**
  * Extracts a video clip from a source video using Mediabunny
- * @param sourceVideoUrl - URL or Blob of the source video
+ * @param sourceVideoUrl - URL or Blob of the source video. URLs must be
+ * readable cross-origin; use `/api/episodes/<id>/video` for episodes.
  * @param startTime - Start time in seconds
  * @param endTime - End time in seconds
  * @returns ArrayBuffer of the extracted clip in MP4 format
@@ -34,20 +36,12 @@ export async function extractVideoClip(
     endTime,
   });
 
-  // Fetch source video
-  const sourceBlob =
-    typeof sourceVideoUrl === "string"
-      ? await fetchVideoAsBlob(sourceVideoUrl)
-      : sourceVideoUrl;
-
-  console.log("[extractVideoClip] Fetched blob", {
-    size: sourceBlob.size,
-    type: sourceBlob.type,
-  });
-
-  // Create input from blob
+  // URLs are read with range requests so long videos aren't downloaded whole
   const input = new Input({
-    source: new BlobSource(sourceBlob),
+    source:
+      typeof sourceVideoUrl === "string"
+        ? new UrlSource(sourceVideoUrl)
+        : new BlobSource(sourceVideoUrl),
     formats: ALL_FORMATS, // Support all formats (MP4, WebM, Matroska, etc.)
   });
 
@@ -115,13 +109,84 @@ export async function extractVideoClip(
     throw new Error(`Invalid conversion: ${errors}`);
   }
 
-  // Execute conversion
+  // Execute conversion; this also finalizes the output
   await conversion.execute();
 
-  // Finalize output
-  await output.finalize();
+  // Dispose input to free resources
+  input.dispose();
+
+  return concatChunks(chunks);
+}
 
-  // Combine chunks into single ArrayBuffer
+/**
+ * Extracts an audio-only clip (AAC in an M4A container) from a source file
+ * @param sourceAudioUrl - URL or Blob of the source audio or video. URLs must
+ * be readable cross-origin; use `/api/episodes/<id>/audio` for episodes.
+ * @param startTime - Start time in seconds
+ * @param endTime - End time in seconds
+ * @returns ArrayBuffer of the extracted clip in M4A format
+ */
+export async function extractAudioClip(
+  sourceAudioUrl: string | Blob,
+  startTime: number,
+  endTime: number,
+): Promise<ArrayBuffer> {
+  // URLs are read with range requests so long episodes aren't downloaded whole
+  const input = new Input({
+    source:
+      typeof sourceAudioUrl === "string"
+        ? new UrlSource(sourceAudioUrl)
+        : new BlobSource(sourceAudioUrl),
+    formats: ALL_FORMATS,
+  });
+
+  const chunks: Uint8Array[] = [];
+  const output = new Output({
+    target: new StreamTarget(
+      new WritableStream<StreamTargetChunk>({
+        write(chunk) {
+          if (chunk.type === "write") {
+            chunks.push(chunk.data);
+          }
+        },
+      }),
+    ),
+    format: new Mp4OutputFormat({ fastStart: "in-memory" }),
+  });
+
+  const conversion = await Conversion.init({
+    input,
+    output,
+    trim: {
+      start: startTime,
+      end: endTime,
+    },
+    video: { discard: true },
+    audio: {
+      codec: CLIP_AUDIO_CODEC,
+      bitrate: CLIP_BITRATE,
+    },
+    showWarnings: false,
+  });
+
+  if (!conversion.isValid) {
+    const errors = conversion.discardedTracks
+      .filter((t) => t.track.type === "audio")
+      .map((t) => `${t.track.type}: ${t.reason}`)
+      .join(", ");
+    throw new Error(`Invalid conversion: ${errors || "no audio track"}`);
+  }
+
+  await conversion.execute();
+  input.dispose();
+
+  return concatChunks(chunks);
+}
+
+/**
+ * Combines streamed output chunks into a single ArrayBuffer
+ */
+function concatChunks(chunks: Uint8Array[]): ArrayBuffer {
   const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
   const result = new Uint8Array(totalLength);
   let offset = 0;
@@ -129,10 +194,6 @@ export async function extractVideoClip(
     result.set(chunk, offset);
     offset += chunk.length;
   }
-
-  // Dispose input to free resources
-  input.dispose();
-
   return result.buffer;
 }
 
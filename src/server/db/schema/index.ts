@@ -1,3 +1,7 @@
+export * from "./api-tokens";
 export * from "./auth";
 export * from "./integrations";
 export * from "./podcast";
+export * from "./settings";
+export * from "./share-links";
+export * from "./usage";
@@ -4,13 +4,17 @@ import {
   doublePrecision,
   index,
   integer,
+  jsonb,
   pgEnum,
   pgTable,
   text,
   timestamp,
   unique,
+  vector,
 } from "drizzle-orm/pg-core";
 
+export const EMBEDDING_DIMENSIONS = 1536;
+
 export const episodeStatusEnum = pgEnum("episode_status", [
   "pending",
   "processing",
@@ -19,6 +23,30 @@ export const episodeStatusEnum = pgEnum("episode_status", [
   "retrying",
 ]);
 
+export type TranscriptProviderId =
+  | "local"
+  | "publisher"
+  | "youtube"
+  | "podscan"
+  | "deepgram";
+
+// Podcasting 2.0 `podcast:transcript` tag
+export interface PublisherTranscript {
+  url: string;
+  type: string; // MIME type, e.g. text/vtt
+  language?: string;
+  rel?: string; // "captions" for timed captions
+}
+
+// Podcasting 2.0 `podcast:person` tag
+export interface PodcastPerson {
+  name: string;
+  role?: string; // host, guest, etc. (lowercased)
+  group?: string;
+  img?: string;
+  href?: string;
+}
+
 export const podcast = pgTable(
   "podcast",
   {
@@ -29,6 +57,16 @@ export const podcast = pgTable(
     imageUrl: text("image_url"),
     feedUrl: text("feed_url"),
     youtubePlaylistId: text("youtube_playlist_id"),
+    podscanPodcastId: text("podscan_podcast_id"),
+    // Overrides the owner's transcript provider order for this podcast
+    transcriptProviders: jsonb("transcript_providers").$type<
+      TranscriptProviderId[]
+    >(),
+    // Template for new episode summaries; null uses the built-in summary
+    summaryTemplateId: text("summary_template_id").references(
+      () => summaryTemplate.id,
+      { onDelete: "set null" },
+    ),
     userId: text("user_id").notNull(),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -59,7 +97,7 @@ export const episode = pgTable(
     durationSec: integer("duration_sec"),
     audioUrl: text("audio_url"),
     transcriptUrl: text("transcript_url"),
-    transcriptSource: text("transcript_source"), // "youtube" | "deepgram" | null
+    transcriptSource: text("transcript_source").$type<TranscriptProviderId>(),
     thumbnailUrl: text("thumbnail_url"),
     youtubeVideoId: text("youtube_video_id"),
     youtubeVideoUrl: text("youtube_video_url"),
@@ -77,6 +115,14 @@ export const episode = pgTable(
     category: text("category"), // episode categories
     // Dublin Core namespace
     dcCreator: text("dc_creator"), // content creator
+    // Podcasting 2.0 namespace
+    publisherTranscripts: jsonb("publisher_transcripts").$type<
+      PublisherTranscript[]
+    >(),
+    chaptersUrl: text("chapters_url"), // JSON chapters file
+    persons: jsonb("persons").$type<PodcastPerson[]>(),
+    seasonNumber: integer("season_number"),
+    seasonName: text("season_name"),
     status: episodeStatusEnum("status").default("pending").notNull(),
     errorMessage: text("error_message"),
     retryCount: integer("retry_count").default(0).notNull(),
@@ -85,6 +131,9 @@ export const episode = pgTable(
       withTimezone: true,
     }),
     hiddenAt: timestamp("hidden_at", { withTimezone: true }),
+    signalsGeneratedAt: timestamp("signals_generated_at", {
+      withTimezone: true,
+    }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -121,6 +170,9 @@ export const article = pgTable(
     readwiseId: text("readwise_id"),
     status: episodeStatusEnum("status").default("pending").notNull(),
     errorMessage: text("error_message"),
+    signalsGeneratedAt: timestamp("signals_generated_at", {
+      withTimezone: true,
+    }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -157,6 +209,8 @@ export const transcriptChunk = pgTable(
     startTimeSec: integer("start_time_sec").default(sql`NULL`),
     endTimeSec: integer("end_time_sec").default(sql`NULL`),
     wordCount: integer("word_count"),
+    embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+    embeddingModel: text("embedding_model"), // provider/model that produced the vector
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -164,6 +218,14 @@ export const transcriptChunk = pgTable(
   (table) => [
     index().on(table.episodeId),
     index().on(table.articleId),
+    index("transcript_chunk_embedding_idx").using(
+      "hnsw",
+      table.embedding.op("vector_cosine_ops"),
+    ),
+    index("transcript_chunk_content_search_idx").using(
+      "gin",
+      sql`to_tsvector('english', ${table.content})`,
+    ),
     check(
       "chunk_source_check",
       sql`(
@@ -194,6 +256,92 @@ export const episodeSpeakerMapping = pgTable(
   (table) => [index().on(table.episodeId)],
 );
 
+export type ChapterSource = "rss" | "show-notes" | "youtube" | "llm";
+
+export const episodeChapter = pgTable(
+  "episode_chapter",
+  {
+    id: text("id").primaryKey(),
+    episodeId: text("episode_id")
+      .references(() => episode.id, { onDelete: "cascade" })
+      .notNull(),
+    position: integer("position").notNull(),
+    title: text("title").notNull(),
+    startTimeSec: doublePrecision("start_time_sec").notNull(),
+    endTimeSec: doublePrecision("end_time_sec"), // null for an open-ended last chapter
+    source: text("source").$type<ChapterSource>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.episodeId),
+    unique().on(table.episodeId, table.position),
+  ],
+);
+
+// Where a summary item comes from. chunkId is absent when the summary was
+// generated before the transcript was chunked.
+export interface SummaryCitation {
+  chunkId?: string;
+  startTimeSec?: number;
+}
+
+export interface SummaryItem {
+  text: string;
+  citations: SummaryCitation[];
+}
+
+export interface SummaryQuote extends SummaryCitation {
+  text: string;
+  speaker?: string;
+  // False when the quote couldn't be found in the transcript
+  verified: boolean;
+  // Share of the quote's words found in the best matching passage, 0-1
+  matchScore: number;
+}
+
+// A template-defined section, e.g. "Risks" in an investor memo
+export interface SummarySection {
+  heading: string;
+  items: SummaryItem[];
+}
+
+export interface StructuredSummary {
+  tldr: SummaryItem;
+  takeaways: SummaryItem[];
+  examples: SummaryItem[];
+  // Present instead of takeaways and examples when a template names sections
+  sections?: SummarySection[];
+  quotes: SummaryQuote[];
+}
+
+export type SummaryStrategy = "single-pass" | "map-reduce";
+
+export type SummaryLength = "short" | "medium" | "long";
+
+export const summaryTemplate = pgTable(
+  "summary_template",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    name: text("name").notNull(),
+    // What the reader wants out of the summary, in their words
+    instructions: text("instructions").notNull(),
+    // Output sections in order; empty keeps takeaways and examples
+    sections: jsonb("sections").$type<string[]>().notNull().default([]),
+    length: text("length").$type<SummaryLength>().notNull().default("medium"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index().on(table.userId), unique().on(table.userId, table.name)],
+);
+
 export const episodeSummary = pgTable(
   "episode_summary",
   {
@@ -205,6 +353,12 @@ export const episodeSummary = pgTable(
       .references(() => article.id, { onDelete: "cascade" })
       .unique(),
     markdownContent: text("markdown_content").notNull(),
+    // Null for summaries generated before the structured format
+    structuredContent: jsonb("structured_content").$type<StructuredSummary>(),
+    // The version this row currently shows; null for pre-history summaries
+    versionId: text("version_id").references(() => summaryVersion.id, {
+      onDelete: "set null",
+    }),
     summaryGeneratedAt: timestamp("summary_generated_at", {
       withTimezone: true,
     })
@@ -214,6 +368,10 @@ export const episodeSummary = pgTable(
   (table) => [
     index().on(table.episodeId),
     index().on(table.articleId),
+    index("episode_summary_content_search_idx").using(
+      "gin",
+      sql`to_tsvector('english', ${table.markdownContent})`,
+    ),
     check(
       "summary_source_check",
       sql`(
@@ -224,6 +382,177 @@ export const episodeSummary = pgTable(
   ],
 );
 
+// Every generated summary. episodeSummary holds the current one.
+export const summaryVersion = pgTable(
+  "summary_version",
+  {
+    id: text("id").primaryKey(),
+    episodeId: text("episode_id").references(() => episode.id, {
+      onDelete: "cascade",
+    }),
+    articleId: text("article_id").references(() => article.id, {
+      onDelete: "cascade",
+    }),
+    templateId: text("template_id").references(() => summaryTemplate.id, {
+      onDelete: "set null",
+    }),
+    // Kept so versions stay labelled after the template is renamed or deleted
+    templateName: text("template_name"),
+    markdownContent: text("markdown_content").notNull(),
+    structuredContent: jsonb("structured_content").$type<StructuredSummary>(),
+    // How it was generated; null for summaries written before versioning
+    model: text("model"),
+    prompt: text("prompt"),
+    strategy: text("strategy").$type<SummaryStrategy>(),
+    inputTokens: integer("input_tokens").default(0).notNull(),
+    outputTokens: integer("output_tokens").default(0).notNull(),
+    totalTokens: integer("total_tokens").default(0).notNull(),
+    // Estimated USD from list prices; null when a model has no known price
+    costUsd: doublePrecision("cost_usd"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.episodeId),
+    index().on(table.articleId),
+    check(
+      "summary_version_source_check",
+      sql`(
+        (episode_id IS NOT NULL AND article_id IS NULL) OR
+        (episode_id IS NULL AND article_id IS NOT NULL)
+      )`,
+    ),
+  ],
+);
+
+export type SignalMethod = "length" | "heuristics" | "llm";
+
+export interface SignalDiagnostics {
+  wordCount: number;
+  borderline: boolean;
+  heuristic: {
+    score: number;
+    buckets: Record<string, number>;
+    reasons: string[];
+  } | null;
+  novelty: {
+    noveltyScore: number;
+    avgSimilarity: number;
+    adjustment: number;
+    clusterSize: number;
+  } | null;
+  judge: {
+    score: number;
+    frameworkClarity: number;
+    insightNovelty: number;
+    tacticalSpecificity: number;
+    reasoningDepth: number;
+    reasoning: string;
+  } | null;
+  /** Learned save/skip preferences, when the user has enough feedback */
+  preference?: {
+    score: number;
+    blend: number;
+  } | null;
+}
+
+// Top-scoring transcript chunks per user and episode/article, from the hybrid
+// scorer (heuristics -> novelty -> LLM judge). Regenerating replaces the set.
+export const signal = pgTable(
+  "signal",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    chunkId: text("chunk_id")
+      .references(() => transcriptChunk.id, { onDelete: "cascade" })
+      .notNull(),
+    episodeId: text("episode_id").references(() => episode.id, {
+      onDelete: "cascade",
+    }),
+    articleId: text("article_id").references(() => article.id, {
+      onDelete: "cascade",
+    }),
+    score: doublePrecision("score").notNull(), // 0.0 to 1.0
+    method: text("method").$type<SignalMethod>().notNull(),
+    rank: integer("rank").notNull(), // 1 = best within the episode/article
+    diagnostics: jsonb("diagnostics").$type<SignalDiagnostics>(),
+    // Hidden from the inbox until then
+    snoozedUntil: timestamp("snoozed_until", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.userId),
+    index().on(table.episodeId),
+    index().on(table.articleId),
+    unique().on(table.userId, table.chunkId),
+    check(
+      "signal_source_check",
+      sql`(
+        (episode_id IS NOT NULL AND article_id IS NULL) OR
+        (episode_id IS NULL AND article_id IS NOT NULL)
+      )`,
+    ),
+  ],
+);
+
+export type FeedbackAction = "saved" | "skipped";
+
+// Explicit save/skip labels on chunks. Content is snapshotted so labels
+// survive reprocessing (which replaces the chunks).
+export const chunkFeedback = pgTable(
+  "chunk_feedback",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    chunkId: text("chunk_id").references(() => transcriptChunk.id, {
+      onDelete: "set null",
+    }),
+    signalId: text("signal_id").references(() => signal.id, {
+      onDelete: "set null",
+    }),
+    episodeId: text("episode_id").references(() => episode.id, {
+      onDelete: "cascade",
+    }),
+    articleId: text("article_id").references(() => article.id, {
+      onDelete: "cascade",
+    }),
+    action: text("action").$type<FeedbackAction>().notNull(),
+    content: text("content").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.userId),
+    index().on(table.chunkId),
+    unique().on(table.userId, table.chunkId),
+  ],
+);
+
+// Learned quality weights per user, recomputed from chunk_feedback on a schedule
+export const userQualityPreferences = pgTable("user_quality_preferences", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().unique(),
+  weights: jsonb("weights").$type<Record<string, number>>().notNull(),
+  savedCount: integer("saved_count").notNull(),
+  skippedCount: integer("skipped_count").notNull(),
+  computedAt: timestamp("computed_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
 export const articleFeed = pgTable(
   "article_feed",
   {
@@ -234,6 +563,11 @@ export const articleFeed = pgTable(
     description: text("description"),
     imageUrl: text("image_url"),
     metadata: text("metadata"),
+    // Template for new article summaries; null uses the built-in summary
+    summaryTemplateId: text("summary_template_id").references(
+      () => summaryTemplate.id,
+      { onDelete: "set null" },
+    ),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -279,6 +613,66 @@ export const favorite = pgTable(
   ],
 );
 
+// A user-selected transcript range, replayable and exportable as a clip
+export const snip = pgTable(
+  "snip",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    episodeId: text("episode_id")
+      .notNull()
+      .references(() => episode.id, { onDelete: "cascade" }),
+    startTimeSec: doublePrecision("start_time_sec").notNull(),
+    endTimeSec: doublePrecision("end_time_sec").notNull(),
+    text: text("text").notNull(),
+    speaker: text("speaker"),
+    note: text("note"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.userId, table.createdAt),
+    index().on(table.episodeId),
+    check("snip_range_check", sql`end_time_sec > start_time_sec`),
+  ],
+);
+
+// Last listening position per user and episode. completedAt sticks once set
+// so replaying a finished episode doesn't drop it back to "in progress".
+export const playbackProgress = pgTable(
+  "playback_progress",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    episodeId: text("episode_id")
+      .notNull()
+      .references(() => episode.id, { onDelete: "cascade" }),
+    positionSec: doublePrecision("position_sec").default(0).notNull(),
+    // Reported by the player, which knows better than the feed
+    durationSec: doublePrecision("duration_sec"),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    lastPlayedAt: timestamp("last_played_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.userId, table.lastPlayedAt),
+    unique().on(table.userId, table.episodeId),
+  ],
+);
+
 // Export settings per user - tracks last export timestamp for incremental exports
 export const userExportSettings = pgTable(
   "user_export_settings",
@@ -298,8 +692,12 @@ export const userExportSettings = pgTable(
 );
 
 // Relations
-export const podcastRelations = relations(podcast, ({ many }) => ({
+export const podcastRelations = relations(podcast, ({ one, many }) => ({
   episodes: many(episode),
+  summaryTemplate: one(summaryTemplate, {
+    fields: [podcast.summaryTemplateId],
+    references: [summaryTemplate.id],
+  }),
 }));
 
 export const episodeRelations = relations(episode, ({ one, many }) => ({
@@ -310,11 +708,22 @@ export const episodeRelations = relations(episode, ({ one, many }) => ({
   transcriptChunks: many(transcriptChunk),
   speakerMapping: one(episodeSpeakerMapping),
   summary: one(episodeSummary),
+  signals: many(signal),
+  chapters: many(episodeChapter),
+  snips: many(snip),
+  playbackProgress: one(playbackProgress),
+}));
+
+export const episodeChapterRelations = relations(episodeChapter, ({ one }) => ({
+  episode: one(episode, {
+    fields: [episodeChapter.episodeId],
+    references: [episode.id],
+  }),
 }));
 
 export const transcriptChunkRelations = relations(
   transcriptChunk,
-  ({ one }) => ({
+  ({ one, many }) => ({
     episode: one(episode, {
       fields: [transcriptChunk.episodeId],
       references: [episode.id],
@@ -323,6 +732,7 @@ export const transcriptChunkRelations = relations(
       fields: [transcriptChunk.articleId],
       references: [article.id],
     }),
+    signals: many(signal),
   }),
 );
 
@@ -345,6 +755,25 @@ export const episodeSummaryRelations = relations(episodeSummary, ({ one }) => ({
     fields: [episodeSummary.articleId],
     references: [article.id],
   }),
+  version: one(summaryVersion, {
+    fields: [episodeSummary.versionId],
+    references: [summaryVersion.id],
+  }),
+}));
+
+export const summaryVersionRelations = relations(summaryVersion, ({ one }) => ({
+  episode: one(episode, {
+    fields: [summaryVersion.episodeId],
+    references: [episode.id],
+  }),
+  article: one(article, {
+    fields: [summaryVersion.articleId],
+    references: [article.id],
+  }),
+  template: one(summaryTemplate, {
+    fields: [summaryVersion.templateId],
+    references: [summaryTemplate.id],
+  }),
 }));
 
 export const articleRelations = relations(article, ({ one, many }) => ({
@@ -354,10 +783,15 @@ export const articleRelations = relations(article, ({ one, many }) => ({
     references: [articleFeed.id],
   }),
   summary: one(episodeSummary),
+  signals: many(signal),
 }));
 
-export const articleFeedRelations = relations(articleFeed, ({ many }) => ({
+export const articleFeedRelations = relations(articleFeed, ({ one, many }) => ({
   articles: many(article),
+  summaryTemplate: one(summaryTemplate, {
+    fields: [articleFeed.summaryTemplateId],
+    references: [summaryTemplate.id],
+  }),
 }));
 
 export const favoriteRelations = relations(favorite, ({ one }) => ({
@@ -370,3 +804,46 @@ export const favoriteRelations = relations(favorite, ({ one }) => ({
     references: [article.id],
   }),
 }));
+
+export const playbackProgressRelations = relations(
+  playbackProgress,
+  ({ one }) => ({
+    episode: one(episode, {
+      fields: [playbackProgress.episodeId],
+      references: [episode.id],
+    }),
+  }),
+);
+
+export const snipRelations = relations(snip, ({ one }) => ({
+  episode: one(episode, {
+    fields: [snip.episodeId],
+    references: [episode.id],
+  }),
+}));
+
+export const signalRelations = relations(signal, ({ one }) => ({
+  chunk: one(transcriptChunk, {
+    fields: [signal.chunkId],
+    references: [transcriptChunk.id],
+  }),
+  episode: one(episode, {
+    fields: [signal.episodeId],
+    references: [episode.id],
+  }),
+  article: one(article, {
+    fields: [signal.articleId],
+    references: [article.id],
+  }),
+}));
+
+export const chunkFeedbackRelations = relations(chunkFeedback, ({ one }) => ({
+  chunk: one(transcriptChunk, {
+    fields: [chunkFeedback.chunkId],
+    references: [transcriptChunk.id],
+  }),
+  signal: one(signal, {
+    fields: [chunkFeedback.signalId],
+    references: [signal.id],
+  }),
+}));
@@ -0,0 +1,43 @@
+import { relations } from "drizzle-orm";
+import { jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+import type { TranscriptProviderId } from "./podcast";
+
+export type ModelTask =
+  | "summary"
+  | "markdown-cleaning"
+  | "speaker-id"
+  | "chapters"
+  | "chat"
+  | "judge";
+
+// Per-user processing settings. Null columns fall back to app defaults.
+export const userSettings = pgTable("user_settings", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .unique()
+    .references(() => user.id, {
+      onDelete: "cascade",
+    }),
+  transcriptProviders: jsonb("transcript_providers").$type<
+    TranscriptProviderId[]
+  >(),
+  // Registry model id per task, tried before the task's own models
+  modelOverrides:
+    jsonb("model_overrides").$type<Partial<Record<ModelTask, string>>>(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+  user: one(user, {
+    fields: [userSettings.userId],
+    references: [user.id],
+  }),
+}));
@@ -0,0 +1,57 @@
+import { relations, sql } from "drizzle-orm";
+import {
+  check,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { article, episode } from "./podcast";
+
+// Public, read-only links to an episode or article summary. The token is the
+// capability, so it's stored as-is for the owner to copy again later.
+export const shareLink = pgTable(
+  "share_link",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    token: text("token").notNull().unique(),
+    episodeId: text("episode_id").references(() => episode.id, {
+      onDelete: "cascade",
+    }),
+    articleId: text("article_id").references(() => article.id, {
+      onDelete: "cascade",
+    }),
+    viewCount: integer("view_count").default(0).notNull(),
+    lastViewedAt: timestamp("last_viewed_at", { withTimezone: true }),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.userId),
+    index().on(table.episodeId),
+    index().on(table.articleId),
+    check(
+      "share_link_source_check",
+      sql`(
+        (episode_id IS NOT NULL AND article_id IS NULL) OR
+        (episode_id IS NULL AND article_id IS NOT NULL)
+      )`,
+    ),
+  ],
+);
+
+export const shareLinkRelations = relations(shareLink, ({ one }) => ({
+  episode: one(episode, {
+    fields: [shareLink.episodeId],
+    references: [episode.id],
+  }),
+  article: one(article, {
+    fields: [shareLink.articleId],
+    references: [article.id],
+  }),
+}));
@@ -0,0 +1,77 @@
+import { relations } from "drizzle-orm";
+import {
+  doublePrecision,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { user } from "./auth";
+import { article, episode } from "./podcast";
+import type { ModelTask } from "./settings";
+
+export const USAGE_PROVIDERS = [
+  "openrouter",
+  "openai",
+  "local",
+  "fake",
+  "deepgram",
+  "jina",
+] as const;
+export type UsageProvider = (typeof USAGE_PROVIDERS)[number];
+
+export type UsageTask =
+  | ModelTask
+  | "transcription"
+  | "extraction"
+  | "embedding";
+
+// One row per paid external call: an LLM request, an embedding batch, a
+// Deepgram transcription or a Jina Reader fetch. Costs are estimates from
+// list prices.
+export const usageEvent = pgTable(
+  "usage_event",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    provider: text("provider").$type<UsageProvider>().notNull(),
+    model: text("model"),
+    task: text("task").$type<UsageTask>().notNull(),
+    inputTokens: integer("input_tokens").default(0).notNull(),
+    outputTokens: integer("output_tokens").default(0).notNull(),
+    audioSeconds: doublePrecision("audio_seconds").default(0).notNull(),
+    // Null when there's no price for the model
+    costUsd: doublePrecision("cost_usd"),
+    episodeId: text("episode_id").references(() => episode.id, {
+      onDelete: "set null",
+    }),
+    articleId: text("article_id").references(() => article.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index().on(table.userId, table.createdAt),
+    index().on(table.createdAt),
+  ],
+);
+
+export const usageEventRelations = relations(usageEvent, ({ one }) => ({
+  user: one(user, {
+    fields: [usageEvent.userId],
+    references: [user.id],
+  }),
+  episode: one(episode, {
+    fields: [usageEvent.episodeId],
+    references: [episode.id],
+  }),
+  article: one(article, {
+    fields: [usageEvent.articleId],
+    references: [article.id],
+  }),
+}));
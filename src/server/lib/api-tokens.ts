@@ -0,0 +1,134 @@
+import { createHash, randomBytes } from "node:crypto";
+import { and, eq, gt, isNull, or } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { db } from "@/server/db";
+import { type ApiTokenScope, apiToken, user } from "@/server/db/schema";
+
+export const API_TOKEN_SCOPES = [
+  "read",
+  "write",
+  "export",
+] as const satisfies readonly ApiTokenScope[];
+
+export type { ApiTokenScope };
+
+const TOKEN_PREFIX = "cwp_";
+// Avoid a write on every request; minute precision is plenty for "last used"
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+type SessionResult = NonNullable<
+  Awaited<ReturnType<typeof auth.api.getSession>>
+>;
+
+export interface VerifiedApiToken {
+  id: string;
+  scopes: ApiTokenScope[];
+}
+
+/**
+ * Who is calling: a browser session, or a personal API token acting for a user
+ */
+export interface RequestAuth {
+  user: SessionResult["user"] | typeof user.$inferSelect;
+  session: SessionResult["session"] | null;
+  apiToken: VerifiedApiToken | null;
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { token, prefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+/**
+ * Read `Authorization: Bearer <token>` (or `x-api-key`) if it looks like one of ours
+ */
+export function getApiTokenFromHeaders(headers: Headers): string | null {
+  const authorization = headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  const token = bearer ?? headers.get("x-api-key")?.trim();
+
+  if (!token?.startsWith(TOKEN_PREFIX)) return null;
+  return token;
+}
+
+/**
+ * Resolve a plaintext token to its owner. Revoked, expired and banned-user
+ * tokens resolve to null.
+ */
+export async function verifyApiToken(token: string) {
+  const now = new Date();
+
+  const [row] = await db
+    .select({
+      id: apiToken.id,
+      scopes: apiToken.scopes,
+      lastUsedAt: apiToken.lastUsedAt,
+      user,
+    })
+    .from(apiToken)
+    .innerJoin(user, eq(apiToken.userId, user.id))
+    .where(
+      and(
+        eq(apiToken.tokenHash, hashApiToken(token)),
+        isNull(apiToken.revokedAt),
+        or(isNull(apiToken.expiresAt), gt(apiToken.expiresAt, now)),
+      ),
+    )
+    .limit(1);
+
+  if (!row || row.user.banned) {
+    return null;
+  }
+
+  if (
+    !row.lastUsedAt ||
+    now.getTime() - row.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS
+  ) {
+    await db
+      .update(apiToken)
+      .set({ lastUsedAt: now })
+      .where(eq(apiToken.id, row.id));
+  }
+
+  return {
+    user: row.user,
+    apiToken: { id: row.id, scopes: row.scopes },
+  };
+}
+
+/**
+ * Authenticate a request by personal API token when one is sent, otherwise by
+ * session cookie. Shared by the tRPC context and plain REST route handlers.
+ */
+export async function resolveRequestAuth(
+  headers: Headers,
+): Promise<RequestAuth | null> {
+  const token = getApiTokenFromHeaders(headers);
+
+  if (!token) {
+    const session = await auth.api.getSession({ headers });
+    if (!session) return null;
+    return { user: session.user, session: session.session, apiToken: null };
+  }
+
+  const verified = await verifyApiToken(token);
+  if (!verified) return null;
+
+  return { user: verified.user, session: null, apiToken: verified.apiToken };
+}
+
+/**
+ * Sessions can do anything the user can; tokens only what they were scoped for
+ */
+export function hasApiScope(
+  requestAuth: Pick<RequestAuth, "apiToken">,
+  scope: ApiTokenScope,
+): boolean {
+  return (
+    requestAuth.apiToken === null || requestAuth.apiToken.scopes.includes(scope)
+  );
+}
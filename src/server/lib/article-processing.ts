@@ -1,9 +1,11 @@
 import { randomUUID } from "node:crypto";
-import { generateText } from "ai";
+import { generateText, type LanguageModel } from "ai";
 import { eq } from "drizzle-orm";
-import { openrouter } from "@/ai/models";
 import type { db as dbInstance } from "@/server/db";
 import { article as articleSchema, transcriptChunk } from "@/server/db/schema";
+import { estimateTokens } from "./episode-summary";
+import { getTaskModel, taskModel } from "./model-registry";
+import { recordUsage, type UsageContext } from "./usage-ledger";
 
 export type DatabaseClient = typeof dbInstance;
 
@@ -24,10 +26,12 @@ export interface ArticleProcessingResult {
 
 /**
  * Extract article content using Jina AI Reader
- * Uses markdown format for cleaner content extraction
+ * Uses markdown format for cleaner content extraction. With a usage context
+ * the fetch and the cleanup are billed to that user.
  */
 export async function extractArticleContent(
   url: string,
+  usage?: UsageContext,
 ): Promise<ArticleExtractionResult> {
   const jinaUrl = `https://r.jina.ai/${url}`;
 
@@ -46,6 +50,15 @@ export async function extractArticleContent(
 
   const rawMarkdown = await response.text();
 
+  if (usage) {
+    await recordUsage(usage, {
+      provider: "jina",
+      model: "reader",
+      task: "extraction",
+      outputTokens: estimateTokens(rawMarkdown),
+    });
+  }
+
   const lines = rawMarkdown.split("\n");
   let title = "Untitled Article";
   let author: string | undefined;
@@ -73,7 +86,10 @@ export async function extractArticleContent(
     }
   }
 
-  const cleanedMarkdown = await cleanMarkdownWithAI(rawMarkdown);
+  const cleanedMarkdown = await cleanMarkdownWithAI(
+    rawMarkdown,
+    usage ? await getTaskModel("markdown-cleaning", usage) : undefined,
+  );
   const content = cleanMarkdownContent(cleanedMarkdown);
 
   if (!content || content.length < 100) {
@@ -97,12 +113,16 @@ export async function extractArticleContent(
 }
 
 /**
- * Clean markdown content using Grok-4 AI model
+ * Strip navigation and other page chrome from extracted markdown with the
+ * markdown-cleaning task's model
  */
-export async function cleanMarkdownWithAI(markdown: string): Promise<string> {
+export async function cleanMarkdownWithAI(
+  markdown: string,
+  model: LanguageModel = taskModel("markdown-cleaning"),
+): Promise<string> {
   try {
     const response = await generateText({
-      model: openrouter("x-ai/grok-4-fast"),
+      model,
       messages: [
         {
           role: "system",
@@ -389,7 +409,11 @@ export async function processArticle({
     throw new Error("Article already processed");
   }
 
-  const extracted = await extractArticleContent(url);
+  const extracted = await extractArticleContent(url, {
+    db,
+    userId,
+    articleId: existingArticleId ?? existing?.id,
+  });
 
   if (!extracted.content || extracted.content.trim().length < 100) {
     throw new Error("Article content too short or empty");
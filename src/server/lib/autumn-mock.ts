@@ -0,0 +1,218 @@
+import { randomUUID } from "node:crypto";
+import {
+  AppEnv,
+  AutumnError,
+  type Customer,
+  type CustomerFeature,
+  ProductStatus,
+} from "autumn-js";
+import {
+  BILLING_FEATURES,
+  type BillingFeature,
+  billingFeatures,
+  DEFAULT_PLAN_ID,
+  PLANS,
+  type PlanId,
+} from "@/lib/plans";
+import type { BillingClient } from "./billing";
+
+interface MockCustomer {
+  planId: PlanId;
+  usage: Record<BillingFeature, number>;
+  // Start of the month the monthly features were last reset
+  periodStart: number;
+  createdAt: number;
+}
+
+function monthStart(time: number, offset = 0) {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1);
+}
+
+function isBillingFeature(id: string | undefined): id is BillingFeature {
+  return BILLING_FEATURES.includes(id as BillingFeature);
+}
+
+function ok<T>(data: T) {
+  return { data, error: null };
+}
+
+function fail(code: string, message: string) {
+  return { data: null, error: new AutumnError({ code, message }) };
+}
+
+// Kept on globalThis so dev reloads and the Inngest handler share one ledger
+const globalForMock = globalThis as unknown as {
+  mockAutumnCustomers?: Map<string, MockCustomer>;
+};
+
+/**
+ * An in-memory stand-in for the Autumn client, used in development when
+ * `AUTUMN_SECRET_KEY` isn't set. Plans and limits come from `@/lib/plans`,
+ * monthly features reset on the 1st (UTC), attaching a plan switches to it
+ * without checkout, and everything is lost on restart. New customers start
+ * on `AUTUMN_MOCK_PLAN`, or the free plan.
+ */
+export function createMockAutumn(): BillingClient {
+  globalForMock.mockAutumnCustomers ??= new Map();
+  const customers = globalForMock.mockAutumnCustomers;
+
+  const getCustomer = (id: string) => {
+    const now = Date.now();
+    let customer = customers.get(id);
+
+    if (!customer) {
+      const planId = (process.env.AUTUMN_MOCK_PLAN ??
+        DEFAULT_PLAN_ID) as PlanId;
+      customer = {
+        planId: PLANS.some((plan) => plan.id === planId)
+          ? planId
+          : DEFAULT_PLAN_ID,
+        usage: { transcription_minutes: 0, summaries: 0, feeds: 0 },
+        periodStart: monthStart(now),
+        createdAt: now,
+      };
+      customers.set(id, customer);
+    }
+
+    if (customer.periodStart < monthStart(now)) {
+      for (const feature of BILLING_FEATURES) {
+        if (billingFeatures[feature].resets) customer.usage[feature] = 0;
+      }
+      customer.periodStart = monthStart(now);
+    }
+
+    return customer;
+  };
+
+  const planOf = (customer: MockCustomer) =>
+    PLANS.find((plan) => plan.id === customer.planId) ?? PLANS[0];
+
+  const featureOf = (
+    customer: MockCustomer,
+    feature: BillingFeature,
+  ): CustomerFeature => {
+    const limit = planOf(customer).limits[feature];
+    const usage = customer.usage[feature];
+    return {
+      id: feature,
+      name: billingFeatures[feature].label,
+      type: billingFeatures[feature].resets ? "single_use" : "continuous_use",
+      unlimited: limit === null,
+      balance: limit === null ? null : limit - usage,
+      usage,
+      included_usage: limit ?? 0,
+      next_reset_at: billingFeatures[feature].resets
+        ? monthStart(customer.periodStart, 1)
+        : null,
+    };
+  };
+
+  const toCustomer = (id: string, customer: MockCustomer): Customer => {
+    const plan = planOf(customer);
+    return {
+      id,
+      created_at: customer.createdAt,
+      name: null,
+      email: null,
+      fingerprint: null,
+      stripe_id: null,
+      env: AppEnv.Sandbox,
+      metadata: {},
+      products: [
+        {
+          id: plan.id,
+          name: plan.name,
+          group: null,
+          status: ProductStatus.Active,
+          started_at: customer.createdAt,
+          canceled_at: null,
+          version: 1,
+          current_period_start: customer.periodStart,
+          current_period_end: monthStart(customer.periodStart, 1),
+          is_add_on: false,
+          is_default: plan.id === DEFAULT_PLAN_ID,
+          items: [],
+        },
+      ],
+      features: Object.fromEntries(
+        BILLING_FEATURES.map((feature) => [
+          feature,
+          featureOf(customer, feature),
+        ]),
+      ),
+    };
+  };
+
+  return {
+    async check({ customer_id, feature_id, required_balance = 1 }) {
+      if (!isBillingFeature(feature_id)) {
+        return fail("feature_not_found", `Unknown feature "${feature_id}"`);
+      }
+      const customer = getCustomer(customer_id);
+      const feature = featureOf(customer, feature_id);
+      return ok({
+        allowed:
+          feature.unlimited === true ||
+          (feature.balance ?? 0) >= required_balance,
+        customer_id,
+        feature_id,
+        product_id: customer.planId,
+        required_balance,
+        unlimited: feature.unlimited,
+        balance: feature.balance,
+        usage: feature.usage,
+        included_usage: feature.included_usage,
+        next_reset_at: feature.next_reset_at,
+      });
+    },
+
+    async track({ customer_id, feature_id, value = 1 }) {
+      if (!isBillingFeature(feature_id)) {
+        return fail("feature_not_found", `Unknown feature "${feature_id}"`);
+      }
+      getCustomer(customer_id).usage[feature_id] += value;
+      return ok({
+        id: randomUUID(),
+        code: "event_received",
+        customer_id,
+        feature_id,
+      });
+    },
+
+    async usage({ customer_id, feature_id, value }) {
+      if (!isBillingFeature(feature_id)) {
+        return fail("feature_not_found", `Unknown feature "${feature_id}"`);
+      }
+      getCustomer(customer_id).usage[feature_id] = value;
+      return ok({ code: "usage_set", customer_id, feature_id });
+    },
+
+    async attach({ customer_id, product_id }) {
+      const plan = PLANS.find((candidate) => candidate.id === product_id);
+      if (!plan) {
+        return fail("product_not_found", `Unknown product "${product_id}"`);
+      }
+      getCustomer(customer_id).planId = plan.id;
+      return ok({
+        customer_id,
+        product_ids: [plan.id],
+        code: "product_attached",
+        message: `Switched to ${plan.name}`,
+      });
+    },
+
+    customers: {
+      async get(id) {
+        return ok(toCustomer(id, getCustomer(id)));
+      },
+
+      async billingPortal(id, params) {
+        return ok({
+          customer_id: id,
+          url: params?.return_url ?? "/settings/billing",
+        });
+      },
+    },
+  };
+}
@@ -0,0 +1,275 @@
+import { Autumn } from "autumn-js";
+import { count, eq } from "drizzle-orm";
+import {
+  BILLING_FEATURES,
+  type BillingFeature,
+  billingFeatures,
+  DEFAULT_PLAN_ID,
+  PLANS,
+  type PlanId,
+} from "@/lib/plans";
+import { articleFeed, podcast } from "@/server/db/schema";
+import { createMockAutumn } from "./autumn-mock";
+import type { DatabaseClient } from "./transcript-processing";
+
+/**
+ * The parts of the Autumn client the app uses, so the mock can stand in
+ */
+export type BillingClient = Pick<
+  Autumn,
+  "check" | "track" | "usage" | "attach"
+> & {
+  customers: Pick<Autumn["customers"], "get" | "billingPortal">;
+};
+
+let client: BillingClient | null | undefined;
+
+function isMockAutumn() {
+  return (
+    process.env.AUTUMN_MOCK === "true" ||
+    (!process.env.AUTUMN_SECRET_KEY && process.env.NODE_ENV !== "production")
+  );
+}
+
+/**
+ * Autumn when `AUTUMN_SECRET_KEY` is set, the in-memory mock in development
+ * or with `AUTUMN_MOCK=true`, and null otherwise, which leaves plans
+ * unenforced
+ */
+export function getBillingClient(): BillingClient | null {
+  if (client === undefined) {
+    client = isMockAutumn()
+      ? createMockAutumn()
+      : process.env.AUTUMN_SECRET_KEY
+        ? new Autumn({ secretKey: process.env.AUTUMN_SECRET_KEY })
+        : null;
+  }
+  return client;
+}
+
+export interface EntitlementResult {
+  allowed: boolean;
+  message: string;
+}
+
+function limitMessage(
+  feature: BillingFeature,
+  usage: number,
+  limit: number,
+  required: number,
+) {
+  const { unit, resets } = billingFeatures[feature];
+  const used = resets
+    ? `You've used ${usage} of your ${limit} ${unit} this month`
+    : `Your plan includes ${limit} ${unit} and you have ${usage}`;
+  const needed = required > 1 ? ` This needs ${required}.` : "";
+  return `${used}.${needed} Upgrade in Settings → Billing for more.`;
+}
+
+/**
+ * Check the user's plan covers `amounts` of each feature before doing the
+ * work. Billing outages allow the work: it's metered afterwards either way.
+ */
+export async function checkEntitlements(
+  userId: string,
+  amounts: Partial<Record<BillingFeature, number>>,
+): Promise<EntitlementResult> {
+  const autumn = getBillingClient();
+  if (!autumn) return { allowed: true, message: "" };
+
+  for (const [feature, amount] of Object.entries(amounts) as [
+    BillingFeature,
+    number,
+  ][]) {
+    if (amount <= 0) continue;
+
+    const { data, error } = await autumn.check({
+      customer_id: userId,
+      feature_id: feature,
+      required_balance: amount,
+    });
+
+    if (error) {
+      console.error(`[Billing] Failed to check ${feature}:`, error.message);
+      continue;
+    }
+
+    if (!data.allowed) {
+      return {
+        allowed: false,
+        message: limitMessage(
+          feature,
+          data.usage ?? 0,
+          data.included_usage ?? 0,
+          amount,
+        ),
+      };
+    }
+  }
+
+  return { allowed: true, message: "" };
+}
+
+/**
+ * Report metered usage to Autumn. Never throws: the work already happened.
+ * In Inngest functions, call it from its own step after the one doing the
+ * work, so a retried step doesn't count the work twice.
+ */
+export async function trackFeatureUsage(
+  userId: string,
+  feature: BillingFeature,
+  value = 1,
+) {
+  const autumn = getBillingClient();
+  if (!autumn || value <= 0) return;
+
+  try {
+    const { error } = await autumn.track({
+      customer_id: userId,
+      feature_id: feature,
+      value,
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error(`[Billing] Failed to track ${feature}:`, error);
+  }
+}
+
+/**
+ * Set the feeds feature to the number of podcasts and article feeds the user
+ * has. Counting instead of adding one keeps it right after failed calls.
+ */
+export async function syncFeedUsage(db: DatabaseClient, userId: string) {
+  const autumn = getBillingClient();
+  if (!autumn) return;
+
+  try {
+    const [[podcasts], [feeds]] = await Promise.all([
+      db
+        .select({ total: count() })
+        .from(podcast)
+        .where(eq(podcast.userId, userId)),
+      db
+        .select({ total: count() })
+        .from(articleFeed)
+        .where(eq(articleFeed.userId, userId)),
+    ]);
+
+    const { error } = await autumn.usage({
+      customer_id: userId,
+      feature_id: "feeds",
+      value: podcasts.total + feeds.total,
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error("[Billing] Failed to sync feed usage:", error);
+  }
+}
+
+/**
+ * The user's plan, usage against each limit, and the plans they can move to
+ */
+export async function getBillingOverview(userId: string) {
+  const autumn = getBillingClient();
+  if (!autumn) {
+    return {
+      enabled: false,
+      mock: false,
+      plan: null,
+      features: [],
+      plans: PLANS,
+    };
+  }
+
+  const { data: customer, error } = await autumn.customers.get(userId);
+  if (error) {
+    throw new Error(`Failed to load billing: ${error.message}`);
+  }
+
+  const product =
+    customer.products.find(
+      (candidate) =>
+        candidate.status === "active" || candidate.status === "trialing",
+    ) ?? null;
+  const plan =
+    PLANS.find((candidate) => candidate.id === product?.id) ??
+    PLANS.find((candidate) => candidate.id === DEFAULT_PLAN_ID) ??
+    PLANS[0];
+
+  return {
+    enabled: true,
+    mock: isMockAutumn(),
+    plan: {
+      id: plan.id,
+      name: product?.name ?? plan.name,
+      status: product?.status ?? null,
+      renewsAt: product?.current_period_end ?? null,
+      canceledAt: product?.canceled_at ?? null,
+    },
+    features: BILLING_FEATURES.map((id) => {
+      const feature = customer.features[id];
+      return {
+        id,
+        ...billingFeatures[id],
+        usage: feature?.usage ?? 0,
+        // null = unlimited
+        limit: feature?.unlimited ? null : (feature?.included_usage ?? 0),
+        resetsAt: feature?.next_reset_at ?? null,
+      };
+    }),
+    plans: PLANS,
+  };
+}
+
+/**
+ * Move the user to a plan. Returns Autumn's checkout URL when payment
+ * details are needed; otherwise the change is already made.
+ */
+export async function changePlan(
+  userId: string,
+  planId: PlanId,
+  returnUrl: string,
+) {
+  const autumn = getBillingClient();
+  if (!autumn) {
+    throw new Error("Billing is not configured");
+  }
+
+  const { data, error } = await autumn.attach({
+    customer_id: userId,
+    product_id: planId,
+    success_url: returnUrl,
+  });
+  if (error) {
+    throw new Error(`Failed to change plan: ${error.message}`);
+  }
+
+  return { checkoutUrl: data.checkout_url ?? null };
+}
+
+/**
+ * Stripe's customer portal, for payment methods, invoices and cancelling
+ */
+export async function getBillingPortalUrl(userId: string, returnUrl: string) {
+  const autumn = getBillingClient();
+  if (!autumn) {
+    throw new Error("Billing is not configured");
+  }
+
+  const { data, error } = await autumn.customers.billingPortal(userId, {
+    return_url: returnUrl,
+  });
+  if (error) {
+    throw new Error(`Failed to open billing portal: ${error.message}`);
+  }
+
+  return data.url;
+}
+
+/**
+ * Minutes charged for transcribing audio of this length, rounded up. Unknown
+ * lengths count as one minute.
+ */
+export function billableMinutes(durationSec: number | null | undefined) {
+  return Math.max(1, Math.ceil((durationSec ?? 0) / 60));
+}
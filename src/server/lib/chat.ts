@@ -0,0 +1,204 @@
+import { tool } from "ai";
+import { and, desc, eq, inArray, isNotNull, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { article, episode, podcast, transcriptChunk } from "@/server/db/schema";
+import type { DatabaseClient } from "@/server/lib/transcript-processing";
+
+export interface ChunkSearchResult {
+  chunkId: string;
+  episodeId: string | null;
+  articleId: string | null;
+  sourceType: "episode" | "article";
+  title: string;
+  podcastTitle: string | null;
+  speaker: string | null;
+  text: string;
+  startMs: number | null;
+  endMs: number | null;
+  timestamp: string | null;
+  score: number;
+}
+
+export interface EpisodeDetails {
+  episodeId: string;
+  title: string;
+  podcastTitle: string | null;
+  publishedAt: Date | null;
+  durationSec: number | null;
+}
+
+interface SearchChunksParams {
+  db: DatabaseClient;
+  userId: string;
+  query: string;
+  episodeId?: string;
+  limit?: number;
+}
+
+/**
+ * Convert seconds into the [mm:ss] / [h:mm:ss] format used in chat citations
+ */
+export function formatCitationTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `[${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}]`;
+  }
+  return `[${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}]`;
+}
+
+/**
+ * Build an OR tsquery from free text so partial matches still rank
+ */
+export function buildTsQuery(query: string): string | null {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const unique = [...new Set(terms)].filter((term) => term.length > 1);
+  if (unique.length === 0) return null;
+  return unique.join(" | ");
+}
+
+/**
+ * Full-text search over the user's transcript chunks (episodes and articles)
+ */
+export async function searchTranscriptChunks({
+  db,
+  userId,
+  query,
+  episodeId,
+  limit = 8,
+}: SearchChunksParams): Promise<ChunkSearchResult[]> {
+  const tsQuery = buildTsQuery(query);
+  if (!tsQuery) return [];
+
+  const tsQuerySql = sql`to_tsquery('english', ${tsQuery})`;
+  const rank = sql<number>`ts_rank_cd(to_tsvector('english', ${transcriptChunk.content}), ${tsQuerySql})`;
+
+  const ownership = or(
+    and(isNotNull(transcriptChunk.episodeId), eq(episode.userId, userId)),
+    and(isNotNull(transcriptChunk.articleId), eq(article.userId, userId)),
+  );
+
+  const rows = await db
+    .select({
+      chunkId: transcriptChunk.id,
+      episodeId: transcriptChunk.episodeId,
+      articleId: transcriptChunk.articleId,
+      speaker: transcriptChunk.speaker,
+      content: transcriptChunk.content,
+      startTimeSec: transcriptChunk.startTimeSec,
+      endTimeSec: transcriptChunk.endTimeSec,
+      episodeTitle: episode.title,
+      articleTitle: article.title,
+      podcastTitle: podcast.title,
+      score: rank,
+    })
+    .from(transcriptChunk)
+    .leftJoin(episode, eq(transcriptChunk.episodeId, episode.id))
+    .leftJoin(podcast, eq(episode.podcastId, podcast.id))
+    .leftJoin(article, eq(transcriptChunk.articleId, article.id))
+    .where(
+      and(
+        ownership,
+        episodeId ? eq(transcriptChunk.episodeId, episodeId) : undefined,
+        sql`to_tsvector('english', ${transcriptChunk.content}) @@ ${tsQuerySql}`,
+      ),
+    )
+    .orderBy(desc(rank))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    chunkId: row.chunkId,
+    episodeId: row.episodeId,
+    articleId: row.articleId,
+    sourceType: row.episodeId ? "episode" : "article",
+    title: row.episodeTitle ?? row.articleTitle ?? "Untitled",
+    podcastTitle: row.podcastTitle,
+    speaker: row.speaker,
+    text: row.content,
+    startMs: row.startTimeSec !== null ? row.startTimeSec * 1000 : null,
+    endMs: row.endTimeSec !== null ? row.endTimeSec * 1000 : null,
+    timestamp:
+      row.startTimeSec !== null
+        ? formatCitationTimestamp(row.startTimeSec)
+        : null,
+    score: Number(row.score),
+  }));
+}
+
+/**
+ * Look up human-readable details for episodes the user owns
+ */
+export async function getEpisodeDetails({
+  db,
+  userId,
+  episodeIds,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  episodeIds: string[];
+}): Promise<EpisodeDetails[]> {
+  if (episodeIds.length === 0) return [];
+
+  const rows = await db
+    .select({
+      episodeId: episode.id,
+      title: episode.title,
+      podcastTitle: podcast.title,
+      publishedAt: episode.publishedAt,
+      durationSec: episode.durationSec,
+    })
+    .from(episode)
+    .leftJoin(podcast, eq(episode.podcastId, podcast.id))
+    .where(and(eq(episode.userId, userId), inArray(episode.id, episodeIds)));
+
+  return rows;
+}
+
+/**
+ * Tools exposed to the chat model. Names match createPodcastSystemPrompt.
+ */
+export function createChatTools({
+  db,
+  userId,
+  episodeId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  episodeId?: string;
+}) {
+  return {
+    search_similarity: tool({
+      description:
+        "Search the user's podcast transcripts and articles for segments relevant to a query. Returns text, startMs/endMs, timestamp and source titles.",
+      inputSchema: z.object({
+        query: z.string().min(1).describe("Keywords or question to search"),
+        limit: z.number().int().min(1).max(20).optional(),
+      }),
+      execute: async ({ query, limit }) => {
+        const results = await searchTranscriptChunks({
+          db,
+          userId,
+          query,
+          episodeId,
+          limit,
+        });
+        return { results };
+      },
+    }),
+    episode_details: tool({
+      description:
+        "Fetch titles, podcast names, publish dates and durations for episode ids returned by search_similarity.",
+      inputSchema: z.object({
+        episodeIds: z.array(z.string()).min(1).max(20),
+      }),
+      execute: async ({ episodeIds }) => {
+        const episodes = await getEpisodeDetails({ db, userId, episodeIds });
+        return { episodes };
+      },
+    }),
+  };
+}
+
+export type ChatTools = ReturnType<typeof createChatTools>;
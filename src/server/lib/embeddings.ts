@@ -0,0 +1,304 @@
+import { createHash } from "node:crypto";
+import { embedMany } from "ai";
+import { and, asc, eq, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
+import { openai } from "@/ai/models";
+import {
+  article,
+  EMBEDDING_DIMENSIONS,
+  episode,
+  transcriptChunk,
+} from "@/server/db/schema";
+import type { DatabaseClient } from "@/server/lib/transcript-processing";
+import {
+  isUsageProvider,
+  recordUsage,
+  type UsageContext,
+} from "@/server/lib/usage-ledger";
+
+/**
+ * Anything that can turn text into fixed-size vectors.
+ * Vectors must have EMBEDDING_DIMENSIONS entries to fit transcript_chunk.embedding.
+ */
+export interface EmbeddingProvider {
+  /** Stored in transcript_chunk.embedding_model, e.g. "openai/text-embedding-3-small" */
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  // Billed input tokens, when the provider charges for them
+  tokens?: number;
+}
+
+const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+export function createOpenAIEmbeddingProvider(): EmbeddingProvider {
+  const model = openai.textEmbeddingModel(OPENAI_EMBEDDING_MODEL);
+
+  return {
+    id: `openai/${OPENAI_EMBEDDING_MODEL}`,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY environment variable is not set");
+      }
+      const { embeddings, usage } = await embedMany({
+        model,
+        values: texts,
+        maxRetries: 2,
+      });
+      return { embeddings, tokens: usage.tokens };
+    },
+  };
+}
+
+/**
+ * Deterministic, network-free embeddings using the hashing trick.
+ * Texts sharing words land near each other, which is enough for local dev
+ * and tests. Never mix these vectors with real model output.
+ */
+export function createLocalEmbeddingProvider(
+  dimensions = EMBEDDING_DIMENSIONS,
+): EmbeddingProvider {
+  return {
+    id: "local/hashing-v1",
+    dimensions,
+    async embed(texts) {
+      return {
+        embeddings: texts.map((text) => hashEmbedding(text, dimensions)),
+      };
+    },
+  };
+}
+
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+  for (const token of tokens) {
+    const digest = createHash("sha256").update(token).digest();
+    const bucket = digest.readUInt32BE(0) % dimensions;
+    const sign = digest[4] & 1 ? 1 : -1;
+    vector[bucket] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Resolve the configured provider. EMBEDDING_PROVIDER=local forces the stub.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+
+  if (configured === "local") {
+    return createLocalEmbeddingProvider();
+  }
+
+  return createOpenAIEmbeddingProvider();
+}
+
+/**
+ * Embed texts and add the call to the usage ledger when the provider bills
+ * for it
+ */
+async function embedAndRecord(
+  provider: EmbeddingProvider,
+  texts: string[],
+  usage: UsageContext | null,
+): Promise<number[][]> {
+  const { embeddings, tokens } = await provider.embed(texts);
+
+  // Provider ids are "<provider>/<model>"
+  const separator = provider.id.indexOf("/");
+  const usageProvider = provider.id.slice(0, separator);
+  if (usage && tokens !== undefined && isUsageProvider(usageProvider)) {
+    await recordUsage(usage, {
+      provider: usageProvider,
+      model: provider.id.slice(separator + 1),
+      task: "embedding",
+      inputTokens: tokens,
+    });
+  }
+
+  return embeddings;
+}
+
+export async function embedQuery(
+  text: string,
+  usage?: UsageContext,
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+): Promise<number[]> {
+  const [embedding] = await embedAndRecord(provider, [text], usage ?? null);
+  return embedding;
+}
+
+interface EmbedChunksParams {
+  db: DatabaseClient;
+  episodeId?: string;
+  articleId?: string;
+  userId?: string;
+  provider?: EmbeddingProvider;
+  batchSize?: number;
+  limit?: number;
+}
+
+export interface EmbedChunksResult {
+  embedded: number;
+  remaining: boolean;
+  model: string;
+}
+
+/**
+ * Chunks without a vector from `model`: never embedded, or embedded with
+ * another model (e.g. before switching providers), whose vectors can't be
+ * compared with this model's
+ */
+function needsEmbedding(model: string) {
+  return or(
+    isNull(transcriptChunk.embedding),
+    sql`${transcriptChunk.embeddingModel} is distinct from ${model}`,
+  );
+}
+
+/**
+ * Embed transcript chunks that don't have a vector from the provider yet.
+ * Scope with episodeId/articleId for pipelines, or userId (or nothing) for backfills.
+ * Each batch is embedded per owner so the calls are billed to them.
+ */
+export async function embedTranscriptChunks({
+  db,
+  episodeId,
+  articleId,
+  userId,
+  provider = getEmbeddingProvider(),
+  batchSize = 64,
+  limit,
+}: EmbedChunksParams): Promise<EmbedChunksResult> {
+  const conditions = [needsEmbedding(provider.id)];
+
+  if (episodeId) {
+    conditions.push(eq(transcriptChunk.episodeId, episodeId));
+  }
+  if (articleId) {
+    conditions.push(eq(transcriptChunk.articleId, articleId));
+  }
+  if (userId) {
+    const ownedByUser = or(
+      inArray(
+        transcriptChunk.episodeId,
+        db
+          .select({ id: episode.id })
+          .from(episode)
+          .where(eq(episode.userId, userId)),
+      ),
+      inArray(
+        transcriptChunk.articleId,
+        db
+          .select({ id: article.id })
+          .from(article)
+          .where(eq(article.userId, userId)),
+      ),
+    );
+    if (ownedByUser) conditions.push(ownedByUser);
+  }
+
+  let embedded = 0;
+
+  while (limit === undefined || embedded < limit) {
+    const take =
+      limit === undefined ? batchSize : Math.min(batchSize, limit - embedded);
+
+    const pending = await db
+      .select({
+        id: transcriptChunk.id,
+        content: transcriptChunk.content,
+        ownerId: sql<
+          string | null
+        >`coalesce(${episode.userId}, ${article.userId})`,
+      })
+      .from(transcriptChunk)
+      .leftJoin(episode, eq(transcriptChunk.episodeId, episode.id))
+      .leftJoin(article, eq(transcriptChunk.articleId, article.id))
+      .where(and(...conditions))
+      .orderBy(asc(transcriptChunk.createdAt))
+      .limit(take);
+
+    if (pending.length === 0) {
+      return { embedded, remaining: false, model: provider.id };
+    }
+
+    const byOwner = new Map<string | null, typeof pending>();
+    for (const chunk of pending) {
+      byOwner.set(chunk.ownerId, [
+        ...(byOwner.get(chunk.ownerId) ?? []),
+        chunk,
+      ]);
+    }
+    for (const [ownerId, chunks] of byOwner) {
+      const vectors = await embedAndRecord(
+        provider,
+        chunks.map((chunk) => chunk.content),
+        ownerId ? { db, userId: ownerId, episodeId, articleId } : null,
+      );
+
+      for (const [index, chunk] of chunks.entries()) {
+        const vector = vectors[index];
+        if (vector.length !== EMBEDDING_DIMENSIONS) {
+          throw new Error(
+            `Embedding provider ${provider.id} returned ${vector.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`,
+          );
+        }
+        await db
+          .update(transcriptChunk)
+          .set({ embedding: vector, embeddingModel: provider.id })
+          .where(eq(transcriptChunk.id, chunk.id));
+      }
+    }
+
+    embedded += pending.length;
+
+    if (pending.length < take) {
+      return { embedded, remaining: false, model: provider.id };
+    }
+  }
+
+  const [next] = await db
+    .select({ exists: sql<number>`1` })
+    .from(transcriptChunk)
+    .where(and(...conditions))
+    .limit(1);
+
+  return { embedded, remaining: Boolean(next), model: provider.id };
+}
+
+/**
+ * The user's episodes with chunks embedded by a model other than `model`.
+ * Semantic search skips those chunks until they're re-embedded.
+ */
+export async function findStaleEmbeddingEpisodes({
+  db,
+  userId,
+  model = getEmbeddingProvider().id,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  model?: string;
+}): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ episodeId: episode.id })
+    .from(transcriptChunk)
+    .innerJoin(episode, eq(transcriptChunk.episodeId, episode.id))
+    .where(
+      and(
+        eq(episode.userId, userId),
+        isNotNull(transcriptChunk.embedding),
+        sql`${transcriptChunk.embeddingModel} is distinct from ${model}`,
+      ),
+    );
+
+  return rows.map((row) => row.episodeId);
+}
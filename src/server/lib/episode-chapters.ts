@@ -0,0 +1,321 @@
+import { randomUUID } from "node:crypto";
+import { generateObject, type LanguageModel } from "ai";
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import {
+  type ChapterSource,
+  episodeChapter,
+  episode as episodeSchema,
+  transcriptChunk,
+} from "@/server/db/schema/podcast";
+import { getTaskModel, taskModel } from "./model-registry";
+import type { DatabaseClient } from "./transcript-processing";
+import { fetchVideoMetadata } from "./youtube-playlist";
+
+// Fewer timestamps than this in show notes is a reference, not a chapter list
+const MIN_TIMESTAMP_CHAPTERS = 3;
+
+// Words of each chunk shown to the LLM; enough to spot a topic change
+const LLM_CHUNK_PREVIEW_WORDS = 80;
+
+const MAX_TITLE_LENGTH = 120;
+
+const RSS_CHAPTERS_TIMEOUT_MS = 10_000;
+
+export interface ChapterDraft {
+  title: string;
+  startTimeSec: number;
+}
+
+export interface EpisodeChapter extends ChapterDraft {
+  endTimeSec: number | null;
+}
+
+type EpisodeRecord = typeof episodeSchema.$inferSelect;
+
+/**
+ * Parse "1:02:03" or "02:03" into seconds
+ */
+function parseTimestamp(value: string): number {
+  return value.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Show notes are usually HTML; keep one line per paragraph, list item or
+ * line break so each timestamp stays next to its title
+ */
+function htmlToLines(html: string): string[] {
+  return html
+    .replace(/<br\s*\/?>|<\/(p|li|div|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+const TIMESTAMP = String.raw`\d{1,2}(?::\d{2}){1,2}`;
+const LEADING_TIMESTAMP = new RegExp(
+  String.raw`^[-•*\s]*[[(]?(${TIMESTAMP})[\])]?\s*[-–—:|.]?\s*(.+)$`,
+);
+const TRAILING_TIMESTAMP = new RegExp(
+  String.raw`^[-•*\s]*(.+?)\s*[-–—:|]?\s*[[(]?(${TIMESTAMP})[\])]?$`,
+);
+
+/**
+ * Chapter lists in show notes and YouTube descriptions: lines like
+ * "00:00 Intro", "(12:34) Pricing" or "Hiring - 1:02:03". Only accepted when
+ * there are several and they run in order.
+ */
+export function parseTimestampChapters(text: string): ChapterDraft[] | null {
+  const chapters: ChapterDraft[] = [];
+
+  for (const line of htmlToLines(text)) {
+    const leading = line.match(LEADING_TIMESTAMP);
+    const trailing = leading ? null : line.match(TRAILING_TIMESTAMP);
+    const [timestamp, title] = leading
+      ? [leading[1], leading[2]]
+      : trailing
+        ? [trailing[2], trailing[1]]
+        : [];
+    if (!timestamp || !title) continue;
+
+    chapters.push({ title, startTimeSec: parseTimestamp(timestamp) });
+  }
+
+  const ascending = chapters.every(
+    (chapter, index) =>
+      index === 0 || chapter.startTimeSec > chapters[index - 1].startTimeSec,
+  );
+
+  return chapters.length >= MIN_TIMESTAMP_CHAPTERS && ascending
+    ? chapters
+    : null;
+}
+
+/**
+ * The Podcasting 2.0 JSON chapters file linked from `podcast:chapters`.
+ * Chapters marked `toc: false` are for artwork changes, not navigation.
+ */
+export async function fetchRssChapters(
+  url: string,
+): Promise<ChapterDraft[] | null> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(RSS_CHAPTERS_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch chapters: ${response.status}`);
+  }
+
+  const data = (await response.json()) as {
+    chapters?: { startTime?: number; title?: string; toc?: boolean }[];
+  };
+
+  const chapters = (data.chapters ?? []).flatMap((chapter) =>
+    typeof chapter.startTime === "number" &&
+    chapter.title?.trim() &&
+    chapter.toc !== false
+      ? [{ title: chapter.title, startTimeSec: chapter.startTime }]
+      : [],
+  );
+
+  return chapters.length > 0 ? chapters : null;
+}
+
+/**
+ * Fallback: let the LLM split the transcript chunks into topics. Chapters
+ * start on chunk boundaries, which are speaker turns.
+ */
+export async function generateLlmChapters(
+  chunks: { content: string; startTimeSec: number | null }[],
+  episodeTitle: string,
+  model: LanguageModel = taskModel("chapters"),
+): Promise<ChapterDraft[] | null> {
+  const timed = chunks.filter(
+    (chunk): chunk is { content: string; startTimeSec: number } =>
+      chunk.startTimeSec !== null,
+  );
+  if (timed.length === 0) return null;
+
+  const listing = timed
+    .map((chunk, index) => {
+      const preview = chunk.content
+        .split(/\s+/)
+        .slice(0, LLM_CHUNK_PREVIEW_WORDS)
+        .join(" ");
+      return `[${index}] ${preview}`;
+    })
+    .join("\n\n");
+
+  const result = await generateObject({
+    model,
+    schema: z.object({
+      chapters: z.array(
+        z.object({
+          startChunk: z.number().int().min(0),
+          title: z.string(),
+        }),
+      ),
+    }),
+    prompt: `Split this podcast episode into chapters by topic.
+
+Episode: "${episodeTitle}"
+
+The transcript is given as numbered chunks (only the start of each chunk is shown). Return the chunk each chapter starts at and a short, specific title (3-8 words). The first chapter starts at chunk 0. Use roughly one chapter per 5-15 minutes of conversation; don't split a single topic.
+
+${listing}`,
+    temperature: 0,
+  });
+
+  const chapters = result.object.chapters.flatMap((chapter) => {
+    const chunk = timed[chapter.startChunk];
+    return chunk
+      ? [{ title: chapter.title, startTimeSec: chunk.startTimeSec }]
+      : [];
+  });
+
+  return chapters.length > 0 ? chapters : null;
+}
+
+/**
+ * Sort, drop untitled and duplicate starts, and close each chapter where the
+ * next one begins. The last one ends with the episode when its length is known.
+ */
+export function finalizeChapters(
+  drafts: ChapterDraft[],
+  durationSec?: number | null,
+): EpisodeChapter[] {
+  const sorted = drafts
+    .map((draft) => ({
+      title: draft.title.trim().slice(0, MAX_TITLE_LENGTH),
+      startTimeSec: Math.max(0, draft.startTimeSec),
+    }))
+    .filter((draft) => draft.title)
+    .sort((a, b) => a.startTimeSec - b.startTimeSec)
+    .filter(
+      (draft, index, all) =>
+        index === 0 || draft.startTimeSec !== all[index - 1].startTimeSec,
+    );
+
+  return sorted.map((chapter, index) => ({
+    ...chapter,
+    endTimeSec: sorted[index + 1]?.startTimeSec ?? durationSec ?? null,
+  }));
+}
+
+/**
+ * Chapters from the first source that has them: the feed's chapters file,
+ * timestamps in the show notes, the YouTube description, then the LLM
+ */
+export async function findEpisodeChapters({
+  db,
+  episode,
+}: {
+  db: DatabaseClient;
+  episode: EpisodeRecord;
+}): Promise<{ source: ChapterSource; chapters: ChapterDraft[] } | null> {
+  if (episode.chaptersUrl) {
+    try {
+      const chapters = await fetchRssChapters(episode.chaptersUrl);
+      if (chapters) return { source: "rss", chapters };
+    } catch (error) {
+      console.error(`RSS chapters failed for episode ${episode.id}:`, error);
+    }
+  }
+
+  for (const notes of [episode.contentEncoded, episode.description]) {
+    const chapters = notes ? parseTimestampChapters(notes) : null;
+    if (chapters) return { source: "show-notes", chapters };
+  }
+
+  if (episode.youtubeVideoId) {
+    const video = await fetchVideoMetadata(episode.youtubeVideoId);
+    const chapters = video?.description
+      ? parseTimestampChapters(video.description)
+      : null;
+    if (chapters) return { source: "youtube", chapters };
+  }
+
+  const chunks = await db
+    .select({
+      content: transcriptChunk.content,
+      startTimeSec: transcriptChunk.startTimeSec,
+    })
+    .from(transcriptChunk)
+    .where(eq(transcriptChunk.episodeId, episode.id))
+    .orderBy(asc(transcriptChunk.startTimeSec));
+
+  const chapters = await generateLlmChapters(
+    chunks,
+    episode.title,
+    await getTaskModel("chapters", {
+      db,
+      userId: episode.userId,
+      episodeId: episode.id,
+    }),
+  );
+  return chapters ? { source: "llm", chapters } : null;
+}
+
+/**
+ * Build and store an episode's chapters, replacing existing ones. Without
+ * `force`, episodes that already have chapters are left alone.
+ */
+export async function generateEpisodeChapters({
+  db,
+  episodeId,
+  force = false,
+}: {
+  db: DatabaseClient;
+  episodeId: string;
+  force?: boolean;
+}): Promise<{
+  generated: boolean;
+  source: ChapterSource | null;
+  count: number;
+}> {
+  const episode = await db.query.episode.findFirst({
+    where: eq(episodeSchema.id, episodeId),
+    with: { chapters: { columns: { source: true } } },
+  });
+  if (!episode) {
+    throw new Error(`Episode ${episodeId} not found`);
+  }
+
+  if (!force && episode.chapters.length > 0) {
+    return {
+      generated: false,
+      source: episode.chapters[0].source,
+      count: episode.chapters.length,
+    };
+  }
+
+  const found = await findEpisodeChapters({ db, episode });
+  if (!found) {
+    return { generated: false, source: null, count: 0 };
+  }
+
+  const chapters = finalizeChapters(found.chapters, episode.durationSec);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(episodeChapter)
+      .where(eq(episodeChapter.episodeId, episodeId));
+    if (chapters.length > 0) {
+      await tx.insert(episodeChapter).values(
+        chapters.map((chapter, position) => ({
+          id: randomUUID(),
+          episodeId,
+          position,
+          source: found.source,
+          ...chapter,
+        })),
+      );
+    }
+  });
+
+  return { generated: true, source: found.source, count: chapters.length };
+}
@@ -1,72 +1,900 @@
-import { generateObject } from "ai";
+import { randomUUID } from "node:crypto";
+import {
+  generateObject,
+  type LanguageModel,
+  type LanguageModelUsage,
+} from "ai";
+import { asc, eq } from "drizzle-orm";
 import { jsonrepair } from "jsonrepair";
 import * as z from "zod/v4";
+import { formatTimecode } from "@/lib/time";
+import {
+  episodeSummary,
+  type StructuredSummary,
+  type SummaryCitation,
+  type SummaryItem,
+  type SummaryLength,
+  type SummaryQuote,
+  type SummaryStrategy,
+  type summaryTemplate,
+  summaryVersion,
+  transcriptChunk,
+} from "@/server/db/schema/podcast";
 import type { TranscriptData } from "@/types/transcript";
-import { openrouter } from "../../ai/models";
+import { parseModelId, taskModel } from "./model-registry";
+import type { DatabaseClient } from "./transcript-processing";
+import { estimateCostUsd, isUsageProvider } from "./usage-ledger";
 
-const model = openrouter("openai/gpt-5-nano");
+// Rough English average; close enough for deciding how to split input
+const CHARS_PER_TOKEN = 4;
 
-export async function generateEpisodeSummary(
-  transcript: TranscriptData,
-  episodeTitle: string,
-): Promise<string> {
-  const transcriptText = formatTranscriptForSummary(transcript);
+// About two hours of conversation. Longer inputs lose detail in one pass.
+const SINGLE_PASS_MAX_TOKENS = 24_000;
 
-  const prompt = `I want a quick overview summary of this episode, which outlines the key takeaways, examples and lessons in bite sized form. Also cherry pick the most impactful quotes from the episode.
+// Each map call sees roughly 30-40 minutes of audio
+const SECTION_MAX_TOKENS = 8_000;
 
-Episode: "${episodeTitle}"
+// Map calls in flight at once
+const MAP_CONCURRENCY = 4;
 
-Transcript:
-${transcriptText}
-`;
+// Enough of a paragraph to find the article chunk it ended up in
+const ARTICLE_CHUNK_MATCH_CHARS = 80;
 
-  const result = await generateObject({
-    model,
-    schema: z.object({
-      markdown: z.string(),
+// Quotes shorter than this match too much of any transcript to verify
+const QUOTE_MIN_WORDS = 4;
+
+// Word edits allowed between a quote and the transcript, as a share of its
+// length. Leaves room for dropped filler words and transcription differences.
+const QUOTE_MATCH_THRESHOLD = 0.8;
+
+// Appended to the request; medium is the built-in summary's own length
+const LENGTH_GUIDANCE: Record<SummaryLength, string> = {
+  short:
+    "Keep it short: a one-sentence TL;DR, no more than 5 points in total and at most 2 quotes.",
+  medium: "",
+  long: "Be thorough: cover every substantive point with its supporting detail, and include up to 8 quotes.",
+};
+
+export type SummaryTemplateSpec = Pick<
+  typeof summaryTemplate.$inferSelect,
+  "id" | "name" | "instructions" | "sections" | "length"
+>;
+
+export interface SummaryUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  calls: number;
+  // Estimated from list prices; null once any call's model has no price
+  costUsd: number | null;
+}
+
+export interface SummaryResult {
+  markdown: string;
+  structured: StructuredSummary;
+  strategy: SummaryStrategy;
+  sectionCount: number;
+  usage: SummaryUsage;
+  model: string;
+  // What was asked for, without the source text
+  prompt: string;
+}
+
+export interface SummaryChunk {
+  id: string;
+  content: string;
+  speaker: string | null;
+  startTimeSec: number | null;
+}
+
+type SummaryKind = "episode" | "article";
+
+/**
+ * A numbered piece of the source the model cites: a transcript chunk when the
+ * content has been chunked, otherwise an utterance or paragraph
+ */
+interface SummaryPassage {
+  text: string;
+  speaker?: string;
+  startTimeSec?: number;
+  chunkId?: string;
+}
+
+interface PassageSection {
+  // Indexes into the full passage list, so citations stay global
+  passageIndexes: number[];
+  startTimeSec?: number;
+  endTimeSec?: number;
+}
+
+const sourcesSchema = z
+  .array(z.number().int())
+  .describe("Numbers of the passages this is based on");
+
+const itemSchema = z.object({
+  text: z.string(),
+  sources: sourcesSchema,
+});
+
+const summarySchema = z.object({
+  tldr: itemSchema,
+  takeaways: z.array(itemSchema),
+  examples: z.array(itemSchema),
+  quotes: z.array(
+    z.object({
+      text: z.string(),
+      speaker: z.string().optional(),
+      source: z
+        .number()
+        .int()
+        .optional()
+        .describe("Number of the passage the quote is copied from"),
     }),
-    experimental_repairText: async ({ text }) => {
-      return jsonrepair(text);
-    },
-    messages: [{ role: "user", content: prompt }],
-    temperature: 0.3,
+  ),
+});
+
+// Templates with their own sections replace takeaways and examples
+const templateSummarySchema = summarySchema
+  .omit({ takeaways: true, examples: true })
+  .extend({
+    sections: z.array(
+      z.object({
+        heading: z.string(),
+        items: z.array(itemSchema),
+      }),
+    ),
   });
 
-  return result.object.markdown;
+type ModelItem = z.infer<typeof itemSchema>;
+
+type ModelSummary = z.infer<typeof summarySchema> & {
+  sections?: { heading: string; items: ModelItem[] }[];
+};
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
 }
 
-export async function generateArticleSummary(
+// The model calls behind one summary
+interface SummaryRun {
+  model: LanguageModel;
+  usage: SummaryUsage;
+  // Registry id of the model that answered the latest call
+  modelId: string | null;
+}
+
+function startRun(model: LanguageModel): SummaryRun {
+  return {
+    model,
+    usage: {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      calls: 0,
+      costUsd: 0,
+    },
+    modelId: null,
+  };
+}
+
+function recordCall(
+  run: SummaryRun,
+  result: { usage: LanguageModelUsage; response: { modelId: string } },
+) {
+  const { usage } = result;
+  run.usage.inputTokens += usage.inputTokens ?? 0;
+  run.usage.outputTokens += usage.outputTokens ?? 0;
+  run.usage.totalTokens +=
+    usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0);
+  run.usage.calls += 1;
+  run.modelId = result.response.modelId;
+
+  // Priced per call: fallbacks can answer different calls with different models
+  const { provider, name } = parseModelId(result.response.modelId);
+  const cost = isUsageProvider(provider)
+    ? estimateCostUsd({
+        provider,
+        model: name || null,
+        task: "summary",
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+      })
+    : null;
+  run.usage.costUsd =
+    run.usage.costUsd === null || cost === null
+      ? null
+      : run.usage.costUsd + cost;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+  return results;
+}
+
+/**
+ * The chunks a summary cites. Episode chunks come back in time order.
+ */
+export async function loadSummaryChunks({
+  db,
+  episodeId,
+  articleId,
+}: {
+  db: DatabaseClient;
+  episodeId?: string;
+  articleId?: string;
+}): Promise<SummaryChunk[]> {
+  const where = episodeId
+    ? eq(transcriptChunk.episodeId, episodeId)
+    : articleId
+      ? eq(transcriptChunk.articleId, articleId)
+      : undefined;
+  if (!where) return [];
+
+  return db
+    .select({
+      id: transcriptChunk.id,
+      content: transcriptChunk.content,
+      speaker: transcriptChunk.speaker,
+      startTimeSec: transcriptChunk.startTimeSec,
+    })
+    .from(transcriptChunk)
+    .where(where)
+    .orderBy(asc(transcriptChunk.startTimeSec));
+}
+
+function passagesFromChunks(chunks: SummaryChunk[]): SummaryPassage[] {
+  return chunks.map((chunk) => ({
+    text: chunk.content.trim(),
+    speaker: chunk.speaker ?? undefined,
+    startTimeSec: chunk.startTimeSec ?? undefined,
+    chunkId: chunk.id,
+  }));
+}
+
+function passagesFromTranscript(transcript: TranscriptData): SummaryPassage[] {
+  return transcript.map((utterance) => ({
+    text: utterance.transcript.trim(),
+    speaker:
+      utterance.speaker !== undefined ? String(utterance.speaker) : undefined,
+    startTimeSec: utterance.start,
+  }));
+}
+
+/**
+ * Article chunks skip short paragraphs, so passages are the paragraphs, each
+ * linked to the chunk it landed in. Long paragraphs are split across chunks
+ * by sentence; matching on the opening finds the first of them.
+ */
+function passagesFromText(
   content: string,
-  articleTitle: string,
-): Promise<string> {
-  const prompt = `I want a quick overview summary of this article, which outlines the key takeaways, examples and lessons in bite sized form. Also cherry pick the most impactful quotes from the article.
+  chunks: SummaryChunk[],
+): SummaryPassage[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((text) => {
+      const opening = text.slice(0, ARTICLE_CHUNK_MATCH_CHARS);
+      const chunk = chunks.find((candidate) =>
+        candidate.content.includes(opening),
+      );
+      return chunk ? { text, chunkId: chunk.id } : { text };
+    });
+}
 
-Article: "${articleTitle}"
+function formatPassage(passage: SummaryPassage, index: number): string {
+  const timestamp =
+    passage.startTimeSec !== undefined
+      ? `[${formatTimecode(passage.startTimeSec) ?? "0:00"}] `
+      : "";
+  const speaker =
+    passage.speaker !== undefined ? `Speaker ${passage.speaker}: ` : "";
+  return `[${index}] ${timestamp}${speaker}${passage.text}`;
+}
 
-Content:
-${content}
-`;
+/**
+ * Split passages into sections under the token budget, keeping each
+ * section's time range. A single oversized passage becomes its own section.
+ */
+function splitSections(
+  passages: SummaryPassage[],
+  maxTokens: number,
+): PassageSection[] {
+  const sections: PassageSection[] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
 
-  const result = await generateObject({
-    model,
-    schema: z.object({
-      markdown: z.string(),
-    }),
-    experimental_repairText: async ({ text }) => {
+  const flush = () => {
+    if (current.length === 0) return;
+    sections.push({
+      passageIndexes: current,
+      startTimeSec: passages[current[0]].startTimeSec,
+      endTimeSec: passages[current[current.length - 1]].startTimeSec,
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  passages.forEach((passage, index) => {
+    const tokens = estimateTokens(formatPassage(passage, index));
+    if (currentTokens + tokens > maxTokens) flush();
+    current.push(index);
+    currentTokens += tokens;
+  });
+  flush();
+
+  return sections;
+}
+
+const normaliseWords = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter(Boolean);
+
+interface WordIndex {
+  words: string[];
+  // Passage each word belongs to
+  passageIndexes: number[];
+}
+
+function buildWordIndex(passages: SummaryPassage[]): WordIndex {
+  const words: string[] = [];
+  const passageIndexes: number[] = [];
+  passages.forEach((passage, index) => {
+    for (const word of normaliseWords(passage.text)) {
+      words.push(word);
+      passageIndexes.push(index);
+    }
+  });
+  return { words, passageIndexes };
+}
+
+/**
+ * Fuzzy-match a quote against the transcript: find the stretch of words with
+ * the fewest insertions, deletions and substitutions from the quote, in
+ * order. Tolerates filler words the model dropped and small rewordings, not
+ * the same words shuffled.
+ */
+function matchQuote(
+  text: string,
+  index: WordIndex,
+): { passageIndex: number; score: number } | null {
+  const quoteWords = normaliseWords(text);
+  const length = quoteWords.length;
+  if (length < QUOTE_MIN_WORDS || index.words.length === 0) return null;
+
+  // Edit distance of the quote's first i words against a stretch ending at
+  // the current transcript word, and where that stretch starts. Row 0 is
+  // free so a match can start anywhere.
+  let distances = Array.from({ length: length + 1 }, (_, i) => i);
+  let starts = new Array<number>(length + 1).fill(0);
+  let best = { start: 0, distance: length };
+
+  for (let end = 0; end < index.words.length; end++) {
+    const nextDistances = [0];
+    const nextStarts = [end + 1];
+
+    for (let i = 1; i <= length; i++) {
+      const substitution =
+        distances[i - 1] + (quoteWords[i - 1] === index.words[end] ? 0 : 1);
+      const extraWord = distances[i] + 1;
+      const missingWord = nextDistances[i - 1] + 1;
+
+      if (substitution <= extraWord && substitution <= missingWord) {
+        nextDistances.push(substitution);
+        nextStarts.push(starts[i - 1]);
+      } else if (extraWord <= missingWord) {
+        nextDistances.push(extraWord);
+        nextStarts.push(starts[i]);
+      } else {
+        nextDistances.push(missingWord);
+        nextStarts.push(nextStarts[i - 1]);
+      }
+    }
+
+    distances = nextDistances;
+    starts = nextStarts;
+    if (distances[length] < best.distance) {
+      best = { start: starts[length], distance: distances[length] };
+    }
+  }
+
+  return {
+    passageIndex:
+      index.passageIndexes[Math.min(best.start, index.words.length - 1)],
+    score: Math.max(0, 1 - best.distance / length),
+  };
+}
+
+function citationFor(passage: SummaryPassage | undefined): SummaryCitation[] {
+  if (!passage) return [];
+  const citation: SummaryCitation = {};
+  if (passage.chunkId) citation.chunkId = passage.chunkId;
+  if (passage.startTimeSec !== undefined) {
+    citation.startTimeSec = passage.startTimeSec;
+  }
+  return Object.keys(citation).length > 0 ? [citation] : [];
+}
+
+function resolveItem(item: ModelItem, passages: SummaryPassage[]): SummaryItem {
+  const sources = [...new Set(item.sources)]
+    .filter((source) => source >= 0 && source < passages.length)
+    .sort((a, b) => a - b);
+  return {
+    text: item.text.trim(),
+    citations: sources.flatMap((source) => citationFor(passages[source])),
+  };
+}
+
+/**
+ * Turn the model's passage numbers into chunk IDs and start times, and check
+ * each quote against the transcript. Quotes that can't be found are kept but
+ * flagged, citing the passage the model claimed.
+ */
+function resolveSummary(
+  summary: ModelSummary,
+  passages: SummaryPassage[],
+): StructuredSummary {
+  const wordIndex = buildWordIndex(passages);
+  const seen = new Set<string>();
+
+  const quotes = summary.quotes.flatMap((quote): SummaryQuote[] => {
+    const text = quote.text.trim().replace(/^["“]|["”]$/g, "");
+    const key = normaliseWords(text).join(" ");
+    if (!key || seen.has(key)) return [];
+    seen.add(key);
+
+    const match = matchQuote(text, wordIndex);
+    const verified = !!match && match.score >= QUOTE_MATCH_THRESHOLD;
+    const passage = verified
+      ? passages[match.passageIndex]
+      : quote.source !== undefined
+        ? passages[quote.source]
+        : undefined;
+    const speaker =
+      quote.speaker?.trim() ||
+      (verified && passage?.speaker !== undefined
+        ? `Speaker ${passage.speaker}`
+        : undefined);
+
+    return [
+      {
+        text,
+        ...(speaker ? { speaker } : {}),
+        ...citationFor(passage)[0],
+        verified,
+        matchScore: match ? Math.round(match.score * 100) / 100 : 0,
+      },
+    ];
+  });
+
+  return {
+    tldr: resolveItem(summary.tldr, passages),
+    takeaways: summary.takeaways.map((item) => resolveItem(item, passages)),
+    examples: summary.examples.map((item) => resolveItem(item, passages)),
+    ...(summary.sections
+      ? {
+          sections: summary.sections.map((section) => ({
+            heading: section.heading.trim(),
+            items: section.items.map((item) => resolveItem(item, passages)),
+          })),
+        }
+      : {}),
+    quotes,
+  };
+}
+
+function formatCitationTimes(citations: SummaryCitation[]): string {
+  const times = citations.flatMap((citation) => {
+    const time = formatTimecode(citation.startTimeSec);
+    return time ? [time] : [];
+  });
+  return times.length > 0 ? ` [${[...new Set(times)].join(", ")}]` : "";
+}
+
+/**
+ * The markdown stored alongside the structured summary, for search, exports
+ * and anything that predates the structured format
+ */
+export function renderSummaryMarkdown(summary: StructuredSummary): string {
+  const lines = [
+    "## TL;DR",
+    "",
+    `${summary.tldr.text}${formatCitationTimes(summary.tldr.citations)}`,
+  ];
+
+  const list = (heading: string, items: SummaryItem[]) => {
+    if (items.length === 0) return;
+    lines.push("", `## ${heading}`, "");
+    for (const item of items) {
+      lines.push(`- ${item.text}${formatCitationTimes(item.citations)}`);
+    }
+  };
+
+  list("Key Takeaways", summary.takeaways);
+  list("Examples", summary.examples);
+  for (const section of summary.sections ?? []) {
+    list(section.heading, section.items);
+  }
+
+  if (summary.quotes.length > 0) {
+    lines.push("", "## Quotes", "");
+    for (const quote of summary.quotes) {
+      const attribution = [
+        quote.speaker,
+        formatTimecode(quote.startTimeSec) ?? undefined,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(
+        `> "${quote.text}"${attribution ? ` — ${attribution}` : ""}${
+          quote.verified ? "" : " _(unverified)_"
+        }`,
+        "",
+      );
+    }
+    lines.pop();
+  }
+
+  return lines.join("\n");
+}
+
+async function generateStructured(
+  prompt: string,
+  run: SummaryRun,
+  template: SummaryTemplateSpec | null = null,
+): Promise<ModelSummary> {
+  const request = {
+    model: run.model,
+    experimental_repairText: async ({ text }: { text: string }) => {
       return jsonrepair(text);
     },
-    messages: [{ role: "user", content: prompt }],
+    messages: [{ role: "user" as const, content: prompt }],
     temperature: 0.3,
-  });
+  };
 
-  return result.object.markdown;
+  if (template && template.sections.length > 0) {
+    const result = await generateObject({
+      ...request,
+      schema: templateSummarySchema,
+    });
+    recordCall(run, result);
+    return { ...result.object, takeaways: [], examples: [] };
+  }
+
+  const result = await generateObject({ ...request, schema: summarySchema });
+  recordCall(run, result);
+  return result.object;
 }
 
-function formatTranscriptForSummary(transcript: TranscriptData): string {
-  return transcript
-    .map((utterance) => {
-      const speaker = utterance.speaker ? `Speaker ${utterance.speaker}: ` : "";
-      return `${speaker}${utterance.transcript.trim()}`;
-    })
+/**
+ * What the reader wants: the built-in overview, or a template's
+ * instructions, sections and length
+ */
+function summaryRequest(
+  kind: SummaryKind,
+  template: SummaryTemplateSpec | null,
+): string {
+  if (!template) {
+    return `I want a quick overview summary of this ${kind}: a TL;DR, the key takeaways, examples and lessons in bite sized form, and the most impactful quotes from the ${kind}.`;
+  }
+
+  const shape =
+    template.sections.length > 0
+      ? `Start with a one-line TL;DR, then write these sections in this order, using the names exactly as given: ${template.sections
+          .map((section) => `"${section}"`)
+          .join(", ")}.`
+      : "Start with a one-line TL;DR, then the key takeaways and examples.";
+
+  return [
+    `Summarize this ${kind} for a reader who asked for the following:`,
+    template.instructions.trim(),
+    `${shape} Also pick the most impactful quotes from the ${kind}.`,
+    LENGTH_GUIDANCE[template.length],
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+const citationInstructions = (kind: SummaryKind) =>
+  `The ${kind === "episode" ? "transcript" : "content"} is split into numbered passages like [12]. For the TL;DR and every point, list the numbers of the passages it is based on. Quotes must be copied word for word from a single passage; give that passage's number${
+    kind === "episode" ? " and the speaker label" : ""
+  }.`;
+
+function formatNotes(summary: ModelSummary): string {
+  const refs = (sources: number[]) =>
+    sources.length > 0 ? ` [${sources.join(", ")}]` : "";
+  return [
+    `TL;DR: ${summary.tldr.text}${refs(summary.tldr.sources)}`,
+    ...summary.takeaways.map((item) => `- ${item.text}${refs(item.sources)}`),
+    ...(summary.examples.length > 0 ? ["Examples:"] : []),
+    ...summary.examples.map((item) => `- ${item.text}${refs(item.sources)}`),
+  ].join("\n");
+}
+
+/**
+ * Map: summarize each section on its own, with citations and quotes.
+ * Reduce: write one summary from the section notes, keeping the citations.
+ */
+async function summarizeMapReduce({
+  passages,
+  sections,
+  kind,
+  title,
+  template,
+  run,
+}: {
+  passages: SummaryPassage[];
+  sections: PassageSection[];
+  kind: SummaryKind;
+  title: string;
+  template: SummaryTemplateSpec | null;
+  run: SummaryRun;
+}): Promise<ModelSummary> {
+  const notes = await mapWithConcurrency(
+    sections,
+    MAP_CONCURRENCY,
+    async (section, index) => {
+      const range =
+        section.startTimeSec !== undefined
+          ? ` (${formatTimecode(section.startTimeSec)}–${formatTimecode(section.endTimeSec)})`
+          : "";
+      const sectionText = section.passageIndexes
+        .map((passageIndex) =>
+          formatPassage(passages[passageIndex], passageIndex),
+        )
+        .join("\n\n");
+
+      const summary = await generateStructured(
+        `This is part ${index + 1} of ${sections.length}${range} of the ${kind} "${title}".
+
+Summarize this part: a one-line TL;DR, the key takeaways, and examples and lessons, in bite sized form. Keep specific names, numbers and frameworks. Then pick up to 3 of the most impactful quotes.
+
+${citationInstructions(kind)}
+
+${kind === "episode" ? "Transcript" : "Content"}:
+${sectionText}
+`,
+        run,
+      );
+
+      return { range, summary };
+    },
+  );
+
+  const sectionNotes = notes
+    .map(
+      (note, index) =>
+        `## Part ${index + 1}${note.range}\n${formatNotes(note.summary)}`,
+    )
     .join("\n\n");
+
+  const quoteList = notes
+    .flatMap((note) => note.summary.quotes)
+    .map((quote) => {
+      const source = quote.source !== undefined ? `[${quote.source}] ` : "";
+      const speaker = quote.speaker ? `${quote.speaker}: ` : "";
+      return `- ${source}${speaker}"${quote.text}"`;
+    })
+    .join("\n");
+
+  return generateStructured(
+    `${summaryRequest(kind, template)}
+
+The ${kind} was too long to read in one go, so below are notes on each part in order, followed by candidate quotes. Each note ends with the passage numbers it came from. Merge overlapping points instead of going part by part, and keep the passage numbers of every point you use. Only use quotes from the list, word for word, with their passage numbers.
+
+${kind === "episode" ? "Episode" : "Article"}: "${title}"
+
+${sectionNotes}
+
+# Candidate quotes
+${quoteList || "(none)"}
+`,
+    run,
+    template,
+  );
+}
+
+async function summarizePassages({
+  passages,
+  kind,
+  title,
+  template,
+  model,
+}: {
+  passages: SummaryPassage[];
+  kind: SummaryKind;
+  title: string;
+  template: SummaryTemplateSpec | null;
+  model: LanguageModel;
+}): Promise<SummaryResult> {
+  const run = startRun(model);
+  const text = passages.map(formatPassage).join("\n\n");
+
+  let summary: ModelSummary;
+  let strategy: SummaryStrategy;
+  let sectionCount: number;
+
+  if (estimateTokens(text) <= SINGLE_PASS_MAX_TOKENS) {
+    summary = await generateStructured(
+      `${summaryRequest(kind, template)}
+
+${citationInstructions(kind)}
+
+${kind === "episode" ? "Episode" : "Article"}: "${title}"
+
+${kind === "episode" ? "Transcript" : "Content"}:
+${text}
+`,
+      run,
+      template,
+    );
+    strategy = "single-pass";
+    sectionCount = 1;
+  } else {
+    const sections = splitSections(passages, SECTION_MAX_TOKENS);
+    summary = await summarizeMapReduce({
+      passages,
+      sections,
+      kind,
+      title,
+      template,
+      run,
+    });
+    strategy = "map-reduce";
+    sectionCount = sections.length;
+  }
+
+  const structured = resolveSummary(summary, passages);
+
+  return {
+    markdown: renderSummaryMarkdown(structured),
+    structured,
+    strategy,
+    sectionCount,
+    usage: run.usage,
+    model: run.modelId ?? (typeof model === "string" ? model : model.modelId),
+    prompt: summaryRequest(kind, template),
+  };
+}
+
+/**
+ * Summarize an episode. Pass its transcript chunks so citations link to them;
+ * without chunks, citations only carry start times. Without a template this
+ * is the built-in overview. `model` defaults to the summary task's models;
+ * pass `getTaskModel("summary", ...)` to honour the owner's override.
+ */
+export async function generateEpisodeSummary(
+  transcript: TranscriptData,
+  episodeTitle: string,
+  chunks: SummaryChunk[] = [],
+  template: SummaryTemplateSpec | null = null,
+  model: LanguageModel = taskModel("summary"),
+): Promise<SummaryResult> {
+  return summarizePassages({
+    passages:
+      chunks.length > 0
+        ? passagesFromChunks(chunks)
+        : passagesFromTranscript(transcript),
+    kind: "episode",
+    title: episodeTitle,
+    template,
+    model,
+  });
+}
+
+export async function generateArticleSummary(
+  content: string,
+  articleTitle: string,
+  chunks: SummaryChunk[] = [],
+  template: SummaryTemplateSpec | null = null,
+  model: LanguageModel = taskModel("summary"),
+): Promise<SummaryResult> {
+  return summarizePassages({
+    passages: passagesFromText(content, chunks),
+    kind: "article",
+    title: articleTitle,
+    template,
+    model,
+  });
+}
+
+/**
+ * Record a generated summary as a new version and make it the current
+ * summary. Earlier versions are kept; a current summary written before
+ * versioning is saved as a version first so regenerating doesn't lose it.
+ */
+export async function saveSummaryVersion({
+  db,
+  episodeId,
+  articleId,
+  result,
+  template,
+}: {
+  db: DatabaseClient;
+  result: SummaryResult;
+  template: SummaryTemplateSpec | null;
+} & (
+  | { episodeId: string; articleId?: never }
+  | { articleId: string; episodeId?: never }
+)) {
+  return db.transaction(async (tx) => {
+    const existing = await tx.query.episodeSummary.findFirst({
+      where: episodeId
+        ? eq(episodeSummary.episodeId, episodeId)
+        : eq(episodeSummary.articleId, articleId ?? ""),
+    });
+
+    if (existing && !existing.versionId) {
+      await tx.insert(summaryVersion).values({
+        id: randomUUID(),
+        episodeId: episodeId ?? null,
+        articleId: articleId ?? null,
+        markdownContent: existing.markdownContent,
+        structuredContent: existing.structuredContent,
+        createdAt: existing.summaryGeneratedAt,
+      });
+    }
+
+    const [version] = await tx
+      .insert(summaryVersion)
+      .values({
+        id: randomUUID(),
+        episodeId: episodeId ?? null,
+        articleId: articleId ?? null,
+        templateId: template?.id ?? null,
+        templateName: template?.name ?? null,
+        markdownContent: result.markdown,
+        structuredContent: result.structured,
+        model: result.model,
+        prompt: result.prompt,
+        strategy: result.strategy,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        totalTokens: result.usage.totalTokens,
+        costUsd: result.usage.costUsd,
+      })
+      .returning();
+
+    const current = {
+      markdownContent: result.markdown,
+      structuredContent: result.structured,
+      versionId: version.id,
+      summaryGeneratedAt: version.createdAt,
+    };
+
+    const [summary] = await tx
+      .insert(episodeSummary)
+      .values({
+        id: randomUUID(),
+        episodeId: episodeId ?? null,
+        articleId: articleId ?? null,
+        ...current,
+      })
+      .onConflictDoUpdate({
+        target: episodeId ? episodeSummary.episodeId : episodeSummary.articleId,
+        set: current,
+      })
+      .returning();
+
+    return { summary, version };
+  });
 }
@@ -0,0 +1,343 @@
+import { and, asc, eq, gt, isNotNull, or, type SQL } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import {
+  article,
+  articleFeed,
+  episode,
+  episodeSummary,
+  favorite,
+  podcast,
+  transcriptChunk,
+  userExportSettings,
+} from "@/server/db/schema";
+import { getSpeakerMappings } from "@/server/lib/speaker-identification";
+import type { DatabaseClient } from "@/server/lib/transcript-processing";
+
+export const EXPORT_FORMAT_VERSION = "1.0";
+
+export const EXPORT_MODES = ["full", "exocortex", "incremental"] as const;
+export type ExportMode = (typeof EXPORT_MODES)[number];
+
+export interface ExportSource {
+  type: "episode" | "article";
+  id: string;
+  title: string;
+  podcast: string | null;
+  published_at: string | null;
+  url: string | null;
+}
+
+export interface ExportDocument {
+  id: string;
+  type: "summary" | "favorite" | "chunk";
+  source: ExportSource;
+  content: {
+    title: string;
+    summary?: string;
+    transcript_context?: string;
+    speaker?: string | null;
+    timestamp_start?: number | null;
+    timestamp_end?: number | null;
+  };
+  metadata: {
+    created_at: string;
+    saved_at?: string;
+    embedding_model?: string | null;
+  };
+  embedding?: number[] | null;
+}
+
+export interface ExportPayload {
+  version: typeof EXPORT_FORMAT_VERSION;
+  exported_at: string;
+  export_mode: ExportMode;
+  user_id: string;
+  since: string | null;
+  document_count: number;
+  documents: ExportDocument[];
+}
+
+interface BuildExportParams {
+  db: DatabaseClient;
+  userId: string;
+  mode: ExportMode;
+  /** Only include documents created (or favorited) after this date */
+  since?: Date | null;
+  exportedAt?: Date;
+}
+
+const toIso = (value: Date | null) => (value ? value.toISOString() : null);
+
+/**
+ * Shared source columns for rows joined against episode/podcast/article/feed
+ */
+const sourceColumns = {
+  episodeId: episode.id,
+  episodeTitle: episode.title,
+  episodePublishedAt: episode.publishedAt,
+  episodeLink: episode.link,
+  episodeAudioUrl: episode.audioUrl,
+  podcastTitle: podcast.title,
+  articleId: article.id,
+  articleTitle: article.title,
+  articlePublishedAt: article.publishedAt,
+  articleUrl: article.url,
+  feedTitle: articleFeed.title,
+};
+
+type SourceRow = {
+  episodeId: string | null;
+  episodeTitle: string | null;
+  episodePublishedAt: Date | null;
+  episodeLink: string | null;
+  episodeAudioUrl: string | null;
+  podcastTitle: string | null;
+  articleId: string | null;
+  articleTitle: string | null;
+  articlePublishedAt: Date | null;
+  articleUrl: string | null;
+  feedTitle: string | null;
+};
+
+function toSource(row: SourceRow): ExportSource | null {
+  if (row.episodeId) {
+    return {
+      type: "episode",
+      id: row.episodeId,
+      title: row.episodeTitle ?? "Untitled",
+      podcast: row.podcastTitle,
+      published_at: toIso(row.episodePublishedAt),
+      url: row.episodeLink ?? row.episodeAudioUrl,
+    };
+  }
+  if (row.articleId) {
+    return {
+      type: "article",
+      id: row.articleId,
+      title: row.articleTitle ?? "Untitled",
+      podcast: row.feedTitle,
+      published_at: toIso(row.articlePublishedAt),
+      url: row.articleUrl,
+    };
+  }
+  return null;
+}
+
+/**
+ * Build the versioned export document for a user.
+ *
+ * - summaries: every summary for the user's episodes and articles
+ * - favorites: every favorited episode or article
+ * - chunks: transcript chunks of favorited items (with embeddings in exocortex mode)
+ */
+export async function buildExport({
+  db,
+  userId,
+  mode,
+  since = null,
+  exportedAt = new Date(),
+}: BuildExportParams): Promise<ExportPayload> {
+  const includeEmbeddings = mode === "exocortex";
+
+  const ownedBy = or(eq(episode.userId, userId), eq(article.userId, userId));
+
+  const summaries = await db
+    .select({
+      id: episodeSummary.id,
+      markdownContent: episodeSummary.markdownContent,
+      generatedAt: episodeSummary.summaryGeneratedAt,
+      ...sourceColumns,
+    })
+    .from(episodeSummary)
+    .leftJoin(episode, eq(episodeSummary.episodeId, episode.id))
+    .leftJoin(podcast, eq(episode.podcastId, podcast.id))
+    .leftJoin(article, eq(episodeSummary.articleId, article.id))
+    .leftJoin(articleFeed, eq(article.feedId, articleFeed.id))
+    .where(
+      and(
+        ownedBy,
+        since ? gt(episodeSummary.summaryGeneratedAt, since) : undefined,
+      ),
+    )
+    .orderBy(asc(episodeSummary.summaryGeneratedAt));
+
+  const favorites = await db
+    .select({
+      id: favorite.id,
+      createdAt: favorite.createdAt,
+      ...sourceColumns,
+    })
+    .from(favorite)
+    .leftJoin(episode, eq(favorite.episodeId, episode.id))
+    .leftJoin(podcast, eq(episode.podcastId, podcast.id))
+    .leftJoin(article, eq(favorite.articleId, article.id))
+    .leftJoin(articleFeed, eq(article.feedId, articleFeed.id))
+    .where(
+      and(
+        eq(favorite.userId, userId),
+        since ? gt(favorite.createdAt, since) : undefined,
+      ),
+    )
+    .orderBy(asc(favorite.createdAt));
+
+  // A newly favorited item exports all of its chunks, not just new ones
+  const chunkSince: SQL | undefined = since
+    ? or(gt(transcriptChunk.createdAt, since), gt(favorite.createdAt, since))
+    : undefined;
+
+  const chunks = await db
+    .select({
+      id: transcriptChunk.id,
+      content: transcriptChunk.content,
+      speaker: transcriptChunk.speaker,
+      startTimeSec: transcriptChunk.startTimeSec,
+      endTimeSec: transcriptChunk.endTimeSec,
+      createdAt: transcriptChunk.createdAt,
+      savedAt: favorite.createdAt,
+      embeddingModel: transcriptChunk.embeddingModel,
+      ...(includeEmbeddings ? { embedding: transcriptChunk.embedding } : {}),
+      ...sourceColumns,
+    })
+    .from(transcriptChunk)
+    .innerJoin(
+      favorite,
+      and(
+        eq(favorite.userId, userId),
+        or(
+          and(
+            isNotNull(transcriptChunk.episodeId),
+            eq(favorite.episodeId, transcriptChunk.episodeId),
+          ),
+          and(
+            isNotNull(transcriptChunk.articleId),
+            eq(favorite.articleId, transcriptChunk.articleId),
+          ),
+        ),
+      ),
+    )
+    .leftJoin(episode, eq(transcriptChunk.episodeId, episode.id))
+    .leftJoin(podcast, eq(episode.podcastId, podcast.id))
+    .leftJoin(article, eq(transcriptChunk.articleId, article.id))
+    .leftJoin(articleFeed, eq(article.feedId, articleFeed.id))
+    .where(chunkSince)
+    .orderBy(
+      asc(transcriptChunk.episodeId),
+      asc(transcriptChunk.articleId),
+      asc(transcriptChunk.startTimeSec),
+    );
+
+  const speakers = await getSpeakerMappings({
+    db,
+    episodeIds: [
+      ...new Set(
+        chunks
+          .map((chunk) => chunk.episodeId)
+          .filter((id): id is string => Boolean(id)),
+      ),
+    ],
+  });
+
+  const documents: ExportDocument[] = [];
+
+  for (const row of summaries) {
+    const source = toSource(row);
+    if (!source) continue;
+    documents.push({
+      id: `summary_${row.id}`,
+      type: "summary",
+      source,
+      content: { title: source.title, summary: row.markdownContent },
+      metadata: { created_at: row.generatedAt.toISOString() },
+    });
+  }
+
+  for (const row of favorites) {
+    const source = toSource(row);
+    if (!source) continue;
+    documents.push({
+      id: `favorite_${row.id}`,
+      type: "favorite",
+      source,
+      content: { title: source.title },
+      metadata: {
+        created_at: row.createdAt.toISOString(),
+        saved_at: row.createdAt.toISOString(),
+      },
+    });
+  }
+
+  for (const row of chunks) {
+    const source = toSource(row);
+    if (!source) continue;
+    // Same fallback as the transcript view when speakers aren't identified
+    const speaker =
+      row.speaker && row.episodeId
+        ? (speakers.get(row.episodeId)?.[row.speaker] ??
+          `Speaker ${row.speaker}`)
+        : row.speaker;
+
+    documents.push({
+      // Chunk ids already carry a chunk_ prefix
+      id: row.id,
+      type: "chunk",
+      source,
+      content: {
+        title: source.title,
+        transcript_context: row.content,
+        speaker,
+        timestamp_start: row.startTimeSec,
+        timestamp_end: row.endTimeSec,
+      },
+      metadata: {
+        created_at: row.createdAt.toISOString(),
+        saved_at: row.savedAt.toISOString(),
+        embedding_model: row.embeddingModel,
+      },
+      ...("embedding" in row ? { embedding: row.embedding } : {}),
+    });
+  }
+
+  return {
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    export_mode: mode,
+    user_id: userId,
+    since: toIso(since),
+    document_count: documents.length,
+    documents,
+  };
+}
+
+export async function getLastExportedAt({
+  db,
+  userId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+}): Promise<Date | null> {
+  const [settings] = await db
+    .select({ lastExportedAt: userExportSettings.lastExportedAt })
+    .from(userExportSettings)
+    .where(eq(userExportSettings.userId, userId))
+    .limit(1);
+
+  return settings?.lastExportedAt ?? null;
+}
+
+export async function setLastExportedAt({
+  db,
+  userId,
+  exportedAt = new Date(),
+}: {
+  db: DatabaseClient;
+  userId: string;
+  exportedAt?: Date;
+}): Promise<void> {
+  await db
+    .insert(userExportSettings)
+    .values({ id: nanoid(), userId, lastExportedAt: exportedAt })
+    .onConflictDoUpdate({
+      target: userExportSettings.userId,
+      set: { lastExportedAt: exportedAt },
+    });
+}
@@ -0,0 +1,120 @@
+import type { HeuristicBuckets, HeuristicResult } from "./hybrid-types";
+import { extractQualityFeatures } from "./quality-features";
+
+const AD_PATTERNS = [
+  /\bsponsored by\b/i,
+  /\bbrought to you by\b/i,
+  /\bpromo code\b/i,
+  /\buse code\b/i,
+  /\b(free trial|first month free|\d+% off)\b/i,
+  /\b(www\.|https?:\/\/)\S+/i,
+  /\b\w+\.(com|io|co)\/\w+/i,
+];
+
+const INTRO_OUTRO_PATTERNS = [
+  /\bwelcome (back )?to (the |another episode of )?(show|podcast|episode)\b/i,
+  /\bthanks? (you )?(so much )?for (listening|tuning in|watching)\b/i,
+  /\b(subscribe|leave (us )?a review|rate the show|hit the like button)\b/i,
+  /\bsee you (next time|in the next episode)\b/i,
+];
+
+const FRAMEWORK_PATTERNS = [
+  /\b(framework|mental model|principle|rule of thumb|playbook|heuristic)\b/i,
+  /\bthe (\w+ ){0,2}(rule|law|test|loop|flywheel|maze|trap)\b/i,
+  /\b(first|second|third),? (you|we|the)\b/i,
+  /"[^"]{3,40}"/,
+];
+
+const QUANTIFIED_PATTERNS = [
+  /\d+(\.\d+)?\s?(%|percent|x\b)/i,
+  /\$\s?\d/,
+  /\b\d+(\.\d+)?\s?(k|m|b|million|billion|thousand)\b/i,
+  /\b\d+\s?(years?|months?|weeks?|days?)\b/i,
+];
+
+const clamp = (value: number, min = 0, max = 1) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Count how many ad or intro/outro markers a chunk has. Two or more in one
+ * chunk is a strong sign it's a read or a sign-off rather than content.
+ */
+function detectGarbage(content: string): string | null {
+  const adHits = AD_PATTERNS.filter((pattern) => pattern.test(content)).length;
+  if (adHits >= 2) return "ad read";
+
+  const introHits = INTRO_OUTRO_PATTERNS.filter((pattern) =>
+    pattern.test(content),
+  ).length;
+  if (introHits >= 2) return "intro/outro";
+
+  return null;
+}
+
+/**
+ * Stage 1: cheap, deterministic scoring. Heuristics only filter garbage —
+ * they never auto-save because they can't judge novelty or relevance.
+ */
+export function scoreWithHeuristics(content: string): HeuristicResult {
+  const features = extractQualityFeatures(content);
+  const reasons: string[] = [];
+
+  const garbage = detectGarbage(content);
+  if (garbage) {
+    return {
+      score: 0,
+      pass: false,
+      fail: true,
+      buckets: { framework: 0, insight: 0, specificity: 0, quality: 0 },
+      reasons: [`Looks like ${garbage}`],
+      method: "heuristics",
+    };
+  }
+
+  const frameworkHits = FRAMEWORK_PATTERNS.filter((pattern) =>
+    pattern.test(content),
+  ).length;
+  const framework = clamp(
+    frameworkHits / 2 + (features.hasMetaphor ? 0.25 : 0),
+  );
+  if (frameworkHits > 0) reasons.push("Names or structures an idea");
+
+  const insight = clamp(
+    (features.hasContrast ? 0.5 : 0) + (features.hasPrinciple ? 0.5 : 0),
+  );
+  if (features.hasContrast) reasons.push("Contrasts with a common view");
+
+  const quantifiedHits = QUANTIFIED_PATTERNS.filter((pattern) =>
+    pattern.test(content),
+  ).length;
+  const specificity = clamp(quantifiedHits / 2);
+  if (quantifiedHits > 0) reasons.push("Quantified outcome");
+
+  // Long, varied sentences read as explanation; short choppy ones as banter
+  const quality = clamp(
+    features.uniqueWordRatio * 0.6 +
+      clamp(features.avgSentenceLength / 25) * 0.4,
+  );
+
+  const buckets: HeuristicBuckets = {
+    framework,
+    insight,
+    specificity,
+    quality,
+  };
+
+  const overall =
+    buckets.framework * 0.3 +
+    buckets.insight * 0.25 +
+    buckets.specificity * 0.25 +
+    buckets.quality * 0.2;
+
+  return {
+    score: Math.round(overall * 100),
+    pass: false,
+    fail: false,
+    buckets,
+    reasons,
+    method: "heuristics",
+  };
+}
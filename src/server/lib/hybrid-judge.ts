@@ -0,0 +1,94 @@
+import { generateObject, type LanguageModel } from "ai";
+import { z } from "zod";
+import type { JudgeResult } from "./hybrid-types";
+import { taskModel } from "./model-registry";
+
+const judgementSchema = z.object({
+  frameworkClarity: z.number().min(0).max(100),
+  insightNovelty: z.number().min(0).max(100),
+  tacticalSpecificity: z.number().min(0).max(100),
+  reasoningDepth: z.number().min(0).max(100),
+  overallScore: z.number().min(0).max(100),
+  reasoning: z.string(),
+});
+
+const HYBRID_PROMPT = `You are evaluating podcast transcript chunks for a well-read founder who has read hundreds of entrepreneur biographies.
+
+WHAT THEY SAVE:
+1. Named frameworks ("hyperfluency", "idea maze", "cancel cancellations")
+2. Counter-intuitive insights (NOT startup canon)
+3. Quantified business outcomes (20% premium, 6000→60 cancellations)
+4. Specific tactics with deep reasoning
+5. Assessment criteria for judgment
+6. Memorable articulations that crystallize fuzzy concepts
+
+WHAT THEY SKIP:
+1. Entrepreneurship canon - generic advice everyone knows:
+   - Henry Ford quotes, "iterate quickly", "focus on customers"
+   - Don't conflate canon with QUANTIFIED OUTCOMES
+2. Generic observations ("incentives matter")
+3. Biographical details without lessons
+4. Leadership tropes (vulnerability, authenticity)
+
+Score 60+ if the chunk includes:
+- A named framework with explanation, OR
+- A counter-intuitive insight NOT in canon, OR
+- A quantified outcome with numbers (20% premium, $15B over 10 years), OR
+- A specific tactic with a deep "why", OR
+- Assessment criteria, OR
+- A memorable metaphor that crystallizes a concept
+
+IMPORTANT DISTINCTION:
+- "Build a strong brand" = CANON (generic advice) → 20-40
+- "Achieved 20% price premium through brand over 30 years" = QUANTIFIED INSIGHT → 60-70
+
+When in doubt, default to 40-45. The bar is high.
+
+Score each dimension 0-100, then give an overall score with brief reasoning.`;
+
+/**
+ * Stage 3: LLM judge. Temperature 0 keeps scores stable across runs.
+ * Pass `model` to evaluate a different judge than production's.
+ */
+export async function judgeHybrid(
+  content: string,
+  model: LanguageModel = taskModel("judge"),
+): Promise<JudgeResult> {
+  const result = await generateObject({
+    model,
+    schema: judgementSchema,
+    prompt: `${HYBRID_PROMPT}\n\nCHUNK:\n${content}`,
+    temperature: 0,
+  });
+
+  const { overallScore, ...buckets } = result.object;
+
+  return {
+    score: overallScore,
+    ...buckets,
+    method: "llm",
+  };
+}
+
+/**
+ * Judge several chunks with bounded concurrency
+ */
+export async function judgeHybridBatch(
+  contents: string[],
+  concurrency = 5,
+  model: LanguageModel = taskModel("judge"),
+): Promise<JudgeResult[]> {
+  const results: JudgeResult[] = new Array(contents.length);
+
+  for (let i = 0; i < contents.length; i += concurrency) {
+    const batch = contents.slice(i, i + concurrency);
+    const judged = await Promise.all(
+      batch.map((content) => judgeHybrid(content, model)),
+    );
+    judged.forEach((result, index) => {
+      results[i + index] = result;
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,141 @@
+import { and, desc, eq, gte, isNotNull, ne, or, type SQL } from "drizzle-orm";
+import { chunkFeedback, signal, transcriptChunk } from "@/server/db/schema";
+import {
+  LLM_SAVE_THRESHOLD,
+  NOVELTY_HISTORY_LIMIT,
+  NOVELTY_MIN_HISTORY,
+  NOVELTY_PENALTIES,
+  NOVELTY_TOP_K,
+  type NoveltyResult,
+} from "./hybrid-types";
+import type { DatabaseClient } from "./transcript-processing";
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Embeddings of the user's most recent saves, excluding the episode or
+ * article being scored so regenerating doesn't penalize itself. Explicit
+ * saves are used when the user has any; otherwise high-scoring signals stand
+ * in for them.
+ */
+export async function loadNoveltyHistory({
+  db,
+  userId,
+  excludeEpisodeId,
+  excludeArticleId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  excludeEpisodeId?: string;
+  excludeArticleId?: string;
+}): Promise<number[][]> {
+  const toEmbeddings = (rows: { embedding: number[] | null }[]) =>
+    rows
+      .map((row) => row.embedding)
+      .filter((embedding): embedding is number[] => Array.isArray(embedding));
+
+  const saves = await db
+    .select({ embedding: transcriptChunk.embedding })
+    .from(chunkFeedback)
+    .innerJoin(transcriptChunk, eq(chunkFeedback.chunkId, transcriptChunk.id))
+    .where(
+      and(
+        eq(chunkFeedback.userId, userId),
+        eq(chunkFeedback.action, "saved"),
+        isNotNull(transcriptChunk.embedding),
+        ...excludeSource(chunkFeedback, excludeEpisodeId, excludeArticleId),
+      ),
+    )
+    .orderBy(desc(chunkFeedback.updatedAt))
+    .limit(NOVELTY_HISTORY_LIMIT);
+
+  if (saves.length > 0) {
+    return toEmbeddings(saves);
+  }
+
+  const rows = await db
+    .select({ embedding: transcriptChunk.embedding })
+    .from(signal)
+    .innerJoin(transcriptChunk, eq(signal.chunkId, transcriptChunk.id))
+    .where(
+      and(
+        eq(signal.userId, userId),
+        gte(signal.score, LLM_SAVE_THRESHOLD / 100),
+        isNotNull(transcriptChunk.embedding),
+        ...excludeSource(signal, excludeEpisodeId, excludeArticleId),
+      ),
+    )
+    .orderBy(desc(signal.createdAt))
+    .limit(NOVELTY_HISTORY_LIMIT);
+
+  return toEmbeddings(rows);
+}
+
+function excludeSource(
+  table: typeof signal | typeof chunkFeedback,
+  excludeEpisodeId?: string,
+  excludeArticleId?: string,
+): SQL[] {
+  const exclusions: SQL[] = [];
+  if (excludeEpisodeId) {
+    exclusions.push(
+      or(
+        ne(table.episodeId, excludeEpisodeId),
+        isNotNull(table.articleId),
+      ) as SQL,
+    );
+  }
+  if (excludeArticleId) {
+    exclusions.push(
+      or(
+        ne(table.articleId, excludeArticleId),
+        isNotNull(table.episodeId),
+      ) as SQL,
+    );
+  }
+  return exclusions;
+}
+
+/**
+ * Stage 2: penalize chunks that repeat what the user has already saved.
+ * Returns null when there's nothing to compare against.
+ */
+export function scoreNovelty(
+  embedding: number[] | null,
+  history: number[][],
+): NoveltyResult | null {
+  if (!embedding || history.length === 0) return null;
+
+  const similarities = history
+    .map((saved) => cosineSimilarity(embedding, saved))
+    .sort((a, b) => b - a)
+    .slice(0, NOVELTY_TOP_K);
+
+  const avgSimilarity =
+    similarities.reduce((sum, value) => sum + value, 0) / similarities.length;
+
+  const penalty =
+    history.length >= NOVELTY_MIN_HISTORY
+      ? NOVELTY_PENALTIES.find(
+          (candidate) => avgSimilarity > candidate.minSimilarity,
+        )
+      : undefined;
+
+  return {
+    noveltyScore: Math.max(0, 1 - avgSimilarity),
+    avgSimilarity,
+    adjustment: penalty?.adjustment ?? 0,
+    clusterSize: history.length,
+  };
+}
@@ -0,0 +1,185 @@
+import type { LanguageModel } from "ai";
+import { scoreWithHeuristics } from "./hybrid-heuristics";
+import { judgeHybridBatch } from "./hybrid-judge";
+import { loadNoveltyHistory, scoreNovelty } from "./hybrid-novelty";
+import {
+  type HeuristicResult,
+  type HybridScoreInput,
+  type HybridScoreResult,
+  LENGTH_SKIP_SCORE,
+  LENGTH_SKIP_THRESHOLD,
+  LLM_SAVE_THRESHOLD,
+  type NoveltyResult,
+} from "./hybrid-types";
+import { getTaskModel } from "./model-registry";
+import type { DatabaseClient } from "./transcript-processing";
+
+// Judge scores within this distance of the threshold are flagged for review
+const BORDERLINE_MARGIN = 5;
+
+const countWords = (content: string) =>
+  content.trim().split(/\s+/).filter(Boolean).length;
+
+const clampScore = (value: number) => Math.min(Math.max(value, 0), 100);
+
+function heuristicDiagnostics(heuristic: HeuristicResult) {
+  return {
+    score: heuristic.score,
+    buckets: { ...heuristic.buckets },
+    reasons: heuristic.reasons,
+  };
+}
+
+/**
+ * Run stages 1 and 2 for a chunk. Returns a final result when the chunk is
+ * filtered out, otherwise the pieces the judge needs.
+ */
+function prefilter(
+  input: HybridScoreInput,
+  history: number[][],
+):
+  | { done: HybridScoreResult }
+  | {
+      done: null;
+      content: string;
+      wordCount: number;
+      heuristic: HeuristicResult;
+      novelty: NoveltyResult | null;
+    } {
+  const content = input.content.trim();
+  const wordCount = countWords(content);
+
+  if (wordCount < LENGTH_SKIP_THRESHOLD) {
+    return {
+      done: {
+        score: LENGTH_SKIP_SCORE,
+        pass: false,
+        method: "length",
+        diagnostics: {
+          wordCount,
+          borderline: false,
+          heuristic: null,
+          novelty: null,
+          judge: null,
+        },
+      },
+    };
+  }
+
+  const heuristic = scoreWithHeuristics(content);
+  if (heuristic.fail) {
+    return {
+      done: {
+        score: heuristic.score,
+        pass: false,
+        method: "heuristics",
+        diagnostics: {
+          wordCount,
+          borderline: false,
+          heuristic: heuristicDiagnostics(heuristic),
+          novelty: null,
+          judge: null,
+        },
+      },
+    };
+  }
+
+  return {
+    done: null,
+    content,
+    wordCount,
+    heuristic,
+    novelty: scoreNovelty(input.embedding, history),
+  };
+}
+
+/**
+ * Score a batch of chunks: length gate → heuristic garbage filter → novelty
+ * against the user's past saves → LLM judge for everything that survives.
+ */
+export async function hybridScoreBatchWithNovelty(
+  inputs: HybridScoreInput[],
+  {
+    db,
+    userId,
+    excludeEpisodeId,
+    excludeArticleId,
+  }: {
+    db: DatabaseClient;
+    userId: string;
+    excludeEpisodeId?: string;
+    excludeArticleId?: string;
+  },
+): Promise<HybridScoreResult[]> {
+  const history = await loadNoveltyHistory({
+    db,
+    userId,
+    excludeEpisodeId,
+    excludeArticleId,
+  });
+
+  return hybridScoreBatch(
+    inputs,
+    history,
+    await getTaskModel("judge", {
+      db,
+      userId,
+      episodeId: excludeEpisodeId,
+      articleId: excludeArticleId,
+    }),
+  );
+}
+
+/**
+ * Score a batch of chunks against an already-loaded save history. Pass an
+ * empty history to skip novelty detection. `model` overrides the judge's.
+ */
+export async function hybridScoreBatch(
+  inputs: HybridScoreInput[],
+  history: number[][] = [],
+  model?: LanguageModel,
+): Promise<HybridScoreResult[]> {
+  const stages = inputs.map((input) => prefilter(input, history));
+
+  const judged = await judgeHybridBatch(
+    stages.flatMap((stage) => (stage.done ? [] : [stage.content])),
+    undefined,
+    model,
+  );
+
+  let position = 0;
+  return stages.map((stage) => {
+    if (stage.done) return stage.done;
+
+    const judge = judged[position++];
+    const score = clampScore(judge.score + (stage.novelty?.adjustment ?? 0));
+
+    return {
+      score,
+      pass: score >= LLM_SAVE_THRESHOLD,
+      method: "llm",
+      diagnostics: {
+        wordCount: stage.wordCount,
+        borderline: Math.abs(score - LLM_SAVE_THRESHOLD) <= BORDERLINE_MARGIN,
+        heuristic: heuristicDiagnostics(stage.heuristic),
+        novelty: stage.novelty,
+        judge: {
+          score: judge.score,
+          frameworkClarity: judge.frameworkClarity,
+          insightNovelty: judge.insightNovelty,
+          tacticalSpecificity: judge.tacticalSpecificity,
+          reasoningDepth: judge.reasoningDepth,
+          reasoning: judge.reasoning,
+        },
+      },
+    };
+  });
+}
+
+export async function hybridScore(
+  input: HybridScoreInput,
+  history: number[][] = [],
+): Promise<HybridScoreResult> {
+  const [result] = await hybridScoreBatch([input], history);
+  return result;
+}
@@ -0,0 +1,64 @@
+import type { SignalDiagnostics, SignalMethod } from "@/server/db/schema";
+
+export type ScoringMethod = SignalMethod;
+export type HybridDiagnostics = SignalDiagnostics;
+
+// Stage 1: chunks shorter than this are skipped without scoring
+export const LENGTH_SKIP_THRESHOLD = 80;
+export const LENGTH_SKIP_SCORE = 15;
+
+// Stage 3: LLM overall score (after novelty adjustment) needed to count as a save
+export const LLM_SAVE_THRESHOLD = 60;
+
+// Stage 2: novelty is measured against the user's most recent saves
+export const NOVELTY_HISTORY_LIMIT = 100;
+export const NOVELTY_TOP_K = 10;
+// Cold start protection: no penalty until the user has this many saves
+export const NOVELTY_MIN_HISTORY = 10;
+export const NOVELTY_PENALTIES = [
+  { minSimilarity: 0.75, adjustment: -20 },
+  { minSimilarity: 0.65, adjustment: -15 },
+  { minSimilarity: 0.55, adjustment: -10 },
+] as const;
+
+export interface HeuristicBuckets {
+  framework: number;
+  insight: number;
+  specificity: number;
+  quality: number;
+}
+
+export interface HeuristicResult {
+  score: number; // 0-100
+  /** Heuristics never auto-save; quality is the judge's call */
+  pass: false;
+  /** Garbage (ads, intros/outros) is skipped without an LLM call */
+  fail: boolean;
+  buckets: HeuristicBuckets;
+  reasons: string[];
+  method: "heuristics";
+}
+
+export type NoveltyResult = NonNullable<SignalDiagnostics["novelty"]>;
+
+export interface JudgeResult {
+  score: number; // 0-100
+  frameworkClarity: number;
+  insightNovelty: number;
+  tacticalSpecificity: number;
+  reasoningDepth: number;
+  reasoning: string;
+  method: "llm";
+}
+
+export interface HybridScoreInput {
+  content: string;
+  embedding: number[] | null;
+}
+
+export interface HybridScoreResult {
+  score: number; // 0-100; stored as 0-1
+  pass: boolean;
+  method: ScoringMethod;
+  diagnostics: HybridDiagnostics;
+}
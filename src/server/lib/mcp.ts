@@ -0,0 +1,224 @@
+import { TRPCError } from "@trpc/server";
+import type { createMcpHandler } from "mcp-handler";
+import { z } from "zod";
+import { formatTimecode } from "@/lib/time";
+import type { appRouter } from "@/server/trpc/root";
+
+type McpServer = Parameters<Parameters<typeof createMcpHandler>[0]>[0];
+type LibraryCaller = ReturnType<typeof appRouter.createCaller>;
+
+function jsonResult(data: unknown) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+function errorResult(error: unknown) {
+  const message =
+    error instanceof TRPCError || error instanceof Error
+      ? error.message
+      : "Unknown error";
+  return {
+    content: [{ type: "text" as const, text: message }],
+    isError: true,
+  };
+}
+
+/**
+ * Run a tRPC call and convert its result or error into MCP tool content
+ */
+async function callTool(run: () => Promise<unknown>) {
+  try {
+    return jsonResult(await run());
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+/**
+ * Register the podcast library tools. Every tool goes through the tRPC
+ * caller so ownership checks, rate limits and scopes match the app.
+ */
+export function registerLibraryTools(server: McpServer, caller: LibraryCaller) {
+  server.registerTool(
+    "list_podcasts",
+    {
+      title: "List podcasts",
+      description:
+        "List podcasts in the user's library. Use the returned id with list_episodes.",
+      inputSchema: {
+        query: z.string().optional().describe("Filter by podcast title"),
+        page: z.number().int().min(1).optional(),
+        limit: z.number().int().min(1).max(50).optional(),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    ({ query, page, limit }) =>
+      callTool(async () => {
+        const result = await caller.podcasts.list({
+          query,
+          page: page ?? 1,
+          limit: limit ?? 20,
+          sortBy: "date",
+        });
+        return {
+          podcasts: result.data.map((podcast) => ({
+            id: podcast.id,
+            title: podcast.title,
+            description: podcast.description,
+            feedUrl: podcast.feedUrl,
+          })),
+          pagination: result.pagination,
+        };
+      }),
+  );
+
+  server.registerTool(
+    "list_episodes",
+    {
+      title: "List episodes",
+      description:
+        "List recent episodes, optionally for one podcast. Returns ids, titles, status and whether a summary exists.",
+      inputSchema: {
+        podcastId: z
+          .string()
+          .optional()
+          .describe("Podcast id from list_podcasts"),
+        query: z.string().optional().describe("Filter by title or guest"),
+        limit: z.number().int().min(1).max(50).optional(),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    ({ podcastId, query, limit }) =>
+      callTool(async () => {
+        const episodes = podcastId
+          ? (
+              await caller.podcasts.episodesInfinite({
+                podcastId,
+                query,
+                limit: limit ?? 20,
+              })
+            ).items
+          : query
+            ? await caller.episodes.searchGlobal({
+                query,
+                limit: limit ?? 20,
+              })
+            : await caller.episodes.getEpisodes({ limit: limit ?? 20 });
+
+        return {
+          episodes: episodes.map((item) => ({
+            id: item.id,
+            title: item.title,
+            publishedAt: item.publishedAt,
+            durationSec: item.durationSec,
+            status: "status" in item ? item.status : undefined,
+            hasSummary: "summary" in item ? Boolean(item.summary) : undefined,
+          })),
+        };
+      }),
+  );
+
+  server.registerTool(
+    "search_transcripts",
+    {
+      title: "Search transcripts",
+      description:
+        "Hybrid full-text and semantic search over episode transcripts and summaries. Results include the speaker, a snippet, startTimeSec and an app link.",
+      inputSchema: {
+        query: z.string().min(1),
+        podcastId: z.string().optional(),
+        limit: z.number().int().min(1).max(50).optional(),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    ({ query, podcastId, limit }) =>
+      callTool(async () => {
+        const results = await caller.episodes.searchTranscripts({
+          query,
+          podcastId,
+          limit: limit ?? 10,
+          semantic: true,
+        });
+        return {
+          results: results.map((result) => ({
+            episodeId: result.episodeId,
+            episodeTitle: result.episodeTitle,
+            podcastTitle: result.podcastTitle,
+            source: result.source,
+            speaker: result.speaker,
+            timestamp: formatTimecode(result.startTimeSec),
+            startTimeSec: result.startTimeSec,
+            snippet: result.snippet.map((segment) => segment.text).join(""),
+            link: result.href,
+          })),
+        };
+      }),
+  );
+
+  server.registerTool(
+    "get_summary",
+    {
+      title: "Get episode summary",
+      description:
+        "Fetch the summary of an episode as markdown, plus its structured form with transcript chunk citations when available.",
+      inputSchema: { episodeId: z.string() },
+      annotations: { readOnlyHint: true },
+    },
+    ({ episodeId }) =>
+      callTool(async () => {
+        const summary = await caller.episodes.getSummary({ episodeId });
+        if (!summary) {
+          throw new Error(
+            "No summary yet. Use process_episode to generate one.",
+          );
+        }
+        return {
+          episodeId,
+          markdown: summary.markdownContent,
+          structured: summary.structuredContent,
+          generatedAt: summary.summaryGeneratedAt,
+        };
+      }),
+  );
+
+  server.registerTool(
+    "get_transcript",
+    {
+      title: "Get episode transcript",
+      description:
+        "Fetch an episode transcript as timestamped segments with speaker names.",
+      inputSchema: { episodeId: z.string() },
+      annotations: { readOnlyHint: true },
+    },
+    ({ episodeId }) =>
+      callTool(async () => {
+        const transcript = await caller.episodes.getTranscript({ episodeId });
+        if (transcript.segments.length === 0) {
+          throw new Error(
+            "No transcript yet. Use process_episode to transcribe it.",
+          );
+        }
+        return {
+          ...transcript,
+          segments: transcript.segments.map((segment) => ({
+            ...segment,
+            timestamp: formatTimecode(segment.startTimeSec),
+          })),
+        };
+      }),
+  );
+
+  server.registerTool(
+    "process_episode",
+    {
+      title: "Process episode",
+      description:
+        "Queue an episode for transcription, speaker identification and summarization. Processing runs in the background and usually takes a few minutes.",
+      inputSchema: { episodeId: z.string() },
+      annotations: { readOnlyHint: false, idempotentHint: true },
+    },
+    ({ episodeId }) =>
+      callTool(() => caller.episodes.processEpisode({ episodeId })),
+  );
+}
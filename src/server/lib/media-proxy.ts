@@ -0,0 +1,154 @@
+import { and, eq } from "drizzle-orm";
+import { Innertube } from "youtubei.js";
+import { db } from "@/server/db";
+import { episode } from "@/server/db/schema";
+import { hasApiScope, resolveRequestAuth } from "./api-tokens";
+import { fetchPublicUrl } from "./public-fetch";
+
+export type MediaKind = "audio" | "video";
+
+// Longer than any episode clips are cut from; larger responses are cut off
+const MAX_MEDIA_BYTES: Record<MediaKind, number> = {
+  audio: 500 * 1024 * 1024,
+  video: 2 * 1024 * 1024 * 1024,
+};
+
+// Passed through from the host so range reads and downloads work
+const FORWARDED_HEADERS = [
+  "accept-ranges",
+  "content-length",
+  "content-range",
+  "content-type",
+  "etag",
+  "last-modified",
+];
+
+/**
+ * Direct stream URL for a YouTube video with both audio and video. Stream
+ * URLs expire after a few hours, so they're resolved per request.
+ */
+async function resolveYouTubeStreamUrl(videoId: string): Promise<string> {
+  const youtube = await Innertube.create();
+  const info = await youtube.getBasicInfo(videoId);
+  const format = info.chooseFormat({
+    type: "video+audio",
+    quality: "best",
+    format: "mp4",
+  });
+  return format.decipher(youtube.session.player);
+}
+
+/**
+ * Ends the stream with an error once more than `maxBytes` have passed
+ */
+function capStream(maxBytes: number) {
+  let total = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.byteLength;
+      if (total > maxBytes) {
+        controller.error(new Error(`Media is larger than ${maxBytes} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Most podcast hosts send no CORS headers, so the browser can't read their
+ * media directly. This checks the caller owns the episode, then streams its
+ * audio (the feed enclosure) or video (the matched YouTube video) from the
+ * same origin, forwarding Range so clips only fetch what they need.
+ *
+ * The source URLs come from feeds, so only public hosts are fetched, and
+ * only responses of the requested media type and under the size cap are
+ * passed back.
+ */
+export async function proxyEpisodeMedia(
+  req: Request,
+  episodeId: string,
+  kind: MediaKind,
+): Promise<Response> {
+  const requestAuth = await resolveRequestAuth(req.headers);
+  if (!requestAuth) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!hasApiScope(requestAuth, "read")) {
+    return Response.json(
+      { error: 'API token is missing the "read" scope' },
+      { status: 403 },
+    );
+  }
+
+  const [episodeRecord] = await db
+    .select({
+      audioUrl: episode.audioUrl,
+      youtubeVideoId: episode.youtubeVideoId,
+    })
+    .from(episode)
+    .where(
+      and(eq(episode.id, episodeId), eq(episode.userId, requestAuth.user.id)),
+    )
+    .limit(1);
+
+  const source =
+    kind === "audio" ? episodeRecord?.audioUrl : episodeRecord?.youtubeVideoId;
+  if (!source) {
+    return Response.json({ error: `No ${kind} for episode` }, { status: 404 });
+  }
+
+  const range = req.headers.get("range");
+  let upstream: Response;
+  try {
+    const url =
+      kind === "audio" ? source : await resolveYouTubeStreamUrl(source);
+    upstream = await fetchPublicUrl(url, {
+      headers: range ? { Range: range } : undefined,
+      signal: req.signal,
+    });
+  } catch (error) {
+    console.error(`[MediaProxy] ${kind} for ${episodeId} failed:`, error);
+    return Response.json(
+      { error: `Failed to reach the ${kind} host` },
+      { status: 502 },
+    );
+  }
+
+  if (!upstream.ok || !upstream.body) {
+    await upstream.body?.cancel();
+    return Response.json(
+      { error: `${kind} host returned ${upstream.status}` },
+      { status: upstream.status === 416 ? 416 : 502 },
+    );
+  }
+
+  const contentType = upstream.headers.get("content-type") ?? "";
+  if (!contentType.toLowerCase().startsWith(`${kind}/`)) {
+    await upstream.body.cancel();
+    return Response.json(
+      { error: `${kind} host returned ${contentType || "no content type"}` },
+      { status: 502 },
+    );
+  }
+
+  const maxBytes = MAX_MEDIA_BYTES[kind];
+  if (Number(upstream.headers.get("content-length")) > maxBytes) {
+    await upstream.body.cancel();
+    return Response.json(
+      { error: `${kind} is too large to proxy` },
+      { status: 502 },
+    );
+  }
+
+  const headers = new Headers({ "Cache-Control": "private, max-age=300" });
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  return new Response(upstream.body.pipeThrough(capStream(maxBytes)), {
+    status: upstream.status,
+    headers,
+  });
+}
@@ -0,0 +1,335 @@
+import type { LanguageModel } from "ai";
+import { eq } from "drizzle-orm";
+import { createFakeModel } from "@/ai/fake-model";
+import { local, openai, openrouter } from "@/ai/models";
+import { type ModelTask, userSettings } from "@/server/db/schema/settings";
+import {
+  isUsageProvider,
+  recordUsage,
+  type UsageContext,
+} from "./usage-ledger";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0];
+
+export const MODEL_TASKS = [
+  "summary",
+  "markdown-cleaning",
+  "speaker-id",
+  "chapters",
+  "chat",
+  "judge",
+] as const satisfies readonly ModelTask[];
+
+export interface ModelTaskConfig {
+  label: string;
+  // Registry ids ("provider:model"), tried in order
+  models: string[];
+  // Per attempt; for streams, only until the stream starts
+  timeoutMs: number;
+}
+
+export const modelTasks: Record<ModelTask, ModelTaskConfig> = {
+  summary: {
+    label: "Summaries",
+    models: ["openrouter:openai/gpt-5-nano", "openrouter:x-ai/grok-4-fast"],
+    timeoutMs: 180_000,
+  },
+  "markdown-cleaning": {
+    label: "Article cleanup",
+    models: ["openrouter:x-ai/grok-4-fast", "openrouter:openai/gpt-5-nano"],
+    timeoutMs: 90_000,
+  },
+  "speaker-id": {
+    label: "Speaker identification",
+    models: ["openrouter:x-ai/grok-4-fast", "openrouter:openai/gpt-5-nano"],
+    timeoutMs: 60_000,
+  },
+  chapters: {
+    label: "Chapters",
+    models: ["openrouter:x-ai/grok-4-fast", "openrouter:openai/gpt-5-nano"],
+    timeoutMs: 90_000,
+  },
+  chat: {
+    label: "Chat",
+    models: ["openrouter:x-ai/grok-4-fast", "openrouter:openai/gpt-5-nano"],
+    timeoutMs: 30_000,
+  },
+  judge: {
+    label: "Signal scoring",
+    models: ["openrouter:x-ai/grok-4-fast", "openrouter:openai/gpt-5-nano"],
+    timeoutMs: 60_000,
+  },
+};
+
+// Local models only run where the server has one configured
+const localModelsEnabled = () => Boolean(process.env.LOCAL_LLM_BASE_URL);
+
+// The fake model is for tests and offline runs, never production
+const fakeModelEnabled = () => process.env.NODE_ENV !== "production";
+
+function isModelEnabled(id: string) {
+  switch (parseModelId(id).provider) {
+    case "local":
+      return localModelsEnabled();
+    case "fake":
+      return fakeModelEnabled();
+    default:
+      return true;
+  }
+}
+
+function envList(name: string): string[] {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+// "chat" -> LLM_MODELS_CHAT, "speaker-id" -> LLM_MODELS_SPEAKER_ID
+function taskEnvName(task: ModelTask) {
+  return `LLM_MODELS_${task.toUpperCase().replace(/-/g, "_")}`;
+}
+
+/**
+ * Split a registry id into provider and model name. Only the first colon
+ * counts, so local models like "local:llama3.1:8b" keep their tag.
+ */
+export function parseModelId(id: string) {
+  const separator = id.indexOf(":");
+  return separator === -1
+    ? { provider: id, name: "" }
+    : { provider: id.slice(0, separator), name: id.slice(separator + 1) };
+}
+
+export function createModel(id: string): LanguageModelV2 {
+  const { provider, name } = parseModelId(id);
+  switch (provider) {
+    case "openrouter":
+      return openrouter(name);
+    case "openai":
+      return openai(name);
+    case "local":
+      if (!localModelsEnabled()) {
+        throw new Error(
+          `Local model "${id}" needs LOCAL_LLM_BASE_URL to be set`,
+        );
+      }
+      return local(name);
+    case "fake":
+      if (!fakeModelEnabled()) {
+        throw new Error(`Fake model "${id}" can't be used in production`);
+      }
+      return createFakeModel(id);
+    default:
+      throw new Error(`Unknown model provider "${provider}" in "${id}"`);
+  }
+}
+
+/**
+ * Models a task tries, in order:
+ * 1. `LLM_MODEL_OVERRIDE` replaces everything (e.g. "fake" in tests)
+ * 2. The user's override for the task
+ * 3. `LLM_MODELS_<TASK>`, comma-separated, or the task's defaults
+ *
+ * Local models are dropped from 2 and 3 unless local models are enabled, and
+ * the fake model in production, falling back to the defaults when nothing
+ * else is left.
+ */
+export function resolveTaskModelIds(
+  task: ModelTask,
+  userOverride?: string | null,
+): string[] {
+  const forced = process.env.LLM_MODEL_OVERRIDE?.trim();
+  if (forced) return [forced];
+
+  const configured = envList(taskEnvName(task)).filter(isModelEnabled);
+  const models = configured.length > 0 ? configured : modelTasks[task].models;
+  const override =
+    userOverride && isModelEnabled(userOverride) ? userOverride : null;
+
+  return [...new Set(override ? [override, ...models] : models)];
+}
+
+/**
+ * Models users can pick as overrides: every model a task uses, plus local
+ * ones listed in `LOCAL_LLM_MODELS` when `LOCAL_LLM_BASE_URL` is set, plus
+ * `fake` outside production
+ */
+export function availableModelIds(): string[] {
+  const ids = MODEL_TASKS.flatMap((task) => resolveTaskModelIds(task));
+
+  if (localModelsEnabled()) {
+    ids.push(...envList("LOCAL_LLM_MODELS").map((name) => `local:${name}`));
+  }
+
+  if (fakeModelEnabled()) {
+    ids.push("fake");
+  }
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Run one model call against each model in turn until one succeeds. Each
+ * attempt gets the task's timeout; a caller abort stops the chain.
+ */
+async function callWithFallbacks<T>(
+  task: ModelTask,
+  models: { id: string; model: LanguageModelV2 }[],
+  options: CallOptions,
+  call: (model: LanguageModelV2, options: CallOptions) => PromiseLike<T>,
+): Promise<{ id: string; result: T }> {
+  const { timeoutMs } = modelTasks[task];
+  let lastError: unknown;
+
+  for (const [index, { id, model }] of models.entries()) {
+    options.abortSignal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const signal = options.abortSignal
+      ? AbortSignal.any([options.abortSignal, controller.signal])
+      : controller.signal;
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new Error(`${id} timed out after ${timeoutMs / 1000}s`),
+        ),
+      timeoutMs,
+    );
+
+    try {
+      const result = await call(model, {
+        ...options,
+        abortSignal: signal,
+      });
+      return { id, result };
+    } catch (error) {
+      if (options.abortSignal?.aborted) throw error;
+      lastError = error;
+
+      const next = models[index + 1];
+      if (next) {
+        console.warn(
+          `[Models] ${task}: ${id} failed, falling back to ${next.id}:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * A model that tries each of `ids` in turn. Responses report the registry id
+ * of the model that answered as their model id. With a usage context, each
+ * answered call is added to the usage ledger.
+ */
+function fallbackModel(
+  task: ModelTask,
+  ids: string[],
+  usage?: UsageContext,
+): LanguageModelV2 {
+  const models = ids.map((id) => ({ id, model: createModel(id) }));
+
+  const record = async (
+    id: string,
+    tokens: { inputTokens?: number; outputTokens?: number },
+  ) => {
+    const { provider, name } = parseModelId(id);
+    // createModel only builds models for providers the ledger knows
+    if (!usage || !isUsageProvider(provider)) return;
+    await recordUsage(usage, {
+      provider,
+      model: name || null,
+      task,
+      inputTokens: tokens.inputTokens,
+      outputTokens: tokens.outputTokens,
+    });
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "registry",
+    modelId: ids[0],
+    supportedUrls: models[0].model.supportedUrls,
+
+    async doGenerate(options) {
+      const { id, result } = await callWithFallbacks(
+        task,
+        models,
+        options,
+        (model, attempt) => model.doGenerate(attempt),
+      );
+      await record(id, result.usage);
+      return { ...result, response: { ...result.response, modelId: id } };
+    },
+
+    async doStream(options) {
+      const { id, result } = await callWithFallbacks(
+        task,
+        models,
+        options,
+        (model, attempt) => model.doStream(attempt),
+      );
+      return {
+        ...result,
+        stream: result.stream.pipeThrough(
+          new TransformStream({
+            async transform(part, controller) {
+              if (part.type === "finish") {
+                await record(id, part.usage);
+              }
+              controller.enqueue(
+                part.type === "response-metadata"
+                  ? { ...part, modelId: id }
+                  : part,
+              );
+            },
+          }),
+        ),
+      };
+    },
+  };
+}
+
+/**
+ * The model for a task from the environment and app defaults. Pass a user's
+ * override to try it first; use `getTaskModel` to look it up.
+ */
+export function taskModel(
+  task: ModelTask,
+  userOverride?: string | null,
+): LanguageModelV2 {
+  return fallbackModel(task, resolveTaskModelIds(task, userOverride));
+}
+
+/**
+ * The model for a task with the user's override from `/preferences` first.
+ * Overrides that are no longer available are ignored. Calls are recorded in
+ * the user's usage ledger against the episode or article, if given.
+ */
+export async function getTaskModel(
+  task: ModelTask,
+  usage: UsageContext,
+): Promise<LanguageModelV2> {
+  const { db, userId } = usage;
+  const [settings] = await db
+    .select({ modelOverrides: userSettings.modelOverrides })
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+
+  const override = settings?.modelOverrides?.[task];
+  return fallbackModel(
+    task,
+    resolveTaskModelIds(
+      task,
+      override && availableModelIds().includes(override) ? override : null,
+    ),
+    usage,
+  );
+}
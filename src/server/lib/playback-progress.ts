@@ -0,0 +1,191 @@
+import { randomUUID } from "node:crypto";
+import { and, eq, type SQL, sql } from "drizzle-orm";
+import { z } from "zod";
+import {
+  PLAYBACK_COMPLETE_RATIO,
+  PLAYBACK_RESUME_MIN_SEC,
+  PLAYBACK_STATES,
+  type PlaybackState,
+} from "@/lib/playback";
+import { episode, playbackProgress } from "@/server/db/schema";
+import type { DatabaseClient } from "./transcript-processing";
+
+// Shared by the episode list procedures
+export const playbackFilterSchema = z
+  .object({
+    state: z.enum(PLAYBACK_STATES).optional(),
+    // Inclusive completion bounds, 0-100
+    minCompletion: z.number().min(0).max(100).optional(),
+    maxCompletion: z.number().min(0).max(100).optional(),
+  })
+  .refine(
+    (filter) =>
+      filter.minCompletion === undefined ||
+      filter.maxCompletion === undefined ||
+      filter.minCompletion <= filter.maxCompletion,
+    { message: "minCompletion must not exceed maxCompletion" },
+  );
+
+export type PlaybackFilter = z.infer<typeof playbackFilterSchema>;
+
+// The subqueries spell out playback_progress columns: relational queries
+// rewrite every column reference in a where-clause to the root table alias.
+function progressForEpisode(userId: string) {
+  return sql`pp.episode_id = ${episode.id} and pp.user_id = ${userId}`;
+}
+const IN_PROGRESS = sql.raw(
+  `(pp.completed_at is null and pp.position_sec >= ${PLAYBACK_RESUME_MIN_SEC})`,
+);
+
+/**
+ * Completion percentage of the current row of `episode` for a user, as a
+ * correlated subquery. Episodes without progress are 0.
+ */
+export function completionPercentSql(userId: string): SQL<number> {
+  return sql<number>`coalesce((
+    select case
+      when pp.completed_at is not null then 100
+      when coalesce(pp.duration_sec, ${episode.durationSec}) > 0
+        then least(100, pp.position_sec * 100 / coalesce(pp.duration_sec, ${episode.durationSec}))
+      else 0
+    end
+    from playback_progress pp
+    where ${progressForEpisode(userId)}
+  ), 0)`;
+}
+
+function playbackStateCondition(state: PlaybackState, userId: string) {
+  const progressFor = progressForEpisode(userId);
+
+  switch (state) {
+    case "played":
+      return sql`exists (select 1 from playback_progress pp where ${progressFor} and pp.completed_at is not null)`;
+    case "in_progress":
+      return sql`exists (select 1 from playback_progress pp where ${progressFor} and ${IN_PROGRESS})`;
+    case "unplayed":
+      return sql`not exists (select 1 from playback_progress pp where ${progressFor} and (pp.completed_at is not null or ${IN_PROGRESS}))`;
+  }
+}
+
+/**
+ * Where-clause for episode queries, undefined when the filter is empty
+ */
+export function playbackFilterCondition(
+  filter: PlaybackFilter | undefined,
+  userId: string,
+): SQL | undefined {
+  if (!filter) return undefined;
+
+  const conditions: SQL[] = [];
+  if (filter.state) {
+    conditions.push(playbackStateCondition(filter.state, userId));
+  }
+  if (filter.minCompletion !== undefined) {
+    conditions.push(
+      sql`${completionPercentSql(userId)} >= ${filter.minCompletion}`,
+    );
+  }
+  if (filter.maxCompletion !== undefined) {
+    conditions.push(
+      sql`${completionPercentSql(userId)} <= ${filter.maxCompletion}`,
+    );
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Upsert a position checkpoint. Reaching the end, or close enough to it,
+ * marks the episode played.
+ */
+export async function saveProgress({
+  db,
+  userId,
+  episodeId,
+  positionSec,
+  durationSec,
+  ended = false,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  episodeId: string;
+  positionSec: number;
+  durationSec?: number | null;
+  ended?: boolean;
+}) {
+  const now = new Date();
+  const completed =
+    ended ||
+    (!!durationSec && positionSec >= durationSec * PLAYBACK_COMPLETE_RATIO);
+
+  const [row] = await db
+    .insert(playbackProgress)
+    .values({
+      id: randomUUID(),
+      userId,
+      episodeId,
+      positionSec,
+      durationSec: durationSec ?? null,
+      completedAt: completed ? now : null,
+      lastPlayedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [playbackProgress.userId, playbackProgress.episodeId],
+      set: {
+        positionSec,
+        durationSec: sql`coalesce(excluded.duration_sec, ${playbackProgress.durationSec})`,
+        lastPlayedAt: now,
+        ...(completed
+          ? {
+              completedAt: sql`coalesce(${playbackProgress.completedAt}, now())`,
+            }
+          : {}),
+      },
+    })
+    .returning();
+
+  return row;
+}
+
+/**
+ * Mark an episode played, or unplayed by forgetting its progress, which also
+ * drops it from history
+ */
+export async function setPlayed({
+  db,
+  userId,
+  episodeId,
+  played,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  episodeId: string;
+  played: boolean;
+}) {
+  if (!played) {
+    await db
+      .delete(playbackProgress)
+      .where(
+        and(
+          eq(playbackProgress.userId, userId),
+          eq(playbackProgress.episodeId, episodeId),
+        ),
+      );
+    return;
+  }
+
+  const now = new Date();
+  await db
+    .insert(playbackProgress)
+    .values({
+      id: randomUUID(),
+      userId,
+      episodeId,
+      completedAt: now,
+      lastPlayedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [playbackProgress.userId, playbackProgress.episodeId],
+      set: { completedAt: now },
+    });
+}
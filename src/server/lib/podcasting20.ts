@@ -0,0 +1,109 @@
+import type Parser from "rss-parser";
+import type {
+  PodcastPerson,
+  PublisherTranscript,
+} from "@/server/db/schema/podcast";
+
+type PodcastCustomFields = Parser.CustomFields<
+  Record<string, unknown>,
+  Record<string, unknown>
+>;
+
+/**
+ * rss-parser custom fields for the Podcasting 2.0 `podcast:` namespace.
+ * Everything uses keepArray: without it rss-parser collapses a tag with text
+ * content to that text and drops its attributes.
+ */
+export const PODCAST_NAMESPACE_CUSTOM_FIELDS: PodcastCustomFields = {
+  // @ts-expect-error rss-parser's types only allow plain names for feed
+  // fields, but it handles the same [from, to, options] form as items
+  feed: [["podcast:person", "podcastPersons", { keepArray: true }]],
+  item: [
+    ["podcast:transcript", "podcastTranscripts", { keepArray: true }],
+    ["podcast:chapters", "podcastChapters", { keepArray: true }],
+    ["podcast:person", "podcastPersons", { keepArray: true }],
+    ["podcast:season", "podcastSeason", { keepArray: true }],
+  ],
+};
+
+// xml2js output: a bare string, or `_` for text and `$` for attributes
+type XmlNode = string | { _?: string; $?: Record<string, string | undefined> };
+
+export interface PodcastNamespaceFields {
+  publisherTranscripts: PublisherTranscript[] | null;
+  chaptersUrl: string | null;
+  persons: PodcastPerson[] | null;
+  seasonNumber: number | null;
+  seasonName: string | null;
+}
+
+const nodes = (value: unknown): XmlNode[] =>
+  Array.isArray(value) ? (value as XmlNode[]) : [];
+
+const attributes = (node: XmlNode) =>
+  typeof node === "object" && node.$ ? node.$ : {};
+
+const text = (node: XmlNode) =>
+  (typeof node === "string" ? node : (node._ ?? "")).trim();
+
+function parsePersons(value: unknown): PodcastPerson[] {
+  return nodes(value).flatMap((node) => {
+    const name = text(node);
+    if (!name) return [];
+
+    const { role, group, img, href } = attributes(node);
+    return [
+      {
+        name,
+        // The spec defaults a missing role to "host"
+        role: role?.trim().toLowerCase() || "host",
+        group: group?.trim().toLowerCase() || undefined,
+        img: img || undefined,
+        href: href || undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Pull the `podcast:` tags we store off a parsed feed item. Channel-level
+ * persons apply to every item that doesn't list its own.
+ */
+export function extractPodcastNamespaceFields(
+  item: Record<string, unknown>,
+  feed?: Record<string, unknown>,
+): PodcastNamespaceFields {
+  const publisherTranscripts = nodes(item.podcastTranscripts).flatMap(
+    (node) => {
+      const { url, type, language, rel } = attributes(node);
+      if (!url || !type) return [];
+      return [
+        {
+          url,
+          type: type.trim().toLowerCase(),
+          language: language || undefined,
+          rel: rel || undefined,
+        },
+      ];
+    },
+  );
+
+  const [chapters] = nodes(item.podcastChapters);
+  const chaptersUrl = chapters ? attributes(chapters).url || null : null;
+
+  const itemPersons = parsePersons(item.podcastPersons);
+  const persons =
+    itemPersons.length > 0 ? itemPersons : parsePersons(feed?.podcastPersons);
+
+  const [season] = nodes(item.podcastSeason);
+  const seasonNumber = season ? Number.parseInt(text(season), 10) : Number.NaN;
+
+  return {
+    publisherTranscripts:
+      publisherTranscripts.length > 0 ? publisherTranscripts : null,
+    chaptersUrl,
+    persons: persons.length > 0 ? persons : null,
+    seasonNumber: Number.isNaN(seasonNumber) ? null : seasonNumber,
+    seasonName: season ? attributes(season).name?.trim() || null : null,
+  };
+}
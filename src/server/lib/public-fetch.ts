@@ -0,0 +1,88 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIPv4, isIPv6 } from "node:net";
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254),
+// shared, reserved and multicast ranges. Nothing a feed should point at.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// BlockList also matches IPv4-mapped IPv6 ("::ffff:127.0.0.1") against the
+// IPv4 ranges
+function isBlockedAddress(address: string): boolean {
+  if (isIPv4(address)) return blockedAddresses.check(address, "ipv4");
+  if (isIPv6(address)) return blockedAddresses.check(address, "ipv6");
+  return true;
+}
+
+/**
+ * Throw unless `url` is http(s) and every address its host resolves to is
+ * public
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Refusing to fetch ${url.protocol} URL`);
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => isBlockedAddress(address))
+  ) {
+    throw new Error(`Refusing to fetch ${url.hostname}: not a public host`);
+  }
+}
+
+/**
+ * `fetch` for URLs that come from feeds or other users. Each hop, redirects
+ * included, must be a public http(s) host, so the server can't be pointed
+ * at itself, its network or cloud metadata. DNS rebinding between the
+ * check and the connection isn't covered.
+ */
+export async function fetchPublicUrl(
+  input: string | URL,
+  init: Omit<RequestInit, "redirect"> = {},
+): Promise<Response> {
+  let url = new URL(input);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(url);
+
+    const response = await fetch(url, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    url = new URL(location, url);
+  }
+
+  throw new Error(`Too many redirects fetching ${input}`);
+}
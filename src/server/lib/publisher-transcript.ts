@@ -0,0 +1,349 @@
+import { nanoid } from "nanoid";
+import type { PublisherTranscript } from "@/server/db/schema/podcast";
+import type { TranscriptData, TranscriptUtterance } from "@/types/transcript";
+
+export type PublisherTranscriptFormat = "json" | "vtt" | "srt" | "html";
+
+// Best format first: JSON and VTT carry speakers and exact timings,
+// HTML only has start times
+const FORMAT_PREFERENCE: PublisherTranscriptFormat[] = [
+  "json",
+  "vtt",
+  "srt",
+  "html",
+];
+
+const FORMATS_BY_MIME_TYPE: Record<string, PublisherTranscriptFormat> = {
+  "application/json": "json",
+  "text/vtt": "vtt",
+  "application/x-subrip": "srt",
+  "application/srt": "srt",
+  "text/srt": "srt",
+  "text/html": "html",
+};
+
+// Same grouping rule as YouTube captions
+const UTTERANCE_GAP_THRESHOLD_SEC = 1.5;
+
+// HTML transcripts have no end times; the last cue gets this much per word
+const SECONDS_PER_WORD = 0.4;
+
+interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface PublisherTranscriptResult {
+  utterances: TranscriptData;
+  // Names by speaker index, empty when the file doesn't label speakers
+  speakerNames: string[];
+}
+
+export function getPublisherTranscriptFormat(
+  transcript: PublisherTranscript,
+): PublisherTranscriptFormat | null {
+  const mimeType = transcript.type.split(";")[0].trim();
+  return FORMATS_BY_MIME_TYPE[mimeType] ?? null;
+}
+
+/**
+ * The transcript to use out of an item's `podcast:transcript` tags, or null
+ * when none is in a format we can convert (e.g. text/plain has no timings)
+ */
+export function pickPublisherTranscript(
+  transcripts: PublisherTranscript[] | null | undefined,
+): (PublisherTranscript & { format: PublisherTranscriptFormat }) | null {
+  const candidates = (transcripts ?? []).flatMap((transcript) => {
+    const format = getPublisherTranscriptFormat(transcript);
+    return format ? [{ ...transcript, format }] : [];
+  });
+
+  candidates.sort(
+    (a, b) =>
+      FORMAT_PREFERENCE.indexOf(a.format) - FORMAT_PREFERENCE.indexOf(b.format),
+  );
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Parse "01:02:03,456", "02:03.456" or "1:02:03" into seconds
+ */
+function parseTimestamp(value: string): number {
+  return value
+    .trim()
+    .replace(",", ".")
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const stripTags = (value: string) =>
+  decodeEntities(value.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+
+// "Jane:", "Jane Doe:" or "Dr. Jane Doe:"; every word capitalised
+const SPEAKER_PREFIX = /^([A-Z][\w.'-]*(?: [A-Z][\w.'-]*){0,2}):\s+(.+)$/;
+
+// A prefix has to label this many cues to count as a speaker, so one-off
+// "Note:" or "Update:" lines stay text
+const MIN_SPEAKER_PREFIX_CUES = 2;
+
+/**
+ * SRT has no speaker markup; publishers conventionally prefix the cue with
+ * "Name:". Only prefixes in `speakers` are split off.
+ */
+function splitSpeakerPrefix(
+  text: string,
+  speakers: Set<string>,
+): { speaker?: string; text: string } {
+  const match = text.match(SPEAKER_PREFIX);
+  return match && speakers.has(match[1])
+    ? { speaker: match[1], text: match[2] }
+    : { text };
+}
+
+/**
+ * "Name:" prefixes that recur often enough to be speakers
+ */
+function findSpeakerPrefixes(texts: string[]): Set<string> {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    const prefix = text.match(SPEAKER_PREFIX)?.[1];
+    if (prefix) counts.set(prefix, (counts.get(prefix) ?? 0) + 1);
+  }
+  return new Set(
+    [...counts]
+      .filter(([, count]) => count >= MIN_SPEAKER_PREFIX_CUES)
+      .map(([prefix]) => prefix),
+  );
+}
+
+const TIMING_LINE = /^\s*([\d:.,]+)\s+-->\s+([\d:.,]+)/;
+
+/**
+ * SRT and VTT share the "start --> end" cue layout. VTT speakers come from
+ * `<v Name>` voice spans, SRT speakers from a recurring "Name:" prefix.
+ * Either is often only on the first cue of a turn, so unlabelled cues keep
+ * the last speaker.
+ */
+function parseTimedCues(raw: string, format: "srt" | "vtt"): TranscriptCue[] {
+  const blocks = raw
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .flatMap((block) => {
+      const lines = block.split("\n");
+      const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+      if (timingIndex === -1) return []; // WEBVTT header, NOTE, STYLE, ...
+
+      const [, start, end] = lines[timingIndex].match(TIMING_LINE) ?? [];
+      const body = lines
+        .slice(timingIndex + 1)
+        .join(" ")
+        .trim();
+      return body ? [{ start, end, body }] : [];
+    });
+
+  const speakerPrefixes =
+    format === "srt"
+      ? findSpeakerPrefixes(blocks.map(({ body }) => stripTags(body)))
+      : new Set<string>();
+
+  const cues: TranscriptCue[] = [];
+  let lastSpeaker: string | undefined;
+
+  for (const { start, end, body } of blocks) {
+    let speaker: string | undefined;
+    let text: string;
+    if (format === "vtt") {
+      speaker = body.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/)?.[1]?.trim();
+      text = stripTags(body);
+    } else {
+      ({ speaker, text } = splitSpeakerPrefix(
+        stripTags(body),
+        speakerPrefixes,
+      ));
+    }
+
+    lastSpeaker = speaker ?? lastSpeaker;
+    if (text) {
+      cues.push({
+        start: parseTimestamp(start),
+        end: parseTimestamp(end),
+        text,
+        speaker: lastSpeaker,
+      });
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * The Podcasting 2.0 JSON format:
+ * `{ segments: [{ speaker, startTime, endTime, body }] }`
+ */
+function parseJsonCues(raw: string): TranscriptCue[] {
+  const parsed = JSON.parse(raw) as {
+    segments?: {
+      speaker?: string;
+      startTime?: number;
+      endTime?: number;
+      body?: string;
+    }[];
+  };
+
+  return (parsed.segments ?? []).flatMap((segment) => {
+    const text = segment.body?.trim();
+    if (!text || typeof segment.startTime !== "number") return [];
+    return [
+      {
+        start: segment.startTime,
+        end: segment.endTime ?? segment.startTime,
+        text,
+        speaker: segment.speaker?.trim() || undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * The Podcasting 2.0 HTML format: `<cite>Name:</cite>`, `<time>0:00</time>`
+ * and `<p>text</p>` in document order. Cues end where the next one starts.
+ */
+function parseHtmlCues(raw: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  let speaker: string | undefined;
+  let start = 0;
+
+  for (const [, tag, content] of raw.matchAll(
+    /<(cite|time|p)\b[^>]*>([\s\S]*?)<\/\1>/gi,
+  )) {
+    const value = stripTags(content);
+    switch (tag.toLowerCase()) {
+      case "cite":
+        speaker = value.replace(/:$/, "").trim() || undefined;
+        break;
+      case "time":
+        start = parseTimestamp(value);
+        break;
+      default:
+        if (value) cues.push({ start, end: start, text: value, speaker });
+    }
+  }
+
+  return cues.map((cue, index) => ({
+    ...cue,
+    end:
+      cues[index + 1]?.start ??
+      cue.start + cue.text.split(/\s+/).length * SECONDS_PER_WORD,
+  }));
+}
+
+/**
+ * Group cues into Deepgram-style utterances: consecutive cues from the same
+ * speaker with short gaps become one utterance. Speaker names are numbered
+ * in order of first appearance; unlabelled cues have no speaker, so their
+ * text isn't credited to anyone.
+ */
+function cuesToTranscript(cues: TranscriptCue[]): PublisherTranscriptResult {
+  const speakerNames: string[] = [];
+  const utterances: TranscriptUtterance[] = [];
+
+  const speakerIndex = (name?: string) => {
+    if (!name) return undefined;
+    const index = speakerNames.indexOf(name);
+    if (index !== -1) return index;
+    speakerNames.push(name);
+    return speakerNames.length - 1;
+  };
+
+  let previous: TranscriptCue | null = null;
+
+  for (const cue of cues) {
+    const speaker = speakerIndex(cue.speaker);
+    const words = cue.text.split(/\s+/);
+    const durationPerWord = (cue.end - cue.start) / words.length;
+    const wordObjects = words.map((word, index) => ({
+      word,
+      start: cue.start + index * durationPerWord,
+      end: cue.start + (index + 1) * durationPerWord,
+      confidence: 1.0,
+      punctuated_word: word,
+      speaker,
+    }));
+
+    const current = utterances.at(-1);
+    const continues =
+      current &&
+      previous &&
+      current.speaker === speaker &&
+      cue.start - previous.end <= UTTERANCE_GAP_THRESHOLD_SEC;
+
+    if (continues) {
+      current.end = cue.end;
+      current.transcript += ` ${cue.text}`;
+      current.words.push(...wordObjects);
+    } else {
+      utterances.push({
+        id: nanoid(),
+        start: cue.start,
+        end: cue.end,
+        confidence: 1.0,
+        channel: 0,
+        transcript: cue.text,
+        words: wordObjects,
+        speaker,
+      });
+    }
+
+    previous = cue;
+  }
+
+  return { utterances, speakerNames };
+}
+
+export function convertPublisherTranscript(
+  raw: string,
+  format: PublisherTranscriptFormat,
+): PublisherTranscriptResult {
+  switch (format) {
+    case "json":
+      return cuesToTranscript(parseJsonCues(raw));
+    case "vtt":
+    case "srt":
+      return cuesToTranscript(parseTimedCues(raw, format));
+    case "html":
+      return cuesToTranscript(parseHtmlCues(raw));
+  }
+}
+
+/**
+ * Download and convert the best transcript an episode's feed links to
+ */
+export async function fetchPublisherTranscript(
+  transcripts: PublisherTranscript[] | null | undefined,
+): Promise<PublisherTranscriptResult | null> {
+  const transcript = pickPublisherTranscript(transcripts);
+  if (!transcript) return null;
+
+  const response = await fetch(transcript.url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch publisher transcript: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  return convertPublisherTranscript(await response.text(), transcript.format);
+}
@@ -107,29 +107,36 @@ export function learnQualityPreferences(
   return weights as Record<keyof QualityFeatures, number>;
 }
 
+export interface QualityContribution {
+  feature: keyof QualityFeatures;
+  value: number | boolean;
+  weight: number;
+  contribution: number;
+}
+
 /**
- * Score a chunk based on learned quality preferences
- * Returns a score from 0 to 1
+ * Per-feature contribution to the quality score, used by `scoreQuality` and
+ * to explain a score to the user
  */
-export function scoreQuality(
+export function explainQuality(
   features: QualityFeatures,
   preferences: Record<keyof QualityFeatures, number>,
-): number {
-  let score = 0;
-  let totalFeatures = 0;
+): QualityContribution[] {
+  const contributions: QualityContribution[] = [];
 
   for (const [key, prefWeight] of Object.entries(preferences)) {
-    const featureValue = features[key as keyof QualityFeatures];
+    const feature = key as keyof QualityFeatures;
+    const featureValue = features[feature];
+    let contribution = 0;
 
     if (typeof featureValue === "boolean") {
       // Boolean features: add weight if present
       if (featureValue && prefWeight > 0) {
-        score += prefWeight;
+        contribution = prefWeight;
       } else if (!featureValue && prefWeight < 0) {
         // Absence of negatively-weighted feature is good
-        score += Math.abs(prefWeight);
+        contribution = Math.abs(prefWeight);
       }
-      totalFeatures++;
     } else {
       // Numeric features: scale based on typical ranges
       let normalized = 0;
@@ -146,17 +153,38 @@ export function scoreQuality(
       }
 
       if (prefWeight > 0) {
-        score += normalized * prefWeight;
+        contribution = normalized * prefWeight;
       } else {
         // For negative preferences, invert the score
-        score += (1 - normalized) * Math.abs(prefWeight);
+        contribution = (1 - normalized) * Math.abs(prefWeight);
       }
-      totalFeatures++;
     }
+
+    contributions.push({
+      feature,
+      value: featureValue,
+      weight: prefWeight,
+      contribution,
+    });
   }
 
+  return contributions;
+}
+
+/**
+ * Score a chunk based on learned quality preferences
+ * Returns a score from 0 to 1
+ */
+export function scoreQuality(
+  features: QualityFeatures,
+  preferences: Record<keyof QualityFeatures, number>,
+): number {
+  const contributions = explainQuality(features, preferences);
+  const score = contributions.reduce((sum, item) => sum + item.contribution, 0);
+
   // Average score across all features, then normalize to 0-1
-  const avgScore = totalFeatures > 0 ? score / totalFeatures : 0.5;
+  const avgScore =
+    contributions.length > 0 ? score / contributions.length : 0.5;
 
   // Clamp to 0-1 range
   return Math.max(0, Math.min(1, avgScore));
@@ -0,0 +1,246 @@
+import { randomUUID } from "node:crypto";
+import { and, eq, gt, isNull, or } from "drizzle-orm";
+import {
+  article,
+  chunkFeedback,
+  episode,
+  type FeedbackAction,
+  signal,
+  transcriptChunk,
+  userQualityPreferences,
+} from "@/server/db/schema";
+import {
+  explainQuality,
+  extractQualityFeatures,
+  learnQualityPreferences,
+  type QualityFeatures,
+  scoreQuality,
+} from "./quality-features";
+import type { DatabaseClient } from "./transcript-processing";
+
+export type QualityWeights = Record<keyof QualityFeatures, number>;
+
+// Learning from a handful of labels just memorizes them
+export const MIN_FEEDBACK_PER_LABEL = 5;
+
+// Share of the final signal score that comes from learned preferences
+export const PREFERENCE_BLEND = 0.2;
+
+/**
+ * Store a save/skip label for a chunk the user owns. Passing `action: null`
+ * removes the label.
+ */
+export async function recordChunkFeedback({
+  db,
+  userId,
+  chunkId,
+  action,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  chunkId: string;
+  action: FeedbackAction | null;
+}) {
+  const [chunk] = await db
+    .select({
+      id: transcriptChunk.id,
+      content: transcriptChunk.content,
+      episodeId: transcriptChunk.episodeId,
+      articleId: transcriptChunk.articleId,
+      episodeUserId: episode.userId,
+      articleUserId: article.userId,
+    })
+    .from(transcriptChunk)
+    .leftJoin(episode, eq(transcriptChunk.episodeId, episode.id))
+    .leftJoin(article, eq(transcriptChunk.articleId, article.id))
+    .where(eq(transcriptChunk.id, chunkId))
+    .limit(1);
+
+  if (
+    !chunk ||
+    (chunk.episodeUserId !== userId && chunk.articleUserId !== userId)
+  ) {
+    return null;
+  }
+
+  if (action === null) {
+    await db
+      .delete(chunkFeedback)
+      .where(
+        and(
+          eq(chunkFeedback.userId, userId),
+          eq(chunkFeedback.chunkId, chunkId),
+        ),
+      );
+    return { chunkId, action: null };
+  }
+
+  const [signalRow] = await db
+    .select({ id: signal.id })
+    .from(signal)
+    .where(and(eq(signal.userId, userId), eq(signal.chunkId, chunkId)))
+    .limit(1);
+
+  await db
+    .insert(chunkFeedback)
+    .values({
+      id: randomUUID(),
+      userId,
+      chunkId,
+      signalId: signalRow?.id ?? null,
+      episodeId: chunk.episodeId,
+      articleId: chunk.articleId,
+      action,
+      content: chunk.content,
+    })
+    .onConflictDoUpdate({
+      target: [chunkFeedback.userId, chunkFeedback.chunkId],
+      set: { action, signalId: signalRow?.id ?? null },
+    });
+
+  return { chunkId, action };
+}
+
+export async function getQualityPreferences({
+  db,
+  userId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+}) {
+  const [row] = await db
+    .select()
+    .from(userQualityPreferences)
+    .where(eq(userQualityPreferences.userId, userId))
+    .limit(1);
+
+  if (!row) return null;
+  return { ...row, weights: row.weights as QualityWeights };
+}
+
+/**
+ * Relearn a user's weights from all of their labels. Users without enough
+ * saves and skips get their weights cleared rather than a noisy model.
+ */
+export async function recomputeQualityPreferences({
+  db,
+  userId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+}) {
+  const feedback = await db
+    .select({ action: chunkFeedback.action, content: chunkFeedback.content })
+    .from(chunkFeedback)
+    .where(eq(chunkFeedback.userId, userId));
+
+  const saved = feedback
+    .filter((row) => row.action === "saved")
+    .map((row) => extractQualityFeatures(row.content));
+  const skipped = feedback
+    .filter((row) => row.action === "skipped")
+    .map((row) => extractQualityFeatures(row.content));
+
+  if (
+    saved.length < MIN_FEEDBACK_PER_LABEL ||
+    skipped.length < MIN_FEEDBACK_PER_LABEL
+  ) {
+    await db
+      .delete(userQualityPreferences)
+      .where(eq(userQualityPreferences.userId, userId));
+    return {
+      status: "insufficient-feedback",
+      saved: saved.length,
+      skipped: skipped.length,
+    } as const;
+  }
+
+  const weights = learnQualityPreferences(saved, skipped);
+  const computedAt = new Date();
+
+  await db
+    .insert(userQualityPreferences)
+    .values({
+      id: randomUUID(),
+      userId,
+      weights,
+      savedCount: saved.length,
+      skippedCount: skipped.length,
+      computedAt,
+    })
+    .onConflictDoUpdate({
+      target: userQualityPreferences.userId,
+      set: {
+        weights,
+        savedCount: saved.length,
+        skippedCount: skipped.length,
+        computedAt,
+      },
+    });
+
+  return {
+    status: "computed",
+    saved: saved.length,
+    skipped: skipped.length,
+  } as const;
+}
+
+/**
+ * Users with labels newer than their last recompute (or never computed)
+ */
+export async function listUsersNeedingRecompute(
+  db: DatabaseClient,
+): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ userId: chunkFeedback.userId })
+    .from(chunkFeedback)
+    .leftJoin(
+      userQualityPreferences,
+      eq(chunkFeedback.userId, userQualityPreferences.userId),
+    )
+    .where(
+      or(
+        isNull(userQualityPreferences.id),
+        gt(chunkFeedback.updatedAt, userQualityPreferences.computedAt),
+      ),
+    );
+
+  return rows.map((row) => row.userId);
+}
+
+/**
+ * Forget learned weights and the labels they were learned from. Keeping the
+ * labels would just rebuild the same weights on the next scheduled run.
+ */
+export async function resetQualityPreferences({
+  db,
+  userId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+}) {
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(userQualityPreferences)
+      .where(eq(userQualityPreferences.userId, userId));
+    await tx.delete(chunkFeedback).where(eq(chunkFeedback.userId, userId));
+  });
+}
+
+export function scoreWithPreferences(content: string, weights: QualityWeights) {
+  return scoreQuality(extractQualityFeatures(content), weights);
+}
+
+/**
+ * The features that moved a chunk's preference score the most, strongest first
+ */
+export function explainWithPreferences(
+  content: string,
+  weights: QualityWeights,
+  limit = 5,
+) {
+  return explainQuality(extractQualityFeatures(content), weights)
+    .filter((item) => item.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, limit);
+}
@@ -0,0 +1,386 @@
+import { readFile } from "node:fs/promises";
+import type { LanguageModel } from "ai";
+import { scoreWithHeuristics } from "./hybrid-heuristics";
+import { judgeHybrid } from "./hybrid-judge";
+import { type JudgeResult, LLM_SAVE_THRESHOLD } from "./hybrid-types";
+import {
+  extractQualityFeatures,
+  learnQualityPreferences,
+  scoreQuality,
+} from "./quality-features";
+import type { QualityWeights } from "./quality-preferences";
+
+export type EvalLabel = "saved" | "skipped";
+
+export interface LabeledChunk {
+  id: string;
+  content: string;
+  label: EvalLabel;
+}
+
+/**
+ * Anything that maps chunk text to a 0-100 score. Scorers take the whole
+ * batch so LLM-backed ones can control their own concurrency.
+ */
+export interface EvalScorer {
+  name: string;
+  defaultThreshold: number;
+  score(contents: string[]): Promise<number[]>;
+}
+
+export interface ConfusionMatrix {
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+}
+
+export interface EvalMetrics {
+  threshold: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  confusion: ConfusionMatrix;
+}
+
+export interface EvalReport {
+  scorer: string;
+  generatedAt: string;
+  durationMs: number;
+  dataset: { source: string; total: number; saved: number; skipped: number };
+  metrics: EvalMetrics;
+  sweep: EvalMetrics[];
+  predictions: { id: string; label: EvalLabel; score: number }[];
+}
+
+export interface MetricDelta {
+  metric: "accuracy" | "precision" | "recall" | "f1";
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export const DEFAULT_SWEEP_THRESHOLDS = [
+  30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80,
+];
+
+// F1 drops larger than this count as a regression against the baseline
+export const REGRESSION_TOLERANCE = 0.02;
+
+interface RawLabeledChunk {
+  id?: string;
+  content?: string;
+  label?: string;
+  action?: string;
+}
+
+/**
+ * Load labeled chunks from either an analysis export (`{ saves, skips }`, like
+ * `usman-analysis.json`) or a plain array of `{ id, content, label | action }`.
+ * Duplicate ids keep their first label.
+ */
+export async function loadLabeledDataset(
+  path: string,
+): Promise<LabeledChunk[]> {
+  const raw = JSON.parse(await readFile(path, "utf8")) as
+    | RawLabeledChunk[]
+    | { saves?: RawLabeledChunk[]; skips?: RawLabeledChunk[] };
+
+  const rows = Array.isArray(raw)
+    ? raw
+    : [
+        ...(raw.saves ?? []).map((row) => ({ ...row, label: "saved" })),
+        ...(raw.skips ?? []).map((row) => ({ ...row, label: "skipped" })),
+      ];
+
+  const seen = new Set<string>();
+  const dataset: LabeledChunk[] = [];
+
+  rows.forEach((row, index) => {
+    const label = row.label ?? row.action;
+    if (!row.content || (label !== "saved" && label !== "skipped")) return;
+
+    const id = row.id ?? `row_${index}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+
+    dataset.push({ id, content: row.content, label });
+  });
+
+  return dataset;
+}
+
+/**
+ * Keep at most `perLabel` chunks of each label, in dataset order. Useful for
+ * keeping LLM judge runs cheap.
+ */
+export function limitDataset(
+  dataset: LabeledChunk[],
+  perLabel: number,
+): LabeledChunk[] {
+  const counts: Record<EvalLabel, number> = { saved: 0, skipped: 0 };
+  return dataset.filter((chunk) => {
+    counts[chunk.label] += 1;
+    return counts[chunk.label] <= perLabel;
+  });
+}
+
+export function createHeuristicsScorer(): EvalScorer {
+  return {
+    name: "heuristics",
+    defaultThreshold: 50,
+    score: async (contents) =>
+      contents.map((content) => scoreWithHeuristics(content).score),
+  };
+}
+
+/**
+ * `scoreQuality` with fixed weights. Without weights, they're learned from
+ * the dataset itself, so results are in-sample and optimistic.
+ */
+export function createQualityScorer(
+  weights: QualityWeights,
+  name = "quality",
+): EvalScorer {
+  return {
+    name,
+    defaultThreshold: 50,
+    score: async (contents) =>
+      contents.map(
+        (content) =>
+          scoreQuality(extractQualityFeatures(content), weights) * 100,
+      ),
+  };
+}
+
+export function learnWeightsFromDataset(
+  dataset: LabeledChunk[],
+): QualityWeights {
+  const saved = dataset
+    .filter((chunk) => chunk.label === "saved")
+    .map((chunk) => extractQualityFeatures(chunk.content));
+  const skipped = dataset
+    .filter((chunk) => chunk.label === "skipped")
+    .map((chunk) => extractQualityFeatures(chunk.content));
+
+  if (saved.length === 0 || skipped.length === 0) {
+    throw new Error("Learning weights needs at least one save and one skip");
+  }
+
+  return learnQualityPreferences(saved, skipped);
+}
+
+type JudgeFn = (content: string) => Promise<JudgeResult>;
+
+/**
+ * Offline stand-in for the LLM judge. It reuses the heuristic score so runs
+ * are free and deterministic, which is enough to check the harness itself.
+ */
+export const stubJudge: JudgeFn = async (content) => {
+  const heuristic = scoreWithHeuristics(content);
+  return {
+    score: heuristic.score,
+    frameworkClarity: Math.round(heuristic.buckets.framework * 100),
+    insightNovelty: Math.round(heuristic.buckets.insight * 100),
+    tacticalSpecificity: Math.round(heuristic.buckets.specificity * 100),
+    reasoningDepth: Math.round(heuristic.buckets.quality * 100),
+    reasoning: "Stub judge (heuristic score)",
+    method: "llm",
+  };
+};
+
+/**
+ * The hybrid LLM judge on its own. Pass `model` to try another model with the
+ * production prompt, or `judge` to replace the call entirely.
+ */
+export function createJudgeScorer({
+  name = "judge",
+  model,
+  judge,
+  concurrency = 5,
+}: {
+  name?: string;
+  model?: LanguageModel;
+  judge?: JudgeFn;
+  concurrency?: number;
+} = {}): EvalScorer {
+  const judgeOne: JudgeFn = judge ?? ((content) => judgeHybrid(content, model));
+
+  return {
+    name,
+    defaultThreshold: LLM_SAVE_THRESHOLD,
+    score: async (contents) => {
+      const scores: number[] = new Array(contents.length);
+      for (let i = 0; i < contents.length; i += concurrency) {
+        const batch = contents.slice(i, i + concurrency);
+        const judged = await Promise.all(batch.map(judgeOne));
+        judged.forEach((result, index) => {
+          scores[i + index] = result.score;
+        });
+      }
+      return scores;
+    },
+  };
+}
+
+/**
+ * Metrics at one threshold, with "saved" as the positive class. A score at or
+ * above the threshold predicts a save.
+ */
+export function computeMetrics(
+  predictions: { label: EvalLabel; score: number }[],
+  threshold: number,
+): EvalMetrics {
+  const confusion: ConfusionMatrix = {
+    truePositive: 0,
+    falsePositive: 0,
+    trueNegative: 0,
+    falseNegative: 0,
+  };
+
+  for (const { label, score } of predictions) {
+    const predictedSave = score >= threshold;
+    if (predictedSave && label === "saved") confusion.truePositive += 1;
+    else if (predictedSave) confusion.falsePositive += 1;
+    else if (label === "saved") confusion.falseNegative += 1;
+    else confusion.trueNegative += 1;
+  }
+
+  const { truePositive, falsePositive, trueNegative, falseNegative } =
+    confusion;
+  const ratio = (numerator: number, denominator: number) =>
+    denominator === 0 ? 0 : numerator / denominator;
+
+  const precision = ratio(truePositive, truePositive + falsePositive);
+  const recall = ratio(truePositive, truePositive + falseNegative);
+
+  return {
+    threshold,
+    accuracy: ratio(truePositive + trueNegative, predictions.length),
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    confusion,
+  };
+}
+
+/**
+ * Score the dataset once and report metrics at `threshold` plus a sweep
+ */
+export async function evaluateScorer({
+  scorer,
+  dataset,
+  source,
+  threshold = scorer.defaultThreshold,
+  sweepThresholds = DEFAULT_SWEEP_THRESHOLDS,
+}: {
+  scorer: EvalScorer;
+  dataset: LabeledChunk[];
+  source: string;
+  threshold?: number;
+  sweepThresholds?: number[];
+}): Promise<EvalReport> {
+  const startedAt = Date.now();
+  const scores = await scorer.score(dataset.map((chunk) => chunk.content));
+
+  const predictions = dataset.map((chunk, index) => ({
+    id: chunk.id,
+    label: chunk.label,
+    score: Math.round(scores[index] * 10) / 10,
+  }));
+
+  return {
+    scorer: scorer.name,
+    generatedAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    dataset: {
+      source,
+      total: dataset.length,
+      saved: dataset.filter((chunk) => chunk.label === "saved").length,
+      skipped: dataset.filter((chunk) => chunk.label === "skipped").length,
+    },
+    metrics: computeMetrics(predictions, threshold),
+    sweep: [...new Set([...sweepThresholds, threshold])]
+      .sort((a, b) => a - b)
+      .map((value) => computeMetrics(predictions, value)),
+    predictions,
+  };
+}
+
+export function compareToBaseline(
+  report: EvalReport,
+  baseline: EvalReport,
+): MetricDelta[] {
+  return (["accuracy", "precision", "recall", "f1"] as const).map((metric) => ({
+    metric,
+    baseline: baseline.metrics[metric],
+    current: report.metrics[metric],
+    delta: report.metrics[metric] - baseline.metrics[metric],
+  }));
+}
+
+export function isRegression(deltas: MetricDelta[]): boolean {
+  const f1 = deltas.find((delta) => delta.metric === "f1");
+  return Boolean(f1 && f1.delta < -REGRESSION_TOLERANCE);
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function formatReportMarkdown(
+  report: EvalReport,
+  deltas?: MetricDelta[],
+): string {
+  const { metrics, dataset } = report;
+  const { confusion } = metrics;
+
+  const lines = [
+    `# Scoring eval: ${report.scorer}`,
+    "",
+    `- Dataset: \`${dataset.source}\` (${dataset.total} chunks: ${dataset.saved} saved, ${dataset.skipped} skipped)`,
+    `- Threshold: ${metrics.threshold}`,
+    `- Generated: ${report.generatedAt} (${(report.durationMs / 1000).toFixed(1)}s)`,
+    "",
+    "## Metrics",
+    "",
+    "| Accuracy | Precision | Recall | F1 |",
+    "| --- | --- | --- | --- |",
+    `| ${percent(metrics.accuracy)} | ${percent(metrics.precision)} | ${percent(metrics.recall)} | ${percent(metrics.f1)} |`,
+    "",
+    "## Confusion Matrix",
+    "",
+    "| | Predicted save | Predicted skip |",
+    "| --- | --- | --- |",
+    `| **Saved** | ${confusion.truePositive} | ${confusion.falseNegative} |`,
+    `| **Skipped** | ${confusion.falsePositive} | ${confusion.trueNegative} |`,
+    "",
+    "## Threshold Sweep",
+    "",
+    "| Threshold | Accuracy | Precision | Recall | F1 | TP | FP | TN | FN |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...report.sweep.map(
+      (row) =>
+        `| ${row.threshold === metrics.threshold ? `**${row.threshold}**` : row.threshold} | ${percent(row.accuracy)} | ${percent(row.precision)} | ${percent(row.recall)} | ${percent(row.f1)} | ${row.confusion.truePositive} | ${row.confusion.falsePositive} | ${row.confusion.trueNegative} | ${row.confusion.falseNegative} |`,
+    ),
+  ];
+
+  if (deltas) {
+    lines.push(
+      "",
+      "## Baseline Comparison",
+      "",
+      "| Metric | Baseline | Current | Δ |",
+      "| --- | --- | --- | --- |",
+      ...deltas.map(
+        (row) =>
+          `| ${row.metric} | ${percent(row.baseline)} | ${percent(row.current)} | ${row.delta >= 0 ? "+" : ""}${(row.delta * 100).toFixed(1)} pts |`,
+      ),
+      "",
+      isRegression(deltas)
+        ? `❌ F1 regressed by more than ${REGRESSION_TOLERANCE * 100} points`
+        : "✅ No regression against baseline",
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
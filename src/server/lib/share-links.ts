@@ -0,0 +1,119 @@
+import { randomBytes } from "node:crypto";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "@/server/db";
+import { article, episode, shareLink } from "@/server/db/schema";
+
+export function generateShareToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+export function getSharePath(token: string) {
+  return `/share/${token}`;
+}
+
+export function isShareLinkActive(link: {
+  revokedAt: Date | null;
+  expiresAt: Date | null;
+}) {
+  return !link.revokedAt && (!link.expiresAt || link.expiresAt > new Date());
+}
+
+/**
+ * The summary behind a share token, or null when the link doesn't exist,
+ * was revoked or has expired. Only what the public page shows is returned.
+ */
+export async function getSharedContent(token: string) {
+  const link = await db.query.shareLink.findFirst({
+    where: eq(shareLink.token, token),
+  });
+
+  if (!link || !isShareLinkActive(link)) {
+    return null;
+  }
+
+  if (link.episodeId) {
+    const episodeData = await db.query.episode.findFirst({
+      where: and(
+        eq(episode.id, link.episodeId),
+        eq(episode.userId, link.userId),
+      ),
+      columns: {
+        id: true,
+        title: true,
+        publishedAt: true,
+        durationSec: true,
+        thumbnailUrl: true,
+      },
+      with: {
+        podcast: { columns: { title: true, imageUrl: true } },
+        summary: {
+          columns: { markdownContent: true, structuredContent: true },
+        },
+      },
+    });
+    if (!episodeData) return null;
+
+    return {
+      link,
+      kind: "episode" as const,
+      title: episodeData.title,
+      subtitle: episodeData.podcast?.title ?? null,
+      imageUrl:
+        episodeData.thumbnailUrl ?? episodeData.podcast?.imageUrl ?? null,
+      publishedAt: episodeData.publishedAt,
+      sourceUrl: null,
+      summary: episodeData.summary,
+    };
+  }
+
+  if (link.articleId) {
+    const articleData = await db.query.article.findFirst({
+      where: and(
+        eq(article.id, link.articleId),
+        eq(article.userId, link.userId),
+      ),
+      columns: {
+        id: true,
+        title: true,
+        url: true,
+        author: true,
+        siteName: true,
+        publishedAt: true,
+      },
+      with: {
+        feed: { columns: { title: true, imageUrl: true } },
+        summary: {
+          columns: { markdownContent: true, structuredContent: true },
+        },
+      },
+    });
+    if (!articleData) return null;
+
+    return {
+      link,
+      kind: "article" as const,
+      title: articleData.title,
+      subtitle:
+        articleData.feed?.title ??
+        articleData.siteName ??
+        articleData.author ??
+        null,
+      imageUrl: articleData.feed?.imageUrl ?? null,
+      publishedAt: articleData.publishedAt,
+      sourceUrl: articleData.url,
+      summary: articleData.summary,
+    };
+  }
+
+  return null;
+}
+
+export async function recordShareView(shareLinkId: string) {
+  await db
+    .update(shareLink)
+    .set({
+      viewCount: sql`${shareLink.viewCount} + 1`,
+      lastViewedAt: new Date(),
+    })
+    .where(eq(shareLink.id, shareLinkId));
+}
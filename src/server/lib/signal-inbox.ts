@@ -0,0 +1,303 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import {
+  SIGNAL_SCORE_BANDS,
+  type SignalInboxStatus,
+  type SignalScoreBand,
+} from "@/lib/signal-utils";
+import {
+  article,
+  articleFeed,
+  chunkFeedback,
+  episode,
+  podcast,
+  signal,
+  transcriptChunk,
+} from "@/server/db/schema";
+import { LLM_SAVE_THRESHOLD } from "./hybrid-types";
+import { getSpeakerMappings } from "./speaker-identification";
+import type { DatabaseClient } from "./transcript-processing";
+
+export type SignalInboxKind = "episodes" | "articles";
+
+// Enough for a few days of sources; the inbox is meant to be emptied
+const INBOX_LIMIT = 300;
+
+export interface SignalInboxFilters {
+  kind: SignalInboxKind;
+  status: SignalInboxStatus;
+  // Podcast id for episodes, article feed id for articles
+  sourceId?: string;
+  band?: SignalScoreBand;
+}
+
+function statusCondition(status: SignalInboxStatus, now: Date) {
+  switch (status) {
+    case "inbox":
+      return and(
+        isNull(chunkFeedback.id),
+        or(isNull(signal.snoozedUntil), lte(signal.snoozedUntil, now)),
+      );
+    case "snoozed":
+      return and(isNull(chunkFeedback.id), gt(signal.snoozedUntil, now));
+    case "saved":
+      return eq(chunkFeedback.action, "saved");
+    case "skipped":
+      return eq(chunkFeedback.action, "skipped");
+  }
+}
+
+function bandCondition(band: SignalScoreBand) {
+  const { min, max } = SIGNAL_SCORE_BANDS[band];
+  return max === null
+    ? gte(signal.score, min)
+    : and(gte(signal.score, min), lt(signal.score, max));
+}
+
+function feedbackJoin(userId: string) {
+  return and(
+    eq(chunkFeedback.chunkId, signal.chunkId),
+    eq(chunkFeedback.userId, userId),
+  );
+}
+
+/**
+ * Signals across all of a user's episodes or articles, grouped by the
+ * episode/article they came from. Newest sources first, best signal first.
+ */
+export async function getSignalInbox({
+  db,
+  userId,
+  filters,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  filters: SignalInboxFilters;
+}) {
+  const conditions: (SQL | undefined)[] = [
+    eq(signal.userId, userId),
+    statusCondition(filters.status, new Date()),
+  ];
+  if (filters.kind === "episodes") {
+    conditions.push(isNotNull(signal.episodeId));
+    if (filters.sourceId) {
+      conditions.push(eq(episode.podcastId, filters.sourceId));
+    }
+  } else {
+    conditions.push(isNotNull(signal.articleId));
+    if (filters.sourceId) {
+      conditions.push(eq(article.feedId, filters.sourceId));
+    }
+  }
+  if (filters.band) {
+    conditions.push(bandCondition(filters.band));
+  }
+
+  const rows = await db
+    .select({
+      id: signal.id,
+      chunkId: signal.chunkId,
+      rank: signal.rank,
+      score: signal.score,
+      method: signal.method,
+      snoozedUntil: signal.snoozedUntil,
+      createdAt: signal.createdAt,
+      content: transcriptChunk.content,
+      speaker: transcriptChunk.speaker,
+      startTimeSec: transcriptChunk.startTimeSec,
+      endTimeSec: transcriptChunk.endTimeSec,
+      feedback: chunkFeedback.action,
+      episodeId: episode.id,
+      episodeTitle: episode.title,
+      audioUrl: episode.audioUrl,
+      durationSec: episode.durationSec,
+      podcastTitle: podcast.title,
+      podcastImageUrl: podcast.imageUrl,
+      articleId: article.id,
+      articleTitle: article.title,
+      articleSiteName: article.siteName,
+      feedTitle: articleFeed.title,
+    })
+    .from(signal)
+    .innerJoin(transcriptChunk, eq(signal.chunkId, transcriptChunk.id))
+    .leftJoin(chunkFeedback, feedbackJoin(userId))
+    .leftJoin(episode, eq(signal.episodeId, episode.id))
+    .leftJoin(podcast, eq(episode.podcastId, podcast.id))
+    .leftJoin(article, eq(signal.articleId, article.id))
+    .leftJoin(articleFeed, eq(article.feedId, articleFeed.id))
+    .where(and(...conditions))
+    .orderBy(
+      desc(signal.createdAt),
+      asc(signal.episodeId),
+      asc(signal.articleId),
+      asc(signal.rank),
+    )
+    .limit(INBOX_LIMIT);
+
+  const speakers = await getSpeakerMappings({
+    db,
+    episodeIds: [
+      ...new Set(rows.flatMap((row) => (row.episodeId ? [row.episodeId] : []))),
+    ],
+  });
+
+  const groups = new Map<
+    string,
+    {
+      source: {
+        kind: SignalInboxKind;
+        id: string;
+        title: string;
+        subtitle: string | null;
+        imageUrl: string | null;
+        href: string;
+        audioUrl: string | null;
+        durationSec: number | null;
+      };
+      signals: {
+        id: string;
+        chunkId: string;
+        rank: number;
+        score: number;
+        method: typeof signal.$inferSelect.method;
+        saveWorthy: boolean;
+        content: string;
+        speaker: string | null;
+        startTimeSec: number | null;
+        endTimeSec: number | null;
+        feedback: typeof chunkFeedback.$inferSelect.action | null;
+        snoozedUntil: Date | null;
+      }[];
+    }
+  >();
+
+  for (const row of rows) {
+    const sourceId = row.episodeId ?? row.articleId;
+    if (!sourceId) continue;
+
+    let group = groups.get(sourceId);
+    if (!group) {
+      group = {
+        source: row.episodeId
+          ? {
+              kind: "episodes",
+              id: row.episodeId,
+              title: row.episodeTitle ?? "Untitled episode",
+              subtitle: row.podcastTitle,
+              imageUrl: row.podcastImageUrl,
+              href: `/episode/${row.episodeId}?tab=signals`,
+              audioUrl: row.audioUrl,
+              durationSec: row.durationSec,
+            }
+          : {
+              kind: "articles",
+              id: sourceId,
+              title: row.articleTitle ?? "Untitled article",
+              subtitle: row.feedTitle ?? row.articleSiteName,
+              imageUrl: null,
+              href: `/post/${sourceId}?tab=signals`,
+              audioUrl: null,
+              durationSec: null,
+            },
+        signals: [],
+      };
+      groups.set(sourceId, group);
+    }
+
+    const mapping = row.episodeId ? speakers.get(row.episodeId) : undefined;
+    group.signals.push({
+      id: row.id,
+      chunkId: row.chunkId,
+      rank: row.rank,
+      score: row.score,
+      method: row.method,
+      saveWorthy: row.score * 100 >= LLM_SAVE_THRESHOLD,
+      content: row.content,
+      speaker: row.speaker ? (mapping?.[row.speaker] ?? row.speaker) : null,
+      startTimeSec: row.startTimeSec,
+      endTimeSec: row.endTimeSec,
+      feedback: row.feedback,
+      snoozedUntil: row.snoozedUntil,
+    });
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Untriaged, unsnoozed signal counts per podcast or feed, for the inbox
+ * source filter
+ */
+export async function getSignalInboxSources({
+  db,
+  userId,
+  kind,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  kind: SignalInboxKind;
+}) {
+  const pending = and(
+    eq(signal.userId, userId),
+    statusCondition("inbox", new Date()),
+  );
+
+  if (kind === "episodes") {
+    return db
+      .select({ id: podcast.id, title: podcast.title, total: count() })
+      .from(signal)
+      .leftJoin(chunkFeedback, feedbackJoin(userId))
+      .innerJoin(episode, eq(signal.episodeId, episode.id))
+      .innerJoin(podcast, eq(episode.podcastId, podcast.id))
+      .where(pending)
+      .groupBy(podcast.id, podcast.title)
+      .orderBy(asc(podcast.title));
+  }
+
+  return db
+    .select({ id: articleFeed.id, title: articleFeed.title, total: count() })
+    .from(signal)
+    .leftJoin(chunkFeedback, feedbackJoin(userId))
+    .innerJoin(article, eq(signal.articleId, article.id))
+    .innerJoin(articleFeed, eq(article.feedId, articleFeed.id))
+    .where(pending)
+    .groupBy(articleFeed.id, articleFeed.title)
+    .orderBy(asc(articleFeed.title));
+}
+
+/**
+ * Untriaged, unsnoozed signal counts for the sidebar
+ */
+export async function getSignalInboxCounts({
+  db,
+  userId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+}) {
+  const [row] = await db
+    .select({
+      episodes: count(signal.episodeId),
+      articles: count(signal.articleId),
+    })
+    .from(signal)
+    .leftJoin(chunkFeedback, feedbackJoin(userId))
+    .where(
+      and(eq(signal.userId, userId), statusCondition("inbox", new Date())),
+    );
+
+  return { episodes: row?.episodes ?? 0, articles: row?.articles ?? 0 };
+}
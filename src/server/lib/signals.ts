@@ -0,0 +1,197 @@
+import { randomUUID } from "node:crypto";
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+import {
+  article,
+  chunkFeedback,
+  episode,
+  signal,
+  transcriptChunk,
+} from "@/server/db/schema";
+import { hybridScoreBatchWithNovelty } from "./hybrid-scoring";
+import { LLM_SAVE_THRESHOLD } from "./hybrid-types";
+import {
+  getQualityPreferences,
+  PREFERENCE_BLEND,
+  scoreWithPreferences,
+} from "./quality-preferences";
+import type { DatabaseClient } from "./transcript-processing";
+
+export const DEFAULT_SIGNAL_COUNT = 10;
+
+/**
+ * Signal generation calls the LLM judge for most chunks, so the pipelines
+ * only run it when SIGNALS_ENABLED=true. Manual regeneration always works.
+ */
+export function isSignalPipelineEnabled(): boolean {
+  return process.env.SIGNALS_ENABLED?.toLowerCase() === "true";
+}
+
+interface GenerateSignalsParams {
+  db: DatabaseClient;
+  userId: string;
+  episodeId?: string;
+  articleId?: string;
+  topN?: number;
+}
+
+export interface GenerateSignalsResult {
+  scored: number;
+  judged: number;
+  saved: number;
+}
+
+/**
+ * Score every transcript chunk of an episode or article with the hybrid
+ * scorer and replace the user's signals for it with the top N.
+ */
+export async function generateSignals({
+  db,
+  userId,
+  episodeId,
+  articleId,
+  topN = DEFAULT_SIGNAL_COUNT,
+}: GenerateSignalsParams): Promise<GenerateSignalsResult> {
+  if (!episodeId === !articleId) {
+    throw new Error("Provide exactly one of episodeId or articleId");
+  }
+
+  const chunks = await db
+    .select({
+      id: transcriptChunk.id,
+      content: transcriptChunk.content,
+      embedding: transcriptChunk.embedding,
+    })
+    .from(transcriptChunk)
+    .where(
+      episodeId
+        ? eq(transcriptChunk.episodeId, episodeId)
+        : eq(transcriptChunk.articleId, articleId as string),
+    )
+    .orderBy(asc(transcriptChunk.startTimeSec), asc(transcriptChunk.createdAt));
+
+  const results = await hybridScoreBatchWithNovelty(
+    chunks.map((chunk) => ({
+      content: chunk.content,
+      embedding: chunk.embedding,
+    })),
+    {
+      db,
+      userId,
+      excludeEpisodeId: episodeId,
+      excludeArticleId: articleId,
+    },
+  );
+
+  const preferences = await getQualityPreferences({ db, userId });
+
+  const skipped = new Set(
+    (
+      await db
+        .select({ chunkId: chunkFeedback.chunkId })
+        .from(chunkFeedback)
+        .where(
+          and(
+            eq(chunkFeedback.userId, userId),
+            eq(chunkFeedback.action, "skipped"),
+            episodeId
+              ? eq(chunkFeedback.episodeId, episodeId)
+              : eq(chunkFeedback.articleId, articleId as string),
+          ),
+        )
+    ).map((row) => row.chunkId),
+  );
+
+  // Only chunks the judge saw are candidates; filtered ones are noise.
+  // Learned preferences nudge the judge's score, they never replace it.
+  const ranked = chunks
+    .map((chunk, index) => {
+      const result = results[index];
+      if (!preferences || result.method !== "llm") {
+        return { chunk, result };
+      }
+
+      const preferenceScore =
+        scoreWithPreferences(chunk.content, preferences.weights) * 100;
+      const score =
+        result.score * (1 - PREFERENCE_BLEND) +
+        preferenceScore * PREFERENCE_BLEND;
+
+      return {
+        chunk,
+        result: {
+          ...result,
+          score,
+          pass: score >= LLM_SAVE_THRESHOLD,
+          diagnostics: {
+            ...result.diagnostics,
+            preference: { score: preferenceScore, blend: PREFERENCE_BLEND },
+          },
+        },
+      };
+    })
+    .filter(
+      ({ chunk, result }) => result.method === "llm" && !skipped.has(chunk.id),
+    )
+    .sort((a, b) => b.result.score - a.result.score)
+    .slice(0, topN);
+
+  const sourceCondition = episodeId
+    ? eq(signal.episodeId, episodeId)
+    : eq(signal.articleId, articleId as string);
+
+  await db.transaction(async (tx) => {
+    // Keep inbox snoozes for chunks that make the new set
+    const snoozed = await tx
+      .select({ chunkId: signal.chunkId, snoozedUntil: signal.snoozedUntil })
+      .from(signal)
+      .where(
+        and(
+          eq(signal.userId, userId),
+          sourceCondition,
+          isNotNull(signal.snoozedUntil),
+        ),
+      );
+    const snoozedUntil = new Map(
+      snoozed.map((row) => [row.chunkId, row.snoozedUntil]),
+    );
+
+    await tx
+      .delete(signal)
+      .where(and(eq(signal.userId, userId), sourceCondition));
+
+    if (ranked.length > 0) {
+      await tx.insert(signal).values(
+        ranked.map(({ chunk, result }, index) => ({
+          id: randomUUID(),
+          userId,
+          chunkId: chunk.id,
+          episodeId: episodeId ?? null,
+          articleId: articleId ?? null,
+          score: result.score / 100,
+          method: result.method,
+          rank: index + 1,
+          diagnostics: result.diagnostics,
+          snoozedUntil: snoozedUntil.get(chunk.id) ?? null,
+        })),
+      );
+    }
+
+    if (episodeId) {
+      await tx
+        .update(episode)
+        .set({ signalsGeneratedAt: new Date() })
+        .where(eq(episode.id, episodeId));
+    } else {
+      await tx
+        .update(article)
+        .set({ signalsGeneratedAt: new Date() })
+        .where(eq(article.id, articleId as string));
+    }
+  });
+
+  return {
+    scored: chunks.length,
+    judged: results.filter((result) => result.method === "llm").length,
+    saved: ranked.length,
+  };
+}
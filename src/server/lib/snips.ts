@@ -0,0 +1,95 @@
+import type { TranscriptData } from "@/types/transcript";
+import { getSpeakerName } from "./speaker-identification";
+import type { DatabaseClient } from "./transcript-processing";
+import { loadTranscript } from "./transcript-storage";
+
+// Longest range a snip may cover, so exports stay small enough for the browser
+export const SNIP_MAX_DURATION_SEC = 10 * 60;
+
+/**
+ * Text and dominant speaker of the transcript between two timestamps.
+ * Uses word timings where the provider has them, otherwise whole utterances.
+ */
+export function getTranscriptRange(
+  transcript: TranscriptData,
+  startTimeSec: number,
+  endTimeSec: number,
+) {
+  const parts: string[] = [];
+  const speakerTime = new Map<number, number>();
+
+  for (const utterance of transcript) {
+    if (utterance.end <= startTimeSec || utterance.start >= endTimeSec) {
+      continue;
+    }
+
+    const words = utterance.words?.filter(
+      (word) => word.end > startTimeSec && word.start < endTimeSec,
+    );
+    parts.push(
+      words?.length
+        ? words.map((word) => word.punctuated_word ?? word.word).join(" ")
+        : utterance.transcript,
+    );
+
+    if (utterance.speaker !== undefined) {
+      const overlap =
+        Math.min(utterance.end, endTimeSec) -
+        Math.max(utterance.start, startTimeSec);
+      speakerTime.set(
+        utterance.speaker,
+        (speakerTime.get(utterance.speaker) ?? 0) + overlap,
+      );
+    }
+  }
+
+  let speakerIndex: number | null = null;
+  for (const [speaker, time] of speakerTime) {
+    if (speakerIndex === null || time > (speakerTime.get(speakerIndex) ?? 0)) {
+      speakerIndex = speaker;
+    }
+  }
+
+  return { text: parts.join(" ").trim(), speakerIndex };
+}
+
+/**
+ * Fill in a snip's text and speaker from the stored transcript, for snips
+ * taken from the player rather than selected in the transcript
+ */
+export async function resolveSnipContent({
+  db,
+  episode,
+  startTimeSec,
+  endTimeSec,
+}: {
+  db: DatabaseClient;
+  episode: { id: string; transcriptUrl: string | null };
+  startTimeSec: number;
+  endTimeSec: number;
+}): Promise<{ text: string; speaker: string | null }> {
+  if (!episode.transcriptUrl) {
+    return { text: "", speaker: null };
+  }
+
+  try {
+    const transcript = await loadTranscript(episode);
+    const { text, speakerIndex } = getTranscriptRange(
+      transcript,
+      startTimeSec,
+      endTimeSec,
+    );
+    const speaker =
+      speakerIndex === null
+        ? null
+        : await getSpeakerName({
+            db,
+            episodeId: episode.id,
+            speakerIndex: speakerIndex.toString(),
+          });
+    return { text, speaker };
+  } catch (error) {
+    console.error("Failed to read transcript for snip:", error);
+    return { text: "", speaker: null };
+  }
+}
@@ -1,9 +1,10 @@
 import { randomUUID } from "node:crypto";
-import { generateText } from "ai";
-import { eq } from "drizzle-orm";
+import { generateText, type LanguageModel } from "ai";
+import { eq, inArray } from "drizzle-orm";
 import { episodeSpeakerMapping } from "@/server/db/schema";
+import type { PodcastPerson } from "@/server/db/schema/podcast";
 import type { DatabaseClient } from "@/server/lib/transcript-processing";
-import { openrouter } from "../../ai/models";
+import { taskModel } from "./model-registry";
 
 export interface SpeakerMapping {
   [speakerIndex: string]: string; // "0": "John Doe", "1": "Jane Smith"
@@ -122,6 +123,60 @@ function inferHostFromPodcast(podcastTitle: string): string {
   return "Host";
 }
 
+// Podcasting 2.0 person roles that speak, in diarization order
+const HOST_ROLES = new Set(["host", "co-host"]);
+const GUEST_ROLES = new Set(["guest", "guest host"]);
+
+/**
+ * Map `podcast:person` tags to speaker indexes: hosts first (speaker 0 is
+ * usually the host), then guests. Producers, editors etc. are skipped.
+ */
+export function speakersFromPersons(
+  persons: PodcastPerson[] | null | undefined,
+): SpeakerMapping | null {
+  const speaking = [
+    ...(persons ?? []).filter((person) => HOST_ROLES.has(person.role ?? "")),
+    ...(persons ?? []).filter((person) => GUEST_ROLES.has(person.role ?? "")),
+  ];
+  if (speaking.length === 0) return null;
+
+  return Object.fromEntries(
+    speaking.map((person, index) => [String(index), person.name]),
+  );
+}
+
+/**
+ * Replace an episode's cached mapping, e.g. with names from a publisher
+ * transcript that labels its own speakers
+ */
+export async function saveSpeakerMapping({
+  db,
+  episodeId,
+  result,
+}: {
+  db: DatabaseClient;
+  episodeId: string;
+  result: SpeakerIdentificationResult;
+}) {
+  await db
+    .insert(episodeSpeakerMapping)
+    .values({
+      id: randomUUID(),
+      episodeId,
+      speakerMappings: JSON.stringify(result.speakers),
+      confidence: result.confidence,
+      sourceDescription: result.sourceDescription,
+    })
+    .onConflictDoUpdate({
+      target: episodeSpeakerMapping.episodeId,
+      set: {
+        speakerMappings: JSON.stringify(result.speakers),
+        confidence: result.confidence,
+        sourceDescription: result.sourceDescription,
+      },
+    });
+}
+
 /**
  * Identify speakers in an episode using AI based on RSS description and podcast context
  */
@@ -133,8 +188,10 @@ export async function identifyEpisodeSpeakers({
   itunesSummary,
   contentEncoded,
   creator,
+  persons,
   podcastTitle,
   podcastDescription,
+  model = taskModel("speaker-id"),
 }: {
   db: DatabaseClient;
   episodeId: string;
@@ -143,8 +200,10 @@ export async function identifyEpisodeSpeakers({
   itunesSummary?: string | null;
   contentEncoded?: string | null;
   creator?: string | null;
+  persons?: PodcastPerson[] | null;
   podcastTitle: string;
   podcastDescription?: string | null;
+  model?: LanguageModel;
 }): Promise<SpeakerIdentificationResult | null> {
   // Check if we already have speaker mapping for this episode
   const existingMapping = await db
@@ -162,6 +221,18 @@ export async function identifyEpisodeSpeakers({
     };
   }
 
+  // Publisher-declared people beat guessing from the description
+  const personSpeakers = speakersFromPersons(persons);
+  if (personSpeakers) {
+    const speakerResult: SpeakerIdentificationResult = {
+      speakers: personSpeakers,
+      confidence: 0.85,
+      sourceDescription: "Podcasting 2.0 person tags",
+    };
+    await saveSpeakerMapping({ db, episodeId, result: speakerResult });
+    return speakerResult;
+  }
+
   // Combine all available RSS context - prioritize richer content
   const allContent = [contentEncoded, itunesSummary, episodeDescription].filter(
     Boolean,
@@ -207,7 +278,7 @@ export async function identifyEpisodeSpeakers({
 
   try {
     const result = await generateText({
-      model: openrouter("x-ai/grok-4-fast"),
+      model,
       system: `You are an expert at identifying podcast speakers from episode descriptions.
 
 Your task is to extract speaker names and map them to speaker numbers (0, 1, 2, etc.) based on the episode context.
@@ -321,3 +392,36 @@ export async function getSpeakerName({
 
   return `Speaker ${speakerIndex}`;
 }
+
+/**
+ * Load cached speaker mappings for several episodes at once
+ */
+export async function getSpeakerMappings({
+  db,
+  episodeIds,
+}: {
+  db: DatabaseClient;
+  episodeIds: string[];
+}): Promise<Map<string, SpeakerMapping>> {
+  if (episodeIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      episodeId: episodeSpeakerMapping.episodeId,
+      speakerMappings: episodeSpeakerMapping.speakerMappings,
+    })
+    .from(episodeSpeakerMapping)
+    .where(inArray(episodeSpeakerMapping.episodeId, episodeIds));
+
+  const mappings = new Map<string, SpeakerMapping>();
+  for (const row of rows) {
+    try {
+      mappings.set(row.episodeId, JSON.parse(row.speakerMappings));
+    } catch {
+      // Ignore corrupt cache entries; callers fall back to speaker indexes
+    }
+  }
+  return mappings;
+}
@@ -0,0 +1,48 @@
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { summaryTemplate } from "@/server/db/schema/podcast";
+import type { SummaryTemplateSpec } from "./episode-summary";
+import type { DatabaseClient } from "./transcript-processing";
+
+export const MAX_TEMPLATE_SECTIONS = 8;
+
+export const summaryTemplateInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  instructions: z.string().trim().min(1).max(2000),
+  sections: z
+    .array(z.string().trim().min(1).max(60))
+    .max(MAX_TEMPLATE_SECTIONS),
+  length: z.enum(["short", "medium", "long"]),
+});
+
+/**
+ * The user's template with this ID, or null for the built-in summary. IDs
+ * that no longer exist or belong to someone else also fall back to null.
+ */
+export async function resolveSummaryTemplate({
+  db,
+  userId,
+  templateId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  templateId: string | null | undefined;
+}): Promise<SummaryTemplateSpec | null> {
+  if (!templateId) return null;
+
+  const template = await db.query.summaryTemplate.findFirst({
+    where: and(
+      eq(summaryTemplate.id, templateId),
+      eq(summaryTemplate.userId, userId),
+    ),
+    columns: {
+      id: true,
+      name: true,
+      instructions: true,
+      sections: true,
+      length: true,
+    },
+  });
+
+  return template ?? null;
+}
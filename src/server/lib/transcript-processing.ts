@@ -1,13 +1,22 @@
-import { createClient as createDeepgramClient } from "@deepgram/sdk";
-import { put } from "@vercel/blob";
 import { eq } from "drizzle-orm";
 import type { db as dbInstance } from "@/server/db";
 import {
   episode as episodeSchema,
+  podcast as podcastSchema,
+  type TranscriptProviderId,
   transcriptChunk,
 } from "@/server/db/schema/podcast";
+import { userSettings } from "@/server/db/schema/settings";
 import type { TranscriptData } from "@/types/transcript";
-import { getYouTubeTranscriptUtterances } from "./youtube-transcript";
+import { billableMinutes, trackFeatureUsage } from "./billing";
+import { embedTranscriptChunks } from "./embeddings";
+import { saveSpeakerMapping } from "./speaker-identification";
+import {
+  fetchTranscriptFromProviders,
+  resolveTranscriptProviderOrder,
+} from "./transcript-providers";
+import { loadTranscript, saveTranscript } from "./transcript-storage";
+import { recordUsage } from "./usage-ledger";
 
 export type DatabaseClient = typeof dbInstance;
 export type EpisodeRecord = typeof episodeSchema.$inferSelect;
@@ -16,34 +25,34 @@ export interface TranscriptGenerationResult {
   transcriptUrl: string;
   duration?: number;
   wasCreated: boolean;
+  // The provider that produced a new transcript
+  source?: TranscriptProviderId;
 }
 
 export interface TranscriptChunkResult {
   chunkCount: number;
+  embeddedCount: number;
 }
 
-const defaultDeepgramOptions = {
-  model: "nova-3",
-  language: "en",
-  smart_format: true,
-  punctuate: true,
-  paragraphs: true,
-  diarize: true,
-  utterances: true,
-} as const;
-
 interface EnsureTranscriptParams {
   db: DatabaseClient;
   episode: EpisodeRecord;
   force?: boolean;
   deepgramApiKey?: string;
+  // Skips the podcast and user provider settings
+  providers?: TranscriptProviderId[];
 }
 
+/**
+ * Fetch a transcript from the first provider in the podcast's (or the
+ * owner's) priority order that has one, and store it.
+ */
 export async function ensureEpisodeTranscript({
   db,
   episode,
   force = false,
   deepgramApiKey,
+  providers,
 }: EnsureTranscriptParams): Promise<TranscriptGenerationResult> {
   if (!force && episode.transcriptUrl) {
     return {
@@ -59,101 +68,68 @@ export async function ensureEpisodeTranscript({
       .set({ status: "processing" })
       .where(eq(episodeSchema.id, episode.id));
 
-    let utterances: TranscriptData | null = null;
-    let duration: number | undefined;
-    let transcriptSource: "youtube" | "deepgram" = "deepgram";
-
-    // Try YouTube transcript first if video ID is available
-    if (episode.youtubeVideoId) {
-      console.log(
-        `Attempting to fetch YouTube transcript for video: ${episode.youtubeVideoId}`,
-      );
-      try {
-        const youtubeUtterances = await getYouTubeTranscriptUtterances(
-          episode.youtubeVideoId,
-        );
-        if (youtubeUtterances && youtubeUtterances.length > 0) {
-          utterances = youtubeUtterances;
-          transcriptSource = "youtube";
-          console.log(
-            `Successfully fetched YouTube transcript (${youtubeUtterances.length} utterances)`,
-          );
-        } else {
-          console.log(
-            "YouTube transcript unavailable, falling back to Deepgram",
-          );
-        }
-      } catch (error) {
-        console.error("YouTube transcript fetch failed:", error);
-        console.log("Falling back to Deepgram");
-      }
-    }
-
-    // Fall back to Deepgram if YouTube failed or unavailable
-    if (!utterances) {
-      if (!episode.audioUrl) {
-        throw new Error(
-          "Episode has no audio URL and YouTube transcript unavailable",
-        );
-      }
-
-      const apiKey = deepgramApiKey ?? process.env.DEEPGRAM_API_KEY;
-      if (!apiKey) {
-        throw new Error("DEEPGRAM_API_KEY environment variable is not set");
-      }
-
-      console.log(
-        `Fetching Deepgram transcript for audio URL: ${episode.audioUrl}`,
-      );
-      const deepgram = createDeepgramClient(apiKey);
-      const { result, error } = await deepgram.listen.prerecorded.transcribeUrl(
-        { url: episode.audioUrl },
-        defaultDeepgramOptions,
-      );
-
-      if (error) {
-        throw new Error(`Deepgram transcription failed: ${error.message}`);
-      }
-
-      const deepgramUtterances = result.results.utterances;
-      duration = result.metadata.duration;
-      transcriptSource = "deepgram";
-
-      if (!deepgramUtterances || deepgramUtterances.length === 0) {
-        throw new Error("Deepgram returned no utterances for this episode");
-      }
-
-      utterances = deepgramUtterances;
+    const [podcastRecord, [settings]] = await Promise.all([
+      episode.podcastId
+        ? db.query.podcast.findFirst({
+            where: eq(podcastSchema.id, episode.podcastId),
+          })
+        : undefined,
+      db
+        .select({ transcriptProviders: userSettings.transcriptProviders })
+        .from(userSettings)
+        .where(eq(userSettings.userId, episode.userId))
+        .limit(1),
+    ]);
+
+    const order =
+      providers ??
+      resolveTranscriptProviderOrder({
+        podcastOrder: podcastRecord?.transcriptProviders,
+        userOrder: settings?.transcriptProviders,
+      });
 
-      console.log(
-        `Successfully fetched Deepgram transcript (${deepgramUtterances.length} utterances)`,
-      );
-    }
+    const {
+      utterances,
+      duration,
+      speakerNames,
+      source: transcriptSource,
+    } = await fetchTranscriptFromProviders(order, {
+      episode,
+      podcast: podcastRecord ?? null,
+      deepgramApiKey,
+    });
 
-    // Store transcript in Vercel Blob
-    const jsonContent = JSON.stringify(utterances);
-    const blob = await put(
-      `transcripts/${episode.id}-${Date.now().toString()}.json`,
-      jsonContent,
-      {
-        access: "public",
-        contentType: "application/json",
-      },
-    );
+    const transcriptUrl = await saveTranscript(episode.id, utterances);
 
     await db
       .update(episodeSchema)
       .set({
-        transcriptUrl: blob.url,
+        transcriptUrl,
         transcriptSource,
         status: "processing",
       })
       .where(eq(episodeSchema.id, episode.id));
 
+    // Speaker labels in the transcript itself are exact, unlike any guess
+    if (speakerNames && speakerNames.length > 0) {
+      await saveSpeakerMapping({
+        db,
+        episodeId: episode.id,
+        result: {
+          speakers: Object.fromEntries(
+            speakerNames.map((name, index) => [String(index), name]),
+          ),
+          confidence: 1.0,
+          sourceDescription: `Speaker labels from ${transcriptSource} transcript`,
+        },
+      });
+    }
+
     return {
-      transcriptUrl: blob.url,
+      transcriptUrl,
       duration,
       wasCreated: true,
+      source: transcriptSource,
     };
   } catch (error) {
     await db
@@ -165,6 +141,39 @@ export async function ensureEpisodeTranscript({
   }
 }
 
+/**
+ * Meter a transcript `ensureEpisodeTranscript` just created: Deepgram
+ * transcriptions go in the usage ledger and count against the owner's
+ * minutes; other providers are free. Run it in a step of its own after the
+ * fetch, so a retried fetch or save doesn't meter the same audio twice.
+ */
+export async function meterTranscription({
+  db,
+  episode,
+  result,
+}: {
+  db: DatabaseClient;
+  episode: Pick<EpisodeRecord, "id" | "userId" | "durationSec">;
+  result: TranscriptGenerationResult;
+}): Promise<void> {
+  if (!result.wasCreated || result.source !== "deepgram") return;
+
+  await recordUsage(
+    { db, userId: episode.userId, episodeId: episode.id },
+    {
+      provider: "deepgram",
+      model: "nova-3",
+      task: "transcription",
+      audioSeconds: result.duration ?? 0,
+    },
+  );
+  await trackFeatureUsage(
+    episode.userId,
+    "transcription_minutes",
+    billableMinutes(result.duration ?? episode.durationSec),
+  );
+}
+
 interface ChunkTranscriptParams {
   db: DatabaseClient;
   episode: EpisodeRecord;
@@ -180,21 +189,13 @@ export async function chunkEpisodeTranscript({
   minTokens,
   maxTokens,
   transcriptData,
+  skipEmbeddings = false,
 }: ChunkTranscriptParams): Promise<TranscriptChunkResult> {
   if (!episode.transcriptUrl) {
     throw new Error("Episode or transcript not found");
   }
 
-  let resolvedTranscript = transcriptData;
-
-  if (!resolvedTranscript) {
-    const transcriptResponse = await fetch(episode.transcriptUrl);
-    if (!transcriptResponse.ok) {
-      throw new Error("Failed to fetch transcript");
-    }
-
-    resolvedTranscript = (await transcriptResponse.json()) as TranscriptData;
-  }
+  const resolvedTranscript = transcriptData ?? (await loadTranscript(episode));
 
   await db
     .delete(transcriptChunk)
@@ -209,10 +210,10 @@ export async function chunkEpisodeTranscript({
   console.timeEnd("chunk-transcript-build-chunks");
 
   if (chunks.length === 0) {
-    return { chunkCount: 0 };
+    return { chunkCount: 0, embeddedCount: 0 };
   }
 
-  // Batch insert all chunks (without embeddings)
+  // Batch insert all chunks; embeddings are filled in afterwards
   console.time("chunk-transcript-db-insert");
   const chunksToInsert = chunks.map((chunk, index) => ({
     id: `chunk_${episode.id}_${index}`,
@@ -228,7 +229,16 @@ export async function chunkEpisodeTranscript({
   await db.insert(transcriptChunk).values(chunksToInsert);
   console.timeEnd("chunk-transcript-db-insert");
 
-  return { chunkCount: chunks.length };
+  if (skipEmbeddings) {
+    return { chunkCount: chunks.length, embeddedCount: 0 };
+  }
+
+  const { embedded } = await embedTranscriptChunks({
+    db,
+    episodeId: episode.id,
+  });
+
+  return { chunkCount: chunks.length, embeddedCount: embedded };
 }
 
 interface BuildChunksParams {
@@ -0,0 +1,356 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createClient as createDeepgramClient } from "@deepgram/sdk";
+import { z } from "zod";
+import {
+  createPodscanClient,
+  type Episode as PodscanEpisode,
+} from "@/lib/podscan";
+import type {
+  episode as episodeSchema,
+  podcast as podcastSchema,
+  TranscriptProviderId,
+} from "@/server/db/schema/podcast";
+import type { TranscriptData, TranscriptUtterance } from "@/types/transcript";
+import { billableMinutes, checkEntitlements } from "./billing";
+import {
+  fetchPublisherTranscript,
+  pickPublisherTranscript,
+} from "./publisher-transcript";
+import { getYouTubeTranscriptUtterances } from "./youtube-transcript";
+
+export const TRANSCRIPT_PROVIDER_IDS = [
+  "local",
+  "publisher",
+  "youtube",
+  "podscan",
+  "deepgram",
+] as const satisfies readonly TranscriptProviderId[];
+
+// Null means "use the next level's order"
+export const transcriptProviderOrderSchema = z
+  .array(z.enum(TRANSCRIPT_PROVIDER_IDS))
+  .min(1)
+  .nullable();
+
+// Free sources first; Deepgram costs money per minute of audio. Fixtures
+// only win over real sources when an order lists them explicitly.
+export const DEFAULT_TRANSCRIPT_PROVIDER_ORDER: TranscriptProviderId[] = [
+  "publisher",
+  "youtube",
+  "podscan",
+  "deepgram",
+  "local",
+];
+
+// Podscan has no lookup by audio URL, so matching pages through the feed
+const PODSCAN_MAX_PAGES = 3;
+
+export interface TranscriptProviderContext {
+  episode: typeof episodeSchema.$inferSelect;
+  podcast: typeof podcastSchema.$inferSelect | null;
+  deepgramApiKey?: string;
+}
+
+export interface ProviderTranscript {
+  utterances: TranscriptData;
+  duration?: number;
+  // Names by speaker index when the source labels its speakers
+  speakerNames?: string[];
+}
+
+/**
+ * A source of episode transcripts normalised to Deepgram-style utterances.
+ * `fetch` resolves null when the provider has nothing for the episode and
+ * throws when it should have but failed.
+ */
+export interface TranscriptProvider {
+  id: TranscriptProviderId;
+  label: string;
+  isAvailable(context: TranscriptProviderContext): boolean;
+  fetch(context: TranscriptProviderContext): Promise<ProviderTranscript | null>;
+}
+
+const defaultDeepgramOptions = {
+  model: "nova-3",
+  language: "en",
+  smart_format: true,
+  punctuate: true,
+  paragraphs: true,
+  diarize: true,
+  utterances: true,
+} as const;
+
+/**
+ * Reads transcripts from TRANSCRIPT_FIXTURES_DIR so the pipeline can run
+ * without network access. Only `<episode id>.json` matches, so other episodes
+ * fall through to the next provider.
+ */
+const localProvider: TranscriptProvider = {
+  id: "local",
+  label: "Local fixtures",
+  isAvailable: () => Boolean(process.env.TRANSCRIPT_FIXTURES_DIR),
+  fetch: async ({ episode }) => {
+    const dir = process.env.TRANSCRIPT_FIXTURES_DIR;
+    if (!dir) return null;
+
+    try {
+      const raw = await readFile(join(dir, `${episode.id}.json`), "utf8");
+      return { utterances: JSON.parse(raw) as TranscriptData };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  },
+};
+
+/**
+ * Transcripts the publisher links from the feed with `podcast:transcript`
+ */
+const publisherProvider: TranscriptProvider = {
+  id: "publisher",
+  label: "Publisher (RSS)",
+  isAvailable: ({ episode }) =>
+    pickPublisherTranscript(episode.publisherTranscripts) !== null,
+  fetch: async ({ episode }) => {
+    const transcript = await fetchPublisherTranscript(
+      episode.publisherTranscripts,
+    );
+    if (!transcript || transcript.utterances.length === 0) return null;
+
+    return {
+      utterances: transcript.utterances,
+      speakerNames: transcript.speakerNames,
+    };
+  },
+};
+
+const youtubeProvider: TranscriptProvider = {
+  id: "youtube",
+  label: "YouTube captions",
+  isAvailable: ({ episode }) => Boolean(episode.youtubeVideoId),
+  fetch: async ({ episode }) => {
+    if (!episode.youtubeVideoId) return null;
+
+    const utterances = await getYouTubeTranscriptUtterances(
+      episode.youtubeVideoId,
+    );
+    return utterances && utterances.length > 0 ? { utterances } : null;
+  },
+};
+
+const normaliseAudioUrl = (url: string) => url.split("?")[0].toLowerCase();
+const normaliseTitle = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Spread a segment's duration evenly over its words. Chunking counts words,
+ * so a whole sentence must never become one "word".
+ */
+function splitSegmentWords(text: string, start: number, end: number) {
+  const words = text.trim().split(/\s+/);
+  const durationPerWord = (end - start) / words.length;
+  return words.map((word, index) => ({
+    word,
+    start: start + index * durationPerWord,
+    end: start + (index + 1) * durationPerWord,
+  }));
+}
+
+/**
+ * Podscan segments carry word timings but no speakers, so every utterance is
+ * attributed to speaker 0 like YouTube captions.
+ */
+export function transformPodscanTranscript(
+  podscanEpisode: PodscanEpisode,
+): TranscriptUtterance[] {
+  const timestamps = podscanEpisode.episode_transcript_word_level_timestamps;
+  if (!timestamps || !timestamps.segments) return [];
+
+  return timestamps.segments
+    .filter((segment) => segment.text.trim().length > 0)
+    .map((segment) => {
+      const words = segment.words?.length
+        ? segment.words
+        : splitSegmentWords(segment.text, segment.start, segment.end);
+
+      return {
+        id: `podscan_${podscanEpisode.episode_id ?? "episode"}_${segment.id}`,
+        start: segment.start,
+        end: segment.end,
+        confidence: 1.0,
+        channel: 0,
+        transcript: segment.text.trim(),
+        speaker: 0,
+        words: words.map((word) => ({
+          word: word.word.trim(),
+          start: word.start,
+          end: word.end,
+          confidence: 1.0,
+          punctuated_word: word.word.trim(),
+          speaker: 0,
+        })),
+      };
+    });
+}
+
+const podscanProvider: TranscriptProvider = {
+  id: "podscan",
+  label: "Podscan",
+  isAvailable: ({ podcast }) =>
+    Boolean(process.env.PODSCAN_API_KEY && podcast?.podscanPodcastId),
+  fetch: async ({ episode, podcast }) => {
+    const token = process.env.PODSCAN_API_KEY;
+    if (!token || !podcast?.podscanPodcastId) return null;
+
+    const client = createPodscanClient(token);
+    const audioUrl = episode.audioUrl
+      ? normaliseAudioUrl(episode.audioUrl)
+      : null;
+    const title = normaliseTitle(episode.title);
+
+    for (let page = 1; page <= PODSCAN_MAX_PAGES; page++) {
+      const response = await client.getPodcastEpisodes(
+        podcast.podscanPodcastId,
+        { page, wordLevelTimestamps: true },
+      );
+
+      const match = response.episodes.find(
+        (candidate) =>
+          (audioUrl &&
+            candidate.episode_audio_url &&
+            normaliseAudioUrl(candidate.episode_audio_url) === audioUrl) ||
+          (candidate.episode_title &&
+            normaliseTitle(candidate.episode_title) === title),
+      );
+
+      if (match) {
+        const utterances = transformPodscanTranscript(match);
+        return utterances.length > 0 ? { utterances } : null;
+      }
+
+      if (!response.total_pages || page >= response.total_pages) break;
+    }
+
+    return null;
+  },
+};
+
+const deepgramProvider: TranscriptProvider = {
+  id: "deepgram",
+  label: "Deepgram",
+  isAvailable: ({ episode, deepgramApiKey }) =>
+    Boolean(
+      episode.audioUrl && (deepgramApiKey ?? process.env.DEEPGRAM_API_KEY),
+    ),
+  fetch: async ({ episode, deepgramApiKey }) => {
+    if (!episode.audioUrl) return null;
+
+    const apiKey = deepgramApiKey ?? process.env.DEEPGRAM_API_KEY;
+    if (!apiKey) {
+      throw new Error("DEEPGRAM_API_KEY environment variable is not set");
+    }
+
+    // Only Deepgram uses transcription minutes, so the plan is checked here
+    // rather than before the free providers get a turn
+    const entitlement = await checkEntitlements(episode.userId, {
+      transcription_minutes: billableMinutes(episode.durationSec),
+    });
+    if (!entitlement.allowed) {
+      throw new Error(entitlement.message);
+    }
+
+    const deepgram = createDeepgramClient(apiKey);
+    const { result, error } = await deepgram.listen.prerecorded.transcribeUrl(
+      { url: episode.audioUrl },
+      defaultDeepgramOptions,
+    );
+
+    if (error) {
+      throw new Error(`Deepgram transcription failed: ${error.message}`);
+    }
+
+    const utterances = result.results.utterances;
+    if (!utterances || utterances.length === 0) {
+      throw new Error("Deepgram returned no utterances for this episode");
+    }
+
+    return { utterances, duration: result.metadata.duration };
+  },
+};
+
+export const transcriptProviders: Record<
+  TranscriptProviderId,
+  TranscriptProvider
+> = {
+  local: localProvider,
+  publisher: publisherProvider,
+  youtube: youtubeProvider,
+  podscan: podscanProvider,
+  deepgram: deepgramProvider,
+};
+
+export function isTranscriptProviderId(
+  value: string,
+): value is TranscriptProviderId {
+  return (TRANSCRIPT_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * The podcast's order wins over the user's, which wins over the default.
+ * Unknown and duplicate ids are dropped; an order left with no known ids
+ * (e.g. after a provider is renamed) falls through to the next.
+ */
+export function resolveTranscriptProviderOrder({
+  podcastOrder,
+  userOrder,
+}: {
+  podcastOrder?: string[] | null;
+  userOrder?: string[] | null;
+}): TranscriptProviderId[] {
+  for (const candidate of [podcastOrder, userOrder]) {
+    const order = [...new Set(candidate?.filter(isTranscriptProviderId))];
+    if (order.length > 0) return order;
+  }
+
+  return DEFAULT_TRANSCRIPT_PROVIDER_ORDER;
+}
+
+/**
+ * Try each provider in order and return the first transcript found
+ */
+export async function fetchTranscriptFromProviders(
+  order: TranscriptProviderId[],
+  context: TranscriptProviderContext,
+): Promise<ProviderTranscript & { source: TranscriptProviderId }> {
+  const failures: string[] = [];
+
+  for (const id of order) {
+    const provider = transcriptProviders[id];
+    if (!provider.isAvailable(context)) continue;
+
+    try {
+      console.log(
+        `Fetching ${provider.label} transcript for episode ${context.episode.id}`,
+      );
+      const transcript = await provider.fetch(context);
+      if (transcript) {
+        console.log(
+          `Fetched ${provider.label} transcript (${transcript.utterances.length} utterances)`,
+        );
+        return { ...transcript, source: id };
+      }
+      console.log(`${provider.label} transcript unavailable, trying next`);
+    } catch (error) {
+      console.error(`${provider.label} transcript fetch failed:`, error);
+      failures.push(
+        `${provider.label}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  throw new Error(
+    failures.length > 0
+      ? `No transcript provider succeeded (${failures.join("; ")})`
+      : `No transcript provider available for this episode (tried ${order.join(", ")})`,
+  );
+}
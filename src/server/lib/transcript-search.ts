@@ -0,0 +1,254 @@
+import {
+  and,
+  asc,
+  cosineDistance,
+  desc,
+  eq,
+  isNotNull,
+  isNull,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import {
+  episode,
+  episodeSummary,
+  podcast,
+  transcriptChunk,
+} from "@/server/db/schema";
+import { buildTsQuery } from "@/server/lib/chat";
+import { embedQuery, getEmbeddingProvider } from "@/server/lib/embeddings";
+import { getSpeakerMappings } from "@/server/lib/speaker-identification";
+import type { DatabaseClient } from "@/server/lib/transcript-processing";
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface TranscriptSearchResult {
+  /** Chunk id for transcript matches, summary id for summary matches */
+  id: string;
+  source: "transcript" | "summary";
+  episodeId: string;
+  episodeTitle: string;
+  podcastTitle: string | null;
+  thumbnailUrl: string | null;
+  speaker: string | null;
+  snippet: SnippetSegment[];
+  startTimeSec: number | null;
+  /** Deep link that opens the episode at the match, e.g. /episode/abc?t=123 */
+  href: string;
+  matchedBy: Array<"fulltext" | "semantic">;
+  score: number;
+}
+
+interface SearchTranscriptsParams {
+  db: DatabaseClient;
+  userId: string;
+  query: string;
+  podcastId?: string;
+  limit?: number;
+  /** Blend in vector similarity when chunk embeddings are available */
+  semantic?: boolean;
+}
+
+// Control characters never appear in transcripts, so they make safe markers
+const HIGHLIGHT_START = "\u0001";
+const HIGHLIGHT_STOP = "\u0002";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=40, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Reciprocal rank fusion constant; 60 is the value from the original paper
+const RRF_K = 60;
+
+/**
+ * Split ts_headline output into plain and highlighted segments
+ */
+function parseHeadline(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_STOP}`, "gs");
+  let cursor = 0;
+
+  for (const match of headline.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      segments.push({
+        text: headline.slice(cursor, index),
+        highlighted: false,
+      });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    cursor = index + match[0].length;
+  }
+
+  if (cursor < headline.length) {
+    segments.push({ text: headline.slice(cursor), highlighted: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Hybrid search over the user's episode transcripts and summaries.
+ * Full-text rank (ts_rank_cd) and cosine similarity are merged with
+ * reciprocal rank fusion; semantic matching is skipped silently when
+ * embeddings are unavailable, and only covers chunks embedded with the
+ * current provider's model.
+ */
+export async function searchTranscripts({
+  db,
+  userId,
+  query,
+  podcastId,
+  limit = 20,
+  semantic = true,
+}: SearchTranscriptsParams): Promise<TranscriptSearchResult[]> {
+  const tsQuery = buildTsQuery(query);
+  if (!tsQuery) return [];
+
+  const tsQuerySql = sql`to_tsquery('english', ${tsQuery})`;
+  const chunkVector = sql`to_tsvector('english', ${transcriptChunk.content})`;
+  const summaryVector = sql`to_tsvector('english', ${episodeSummary.markdownContent})`;
+  const candidateLimit = limit * 2;
+
+  const episodeScope = and(
+    eq(episode.userId, userId),
+    isNull(episode.hiddenAt),
+    podcastId ? eq(episode.podcastId, podcastId) : undefined,
+  );
+
+  const chunkFields = {
+    id: transcriptChunk.id,
+    episodeId: episode.id,
+    episodeTitle: episode.title,
+    podcastTitle: podcast.title,
+    thumbnailUrl: sql<
+      string | null
+    >`coalesce(${episode.thumbnailUrl}, ${podcast.imageUrl})`,
+    speaker: transcriptChunk.speaker,
+    startTimeSec: transcriptChunk.startTimeSec,
+    headline: sql<string>`ts_headline('english', ${transcriptChunk.content}, ${tsQuerySql}, ${HEADLINE_OPTIONS})`,
+  };
+
+  const chunkSearch = (where: SQL | undefined, orderBy: SQL) =>
+    db
+      .select(chunkFields)
+      .from(transcriptChunk)
+      .innerJoin(episode, eq(transcriptChunk.episodeId, episode.id))
+      .innerJoin(podcast, eq(episode.podcastId, podcast.id))
+      .where(and(episodeScope, where))
+      .orderBy(orderBy)
+      .limit(candidateLimit);
+
+  const fulltextChunks = await chunkSearch(
+    sql`${chunkVector} @@ ${tsQuerySql}`,
+    desc(sql`ts_rank_cd(${chunkVector}, ${tsQuerySql})`),
+  );
+
+  let semanticChunks: typeof fulltextChunks = [];
+  if (semantic) {
+    try {
+      const provider = getEmbeddingProvider();
+      const embedding = await embedQuery(query, { db, userId }, provider);
+      // Vectors from different models aren't comparable
+      semanticChunks = await chunkSearch(
+        and(
+          isNotNull(transcriptChunk.embedding),
+          eq(transcriptChunk.embeddingModel, provider.id),
+        ),
+        asc(cosineDistance(transcriptChunk.embedding, embedding)),
+      );
+    } catch (error) {
+      console.warn("Semantic transcript search unavailable:", error);
+    }
+  }
+
+  const summaryMatches = await db
+    .select({
+      id: episodeSummary.id,
+      episodeId: episode.id,
+      episodeTitle: episode.title,
+      podcastTitle: podcast.title,
+      thumbnailUrl: sql<
+        string | null
+      >`coalesce(${episode.thumbnailUrl}, ${podcast.imageUrl})`,
+      headline: sql<string>`ts_headline('english', ${episodeSummary.markdownContent}, ${tsQuerySql}, ${HEADLINE_OPTIONS})`,
+    })
+    .from(episodeSummary)
+    .innerJoin(episode, eq(episodeSummary.episodeId, episode.id))
+    .innerJoin(podcast, eq(episode.podcastId, podcast.id))
+    .where(and(episodeScope, sql`${summaryVector} @@ ${tsQuerySql}`))
+    .orderBy(desc(sql`ts_rank_cd(${summaryVector}, ${tsQuerySql})`))
+    .limit(candidateLimit);
+
+  const episodeIds = [
+    ...new Set(
+      [...fulltextChunks, ...semanticChunks].map((chunk) => chunk.episodeId),
+    ),
+  ];
+  const speakersByEpisode = await getSpeakerMappings({ db, episodeIds });
+
+  const results = new Map<string, TranscriptSearchResult>();
+
+  const addChunks = (
+    rows: typeof fulltextChunks,
+    matchedBy: "fulltext" | "semantic",
+  ) => {
+    for (const [rank, row] of rows.entries()) {
+      const contribution = 1 / (RRF_K + rank + 1);
+      const existing = results.get(row.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.matchedBy.push(matchedBy);
+        continue;
+      }
+
+      const speakers = speakersByEpisode.get(row.episodeId);
+      const speaker =
+        row.speaker === null
+          ? null
+          : (speakers?.[row.speaker] ?? `Speaker ${row.speaker}`);
+
+      results.set(row.id, {
+        id: row.id,
+        source: "transcript",
+        episodeId: row.episodeId,
+        episodeTitle: row.episodeTitle,
+        podcastTitle: row.podcastTitle,
+        thumbnailUrl: row.thumbnailUrl,
+        speaker,
+        snippet: parseHeadline(row.headline),
+        startTimeSec: row.startTimeSec,
+        href:
+          row.startTimeSec !== null
+            ? `/episode/${row.episodeId}?t=${row.startTimeSec}`
+            : `/episode/${row.episodeId}`,
+        matchedBy: [matchedBy],
+        score: contribution,
+      });
+    }
+  };
+
+  addChunks(fulltextChunks, "fulltext");
+  addChunks(semanticChunks, "semantic");
+
+  for (const [rank, row] of summaryMatches.entries()) {
+    results.set(row.id, {
+      id: row.id,
+      source: "summary",
+      episodeId: row.episodeId,
+      episodeTitle: row.episodeTitle,
+      podcastTitle: row.podcastTitle,
+      thumbnailUrl: row.thumbnailUrl,
+      speaker: null,
+      snippet: parseHeadline(row.headline),
+      startTimeSec: null,
+      href: `/episode/${row.episodeId}`,
+      matchedBy: ["fulltext"],
+      score: 1 / (RRF_K + rank + 1),
+    });
+  }
+
+  return [...results.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,248 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { put } from "@vercel/blob";
+import type { TranscriptData } from "@/types/transcript";
+
+export type TranscriptStorageBackend = "vercel-blob" | "s3" | "local";
+
+// Signed S3 links only need to outlive a click on "Download"
+const SIGNED_URL_EXPIRES_IN_SEC = 5 * 60;
+
+const S3_REF_PREFIX = "s3://";
+const LOCAL_REF_PREFIX = "local://";
+
+/**
+ * Where transcript JSON lives. `put` returns an opaque reference that's
+ * stored in `episode.transcriptUrl`; only this module interprets it.
+ */
+export interface TranscriptStorage {
+  backend: TranscriptStorageBackend;
+  put(key: string, body: string): Promise<string>;
+  get(ref: string): Promise<string>;
+  // Direct, expiring link for downloads. Null means "proxy it".
+  getSignedUrl(ref: string): Promise<string | null>;
+}
+
+/**
+ * Vercel Blob only supports public objects, so the random suffix keeps URLs
+ * unguessable and clients always go through the transcript route.
+ */
+const vercelBlobStorage: TranscriptStorage = {
+  backend: "vercel-blob",
+  put: async (key, body) => {
+    const blob = await put(key, body, {
+      access: "public",
+      contentType: "application/json",
+      addRandomSuffix: true,
+    });
+    return blob.url;
+  },
+  get: async (ref) => {
+    const response = await fetch(ref);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch transcript: ${response.status}`);
+    }
+    return response.text();
+  },
+  getSignedUrl: async () => null,
+};
+
+let s3Client: S3Client | null = null;
+
+function getS3Client() {
+  if (!s3Client) {
+    s3Client = new S3Client({
+      region: process.env.S3_REGION ?? "auto",
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: Boolean(process.env.S3_ENDPOINT),
+      credentials:
+        process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: process.env.S3_ACCESS_KEY_ID,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    });
+  }
+  return s3Client;
+}
+
+function parseS3Ref(ref: string) {
+  const path = ref.slice(S3_REF_PREFIX.length);
+  const slash = path.indexOf("/");
+  return { bucket: path.slice(0, slash), key: path.slice(slash + 1) };
+}
+
+/**
+ * Any S3-compatible store (AWS, R2, MinIO). Objects are private; reads use
+ * credentials and downloads get short-lived signed URLs.
+ */
+const s3Storage: TranscriptStorage = {
+  backend: "s3",
+  put: async (key, body) => {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error("S3_BUCKET environment variable is not set");
+    }
+
+    await getS3Client().send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: "application/json",
+      }),
+    );
+    return `${S3_REF_PREFIX}${bucket}/${key}`;
+  },
+  get: async (ref) => {
+    const { bucket, key } = parseS3Ref(ref);
+    const response = await getS3Client().send(
+      new GetObjectCommand({ Bucket: bucket, Key: key }),
+    );
+    if (!response.Body) {
+      throw new Error(`Transcript not found: ${ref}`);
+    }
+    return response.Body.transformToString();
+  },
+  getSignedUrl: async (ref) => {
+    const { bucket, key } = parseS3Ref(ref);
+    return getSignedUrl(
+      getS3Client(),
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ResponseContentType: "application/json",
+      }),
+      { expiresIn: SIGNED_URL_EXPIRES_IN_SEC },
+    );
+  },
+};
+
+const localRoot = () =>
+  resolve(process.env.TRANSCRIPT_STORAGE_DIR ?? ".data/transcripts");
+
+/**
+ * Files under TRANSCRIPT_STORAGE_DIR, for local dev without Blob credentials.
+ * References are relative so the directory can move.
+ */
+const localDiskStorage: TranscriptStorage = {
+  backend: "local",
+  put: async (key, body) => {
+    const path = join(localRoot(), key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body, "utf8");
+    return `${LOCAL_REF_PREFIX}${key}`;
+  },
+  get: async (ref) => {
+    const root = localRoot();
+    const path = resolve(root, ref.slice(LOCAL_REF_PREFIX.length));
+    if (!path.startsWith(`${root}/`)) {
+      throw new Error(`Invalid transcript reference: ${ref}`);
+    }
+    return readFile(path, "utf8");
+  },
+  getSignedUrl: async () => null,
+};
+
+const storages: Record<TranscriptStorageBackend, TranscriptStorage> = {
+  "vercel-blob": vercelBlobStorage,
+  s3: s3Storage,
+  local: localDiskStorage,
+};
+
+/**
+ * The backend new transcripts are written to: TRANSCRIPT_STORAGE if set,
+ * otherwise Vercel Blob when its token exists, otherwise the local disk.
+ */
+export function getTranscriptStorage(): TranscriptStorage {
+  const configured = process.env.TRANSCRIPT_STORAGE as
+    | TranscriptStorageBackend
+    | undefined;
+  if (configured) {
+    const storage = storages[configured];
+    if (!storage) {
+      throw new Error(`Unknown TRANSCRIPT_STORAGE backend: ${configured}`);
+    }
+    return storage;
+  }
+
+  return process.env.BLOB_READ_WRITE_TOKEN
+    ? vercelBlobStorage
+    : localDiskStorage;
+}
+
+/**
+ * Reads follow the reference, not the current config, so transcripts
+ * written before a backend switch stay readable.
+ */
+function storageForRef(ref: string): TranscriptStorage {
+  if (ref.startsWith(S3_REF_PREFIX)) return s3Storage;
+  if (ref.startsWith(LOCAL_REF_PREFIX)) return localDiskStorage;
+  return vercelBlobStorage;
+}
+
+export async function saveTranscript(
+  episodeId: string,
+  transcript: TranscriptData,
+): Promise<string> {
+  return getTranscriptStorage().put(
+    `transcripts/${episodeId}-${Date.now().toString()}.json`,
+    JSON.stringify(transcript),
+  );
+}
+
+export async function loadTranscriptJson(episode: {
+  transcriptUrl: string | null;
+}): Promise<string> {
+  if (!episode.transcriptUrl) {
+    throw new Error("Episode has no transcript");
+  }
+  return storageForRef(episode.transcriptUrl).get(episode.transcriptUrl);
+}
+
+/**
+ * The one way server code should read a stored transcript
+ */
+export async function loadTranscript(episode: {
+  transcriptUrl: string | null;
+}): Promise<TranscriptData> {
+  return JSON.parse(await loadTranscriptJson(episode)) as TranscriptData;
+}
+
+export async function getTranscriptDownloadUrl(episode: {
+  transcriptUrl: string | null;
+}): Promise<string | null> {
+  if (!episode.transcriptUrl) return null;
+  return storageForRef(episode.transcriptUrl).getSignedUrl(
+    episode.transcriptUrl,
+  );
+}
+
+/**
+ * Path clients use instead of the stored reference
+ */
+export function getTranscriptProxyPath(episodeId: string) {
+  return `/api/transcripts/${episodeId}`;
+}
+
+/**
+ * Swap an episode row's stored reference for the proxy path before it is
+ * returned to a client
+ */
+export function withTranscriptProxyPath<
+  T extends { id: string; transcriptUrl: string | null },
+>(episode: T): T {
+  return {
+    ...episode,
+    transcriptUrl: episode.transcriptUrl
+      ? getTranscriptProxyPath(episode.id)
+      : null,
+  };
+}
@@ -0,0 +1,256 @@
+import { randomUUID } from "node:crypto";
+import { and, desc, eq, gte, type SQL, sql } from "drizzle-orm";
+import { user } from "@/server/db/schema/auth";
+import { article, episode } from "@/server/db/schema/podcast";
+import {
+  USAGE_PROVIDERS,
+  type UsageProvider,
+  type UsageTask,
+  usageEvent,
+} from "@/server/db/schema/usage";
+import type { DatabaseClient } from "./transcript-processing";
+
+/**
+ * Who a call is billed to, and what it was for
+ */
+export interface UsageContext {
+  db: DatabaseClient;
+  userId: string;
+  episodeId?: string | null;
+  articleId?: string | null;
+}
+
+export interface UsageEntry {
+  provider: UsageProvider;
+  model?: string | null;
+  task: UsageTask;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+}
+
+// USD per million tokens, from the providers' list prices
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "openrouter:openai/gpt-5-nano": { input: 0.05, output: 0.4 },
+  "openrouter:openai/gpt-5-mini": { input: 0.25, output: 2 },
+  "openrouter:x-ai/grok-4-fast": { input: 0.2, output: 0.5 },
+  "openrouter:moonshotai/kimi-k2-0905": { input: 0.39, output: 1.9 },
+  "openai:gpt-5-nano": { input: 0.05, output: 0.4 },
+  "openai:gpt-5-mini": { input: 0.25, output: 2 },
+  "openai:text-embedding-3-small": { input: 0.02, output: 0 },
+};
+
+// Nova-3, pre-recorded, pay as you go
+const DEEPGRAM_USD_PER_MINUTE = 0.0043;
+
+// Reader bills the tokens of the page it returns
+const JINA_USD_PER_MILLION_TOKENS = 0.02;
+
+export function isUsageProvider(value: string): value is UsageProvider {
+  return (USAGE_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Estimated cost of one call. Null when the model has no known price.
+ */
+export function estimateCostUsd(entry: UsageEntry): number | null {
+  const inputTokens = entry.inputTokens ?? 0;
+  const outputTokens = entry.outputTokens ?? 0;
+
+  switch (entry.provider) {
+    case "local":
+    case "fake":
+      return 0;
+    case "deepgram":
+      return ((entry.audioSeconds ?? 0) / 60) * DEEPGRAM_USD_PER_MINUTE;
+    case "jina":
+      return (
+        ((inputTokens + outputTokens) / 1_000_000) * JINA_USD_PER_MILLION_TOKENS
+      );
+    default: {
+      const price = TOKEN_PRICES[`${entry.provider}:${entry.model}`];
+      if (!price) return null;
+      return (
+        (inputTokens / 1_000_000) * price.input +
+        (outputTokens / 1_000_000) * price.output
+      );
+    }
+  }
+}
+
+/**
+ * Add a row to the ledger. Never throws: losing a usage row is better than
+ * failing the work it describes.
+ */
+export async function recordUsage(context: UsageContext, entry: UsageEntry) {
+  try {
+    await context.db.insert(usageEvent).values({
+      id: randomUUID(),
+      userId: context.userId,
+      provider: entry.provider,
+      model: entry.model ?? null,
+      task: entry.task,
+      inputTokens: entry.inputTokens ?? 0,
+      outputTokens: entry.outputTokens ?? 0,
+      audioSeconds: entry.audioSeconds ?? 0,
+      costUsd: estimateCostUsd(entry),
+      episodeId: context.episodeId ?? null,
+      articleId: context.articleId ?? null,
+    });
+  } catch (error) {
+    console.error("[Usage] Failed to record usage:", error);
+  }
+}
+
+export const USAGE_PERIODS = ["day", "week", "month"] as const;
+export type UsagePeriod = (typeof USAGE_PERIODS)[number];
+
+// How far back each rollup goes
+const PERIOD_BUCKETS: Record<UsagePeriod, number> = {
+  day: 30,
+  week: 12,
+  month: 12,
+};
+
+function periodStart(period: UsagePeriod): Date {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  if (period === "day") {
+    start.setUTCDate(start.getUTCDate() - (PERIOD_BUCKETS.day - 1));
+  } else if (period === "week") {
+    start.setUTCDate(start.getUTCDate() - PERIOD_BUCKETS.week * 7);
+  } else {
+    start.setUTCDate(1);
+    start.setUTCMonth(start.getUTCMonth() - (PERIOD_BUCKETS.month - 1));
+  }
+  return start;
+}
+
+const totals = {
+  costUsd: sql<number>`coalesce(sum(${usageEvent.costUsd}), 0)`.mapWith(Number),
+  calls: sql<number>`count(*)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${usageEvent.inputTokens}), 0)`.mapWith(
+    Number,
+  ),
+  outputTokens:
+    sql<number>`coalesce(sum(${usageEvent.outputTokens}), 0)`.mapWith(Number),
+  audioSeconds:
+    sql<number>`coalesce(sum(${usageEvent.audioSeconds}), 0)`.mapWith(Number),
+  // Calls whose model has no price, so the cost is a lower bound
+  unpricedCalls:
+    sql<number>`count(*) filter (where ${usageEvent.costUsd} is null)`.mapWith(
+      Number,
+    ),
+};
+
+/**
+ * Cost and volume per day, week or month, plus the split by provider and
+ * task. Pass `userId` for one user; omit it for everyone.
+ */
+export async function getUsageRollup({
+  db,
+  userId,
+  period,
+}: {
+  db: DatabaseClient;
+  userId?: string;
+  period: UsagePeriod;
+}) {
+  const since = periodStart(period);
+  const where = and(
+    gte(usageEvent.createdAt, since),
+    userId ? eq(usageEvent.userId, userId) : undefined,
+  );
+  // The unit comes from a fixed list, so it's safe to inline; a bound
+  // parameter would make the select and group by expressions differ
+  const bucket: SQL<Date> = sql`date_trunc(${sql.raw(`'${period}'`)}, ${usageEvent.createdAt} at time zone 'UTC')`;
+
+  const [summary, buckets, breakdown] = await Promise.all([
+    db.select(totals).from(usageEvent).where(where),
+    db
+      .select({
+        // Start of the bucket as YYYY-MM-DD, in UTC
+        bucket: sql<string>`to_char(${bucket}, 'YYYY-MM-DD')`,
+        ...totals,
+      })
+      .from(usageEvent)
+      .where(where)
+      .groupBy(bucket)
+      .orderBy(bucket),
+    db
+      .select({
+        provider: usageEvent.provider,
+        task: usageEvent.task,
+        ...totals,
+      })
+      .from(usageEvent)
+      .where(where)
+      .groupBy(usageEvent.provider, usageEvent.task)
+      .orderBy(desc(totals.costUsd)),
+  ]);
+
+  return { since, totals: summary[0], buckets, breakdown };
+}
+
+/**
+ * The most recent ledger rows for a user, with what they were for
+ */
+export async function getRecentUsage({
+  db,
+  userId,
+  limit = 50,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  limit?: number;
+}) {
+  return db
+    .select({
+      id: usageEvent.id,
+      provider: usageEvent.provider,
+      model: usageEvent.model,
+      task: usageEvent.task,
+      inputTokens: usageEvent.inputTokens,
+      outputTokens: usageEvent.outputTokens,
+      audioSeconds: usageEvent.audioSeconds,
+      costUsd: usageEvent.costUsd,
+      createdAt: usageEvent.createdAt,
+      episodeId: usageEvent.episodeId,
+      episodeTitle: episode.title,
+      articleId: usageEvent.articleId,
+      articleTitle: article.title,
+    })
+    .from(usageEvent)
+    .leftJoin(episode, eq(usageEvent.episodeId, episode.id))
+    .leftJoin(article, eq(usageEvent.articleId, article.id))
+    .where(eq(usageEvent.userId, userId))
+    .orderBy(desc(usageEvent.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Users ranked by estimated cost over the period
+ */
+export async function getTopUsersByCost({
+  db,
+  period,
+  limit = 20,
+}: {
+  db: DatabaseClient;
+  period: UsagePeriod;
+  limit?: number;
+}) {
+  return db
+    .select({
+      userId: usageEvent.userId,
+      name: user.name,
+      email: user.email,
+      ...totals,
+    })
+    .from(usageEvent)
+    .innerJoin(user, eq(usageEvent.userId, user.id))
+    .where(gte(usageEvent.createdAt, periodStart(period)))
+    .groupBy(usageEvent.userId, user.name, user.email)
+    .orderBy(desc(totals.costUsd))
+    .limit(limit);
+}
@@ -1,32 +1,44 @@
+import type { OAuthAccessToken } from "better-auth/plugins";
+import { eq } from "drizzle-orm";
 import type { NextRequest } from "next/server";
-import { auth } from "@/lib/auth";
 import { db } from "@/server/db";
+import { user } from "@/server/db/schema";
+import { resolveRequestAuth } from "@/server/lib/api-tokens";
 
 export async function createTRPCContext(opts?: { req?: NextRequest }) {
-  const session = opts?.req
-    ? await auth.api.getSession({ headers: opts.req.headers })
+  // Session cookie, or `Authorization: Bearer cwp_...` personal API token
+  const requestAuth = opts?.req
+    ? await resolveRequestAuth(opts.req.headers)
     : null;
 
   return {
     db,
-    session: session?.session ?? null,
-    user: session?.user ?? null,
+    session: requestAuth?.session ?? null,
+    user: requestAuth?.user ?? null,
+    apiToken: requestAuth?.apiToken ?? null,
   };
 }
 
-export async function createMcpTRPCContext(opts: {
-  req: NextRequest | Request;
-}) {
-  const mcpSession = await auth.api.getMcpSession({
-    headers: opts.req.headers,
-  });
+/**
+ * Context for tool calls from an OAuth-authenticated MCP client.
+ * The grant acts like a read/write API token: no exports, no token management.
+ */
+export async function createMcpTRPCContext(mcpSession: OAuthAccessToken) {
+  const [mcpUser] = await db
+    .select()
+    .from(user)
+    .where(eq(user.id, mcpSession.userId))
+    .limit(1);
 
   return {
     db,
-    mcpSession,
-    userId: mcpSession?.userId ?? null,
-  };
+    session: null,
+    user: mcpUser && !mcpUser.banned ? mcpUser : null,
+    apiToken: {
+      id: `mcp:${mcpSession.clientId}`,
+      scopes: ["read", "write"],
+    },
+  } satisfies Context;
 }
 
 export type Context = Awaited<ReturnType<typeof createTRPCContext>>;
-export type McpContext = Awaited<ReturnType<typeof createMcpTRPCContext>>;
@@ -1,5 +1,6 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import { ZodError } from "zod";
+import { type ApiTokenScope, hasApiScope } from "@/server/lib/api-tokens";
 import type { Context } from "./context";
 
 const t = initTRPC.context<Context>().create({
@@ -21,18 +22,55 @@ const t = initTRPC.context<Context>().create({
 export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
 
-export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
-  if (!ctx.session || !ctx.user) {
+/**
+ * Signed-in user via session cookie or personal API token.
+ * Token callers need the "read" scope for queries and "write" for mutations.
+ */
+export const protectedProcedure = t.procedure.use(({ ctx, type, next }) => {
+  if (!ctx.user) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
+  const requiredScope = type === "query" ? "read" : "write";
+  if (!hasApiScope(ctx, requiredScope)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `API token is missing the "${requiredScope}" scope`,
+    });
+  }
   return next({
     ctx: {
       ...ctx,
-      session: ctx.session,
       user: ctx.user,
     },
   });
 });
 
+/**
+ * Additionally require a specific scope when called with an API token
+ */
+export const scopedProcedure = (scope: ApiTokenScope) =>
+  protectedProcedure.use(({ ctx, next }) => {
+    if (!hasApiScope(ctx, scope)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `API token is missing the "${scope}" scope`,
+      });
+    }
+    return next();
+  });
+
+/**
+ * Browser sessions only, e.g. managing the API tokens themselves
+ */
+export const sessionProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!ctx.session || ctx.apiToken) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This action requires signing in to the app",
+    });
+  }
+  return next({ ctx: { ...ctx, session: ctx.session } });
+});
+
 export const middleware = t.middleware;
 export const createCallerFactory = t.createCallerFactory;
@@ -1,12 +1,21 @@
 import { createTRPCRouter } from "./init";
 import { adminRouter } from "./routers/admin";
+import { apiTokensRouter } from "./routers/api-tokens";
 import { articlesRouter } from "./routers/articles";
+import { billingRouter } from "./routers/billing";
+import { chatRouter } from "./routers/chat";
 import { episodesRouter } from "./routers/episodes";
 import { exportsRouter } from "./routers/exports";
 import { favoritesRouter } from "./routers/favorites";
 import { integrationsRouter } from "./routers/integrations";
+import { playbackRouter } from "./routers/playback";
 import { podcastsRouter } from "./routers/podcasts";
 import { readwiseRouter } from "./routers/readwise";
+import { shareLinksRouter } from "./routers/share-links";
+import { signalsRouter } from "./routers/signals";
+import { snipsRouter } from "./routers/snips";
+import { summariesRouter } from "./routers/summaries";
+import { usageRouter } from "./routers/usage";
 import { usersRouter } from "./routers/users";
 
 export const appRouter = createTRPCRouter({
@@ -19,6 +28,15 @@ export const appRouter = createTRPCRouter({
   integrations: integrationsRouter,
   readwise: readwiseRouter,
   exports: exportsRouter,
+  chat: chatRouter,
+  apiTokens: apiTokensRouter,
+  signals: signalsRouter,
+  snips: snipsRouter,
+  shareLinks: shareLinksRouter,
+  summaries: summariesRouter,
+  billing: billingRouter,
+  usage: usageRouter,
+  playback: playbackRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -143,6 +143,25 @@ export const adminRouter = createTRPCRouter({
       return { success: true, message: "Feed health checker triggered" };
     }),
 
+  // Embeddings
+  backfillEmbeddings: protectedProcedure
+    .input(z.object({ userId: z.string().optional() }).optional())
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.user?.role !== "admin") {
+        throw new Error("Unauthorized: Admin access required");
+      }
+
+      await inngest.send({
+        name: "app/embeddings.backfill",
+        data: {
+          pipelineRunId: randomUUID(),
+          userId: input?.userId,
+        },
+      });
+
+      return { success: true, message: "Embedding backfill triggered" };
+    }),
+
   // Maintenance
   monthlyCleanup: protectedProcedure
     .input(z.object({}).optional())
@@ -0,0 +1,105 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { apiToken } from "@/server/db/schema";
+import {
+  API_TOKEN_SCOPES,
+  generateApiToken,
+  hashApiToken,
+} from "@/server/lib/api-tokens";
+import { createTRPCRouter, sessionProcedure } from "../init";
+
+const MAX_ACTIVE_TOKENS = 20;
+
+// Token management is session-only so a leaked token can't mint or revoke others
+export const apiTokensRouter = createTRPCRouter({
+  list: sessionProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select({
+        id: apiToken.id,
+        name: apiToken.name,
+        tokenPrefix: apiToken.tokenPrefix,
+        scopes: apiToken.scopes,
+        lastUsedAt: apiToken.lastUsedAt,
+        expiresAt: apiToken.expiresAt,
+        createdAt: apiToken.createdAt,
+      })
+      .from(apiToken)
+      .where(and(eq(apiToken.userId, ctx.user.id), isNull(apiToken.revokedAt)))
+      .orderBy(desc(apiToken.createdAt));
+  }),
+
+  create: sessionProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1, "Name is required").max(100),
+        scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+        expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const active = await ctx.db
+        .select({ id: apiToken.id })
+        .from(apiToken)
+        .where(
+          and(eq(apiToken.userId, ctx.user.id), isNull(apiToken.revokedAt)),
+        );
+
+      if (active.length >= MAX_ACTIVE_TOKENS) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `You can have at most ${MAX_ACTIVE_TOKENS} active tokens. Revoke one first.`,
+        });
+      }
+
+      const { token, prefix } = generateApiToken();
+      const expiresAt = input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : null;
+
+      const [created] = await ctx.db
+        .insert(apiToken)
+        .values({
+          id: nanoid(),
+          userId: ctx.user.id,
+          name: input.name,
+          tokenHash: hashApiToken(token),
+          tokenPrefix: prefix,
+          scopes: [...new Set(input.scopes)],
+          expiresAt,
+        })
+        .returning({
+          id: apiToken.id,
+          name: apiToken.name,
+          tokenPrefix: apiToken.tokenPrefix,
+          scopes: apiToken.scopes,
+          expiresAt: apiToken.expiresAt,
+        });
+
+      // The plaintext token is only ever returned here
+      return { ...created, token };
+    }),
+
+  revoke: sessionProcedure
+    .input(z.object({ tokenId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [revoked] = await ctx.db
+        .update(apiToken)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(apiToken.id, input.tokenId),
+            eq(apiToken.userId, ctx.user.id),
+            isNull(apiToken.revokedAt),
+          ),
+        )
+        .returning({ id: apiToken.id });
+
+      if (!revoked) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Token not found" });
+      }
+
+      return { success: true };
+    }),
+});
@@ -8,6 +8,11 @@ import { inngest } from "@/inngest/client";
 import { checkRateLimit } from "@/lib/rate-limit";
 import { article, articleFeed, episodeSummary } from "@/server/db/schema";
 import { cleanMarkdownWithAI } from "@/server/lib/article-processing";
+import { checkEntitlements, syncFeedUsage } from "@/server/lib/billing";
+import { estimateTokens } from "@/server/lib/episode-summary";
+import { getTaskModel } from "@/server/lib/model-registry";
+import { resolveSummaryTemplate } from "@/server/lib/summary-templates";
+import { recordUsage } from "@/server/lib/usage-ledger";
 import { createTRPCRouter, protectedProcedure } from "../init";
 
 export const articlesRouter = createTRPCRouter({
@@ -20,8 +25,21 @@ export const articlesRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const existing = await ctx.db.query.article.findFirst({
         where: and(eq(article.userId, ctx.user.id), eq(article.url, input.url)),
+        with: { summary: { columns: { id: true } } },
       });
 
+      // Processing makes a summary if the article doesn't have one yet
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        summaries: existing?.summary ? 0 : 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       let articleId: string;
 
       if (existing) {
@@ -87,6 +105,7 @@ export const articlesRouter = createTRPCRouter({
         where: eq(article.id, input.id),
         with: {
           summary: true,
+          feed: { columns: { summaryTemplateId: true } },
           transcriptChunks: {
             orderBy: (chunks, { asc }) => [asc(chunks.createdAt)],
             limit: 50,
@@ -128,6 +147,17 @@ export const articlesRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        feeds: 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       const parser = new Parser();
       const feed = await parser.parseURL(input.feedUrl);
 
@@ -147,6 +177,8 @@ export const articlesRouter = createTRPCRouter({
         }),
       });
 
+      await syncFeedUsage(ctx.db, ctx.user.id);
+
       return {
         success: true,
         feed: {
@@ -224,6 +256,52 @@ export const articlesRouter = createTRPCRouter({
           ),
         );
 
+      await syncFeedUsage(ctx.db, ctx.user.id);
+
+      return { success: true };
+    }),
+
+  updateFeedSummaryTemplate: protectedProcedure
+    .input(
+      z.object({
+        feedId: z.string(),
+        // null falls back to the built-in summary
+        templateId: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (
+        input.templateId &&
+        !(await resolveSummaryTemplate({
+          db: ctx.db,
+          userId: ctx.user.id,
+          templateId: input.templateId,
+        }))
+      ) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Template not found",
+        });
+      }
+
+      const [updated] = await ctx.db
+        .update(articleFeed)
+        .set({ summaryTemplateId: input.templateId })
+        .where(
+          and(
+            eq(articleFeed.id, input.feedId),
+            eq(articleFeed.userId, ctx.user.id),
+          ),
+        )
+        .returning({ id: articleFeed.id });
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Feed not found",
+        });
+      }
+
       return { success: true };
     }),
 
@@ -423,6 +501,17 @@ export const articlesRouter = createTRPCRouter({
         throw new Error("Article is currently being processed");
       }
 
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        summaries: 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       await inngest.send({
         name: "article/process.requested",
         data: {
@@ -453,6 +542,17 @@ export const articlesRouter = createTRPCRouter({
         throw new Error("Article not found");
       }
 
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        summaries: 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       await inngest.send({
         name: "article/reprocess.requested",
         data: {
@@ -564,8 +664,23 @@ export const articlesRouter = createTRPCRouter({
       }
 
       const rawMarkdown = await response.text();
+      const usage = {
+        db: ctx.db,
+        userId: ctx.user.id,
+        articleId: input.articleId,
+      };
 
-      const rawContent = await cleanMarkdownWithAI(rawMarkdown);
+      await recordUsage(usage, {
+        provider: "jina",
+        model: "reader",
+        task: "extraction",
+        outputTokens: estimateTokens(rawMarkdown),
+      });
+
+      const rawContent = await cleanMarkdownWithAI(
+        rawMarkdown,
+        await getTaskModel("markdown-cleaning", usage),
+      );
 
       await ctx.db
         .update(article)
@@ -578,7 +693,14 @@ export const articlesRouter = createTRPCRouter({
     }),
 
   generateSummary: protectedProcedure
-    .input(z.object({ articleId: z.string(), force: z.boolean().optional() }))
+    .input(
+      z.object({
+        articleId: z.string(),
+        force: z.boolean().optional(),
+        // Omit for the feed's default template, null for the built-in summary
+        templateId: z.string().nullable().optional(),
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
       const rateLimitResult = await checkRateLimit(
         `article-summary:${ctx.user.id}`,
@@ -610,6 +732,17 @@ export const articlesRouter = createTRPCRouter({
         });
       }
 
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        summaries: 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       if (
         !articleRecord.transcriptChunks ||
         articleRecord.transcriptChunks.length === 0
@@ -644,6 +777,7 @@ export const articlesRouter = createTRPCRouter({
           userId: ctx.user.id,
           articleId: input.articleId,
           force: input.force ?? true,
+          templateId: input.templateId,
         },
       });
 
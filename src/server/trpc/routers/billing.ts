@@ -0,0 +1,35 @@
+import { z } from "zod";
+import {
+  changePlan,
+  getBillingOverview,
+  getBillingPortalUrl,
+  syncFeedUsage,
+} from "@/server/lib/billing";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+export const billingRouter = createTRPCRouter({
+  overview: protectedProcedure.query(async ({ ctx }) => {
+    // Feeds added before billing was set up were never counted
+    await syncFeedUsage(ctx.db, ctx.user.id);
+    return getBillingOverview(ctx.user.id);
+  }),
+
+  changePlan: protectedProcedure
+    .input(
+      z.object({
+        planId: z.enum(["free", "pro"]),
+        returnUrl: z.string().url(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return changePlan(ctx.user.id, input.planId, input.returnUrl);
+    }),
+
+  portal: protectedProcedure
+    .input(z.object({ returnUrl: z.string().url() }))
+    .mutation(async ({ ctx, input }) => {
+      return {
+        url: await getBillingPortalUrl(ctx.user.id, input.returnUrl),
+      };
+    }),
+});
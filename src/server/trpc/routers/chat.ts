@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { getEpisodeDetails, searchTranscriptChunks } from "@/server/lib/chat";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+// Streaming happens in /api/chat; these expose the same retrieval the chat tools use
+export const chatRouter = createTRPCRouter({
+  search: protectedProcedure
+    .input(
+      z.object({
+        query: z.string(),
+        episodeId: z.string().optional(),
+        limit: z.number().int().min(1).max(50).optional().default(10),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!input.query.trim()) {
+        return [];
+      }
+
+      return await searchTranscriptChunks({
+        db: ctx.db,
+        userId: ctx.user.id,
+        query: input.query,
+        episodeId: input.episodeId,
+        limit: input.limit,
+      });
+    }),
+
+  episodeDetails: protectedProcedure
+    .input(
+      z.object({
+        episodeIds: z.array(z.string()).max(50),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return await getEpisodeDetails({
+        db: ctx.db,
+        userId: ctx.user.id,
+        episodeIds: input.episodeIds,
+      });
+    }),
+});
@@ -1,22 +1,46 @@
 import { randomUUID } from "node:crypto";
 import { TRPCError } from "@trpc/server";
-import { and, desc, eq, isNull, or, sql } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, isNull, or, sql } from "drizzle-orm";
 import { z } from "zod";
 import { inngest } from "@/inngest/client";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
-import { episode, episodeSummary, podcast } from "@/server/db/schema/podcast";
-import { createTRPCRouter, protectedProcedure, publicProcedure } from "../init";
+import {
+  episode,
+  episodeChapter,
+  episodeSummary,
+  podcast,
+} from "@/server/db/schema/podcast";
+import { checkEntitlements } from "@/server/lib/billing";
+import {
+  findStaleEmbeddingEpisodes,
+  getEmbeddingProvider,
+} from "@/server/lib/embeddings";
+import {
+  playbackFilterCondition,
+  playbackFilterSchema,
+} from "@/server/lib/playback-progress";
+import { getSpeakerMappings } from "@/server/lib/speaker-identification";
+import { searchTranscripts } from "@/server/lib/transcript-search";
+import {
+  getTranscriptProxyPath,
+  withTranscriptProxyPath,
+} from "@/server/lib/transcript-storage";
+import { createTRPCRouter, protectedProcedure } from "../init";
 
 export const episodesRouter = createTRPCRouter({
-  get: publicProcedure
+  get: protectedProcedure
     .input(
       z.object({
         episodeId: z.string(),
       }),
     )
     .query(async ({ ctx, input }) => {
+      // Public access goes through share links, never by episode ID
       const episodeData = await ctx.db.query.episode.findFirst({
-        where: and(eq(episode.id, input.episodeId)),
+        where: and(
+          eq(episode.id, input.episodeId),
+          eq(episode.userId, ctx.user.id),
+        ),
         with: {
           podcast: true,
           summary: true,
@@ -30,10 +54,13 @@ export const episodesRouter = createTRPCRouter({
       });
 
       if (!episodeData) {
-        throw new Error("Episode not found");
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Episode not found",
+        });
       }
 
-      return episodeData;
+      return withTranscriptProxyPath(episodeData);
     }),
 
   getUnprocessed: protectedProcedure
@@ -58,7 +85,7 @@ export const episodesRouter = createTRPCRouter({
         },
       });
 
-      return rows;
+      return rows.map(withTranscriptProxyPath);
     }),
 
   getEpisodes: protectedProcedure
@@ -66,6 +93,7 @@ export const episodesRouter = createTRPCRouter({
       z
         .object({
           limit: z.number().int().min(1).max(100).optional(),
+          playback: playbackFilterSchema.optional(),
         })
         .optional(),
     )
@@ -73,16 +101,27 @@ export const episodesRouter = createTRPCRouter({
       const limit = input?.limit ?? 50;
 
       const rows = await ctx.db.query.episode.findMany({
-        where: and(eq(episode.userId, ctx.user.id), isNull(episode.hiddenAt)),
+        where: and(
+          eq(episode.userId, ctx.user.id),
+          isNull(episode.hiddenAt),
+          playbackFilterCondition(input?.playback, ctx.user.id),
+        ),
         limit,
         orderBy: [desc(episode.publishedAt)],
         with: {
           podcast: true,
           summary: true,
+          playbackProgress: {
+            columns: {
+              positionSec: true,
+              durationSec: true,
+              completedAt: true,
+            },
+          },
         },
       });
 
-      return rows;
+      return rows.map(withTranscriptProxyPath);
     }),
 
   searchGlobal: protectedProcedure
@@ -141,6 +180,52 @@ export const episodesRouter = createTRPCRouter({
       return results;
     }),
 
+  searchTranscripts: protectedProcedure
+    .input(
+      z.object({
+        query: z.string(),
+        limit: z.number().int().min(1).max(50).optional().default(20),
+        podcastId: z.string().optional(),
+        semantic: z.boolean().optional().default(true),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (!input.query.trim()) {
+        return [];
+      }
+
+      if (input.semantic) {
+        // Chunks embedded with another model are left out of semantic
+        // matches; re-embed them. The event id keeps this to one backfill
+        // per user and model a day.
+        const model = getEmbeddingProvider().id;
+        const staleEpisodeIds = await findStaleEmbeddingEpisodes({
+          db: ctx.db,
+          userId: ctx.user.id,
+          model,
+        });
+        if (staleEpisodeIds.length > 0) {
+          console.warn(
+            `[Search] ${staleEpisodeIds.length} episodes for user ${ctx.user.id} have chunks embedded with a model other than ${model}; queueing re-embedding`,
+          );
+          await inngest.send({
+            id: `embeddings-backfill-${ctx.user.id}-${model}`,
+            name: "app/embeddings.backfill",
+            data: { pipelineRunId: randomUUID(), userId: ctx.user.id },
+          });
+        }
+      }
+
+      return searchTranscripts({
+        db: ctx.db,
+        userId: ctx.user.id,
+        query: input.query.trim(),
+        podcastId: input.podcastId,
+        limit: input.limit,
+        semantic: input.semantic,
+      });
+    }),
+
   processEpisode: protectedProcedure
     .input(
       z.object({
@@ -175,6 +260,7 @@ export const episodesRouter = createTRPCRouter({
           status: true,
           processingStartedAt: true,
         },
+        with: { summary: { columns: { id: true } } },
       });
 
       if (!episodeRecord) {
@@ -192,6 +278,19 @@ export const episodesRouter = createTRPCRouter({
         }
       }
 
+      // Processing makes a summary if there's none. Transcription minutes are
+      // checked by the pipeline, and only if it falls back to Deepgram.
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        summaries: episodeRecord.summary ? 0 : 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       const now = new Date();
       const updateData: {
         status: "processing";
@@ -271,6 +370,17 @@ export const episodesRouter = createTRPCRouter({
         throw new Error("Episode not found");
       }
 
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        summaries: 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       const now = new Date();
       await ctx.db
         .update(episode)
@@ -302,12 +412,135 @@ export const episodesRouter = createTRPCRouter({
     .input(z.object({ episodeId: z.string() }))
     .query(async ({ ctx, input }) => {
       const summaryRecord = await ctx.db.query.episodeSummary.findFirst({
-        where: eq(episodeSummary.episodeId, input.episodeId),
+        where: and(
+          eq(episodeSummary.episodeId, input.episodeId),
+          inArray(
+            episodeSummary.episodeId,
+            ctx.db
+              .select({ id: episode.id })
+              .from(episode)
+              .where(eq(episode.userId, ctx.user.id)),
+          ),
+        ),
       });
 
       return summaryRecord;
     }),
 
+  getChapters: protectedProcedure
+    .input(z.object({ episodeId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db
+        .select({
+          id: episodeChapter.id,
+          title: episodeChapter.title,
+          startTimeSec: episodeChapter.startTimeSec,
+          endTimeSec: episodeChapter.endTimeSec,
+          source: episodeChapter.source,
+        })
+        .from(episodeChapter)
+        .innerJoin(episode, eq(episode.id, episodeChapter.episodeId))
+        .where(
+          and(
+            eq(episodeChapter.episodeId, input.episodeId),
+            eq(episode.userId, ctx.user.id),
+          ),
+        )
+        .orderBy(asc(episodeChapter.position));
+    }),
+
+  generateChapters: protectedProcedure
+    .input(z.object({ episodeId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const rateLimitResult = await checkRateLimit(
+        `episode-chapters:${ctx.user.id}`,
+        { limit: 10, windowMs: 60 * 60 * 1000 },
+      );
+
+      if (!rateLimitResult.success) {
+        const resetIn = Math.ceil(
+          (rateLimitResult.resetAt - Date.now()) / 1000 / 60,
+        );
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: `Rate limit exceeded. Try again in ${resetIn} minutes.`,
+        });
+      }
+
+      const episodeRecord = await ctx.db.query.episode.findFirst({
+        where: and(
+          eq(episode.id, input.episodeId),
+          eq(episode.userId, ctx.user.id),
+        ),
+        columns: { id: true },
+      });
+
+      if (!episodeRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Episode not found",
+        });
+      }
+
+      const pipelineRunId = randomUUID();
+
+      await inngest.send({
+        name: "app/chapters.episode.generate",
+        data: {
+          pipelineRunId,
+          userId: ctx.user.id,
+          episodeId: input.episodeId,
+          force: true,
+        },
+      });
+
+      return {
+        status: "dispatched" as const,
+        pipelineRunId,
+      };
+    }),
+
+  getTranscript: protectedProcedure
+    .input(z.object({ episodeId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const episodeRecord = await ctx.db.query.episode.findFirst({
+        where: and(
+          eq(episode.id, input.episodeId),
+          eq(episode.userId, ctx.user.id),
+        ),
+        with: {
+          transcriptChunks: {
+            orderBy: (chunks, { asc }) => [asc(chunks.startTimeSec)],
+          },
+        },
+      });
+
+      if (!episodeRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Episode not found",
+        });
+      }
+
+      const speakers = (
+        await getSpeakerMappings({ db: ctx.db, episodeIds: [episodeRecord.id] })
+      ).get(episodeRecord.id);
+
+      return {
+        episodeId: episodeRecord.id,
+        title: episodeRecord.title,
+        segments: episodeRecord.transcriptChunks.map((chunk) => ({
+          startTimeSec: chunk.startTimeSec,
+          endTimeSec: chunk.endTimeSec,
+          speaker:
+            chunk.speaker !== null
+              ? (speakers?.[chunk.speaker] ?? `Speaker ${chunk.speaker}`)
+              : null,
+          text: chunk.content,
+        })),
+      };
+    }),
+
   getContent: protectedProcedure
     .input(z.object({ episodeId: z.string() }))
     .query(async ({ ctx, input }) => {
@@ -345,7 +578,14 @@ export const episodesRouter = createTRPCRouter({
     }),
 
   generateSummary: protectedProcedure
-    .input(z.object({ episodeId: z.string(), force: z.boolean().optional() }))
+    .input(
+      z.object({
+        episodeId: z.string(),
+        force: z.boolean().optional(),
+        // Omit for the podcast's default template, null for the built-in summary
+        templateId: z.string().nullable().optional(),
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
       const rateLimitResult = await checkRateLimit(
         `episode-summary:${ctx.user.id}`,
@@ -384,6 +624,17 @@ export const episodesRouter = createTRPCRouter({
         });
       }
 
+      const entitlement = await checkEntitlements(ctx.user.id, {
+        summaries: 1,
+      });
+
+      if (!entitlement.allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: entitlement.message,
+        });
+      }
+
       const pipelineRunId = randomUUID();
 
       await inngest.send({
@@ -393,6 +644,7 @@ export const episodesRouter = createTRPCRouter({
           userId: ctx.user.id,
           episodeId: input.episodeId,
           force: input.force ?? true,
+          templateId: input.templateId,
         },
       });
 
@@ -449,11 +701,12 @@ export const episodesRouter = createTRPCRouter({
       if (episodeRecord.transcriptUrl) {
         return {
           status: "exists" as const,
-          transcriptUrl: episodeRecord.transcriptUrl,
+          transcriptUrl: getTranscriptProxyPath(episodeRecord.id),
         };
       }
 
-      // Trigger transcript-only fetch via Inngest
+      // Trigger transcript-only fetch via Inngest. Transcription minutes are
+      // checked by the pipeline, and only if it falls back to Deepgram.
       const pipelineRunId = crypto.randomUUID();
 
       await inngest.send({
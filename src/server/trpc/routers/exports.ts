@@ -1,11 +1,11 @@
 import { eq } from "drizzle-orm";
-import { nanoid } from "nanoid";
 import { userExportSettings } from "@/server/db/schema/podcast";
-import { createTRPCRouter, protectedProcedure } from "../init";
+import { setLastExportedAt } from "@/server/lib/export";
+import { createTRPCRouter, scopedProcedure } from "../init";
 
 export const exportsRouter = createTRPCRouter({
   // Get export settings (last sync date)
-  getSettings: protectedProcedure.query(async ({ ctx }) => {
+  getSettings: scopedProcedure("export").query(async ({ ctx }) => {
     const [settings] = await ctx.db
       .select()
       .from(userExportSettings)
@@ -16,25 +16,8 @@ export const exportsRouter = createTRPCRouter({
   }),
 
   // Update last exported timestamp manually
-  updateLastExportedAt: protectedProcedure.mutation(async ({ ctx }) => {
-    const existingSettings = await ctx.db
-      .select()
-      .from(userExportSettings)
-      .where(eq(userExportSettings.userId, ctx.user.id))
-      .limit(1);
-
-    if (existingSettings.length > 0) {
-      await ctx.db
-        .update(userExportSettings)
-        .set({ lastExportedAt: new Date() })
-        .where(eq(userExportSettings.userId, ctx.user.id));
-    } else {
-      await ctx.db.insert(userExportSettings).values({
-        id: nanoid(),
-        userId: ctx.user.id,
-        lastExportedAt: new Date(),
-      });
-    }
+  updateLastExportedAt: scopedProcedure("export").mutation(async ({ ctx }) => {
+    await setLastExportedAt({ db: ctx.db, userId: ctx.user.id });
 
     return { success: true };
   }),
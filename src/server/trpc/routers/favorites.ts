@@ -2,6 +2,7 @@ import { randomUUID } from "node:crypto";
 import { and, desc, eq } from "drizzle-orm";
 import { z } from "zod";
 import { favorite } from "@/server/db/schema/podcast";
+import { withTranscriptProxyPath } from "@/server/lib/transcript-storage";
 import { createTRPCRouter, protectedProcedure } from "../init";
 
 export const favoritesRouter = createTRPCRouter({
@@ -23,7 +24,10 @@ export const favoritesRouter = createTRPCRouter({
       },
     });
 
-    return favorites;
+    return favorites.map((item) => ({
+      ...item,
+      episode: item.episode ? withTranscriptProxyPath(item.episode) : null,
+    }));
   }),
 
   toggle: protectedProcedure
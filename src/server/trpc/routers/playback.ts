@@ -0,0 +1,153 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, gte, isNotNull, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { PLAYBACK_RESUME_MIN_SEC, PLAYBACK_STATES } from "@/lib/playback";
+import { episode, playbackProgress } from "@/server/db/schema/podcast";
+import { saveProgress, setPlayed } from "@/server/lib/playback-progress";
+import type { DatabaseClient } from "@/server/lib/transcript-processing";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+async function assertEpisodeOwner({
+  db,
+  userId,
+  episodeId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  episodeId: string;
+}) {
+  const episodeData = await db.query.episode.findFirst({
+    where: and(eq(episode.id, episodeId), eq(episode.userId, userId)),
+    columns: { id: true },
+  });
+
+  if (!episodeData) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Episode not found",
+    });
+  }
+}
+
+export const playbackRouter = createTRPCRouter({
+  getProgress: protectedProcedure
+    .input(z.object({ episodeId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const progress = await ctx.db.query.playbackProgress.findFirst({
+        where: and(
+          eq(playbackProgress.userId, ctx.user.id),
+          eq(playbackProgress.episodeId, input.episodeId),
+        ),
+      });
+
+      return progress ?? null;
+    }),
+
+  saveProgress: protectedProcedure
+    .input(
+      z.object({
+        episodeId: z.string(),
+        positionSec: z.number().min(0),
+        durationSec: z.number().positive().nullish(),
+        // The player reached the end of the audio
+        ended: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertEpisodeOwner({
+        db: ctx.db,
+        userId: ctx.user.id,
+        episodeId: input.episodeId,
+      });
+
+      return saveProgress({
+        db: ctx.db,
+        userId: ctx.user.id,
+        episodeId: input.episodeId,
+        positionSec: input.positionSec,
+        durationSec: input.durationSec,
+        ended: input.ended,
+      });
+    }),
+
+  setPlayed: protectedProcedure
+    .input(z.object({ episodeId: z.string(), played: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertEpisodeOwner({
+        db: ctx.db,
+        userId: ctx.user.id,
+        episodeId: input.episodeId,
+      });
+
+      await setPlayed({
+        db: ctx.db,
+        userId: ctx.user.id,
+        episodeId: input.episodeId,
+        played: input.played,
+      });
+
+      return { success: true };
+    }),
+
+  history: protectedProcedure
+    .input(
+      z
+        .object({
+          state: z.enum(PLAYBACK_STATES).exclude(["unplayed"]).optional(),
+          limit: z.number().int().min(1).max(100).optional().default(50),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      const state = input?.state;
+
+      return ctx.db.query.playbackProgress.findMany({
+        where: and(
+          eq(playbackProgress.userId, ctx.user.id),
+          state === "played"
+            ? isNotNull(playbackProgress.completedAt)
+            : state === "in_progress"
+              ? and(
+                  isNull(playbackProgress.completedAt),
+                  gte(playbackProgress.positionSec, PLAYBACK_RESUME_MIN_SEC),
+                )
+              : undefined,
+        ),
+        orderBy: [desc(playbackProgress.lastPlayedAt)],
+        limit: input?.limit ?? 50,
+        with: {
+          episode: {
+            columns: {
+              id: true,
+              title: true,
+              audioUrl: true,
+              durationSec: true,
+              thumbnailUrl: true,
+              publishedAt: true,
+            },
+            with: {
+              podcast: {
+                columns: { id: true, title: true, imageUrl: true },
+              },
+            },
+          },
+        },
+      });
+    }),
+
+  // Drops an episode from history; it reads as unplayed afterwards
+  remove: protectedProcedure
+    .input(z.object({ episodeId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(playbackProgress)
+        .where(
+          and(
+            eq(playbackProgress.userId, ctx.user.id),
+            eq(playbackProgress.episodeId, input.episodeId),
+          ),
+        );
+
+      return { success: true };
+    }),
+});
@@ -1,8 +1,21 @@
+import { TRPCError } from "@trpc/server";
 import { and, asc, count, desc, eq, ilike, not, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import Parser from "rss-parser";
 import { z } from "zod";
 import { episode, podcast } from "@/server/db/schema/podcast";
+import { checkEntitlements, syncFeedUsage } from "@/server/lib/billing";
+import {
+  playbackFilterCondition,
+  playbackFilterSchema,
+} from "@/server/lib/playback-progress";
+import {
+  extractPodcastNamespaceFields,
+  PODCAST_NAMESPACE_CUSTOM_FIELDS,
+} from "@/server/lib/podcasting20";
+import { resolveSummaryTemplate } from "@/server/lib/summary-templates";
+import { transcriptProviderOrderSchema } from "@/server/lib/transcript-providers";
+import { withTranscriptProxyPath } from "@/server/lib/transcript-storage";
 import { createTRPCRouter, protectedProcedure } from "../init";
 
 export const podcastsRouter = createTRPCRouter({
@@ -45,6 +58,7 @@ export const podcastsRouter = createTRPCRouter({
       z.object({
         podcastId: z.string(),
         query: z.string().optional(),
+        playback: playbackFilterSchema.optional(),
         limit: z.number().int().min(1).max(50).optional().default(20),
         cursor: z
           .object({
@@ -91,13 +105,25 @@ export const podcastsRouter = createTRPCRouter({
           eq(episode.userId, ctx.user.id),
           cursorCondition,
           searchCondition,
+          playbackFilterCondition(input.playback, ctx.user.id),
         ),
         orderBy: [desc(orderTimestampExpr), desc(episode.id)],
         limit: limit + 1,
+        with: {
+          playbackProgress: {
+            columns: {
+              positionSec: true,
+              durationSec: true,
+              completedAt: true,
+            },
+          },
+        },
       });
 
       const hasMore = rows.length > limit;
-      const items = hasMore ? rows.slice(0, limit) : rows;
+      const items = (hasMore ? rows.slice(0, limit) : rows).map(
+        withTranscriptProxyPath,
+      );
 
       const nextCursor = hasMore
         ? {
@@ -201,6 +227,17 @@ export const podcastsRouter = createTRPCRouter({
           };
         }
 
+        const entitlement = await checkEntitlements(ctx.user.id, {
+          feeds: 1,
+        });
+
+        if (!entitlement.allowed) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: entitlement.message,
+          });
+        }
+
         const newPodcast = {
           id: nanoid(),
           podcastId,
@@ -213,6 +250,7 @@ export const podcastsRouter = createTRPCRouter({
         };
 
         await ctx.db.insert(podcast).values(newPodcast);
+        await syncFeedUsage(ctx.db, ctx.user.id);
 
         return {
           success: true,
@@ -220,6 +258,7 @@ export const podcastsRouter = createTRPCRouter({
           message: "Podcast added to library",
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("Add podcast error:", error);
         throw new Error("Failed to add podcast");
       }
@@ -243,6 +282,7 @@ export const podcastsRouter = createTRPCRouter({
               eq(podcast.userId, ctx.user.id),
             ),
           );
+        await syncFeedUsage(ctx.db, ctx.user.id);
         return { success: true, message: "Podcast removed from library" };
       } catch (error) {
         console.error("Remove podcast error:", error);
@@ -390,7 +430,9 @@ export const podcastsRouter = createTRPCRouter({
       };
 
       // Parse RSS feed
-      const parser = new Parser();
+      const parser = new Parser({
+        customFields: PODCAST_NAMESPACE_CUSTOM_FIELDS,
+      });
       // biome-ignore lint/suspicious/noExplicitAny: **
       let feedData: any;
       try {
@@ -468,6 +510,8 @@ export const podcastsRouter = createTRPCRouter({
                 : item.category || null,
               // Dublin Core namespace
               dcCreator: item["dc:creator"] || null,
+              // Podcasting 2.0 namespace
+              ...extractPodcastNamespaceFields(item, feedData),
               status: "pending" as const,
             },
           ];
@@ -540,6 +584,75 @@ export const podcastsRouter = createTRPCRouter({
       }
     }),
 
+  updateTranscriptSettings: protectedProcedure
+    .input(
+      z.object({
+        podcastId: z.string(),
+        // null falls back to the owner's order
+        transcriptProviders: transcriptProviderOrderSchema,
+        podscanPodcastId: z.string().trim().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [updated] = await ctx.db
+        .update(podcast)
+        .set({
+          transcriptProviders: input.transcriptProviders,
+          podscanPodcastId: input.podscanPodcastId || null,
+        })
+        .where(
+          and(eq(podcast.id, input.podcastId), eq(podcast.userId, ctx.user.id)),
+        )
+        .returning({ id: podcast.id });
+
+      if (!updated) {
+        throw new Error("Podcast not found");
+      }
+
+      return {
+        success: true,
+        message: "Transcript settings updated",
+      };
+    }),
+
+  updateSummaryTemplate: protectedProcedure
+    .input(
+      z.object({
+        podcastId: z.string(),
+        // null falls back to the built-in summary
+        templateId: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (
+        input.templateId &&
+        !(await resolveSummaryTemplate({
+          db: ctx.db,
+          userId: ctx.user.id,
+          templateId: input.templateId,
+        }))
+      ) {
+        throw new Error("Template not found");
+      }
+
+      const [updated] = await ctx.db
+        .update(podcast)
+        .set({ summaryTemplateId: input.templateId })
+        .where(
+          and(eq(podcast.id, input.podcastId), eq(podcast.userId, ctx.user.id)),
+        )
+        .returning({ id: podcast.id });
+
+      if (!updated) {
+        throw new Error("Podcast not found");
+      }
+
+      return {
+        success: true,
+        message: "Summary template updated",
+      };
+    }),
+
   validateYouTubeChannel: protectedProcedure
     .input(
       z.object({
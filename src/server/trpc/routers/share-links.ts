@@ -0,0 +1,166 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  article,
+  episode,
+  episodeSummary,
+  shareLink,
+} from "@/server/db/schema";
+import {
+  generateShareToken,
+  getSharePath,
+  isShareLinkActive,
+} from "@/server/lib/share-links";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+const MAX_ACTIVE_LINKS_PER_ITEM = 10;
+
+const sourceInput = z
+  .object({
+    episodeId: z.string().optional(),
+    articleId: z.string().optional(),
+  })
+  .refine((value) => Boolean(value.episodeId) !== Boolean(value.articleId), {
+    message: "Provide exactly one of episodeId or articleId",
+  });
+
+function sourceCondition(input: { episodeId?: string; articleId?: string }) {
+  return input.episodeId
+    ? eq(shareLink.episodeId, input.episodeId)
+    : eq(shareLink.articleId, input.articleId as string);
+}
+
+export const shareLinksRouter = createTRPCRouter({
+  list: protectedProcedure.input(sourceInput).query(async ({ ctx, input }) => {
+    const links = await ctx.db
+      .select()
+      .from(shareLink)
+      .where(
+        and(
+          eq(shareLink.userId, ctx.user.id),
+          sourceCondition(input),
+          isNull(shareLink.revokedAt),
+        ),
+      )
+      .orderBy(desc(shareLink.createdAt));
+
+    return links.map((link) => ({
+      id: link.id,
+      path: getSharePath(link.token),
+      viewCount: link.viewCount,
+      lastViewedAt: link.lastViewedAt,
+      expiresAt: link.expiresAt,
+      createdAt: link.createdAt,
+      active: isShareLinkActive(link),
+    }));
+  }),
+
+  create: protectedProcedure
+    .input(
+      z.intersection(
+        sourceInput,
+        z.object({
+          expiresInDays: z.number().int().min(1).max(365).nullable(),
+        }),
+      ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const owned = input.episodeId
+        ? await ctx.db.query.episode.findFirst({
+            where: and(
+              eq(episode.id, input.episodeId),
+              eq(episode.userId, ctx.user.id),
+            ),
+            columns: { id: true },
+          })
+        : await ctx.db.query.article.findFirst({
+            where: and(
+              eq(article.id, input.articleId as string),
+              eq(article.userId, ctx.user.id),
+            ),
+            columns: { id: true },
+          });
+
+      if (!owned) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: input.episodeId ? "Episode not found" : "Article not found",
+        });
+      }
+
+      const summary = await ctx.db.query.episodeSummary.findFirst({
+        where: input.episodeId
+          ? eq(episodeSummary.episodeId, input.episodeId)
+          : eq(episodeSummary.articleId, input.articleId as string),
+        columns: { id: true },
+      });
+
+      if (!summary) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Generate a summary before sharing",
+        });
+      }
+
+      const active = await ctx.db
+        .select({ id: shareLink.id })
+        .from(shareLink)
+        .where(
+          and(
+            eq(shareLink.userId, ctx.user.id),
+            sourceCondition(input),
+            isNull(shareLink.revokedAt),
+          ),
+        );
+
+      if (active.length >= MAX_ACTIVE_LINKS_PER_ITEM) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `You can have at most ${MAX_ACTIVE_LINKS_PER_ITEM} share links per item. Revoke one first.`,
+        });
+      }
+
+      const [created] = await ctx.db
+        .insert(shareLink)
+        .values({
+          id: nanoid(),
+          userId: ctx.user.id,
+          token: generateShareToken(),
+          episodeId: input.episodeId ?? null,
+          articleId: input.articleId ?? null,
+          expiresAt: input.expiresInDays
+            ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+            : null,
+        })
+        .returning();
+
+      return { id: created.id, path: getSharePath(created.token) };
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ shareLinkId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [revoked] = await ctx.db
+        .update(shareLink)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(shareLink.id, input.shareLinkId),
+            eq(shareLink.userId, ctx.user.id),
+            isNull(shareLink.revokedAt),
+          ),
+        )
+        .returning({ id: shareLink.id });
+
+      if (!revoked) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Share link not found",
+        });
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,397 @@
+import { randomUUID } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+import { and, asc, count, eq } from "drizzle-orm";
+import { z } from "zod";
+import { inngest } from "@/inngest/client";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { SIGNAL_INBOX_STATUSES } from "@/lib/signal-utils";
+import {
+  article,
+  chunkFeedback,
+  episode,
+  signal,
+  transcriptChunk,
+} from "@/server/db/schema";
+import { LLM_SAVE_THRESHOLD } from "@/server/lib/hybrid-types";
+import {
+  explainWithPreferences,
+  getQualityPreferences,
+  MIN_FEEDBACK_PER_LABEL,
+  recordChunkFeedback,
+  resetQualityPreferences,
+} from "@/server/lib/quality-preferences";
+import {
+  getSignalInbox,
+  getSignalInboxCounts,
+  getSignalInboxSources,
+} from "@/server/lib/signal-inbox";
+import { getSpeakerMappings } from "@/server/lib/speaker-identification";
+import type { DatabaseClient } from "@/server/lib/transcript-processing";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+async function listSignals({
+  db,
+  userId,
+  episodeId,
+  articleId,
+}: {
+  db: DatabaseClient;
+  userId: string;
+  episodeId?: string;
+  articleId?: string;
+}) {
+  const rows = await db
+    .select({
+      id: signal.id,
+      chunkId: signal.chunkId,
+      rank: signal.rank,
+      score: signal.score,
+      method: signal.method,
+      diagnostics: signal.diagnostics,
+      createdAt: signal.createdAt,
+      content: transcriptChunk.content,
+      speaker: transcriptChunk.speaker,
+      startTimeSec: transcriptChunk.startTimeSec,
+      endTimeSec: transcriptChunk.endTimeSec,
+      feedback: chunkFeedback.action,
+    })
+    .from(signal)
+    .innerJoin(transcriptChunk, eq(signal.chunkId, transcriptChunk.id))
+    .leftJoin(
+      chunkFeedback,
+      and(
+        eq(chunkFeedback.chunkId, signal.chunkId),
+        eq(chunkFeedback.userId, userId),
+      ),
+    )
+    .where(
+      and(
+        eq(signal.userId, userId),
+        episodeId
+          ? eq(signal.episodeId, episodeId)
+          : eq(signal.articleId, articleId as string),
+      ),
+    )
+    .orderBy(asc(signal.rank));
+
+  const speakers = episodeId
+    ? await getSpeakerMappings({ db, episodeIds: [episodeId] })
+    : new Map();
+  const mapping = episodeId ? speakers.get(episodeId) : undefined;
+
+  return rows.map((row) => ({
+    ...row,
+    speaker: row.speaker ? (mapping?.[row.speaker] ?? row.speaker) : null,
+    saveWorthy: row.score * 100 >= LLM_SAVE_THRESHOLD,
+  }));
+}
+
+export const signalsRouter = createTRPCRouter({
+  forEpisode: protectedProcedure
+    .input(z.object({ episodeId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const episodeRecord = await ctx.db.query.episode.findFirst({
+        where: and(
+          eq(episode.id, input.episodeId),
+          eq(episode.userId, ctx.user.id),
+        ),
+        columns: { id: true, signalsGeneratedAt: true },
+      });
+
+      if (!episodeRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Episode not found",
+        });
+      }
+
+      return {
+        generatedAt: episodeRecord.signalsGeneratedAt,
+        signals: await listSignals({
+          db: ctx.db,
+          userId: ctx.user.id,
+          episodeId: input.episodeId,
+        }),
+      };
+    }),
+
+  forArticle: protectedProcedure
+    .input(z.object({ articleId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const articleRecord = await ctx.db.query.article.findFirst({
+        where: and(
+          eq(article.id, input.articleId),
+          eq(article.userId, ctx.user.id),
+        ),
+        columns: { id: true, signalsGeneratedAt: true },
+      });
+
+      if (!articleRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Article not found",
+        });
+      }
+
+      return {
+        generatedAt: articleRecord.signalsGeneratedAt,
+        signals: await listSignals({
+          db: ctx.db,
+          userId: ctx.user.id,
+          articleId: input.articleId,
+        }),
+      };
+    }),
+
+  inbox: protectedProcedure
+    .input(
+      z.object({
+        kind: z.enum(["episodes", "articles"]),
+        status: z.enum(SIGNAL_INBOX_STATUSES).default("inbox"),
+        sourceId: z.string().optional(),
+        band: z.enum(["high", "medium", "low"]).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return getSignalInbox({
+        db: ctx.db,
+        userId: ctx.user.id,
+        filters: input,
+      });
+    }),
+
+  inboxSources: protectedProcedure
+    .input(z.object({ kind: z.enum(["episodes", "articles"]) }))
+    .query(async ({ ctx, input }) => {
+      return getSignalInboxSources({
+        db: ctx.db,
+        userId: ctx.user.id,
+        kind: input.kind,
+      });
+    }),
+
+  inboxCounts: protectedProcedure.query(async ({ ctx }) => {
+    return getSignalInboxCounts({ db: ctx.db, userId: ctx.user.id });
+  }),
+
+  snooze: protectedProcedure
+    .input(
+      z.object({
+        signalId: z.string(),
+        // null brings the signal back to the inbox
+        days: z.number().int().min(1).max(90).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const snoozedUntil =
+        input.days === null
+          ? null
+          : new Date(Date.now() + input.days * 24 * 60 * 60 * 1000);
+
+      const [updated] = await ctx.db
+        .update(signal)
+        .set({ snoozedUntil })
+        .where(
+          and(eq(signal.id, input.signalId), eq(signal.userId, ctx.user.id)),
+        )
+        .returning({ id: signal.id, snoozedUntil: signal.snoozedUntil });
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Signal not found",
+        });
+      }
+
+      return updated;
+    }),
+
+  regenerate: protectedProcedure
+    .input(
+      z
+        .object({
+          episodeId: z.string().optional(),
+          articleId: z.string().optional(),
+        })
+        .refine(
+          (value) => Boolean(value.episodeId) !== Boolean(value.articleId),
+          {
+            message: "Provide exactly one of episodeId or articleId",
+          },
+        ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (process.env.NODE_ENV === "production") {
+        const rateLimitResult = await checkRateLimit(
+          `signal-regeneration:${ctx.user.id}`,
+          RATE_LIMITS.SIGNAL_REGENERATION,
+        );
+
+        if (!rateLimitResult.success) {
+          const resetIn = Math.ceil(
+            (rateLimitResult.resetAt - Date.now()) / 1000 / 60,
+          );
+          throw new TRPCError({
+            code: "TOO_MANY_REQUESTS",
+            message: `Rate limit exceeded. Try again in ${resetIn} minutes.`,
+          });
+        }
+      }
+
+      const owned = input.episodeId
+        ? await ctx.db.query.episode.findFirst({
+            where: and(
+              eq(episode.id, input.episodeId),
+              eq(episode.userId, ctx.user.id),
+            ),
+            columns: { id: true },
+          })
+        : await ctx.db.query.article.findFirst({
+            where: and(
+              eq(article.id, input.articleId as string),
+              eq(article.userId, ctx.user.id),
+            ),
+            columns: { id: true },
+          });
+
+      if (!owned) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: input.episodeId ? "Episode not found" : "Article not found",
+        });
+      }
+
+      const chunk = await ctx.db.query.transcriptChunk.findFirst({
+        where: input.episodeId
+          ? eq(transcriptChunk.episodeId, input.episodeId)
+          : eq(transcriptChunk.articleId, input.articleId as string),
+        columns: { id: true },
+      });
+
+      if (!chunk) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Process this item before generating signals",
+        });
+      }
+
+      const pipelineRunId = randomUUID();
+
+      await inngest.send({
+        name: "app/signals.generate",
+        data: {
+          pipelineRunId,
+          userId: ctx.user.id,
+          episodeId: input.episodeId,
+          articleId: input.articleId,
+        },
+      });
+
+      return { status: "queued", pipelineRunId } as const;
+    }),
+
+  feedback: protectedProcedure
+    .input(
+      z.object({
+        chunkId: z.string(),
+        action: z.enum(["saved", "skipped"]).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await recordChunkFeedback({
+        db: ctx.db,
+        userId: ctx.user.id,
+        chunkId: input.chunkId,
+        action: input.action,
+      });
+
+      if (!result) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Chunk not found",
+        });
+      }
+
+      return result;
+    }),
+
+  explain: protectedProcedure
+    .input(z.object({ signalId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const [row] = await ctx.db
+        .select({
+          score: signal.score,
+          method: signal.method,
+          rank: signal.rank,
+          diagnostics: signal.diagnostics,
+          content: transcriptChunk.content,
+        })
+        .from(signal)
+        .innerJoin(transcriptChunk, eq(signal.chunkId, transcriptChunk.id))
+        .where(
+          and(eq(signal.id, input.signalId), eq(signal.userId, ctx.user.id)),
+        )
+        .limit(1);
+
+      if (!row) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Signal not found",
+        });
+      }
+
+      const preferences = await getQualityPreferences({
+        db: ctx.db,
+        userId: ctx.user.id,
+      });
+
+      return {
+        score: row.score,
+        method: row.method,
+        rank: row.rank,
+        diagnostics: row.diagnostics,
+        preferences: preferences
+          ? {
+              computedAt: preferences.computedAt,
+              topFeatures: explainWithPreferences(
+                row.content,
+                preferences.weights,
+              ),
+            }
+          : null,
+      };
+    }),
+
+  preferences: protectedProcedure.query(async ({ ctx }) => {
+    const preferences = await getQualityPreferences({
+      db: ctx.db,
+      userId: ctx.user.id,
+    });
+
+    const labelCounts = await ctx.db
+      .select({ action: chunkFeedback.action, total: count() })
+      .from(chunkFeedback)
+      .where(eq(chunkFeedback.userId, ctx.user.id))
+      .groupBy(chunkFeedback.action);
+
+    const countFor = (action: "saved" | "skipped") =>
+      labelCounts.find((row) => row.action === action)?.total ?? 0;
+
+    return {
+      saved: countFor("saved"),
+      skipped: countFor("skipped"),
+      minFeedbackPerLabel: MIN_FEEDBACK_PER_LABEL,
+      computedAt: preferences?.computedAt ?? null,
+      weights: preferences
+        ? Object.entries(preferences.weights)
+            .map(([feature, weight]) => ({ feature, weight }))
+            .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+        : [],
+    };
+  }),
+
+  resetPreferences: protectedProcedure.mutation(async ({ ctx }) => {
+    await resetQualityPreferences({ db: ctx.db, userId: ctx.user.id });
+    return { success: true };
+  }),
+});
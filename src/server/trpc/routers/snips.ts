@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { episode, snip } from "@/server/db/schema/podcast";
+import { resolveSnipContent, SNIP_MAX_DURATION_SEC } from "@/server/lib/snips";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+export const snipsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({ episodeId: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      return ctx.db.query.snip.findMany({
+        where: input?.episodeId
+          ? and(
+              eq(snip.userId, ctx.user.id),
+              eq(snip.episodeId, input.episodeId),
+            )
+          : eq(snip.userId, ctx.user.id),
+        orderBy: input?.episodeId
+          ? [snip.startTimeSec]
+          : [desc(snip.createdAt)],
+        with: {
+          episode: {
+            columns: {
+              id: true,
+              title: true,
+              audioUrl: true,
+              youtubeVideoId: true,
+              thumbnailUrl: true,
+              durationSec: true,
+            },
+            with: {
+              podcast: {
+                columns: { id: true, title: true, imageUrl: true },
+              },
+            },
+          },
+        },
+      });
+    }),
+
+  create: protectedProcedure
+    .input(
+      z
+        .object({
+          episodeId: z.string(),
+          startTimeSec: z.number().min(0),
+          endTimeSec: z.number().positive(),
+          // Left out when snipping from the player; read from the transcript
+          text: z.string().max(20000).optional(),
+          speaker: z.string().max(200).nullish(),
+          note: z.string().max(2000).nullish(),
+        })
+        .refine((value) => value.endTimeSec > value.startTimeSec, {
+          message: "A snip must end after it starts",
+          path: ["endTimeSec"],
+        })
+        .refine(
+          (value) =>
+            value.endTimeSec - value.startTimeSec <= SNIP_MAX_DURATION_SEC,
+          {
+            message: `A snip can be at most ${SNIP_MAX_DURATION_SEC / 60} minutes long`,
+            path: ["endTimeSec"],
+          },
+        ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const episodeData = await ctx.db.query.episode.findFirst({
+        where: and(
+          eq(episode.id, input.episodeId),
+          eq(episode.userId, ctx.user.id),
+        ),
+        columns: { id: true, transcriptUrl: true },
+      });
+
+      if (!episodeData) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Episode not found",
+        });
+      }
+
+      const content =
+        input.text === undefined
+          ? await resolveSnipContent({
+              db: ctx.db,
+              episode: episodeData,
+              startTimeSec: input.startTimeSec,
+              endTimeSec: input.endTimeSec,
+            })
+          : { text: input.text.trim(), speaker: input.speaker ?? null };
+
+      const [created] = await ctx.db
+        .insert(snip)
+        .values({
+          id: randomUUID(),
+          userId: ctx.user.id,
+          episodeId: episodeData.id,
+          startTimeSec: input.startTimeSec,
+          endTimeSec: input.endTimeSec,
+          text: content.text,
+          speaker: content.speaker,
+          note: input.note?.trim() || null,
+        })
+        .returning();
+
+      return created;
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        snipId: z.string(),
+        note: z.string().max(2000).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [updated] = await ctx.db
+        .update(snip)
+        .set({ note: input.note?.trim() || null })
+        .where(and(eq(snip.id, input.snipId), eq(snip.userId, ctx.user.id)))
+        .returning();
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Snip not found",
+        });
+      }
+
+      return updated;
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ snipId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await ctx.db
+        .delete(snip)
+        .where(and(eq(snip.id, input.snipId), eq(snip.userId, ctx.user.id)))
+        .returning({ id: snip.id });
+
+      if (deleted.length === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Snip not found",
+        });
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,225 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, ne } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  article,
+  episode,
+  episodeSummary,
+  summaryTemplate,
+  summaryVersion,
+} from "@/server/db/schema/podcast";
+import { summaryTemplateInputSchema } from "@/server/lib/summary-templates";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+const MAX_TEMPLATES = 20;
+
+const summarySourceSchema = z
+  .object({
+    episodeId: z.string().optional(),
+    articleId: z.string().optional(),
+  })
+  .refine((input) => Boolean(input.episodeId) !== Boolean(input.articleId), {
+    message: "Pass either episodeId or articleId",
+  });
+
+export const summariesRouter = createTRPCRouter({
+  listTemplates: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select()
+      .from(summaryTemplate)
+      .where(eq(summaryTemplate.userId, ctx.user.id))
+      .orderBy(asc(summaryTemplate.name));
+  }),
+
+  createTemplate: protectedProcedure
+    .input(summaryTemplateInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db
+        .select({ id: summaryTemplate.id, name: summaryTemplate.name })
+        .from(summaryTemplate)
+        .where(eq(summaryTemplate.userId, ctx.user.id));
+
+      if (existing.length >= MAX_TEMPLATES) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `You can have at most ${MAX_TEMPLATES} templates. Delete one first.`,
+        });
+      }
+
+      if (existing.some((template) => template.name === input.name)) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `You already have a template named "${input.name}"`,
+        });
+      }
+
+      const [created] = await ctx.db
+        .insert(summaryTemplate)
+        .values({ id: nanoid(), userId: ctx.user.id, ...input })
+        .returning();
+
+      return created;
+    }),
+
+  updateTemplate: protectedProcedure
+    .input(summaryTemplateInputSchema.extend({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...values } = input;
+
+      const [duplicate] = await ctx.db
+        .select({ id: summaryTemplate.id })
+        .from(summaryTemplate)
+        .where(
+          and(
+            eq(summaryTemplate.userId, ctx.user.id),
+            eq(summaryTemplate.name, values.name),
+            ne(summaryTemplate.id, id),
+          ),
+        );
+
+      if (duplicate) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `You already have a template named "${values.name}"`,
+        });
+      }
+
+      const [updated] = await ctx.db
+        .update(summaryTemplate)
+        .set(values)
+        .where(
+          and(
+            eq(summaryTemplate.id, id),
+            eq(summaryTemplate.userId, ctx.user.id),
+          ),
+        )
+        .returning();
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Template not found",
+        });
+      }
+
+      return updated;
+    }),
+
+  // Podcasts and feeds using it fall back to the built-in summary
+  deleteTemplate: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [deleted] = await ctx.db
+        .delete(summaryTemplate)
+        .where(
+          and(
+            eq(summaryTemplate.id, input.id),
+            eq(summaryTemplate.userId, ctx.user.id),
+          ),
+        )
+        .returning({ id: summaryTemplate.id });
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Template not found",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  // Newest first; `isCurrent` marks the one the Summary tab shows
+  listVersions: protectedProcedure
+    .input(summarySourceSchema)
+    .query(async ({ ctx, input }) => {
+      const { episodeId, articleId = "" } = input;
+      const owned = episodeId
+        ? await ctx.db.query.episode.findFirst({
+            where: and(
+              eq(episode.id, episodeId),
+              eq(episode.userId, ctx.user.id),
+            ),
+            columns: { id: true },
+            with: { summary: { columns: { versionId: true } } },
+          })
+        : await ctx.db.query.article.findFirst({
+            where: and(
+              eq(article.id, articleId),
+              eq(article.userId, ctx.user.id),
+            ),
+            columns: { id: true },
+            with: { summary: { columns: { versionId: true } } },
+          });
+
+      if (!owned) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: episodeId ? "Episode not found" : "Article not found",
+        });
+      }
+
+      const versions = await ctx.db
+        .select()
+        .from(summaryVersion)
+        .where(
+          episodeId
+            ? eq(summaryVersion.episodeId, episodeId)
+            : eq(summaryVersion.articleId, articleId),
+        )
+        .orderBy(desc(summaryVersion.createdAt));
+
+      return versions.map((version) => ({
+        ...version,
+        isCurrent: version.id === owned.summary?.versionId,
+      }));
+    }),
+
+  // Make an earlier version the one the Summary tab, search and exports use
+  pinVersion: protectedProcedure
+    .input(z.object({ versionId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const version = await ctx.db.query.summaryVersion.findFirst({
+        where: eq(summaryVersion.id, input.versionId),
+        with: {
+          episode: { columns: { userId: true } },
+          article: { columns: { userId: true } },
+        },
+      });
+
+      const ownerId = version?.episode?.userId ?? version?.article?.userId;
+      if (!version || ownerId !== ctx.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Summary version not found",
+        });
+      }
+
+      const [summary] = await ctx.db
+        .update(episodeSummary)
+        .set({
+          markdownContent: version.markdownContent,
+          structuredContent: version.structuredContent,
+          versionId: version.id,
+          // Now, not when the version was generated, so incremental exports
+          // pick up the change
+          summaryGeneratedAt: new Date(),
+        })
+        .where(
+          version.episodeId
+            ? eq(episodeSummary.episodeId, version.episodeId)
+            : eq(episodeSummary.articleId, version.articleId ?? ""),
+        )
+        .returning();
+
+      if (!summary) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Summary not found",
+        });
+      }
+
+      return summary;
+    }),
+});
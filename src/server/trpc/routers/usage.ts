@@ -0,0 +1,46 @@
+import { z } from "zod";
+import {
+  getRecentUsage,
+  getTopUsersByCost,
+  getUsageRollup,
+  USAGE_PERIODS,
+} from "@/server/lib/usage-ledger";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+const periodInput = z.object({
+  period: z.enum(USAGE_PERIODS).default("day"),
+});
+
+export const usageRouter = createTRPCRouter({
+  // The signed-in user's rollup and most recent calls
+  summary: protectedProcedure
+    .input(periodInput)
+    .query(async ({ ctx, input }) => {
+      const [rollup, recent] = await Promise.all([
+        getUsageRollup({
+          db: ctx.db,
+          userId: ctx.user.id,
+          period: input.period,
+        }),
+        getRecentUsage({ db: ctx.db, userId: ctx.user.id }),
+      ]);
+
+      return { ...rollup, recent };
+    }),
+
+  // Everyone's rollup and the most expensive users, for the admin dashboard
+  adminSummary: protectedProcedure
+    .input(periodInput)
+    .query(async ({ ctx, input }) => {
+      if (ctx.user?.role !== "admin") {
+        throw new Error("Unauthorized: Admin access required");
+      }
+
+      const [rollup, topUsers] = await Promise.all([
+        getUsageRollup({ db: ctx.db, period: input.period }),
+        getTopUsersByCost({ db: ctx.db, period: input.period }),
+      ]);
+
+      return { ...rollup, topUsers };
+    }),
+});
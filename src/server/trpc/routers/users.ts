@@ -1,6 +1,20 @@
 import { eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
 import { z } from "zod";
-import { user as usersTable } from "@/server/db/schema";
+import { userSettings, user as usersTable } from "@/server/db/schema";
+import {
+  availableModelIds,
+  MODEL_TASKS,
+  modelTasks,
+  resolveTaskModelIds,
+} from "@/server/lib/model-registry";
+import {
+  DEFAULT_TRANSCRIPT_PROVIDER_ORDER,
+  resolveTranscriptProviderOrder,
+  TRANSCRIPT_PROVIDER_IDS,
+  transcriptProviderOrderSchema,
+  transcriptProviders,
+} from "@/server/lib/transcript-providers";
 import { createTRPCRouter, protectedProcedure } from "../init";
 
 export const usersRouter = createTRPCRouter({
@@ -27,4 +41,98 @@ export const usersRouter = createTRPCRouter({
         .where(eq(usersTable.id, input.id));
       return user;
     }),
+
+  transcriptProviders: protectedProcedure.query(async ({ ctx }) => {
+    const [settings] = await ctx.db
+      .select({ transcriptProviders: userSettings.transcriptProviders })
+      .from(userSettings)
+      .where(eq(userSettings.userId, ctx.user.id))
+      .limit(1);
+
+    return {
+      order: resolveTranscriptProviderOrder({
+        userOrder: settings?.transcriptProviders,
+      }),
+      isDefault: !settings?.transcriptProviders?.length,
+      defaultOrder: DEFAULT_TRANSCRIPT_PROVIDER_ORDER,
+      providers: TRANSCRIPT_PROVIDER_IDS.map((id) => ({
+        id,
+        label: transcriptProviders[id].label,
+      })),
+    };
+  }),
+
+  // Pass null to go back to the default order
+  updateTranscriptProviders: protectedProcedure
+    .input(z.object({ providers: transcriptProviderOrderSchema }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .insert(userSettings)
+        .values({
+          id: nanoid(),
+          userId: ctx.user.id,
+          transcriptProviders: input.providers,
+        })
+        .onConflictDoUpdate({
+          target: userSettings.userId,
+          set: { transcriptProviders: input.providers },
+        });
+
+      return { success: true };
+    }),
+
+  models: protectedProcedure.query(async ({ ctx }) => {
+    const [settings] = await ctx.db
+      .select({ modelOverrides: userSettings.modelOverrides })
+      .from(userSettings)
+      .where(eq(userSettings.userId, ctx.user.id))
+      .limit(1);
+
+    return {
+      tasks: MODEL_TASKS.map((task) => ({
+        id: task,
+        label: modelTasks[task].label,
+        defaults: resolveTaskModelIds(task),
+        override: settings?.modelOverrides?.[task] ?? null,
+      })),
+      choices: availableModelIds(),
+    };
+  }),
+
+  // Pass null to go back to the task's default models
+  updateModelOverride: protectedProcedure
+    .input(
+      z.object({
+        task: z.enum(MODEL_TASKS),
+        model: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.model && !availableModelIds().includes(input.model)) {
+        throw new Error(`Model "${input.model}" is not available`);
+      }
+
+      const [settings] = await ctx.db
+        .select({ modelOverrides: userSettings.modelOverrides })
+        .from(userSettings)
+        .where(eq(userSettings.userId, ctx.user.id))
+        .limit(1);
+
+      const modelOverrides = { ...settings?.modelOverrides };
+      if (input.model) {
+        modelOverrides[input.task] = input.model;
+      } else {
+        delete modelOverrides[input.task];
+      }
+
+      await ctx.db
+        .insert(userSettings)
+        .values({ id: nanoid(), userId: ctx.user.id, modelOverrides })
+        .onConflictDoUpdate({
+          target: userSettings.userId,
+          set: { modelOverrides },
+        });
+
+      return { success: true };
+    }),
 });